@@ -1,8 +1,20 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
 import { 
   Users, 
   Wand2, 
@@ -15,21 +27,123 @@ import {
   Plus,
   Eye,
   Edit,
-  Trash2
+  Trash2,
+  Network,
+  SpellCheck,
+  Download,
+  Upload
 } from 'lucide-react';
 import { CharacterCreator } from './CharacterCreator';
+import { RelationshipMap } from './RelationshipMap';
+import { ScriptVoicePanel } from './ScriptVoicePanel';
+import { TemplatePanel } from './TemplatePanel';
+import { CharacterBibleExport } from './CharacterBibleExport';
 import { PerformanceSynthesizer } from './PerformanceSynthesizer';
 import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import { createBrowserCharacterRepository } from '@/lib/digital-soul-framework/character-repository';
+import { createBrowserCharacterVersionStore } from '@/lib/digital-soul-framework/character-version-store';
+import { createBrowserEpisodicMemoryStore } from '@/lib/digital-soul-framework/episodic-memory';
+import { createBrowserCharacterTemplateStore } from '@/lib/digital-soul-framework/character-templates';
+import { toCharacterCardV1 } from '@/lib/digital-soul-framework/character-card';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/utils';
 
 export const CastingStudioDashboard: React.FC = () => {
   const [characters, setCharacters] = useState<UnifiedCharacterOntology[]>([]);
   const [activeTab, setActiveTab] = useState('overview');
+  const [viewedCharacter, setViewedCharacter] = useState<UnifiedCharacterOntology | null>(null);
+  const cardInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const characterEngine = useMemo(
+    () => new CharacterDefinitionEngine(
+      createBrowserCharacterRepository(),
+      createBrowserCharacterVersionStore(),
+      undefined,
+      createBrowserEpisodicMemoryStore(),
+      createBrowserCharacterTemplateStore()
+    ),
+    []
+  );
+
+  useEffect(() => {
+    characterEngine.listCharacters()
+      .then(setCharacters)
+      .catch((error) => {
+        toast({
+          title: "Failed to Load Characters",
+          description: error instanceof Error ? error.message : "The character library could not be read.",
+          variant: "destructive"
+        });
+      });
+  }, [characterEngine, toast]);
 
   const handleCharacterCreated = (character: UnifiedCharacterOntology) => {
-    setCharacters(prev => [...prev, character]);
+    setCharacters(prev => [...prev.filter(existing => existing.id !== character.id), character]);
     setActiveTab('characters');
   };
 
+  const handleCharacterUpdated = (character: UnifiedCharacterOntology) => {
+    setCharacters(prev => prev.map(existing => existing.id === character.id ? character : existing));
+  };
+
+  const handleViewCharacter = (character: UnifiedCharacterOntology) => {
+    setViewedCharacter(character);
+    setActiveTab('create');
+  };
+
+  const handleDeleteCharacter = async (character: UnifiedCharacterOntology) => {
+    try {
+      await characterEngine.deleteCharacter(character.id);
+      setCharacters(prev => prev.filter(existing => existing.id !== character.id));
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : `${character.coreIdentity.name} could not be deleted.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExportCard = async (character: UnifiedCharacterOntology, format: 'png' | 'v2' | 'v1') => {
+    const fileName = character.coreIdentity.name.replace(/[^a-z0-9]+/gi, '_');
+    try {
+      if (format === 'png') {
+        downloadFile(`${fileName}.png`, await characterEngine.exportCharacterCardPng(character.id), 'image/png');
+      } else {
+        const card = format === 'v2' ? await characterEngine.exportCharacterCard(character.id) : toCharacterCardV1(character);
+        downloadFile(`${fileName}.${format}.json`, JSON.stringify(card, null, 2), 'application/json');
+      }
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : `${character.coreIdentity.name} could not be exported.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleImportCard = async (file: File) => {
+    try {
+      const isPng = file.type === 'image/png' || file.name.toLowerCase().endsWith('.png');
+      const character = await characterEngine.importCharacterCard(isPng ? new Uint8Array(await file.arrayBuffer()) : await file.text());
+      handleCharacterCreated(character);
+      toast({
+        title: "Card Imported",
+        description: `${character.coreIdentity.name} was added to the library.`
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : `${file.name} could not be imported.`,
+        variant: "destructive"
+      });
+    } finally {
+      if (cardInput.current) cardInput.current.value = '';
+    }
+  };
+
   const statsCards = [
     {
       title: 'Total Characters',
@@ -84,6 +198,12 @@ export const CastingStudioDashboard: React.FC = () => {
     }
   ];
 
+  // Feature badges that open a working view
+  const featureTabs: Record<string, string> = {
+    'Relationship Management': 'relationships',
+    'Voice Identity': 'voice'
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto p-6 space-y-8">
@@ -103,11 +223,14 @@ export const CastingStudioDashboard: React.FC = () => {
 
         {/* Main Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-9">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="create">Create Character</TabsTrigger>
             <TabsTrigger value="synthesizer">Performance Synthesizer</TabsTrigger>
             <TabsTrigger value="characters">Characters ({characters.length})</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="relationships">Relationships</TabsTrigger>
+            <TabsTrigger value="voice">Script Voice</TabsTrigger>
             <TabsTrigger value="projects">Projects</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
@@ -146,7 +269,12 @@ export const CastingStudioDashboard: React.FC = () => {
                     <CardContent>
                       <div className="flex flex-wrap gap-2">
                         {feature.features.map((item) => (
-                          <Badge key={item} variant="secondary" className="text-xs">
+                          <Badge
+                            key={item}
+                            variant={featureTabs[item] ? 'default' : 'secondary'}
+                            className={featureTabs[item] ? 'text-xs cursor-pointer' : 'text-xs'}
+                            onClick={featureTabs[item] ? () => setActiveTab(featureTabs[item]) : undefined}
+                          >
                             {item}
                           </Badge>
                         ))}
@@ -169,6 +297,14 @@ export const CastingStudioDashboard: React.FC = () => {
                     <Plus className="mr-2 h-4 w-4" />
                     Create Character
                   </Button>
+                  <Button variant="outline" onClick={() => setActiveTab('relationships')}>
+                    <Network className="mr-2 h-4 w-4" />
+                    Relationship Map
+                  </Button>
+                  <Button variant="outline" onClick={() => setActiveTab('voice')}>
+                    <SpellCheck className="mr-2 h-4 w-4" />
+                    Check Script Voice
+                  </Button>
                   <Button variant="outline">
                     <Video className="mr-2 h-4 w-4" />
                     New Project
@@ -188,7 +324,13 @@ export const CastingStudioDashboard: React.FC = () => {
 
           {/* Create Character Tab */}
           <TabsContent value="create">
-            <CharacterCreator onCharacterCreated={handleCharacterCreated} />
+            <CharacterCreator
+              engine={characterEngine}
+              selectedCharacter={viewedCharacter}
+              onCharacterCreated={handleCharacterCreated}
+              onCharacterUpdated={handleCharacterUpdated}
+              onCharacterClosed={() => setViewedCharacter(null)}
+            />
           </TabsContent>
 
           {/* Performance Synthesizer Tab */}
@@ -200,10 +342,26 @@ export const CastingStudioDashboard: React.FC = () => {
           <TabsContent value="characters" className="space-y-6">
             <div className="flex items-center justify-between">
               <h2 className="text-2xl font-bold">Character Library</h2>
-              <Button onClick={() => setActiveTab('create')}>
-                <Plus className="mr-2 h-4 w-4" />
-                Create New Character
-              </Button>
+              <div className="flex gap-2">
+                <input
+                  ref={cardInput}
+                  type="file"
+                  accept=".png,.json,image/png,application/json"
+                  className="hidden"
+                  onChange={(event) => event.target.files?.[0] && handleImportCard(event.target.files[0])}
+                />
+                <Button variant="outline" onClick={() => cardInput.current?.click()}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import Character Card
+                </Button>
+                {characters.length > 0 && (
+                  <CharacterBibleExport engine={characterEngine} title="Cast Bible" label="Cast Bible" />
+                )}
+                <Button onClick={() => setActiveTab('create')}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create New Character
+                </Button>
+              </div>
             </div>
 
             {characters.length === 0 ? (
@@ -228,15 +386,43 @@ export const CastingStudioDashboard: React.FC = () => {
                       <div className="flex items-center justify-between">
                         <CardTitle className="text-lg">{character.coreIdentity.name}</CardTitle>
                         <div className="flex gap-2">
-                          <Button size="sm" variant="ghost">
+                          <Button size="sm" variant="ghost" onClick={() => handleViewCharacter(character)}>
                             <Eye className="h-4 w-4" />
                           </Button>
                           <Button size="sm" variant="ghost">
                             <Edit className="h-4 w-4" />
                           </Button>
-                          <Button size="sm" variant="ghost">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button size="sm" variant="ghost">
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => handleExportCard(character, 'png')}>Character Card (PNG)</DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleExportCard(character, 'v2')}>Character Card V2 (JSON)</DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleExportCard(character, 'v1')}>Character Card V1 (JSON)</DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="ghost">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {character.coreIdentity.name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The character, its version history and its memories are removed permanently.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDeleteCharacter(character)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
                         </div>
                       </div>
                       <CardDescription>
@@ -269,6 +455,29 @@ export const CastingStudioDashboard: React.FC = () => {
             )}
           </TabsContent>
 
+          {/* Templates Tab */}
+          <TabsContent value="templates">
+            <TemplatePanel
+              engine={characterEngine}
+              onCharacterCreated={handleCharacterCreated}
+              onCharacterUpdated={handleCharacterUpdated}
+            />
+          </TabsContent>
+
+          {/* Relationships Tab */}
+          <TabsContent value="relationships">
+            <RelationshipMap
+              engine={characterEngine}
+              characters={characters}
+              onCharactersChanged={setCharacters}
+            />
+          </TabsContent>
+
+          {/* Script Voice Tab */}
+          <TabsContent value="voice">
+            <ScriptVoicePanel engine={characterEngine} characters={characters} />
+          </TabsContent>
+
           {/* Projects Tab */}
           <TabsContent value="projects">
             <Card>
@@ -314,4 +523,4 @@ export const CastingStudioDashboard: React.FC = () => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import { BIBLE_TEMPLATES, BibleFormat } from '@/lib/digital-soul-framework/character-bible';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/utils';
+
+interface CharacterBibleExportProps {
+  engine: CharacterDefinitionEngine;
+  characterIds?: string[]; // Omit to export the whole cast
+  title?: string;
+  label?: string;
+}
+
+const FORMATS: Array<{ format: BibleFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'pdf', label: 'PDF (print-ready)', extension: 'pdf', mimeType: 'application/pdf' },
+  { format: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+];
+
+export const CharacterBibleExport: React.FC<CharacterBibleExportProps> = ({
+  engine,
+  characterIds,
+  title,
+  label = 'Character Bible'
+}) => {
+  const [template, setTemplate] = useState('production');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async ({ format, extension, mimeType }: typeof FORMATS[number]) => {
+    setIsExporting(true);
+    try {
+      const content = await engine.exportCharacterBible(format, { characterIds, template, title });
+      const fileName = `${(title ?? 'Cast Bible').replace(/[^a-z0-9]+/gi, '_')}_${template}.${extension}`;
+      downloadFile(fileName, content, mimeType);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The character bible could not be generated.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <BookOpen className="mr-2 h-4 w-4" />}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Template</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={template} onValueChange={setTemplate}>
+          {Object.entries(BIBLE_TEMPLATES).map(([key, bibleTemplate]) => (
+            <DropdownMenuRadioItem key={key} value={key} onSelect={(event) => event.preventDefault()}>
+              {bibleTemplate.name}
+              {!bibleTemplate.includeSecrets && <span className="ml-auto text-xs text-muted-foreground">no secrets</span>}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Download</DropdownMenuLabel>
+        {FORMATS.map((option) => (
+          <DropdownMenuItem key={option.format} onClick={() => handleExport(option)}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
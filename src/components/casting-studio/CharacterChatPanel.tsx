@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Lock, MessageSquare, RotateCcw, Send, Unlock } from 'lucide-react';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import { CharacterChat, ChatMessage, SecretRevealCondition } from '@/lib/digital-soul-framework/character-chat';
+import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { useToast } from '@/hooks/use-toast';
+
+interface CharacterChatPanelProps {
+  engine: CharacterDefinitionEngine;
+  character: UnifiedCharacterOntology;
+}
+
+type RevealMode = 'trust' | 'turns' | 'keyword' | 'never';
+
+const toRevealCondition = (mode: RevealMode, value: string): SecretRevealCondition => {
+  switch (mode) {
+    case 'trust': return { type: 'trust', threshold: Number(value) || 70 };
+    case 'turns': return { type: 'turns', count: Number(value) || 8 };
+    case 'keyword': return { type: 'keyword', keywords: value.split(',').map((keyword) => keyword.trim()).filter(Boolean) };
+    default: return { type: 'never' };
+  }
+};
+
+const REVEAL_DEFAULTS: Record<RevealMode, string> = { trust: '70', turns: '8', keyword: '', never: '' };
+
+export const CharacterChatPanel: React.FC<CharacterChatPanelProps> = ({ engine, character }) => {
+  const [chat, setChat] = useState<CharacterChat | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [redactedAt, setRedactedAt] = useState<Set<number>>(new Set());
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [revealMode, setRevealMode] = useState<RevealMode>('trust');
+  const [revealValue, setRevealValue] = useState(REVEAL_DEFAULTS.trust);
+  const transcript = useRef<{ characterId: string; messages: ChatMessage[] }>({ characterId: character.id, messages: [] });
+  const { toast } = useToast();
+
+  // A new character starts a fresh interview; a new reveal rule replays the current one under that rule
+  useEffect(() => {
+    let cancelled = false;
+    const sameCharacter = transcript.current.characterId === character.id;
+    const history = sameCharacter ? transcript.current.messages : [];
+    engine.startConversation(character.id, { revealCondition: toRevealCondition(revealMode, revealValue), history })
+      .then((started) => {
+        if (cancelled) return;
+        transcript.current = { characterId: character.id, messages: started.messages };
+        setChat(started);
+        setMessages(started.messages);
+        if (!sameCharacter) setRedactedAt(new Set());
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: "Chat Unavailable",
+          description: error instanceof Error ? error.message : "The interview could not be started.",
+          variant: "destructive"
+        });
+      });
+    return () => { cancelled = true; };
+  }, [engine, character.id, revealMode, revealValue, toast]);
+
+  const handleSend = async () => {
+    if (!chat || !input.trim()) return;
+    setIsSending(true);
+    try {
+      const reply = await chat.send(input);
+      setInput('');
+      transcript.current = { characterId: character.id, messages: chat.messages };
+      setMessages(chat.messages);
+      if (reply.redacted) setRedactedAt((previous) => new Set(previous).add(chat.messages.length - 1));
+    } catch (error) {
+      toast({
+        title: "Message Failed",
+        description: error instanceof Error ? error.message : "The character did not answer.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReset = () => {
+    chat?.reset();
+    transcript.current = { characterId: character.id, messages: [] };
+    setMessages([]);
+    setRedactedAt(new Set());
+  };
+
+  const handleRevealModeChange = (mode: RevealMode) => {
+    setRevealMode(mode);
+    setRevealValue(REVEAL_DEFAULTS[mode]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Interview {character.coreIdentity.name}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={handleReset} disabled={messages.length === 0}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+        </div>
+        <CardDescription>
+          Talk to the character in their own voice; their secrets stay private until the reveal condition is met
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Reveal Secrets</Label>
+            <Select value={revealMode} onValueChange={(value) => handleRevealModeChange(value as RevealMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="trust">When trust reaches</SelectItem>
+                <SelectItem value="turns">After a number of questions</SelectItem>
+                <SelectItem value="keyword">When a keyword is mentioned</SelectItem>
+                <SelectItem value="never">Never</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {revealMode !== 'never' && (
+            <div className="space-y-2">
+              <Label>{revealMode === 'keyword' ? 'Keywords (comma separated)' : revealMode === 'trust' ? 'Trust threshold' : 'Questions'}</Label>
+              <Input value={revealValue} onChange={(event) => setRevealValue(event.target.value)} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>Trust</span>
+              <Badge variant={chat?.secretsRevealed ? 'default' : 'secondary'} className="text-xs flex items-center gap-1">
+                {chat?.secretsRevealed ? <Unlock className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                {chat?.secretsRevealed ? 'Secrets revealed' : 'Secrets withheld'}
+              </Badge>
+            </div>
+            <Progress value={chat?.trust ?? 0} />
+          </div>
+        </div>
+
+        <ScrollArea className="h-72 rounded-md border p-4">
+          {messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ask {character.coreIdentity.name.split(' ')[0]} anything: their work, their family, what keeps them up at night.</p>
+          ) : (
+            <div className="space-y-3">
+              {messages.map((message, index) => (
+                <div key={index} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+                  <div className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                    {message.content}
+                    {redactedAt.has(index) && (
+                      <p className="mt-1 text-xs text-muted-foreground">A withheld secret was removed from this reply.</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSend();
+          }}
+        >
+          <Input
+            placeholder={`Ask ${character.coreIdentity.name.split(' ')[0]} a question...`}
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            disabled={!chat || isSending}
+          />
+          <Button type="submit" disabled={!chat || isSending || !input.trim()}>
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,25 +1,56 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Wand2, User, Brain, Heart, Palette } from 'lucide-react';
+import { Loader2, Wand2, User, Users, Brain, Heart, Palette, FileText } from 'lucide-react';
 import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
-import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { PhysicalFeatureField, UnifiedCharacterOntology } from '@/lib/types/character-types';
 import { useToast } from '@/hooks/use-toast';
+import { CharacterHistoryPanel } from './CharacterHistoryPanel';
+import { CoherencePanel } from './CoherencePanel';
+import { CharacterChatPanel } from './CharacterChatPanel';
+import { CharacterBibleExport } from './CharacterBibleExport';
+
+const PHYSICAL_FEATURE_LABELS: Array<{ field: PhysicalFeatureField; label: string }> = [
+  { field: 'height', label: 'Height' },
+  { field: 'build', label: 'Build' },
+  { field: 'hairColor', label: 'Hair' },
+  { field: 'eyeColor', label: 'Eyes' },
+  { field: 'skinTone', label: 'Skin' }
+];
 
 interface CharacterCreatorProps {
+  engine?: CharacterDefinitionEngine;
+  selectedCharacter?: UnifiedCharacterOntology | null;
   onCharacterCreated?: (character: UnifiedCharacterOntology) => void;
+  onCharacterUpdated?: (character: UnifiedCharacterOntology) => void;
+  onCharacterClosed?: () => void;
 }
 
-export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterCreated }) => {
+export const CharacterCreator: React.FC<CharacterCreatorProps> = ({
+  engine,
+  selectedCharacter,
+  onCharacterCreated,
+  onCharacterUpdated,
+  onCharacterClosed
+}) => {
   const [description, setDescription] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [character, setCharacter] = useState<UnifiedCharacterOntology | null>(null);
   const { toast } = useToast();
 
-  const characterEngine = new CharacterDefinitionEngine();
+  const characterEngine = useMemo(() => engine ?? new CharacterDefinitionEngine(), [engine]);
+
+  useEffect(() => {
+    if (selectedCharacter) setCharacter(selectedCharacter);
+  }, [selectedCharacter]);
+
+  const handleCharacterUpdated = (updated: UnifiedCharacterOntology) => {
+    setCharacter(updated);
+    onCharacterUpdated?.(updated);
+  };
 
   const handleCreateCharacter = async () => {
     if (!description.trim()) {
@@ -36,10 +67,12 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
       const newCharacter = await characterEngine.createCharacter(description);
       setCharacter(newCharacter);
       onCharacterCreated?.(newCharacter);
-      
+
+      const warnings = characterEngine.getValidationWarnings(newCharacter.id);
       toast({
         title: "Character Created Successfully",
-        description: `${newCharacter.coreIdentity.name} has been brought to life with the Digital Soul Framework.`
+        description: `${newCharacter.coreIdentity.name} has been brought to life with the Digital Soul Framework.` +
+          (warnings.length > 0 ? ` Check: ${warnings.map((warning) => warning.message).join('; ')}.` : '')
       });
     } catch (error) {
       toast({
@@ -52,9 +85,59 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
     }
   };
 
+  const handleCreateCast = async () => {
+    if (!description.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const cast = await characterEngine.createCast(description);
+      cast.forEach((member) => onCharacterCreated?.(member));
+      setCharacter(cast[0]);
+
+      toast({
+        title: "Cast Created Successfully",
+        description: `Created ${cast.map((member) => member.coreIdentity.name).join(', ')} with their relationships linked.`
+      });
+    } catch (error) {
+      toast({
+        title: "Cast Creation Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleImportScript = async () => {
+    if (!description.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const { castingSheet, characters } = await characterEngine.importFountain(description, { seedCharacters: true });
+      characters.forEach((member) => onCharacterCreated?.(member));
+      if (characters.length > 0) setCharacter(characters[0]);
+
+      const leads = castingSheet.characters.filter((role) => role.importance === 'lead').map((role) => role.role);
+      toast({
+        title: "Screenplay Imported",
+        description: `${castingSheet.title}: ${castingSheet.scenes.length} scenes, ${castingSheet.characters.length} speaking roles${leads.length > 0 ? ` (leads: ${leads.join(', ')})` : ''}.`
+      });
+    } catch (error) {
+      toast({
+        title: "Screenplay Import Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
   const handleReset = () => {
     setCharacter(null);
     setDescription('');
+    onCharacterClosed?.();
   };
 
   if (character) {
@@ -65,9 +148,16 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
             <User className="h-6 w-6 text-primary" />
             <h2 className="text-2xl font-bold">{character.coreIdentity.name}</h2>
           </div>
-          <Button onClick={handleReset} variant="outline">
-            Create New Character
-          </Button>
+          <div className="flex gap-2">
+            <CharacterBibleExport
+              engine={characterEngine}
+              characterIds={[character.id]}
+              title={character.coreIdentity.name}
+            />
+            <Button onClick={handleReset} variant="outline">
+              Create New Character
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -196,10 +286,14 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
               <div>
                 <Label className="text-sm font-medium">Physical Features</Label>
                 <div className="space-y-1">
-                  <p className="text-xs text-muted-foreground">Height: {character.visualIdentity.physicalFeatures.height}</p>
-                  <p className="text-xs text-muted-foreground">Build: {character.visualIdentity.physicalFeatures.build}</p>
-                  <p className="text-xs text-muted-foreground">Hair: {character.visualIdentity.physicalFeatures.hairColor}</p>
-                  <p className="text-xs text-muted-foreground">Eyes: {character.visualIdentity.physicalFeatures.eyeColor}</p>
+                  {PHYSICAL_FEATURE_LABELS.map(({ field, label }) => (
+                    <p key={field} className="text-xs text-muted-foreground">
+                      {label}: {character.visualIdentity.physicalFeatures[field]}
+                      {character.visualIdentity.physicalFeatures.provenance?.[field] === 'inferred' && (
+                        <span className="italic"> (inferred)</span>
+                      )}
+                    </p>
+                  ))}
                 </div>
               </div>
               <div>
@@ -293,6 +387,16 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
             </CardContent>
           </Card>
         </div>
+
+        <CoherencePanel character={character} />
+
+        <CharacterChatPanel engine={characterEngine} character={character} />
+
+        <CharacterHistoryPanel
+          engine={characterEngine}
+          character={character}
+          onCharacterUpdated={handleCharacterUpdated}
+        />
       </div>
     );
   }
@@ -323,7 +427,7 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
           />
         </div>
 
-        <div className="flex justify-center">
+        <div className="flex justify-center gap-3">
           <Button 
             onClick={handleCreateCharacter}
             disabled={isCreating || !description.trim()}
@@ -342,6 +446,24 @@ export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ onCharacterC
               </>
             )}
           </Button>
+          <Button
+            onClick={handleCreateCast}
+            disabled={isCreating || !description.trim()}
+            size="lg"
+            variant="outline"
+          >
+            <Users className="mr-2 h-4 w-4" />
+            Create Cast
+          </Button>
+          <Button
+            onClick={handleImportScript}
+            disabled={isCreating || !description.trim()}
+            size="lg"
+            variant="outline"
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            Import Fountain Script
+          </Button>
         </div>
 
         <div className="text-sm text-muted-foreground bg-muted/50 p-4 rounded-lg">
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, RotateCcw, ArrowRight } from 'lucide-react';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import { CharacterVersionSummary } from '@/lib/digital-soul-framework/character-version-store';
+import { FieldChange } from '@/lib/digital-soul-framework/character-versioning';
+import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { useToast } from '@/hooks/use-toast';
+
+interface CharacterHistoryPanelProps {
+  engine: CharacterDefinitionEngine;
+  character: UnifiedCharacterOntology;
+  onCharacterUpdated?: (character: UnifiedCharacterOntology) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (Array.isArray(value)) {
+    if (value.length > 8 && value.every((item) => typeof item === 'number')) return `[${value.length} values]`;
+    return value.length === 0 ? '(none)' : value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+};
+
+const formatPath = (path: string): string =>
+  path.split('.').map((segment) => segment.replace(/([a-z])([A-Z])/g, '$1 $2')).join(' › ');
+
+const changeLevelVariant = {
+  major: 'destructive',
+  minor: 'default',
+  patch: 'secondary'
+} as const;
+
+export const CharacterHistoryPanel: React.FC<CharacterHistoryPanelProps> = ({
+  engine,
+  character,
+  onCharacterUpdated
+}) => {
+  const [versions, setVersions] = useState<CharacterVersionSummary[]>([]);
+  const [fromVersion, setFromVersion] = useState<string>();
+  const [toVersion, setToVersion] = useState<string>();
+  const [changes, setChanges] = useState<FieldChange[]>([]);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [loadError, setLoadError] = useState<string>();
+  const { toast } = useToast();
+
+  const loadHistory = useCallback(async () => {
+    const history = await engine.getCharacterHistory(character.id);
+    setLoadError(undefined);
+    setVersions(history);
+    if (history.length > 0) {
+      setFromVersion(history[Math.max(0, history.length - 2)].version);
+      setToVersion(history[history.length - 1].version);
+    }
+  }, [engine, character.id]);
+
+  useEffect(() => {
+    loadHistory().catch((error) => {
+      setVersions([]);
+      setLoadError(error instanceof Error ? error.message : 'The version history could not be loaded.');
+    });
+  }, [loadHistory, character.version]);
+
+  useEffect(() => {
+    if (!fromVersion || !toVersion) return;
+    engine.diffCharacterVersions(character.id, fromVersion, toVersion)
+      .then(setChanges)
+      .catch(() => setChanges([]));
+  }, [engine, character.id, fromVersion, toVersion]);
+
+  const handleRollback = async (version: string) => {
+    setIsRollingBack(true);
+    try {
+      const restored = await engine.rollbackCharacter(character.id, version, { author: 'Casting Studio' });
+      onCharacterUpdated?.(restored);
+      toast({
+        title: "Character Rolled Back",
+        description: `${restored.coreIdentity.name} now matches version ${version} (saved as v${restored.version}).`
+      });
+    } catch (error) {
+      toast({
+        title: "Rollback Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Compare any two versions of {character.coreIdentity.name} or restore an earlier one
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Versions</Label>
+          <ScrollArea className="h-64 rounded-md border">
+            <div className="p-3 space-y-3">
+              {loadError && <p className="text-xs text-destructive">{loadError}</p>}
+              {[...versions].reverse().map((summary) => (
+                <div key={summary.version} className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">v{summary.version}</span>
+                      {summary.change && (
+                        <Badge variant={changeLevelVariant[summary.change.changeLevel]} className="text-xs">
+                          {summary.change.changeLevel}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {summary.change
+                        ? `${summary.change.summary} — ${summary.change.author}`
+                        : 'Initial version'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{summary.savedAt.toLocaleString()}</p>
+                  </div>
+                  {summary.version !== character.version && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isRollingBack}
+                      onClick={() => handleRollback(summary.version)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={fromVersion} onValueChange={setFromVersion}>
+              <SelectTrigger><SelectValue placeholder="From" /></SelectTrigger>
+              <SelectContent>
+                {versions.map((summary) => (
+                  <SelectItem key={summary.version} value={summary.version}>v{summary.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <Select value={toVersion} onValueChange={setToVersion}>
+              <SelectTrigger><SelectValue placeholder="To" /></SelectTrigger>
+              <SelectContent>
+                {versions.map((summary) => (
+                  <SelectItem key={summary.version} value={summary.version}>v{summary.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScrollArea className="h-52 rounded-md border">
+            <div className="p-3 space-y-3">
+              {changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No differences between these versions.</p>
+              ) : (
+                changes.map((change) => (
+                  <div key={change.path} className="space-y-1">
+                    <p className="text-xs font-medium capitalize">{formatPath(change.path)}</p>
+                    <p className="text-xs">
+                      <span className="text-destructive line-through">{formatValue(change.oldValue)}</span>
+                      {' → '}
+                      <span className="text-primary">{formatValue(change.newValue)}</span>
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, CheckCircle, Scale } from 'lucide-react';
+import { CoherenceAnalyzer } from '@/lib/digital-soul-framework/coherence-analyzer';
+import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+
+interface CoherencePanelProps {
+  character: UnifiedCharacterOntology;
+}
+
+const coherenceAnalyzer = new CoherenceAnalyzer();
+
+export const CoherencePanel: React.FC<CoherencePanelProps> = ({ character }) => {
+  const report = useMemo(() => coherenceAnalyzer.analyze(character), [character]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Psychological Coherence
+        </CardTitle>
+        <CardDescription>
+          Checks that MBTI, OCEAN, archetypes and behavior describe the same person
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Progress value={report.score} className="flex-1" />
+          <span className="text-sm font-medium w-12 text-right">{report.score}/100</span>
+        </div>
+
+        {report.findings.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-primary" />
+            No contradictions found across frameworks.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {report.findings.map((finding, index) => (
+              <div key={`${finding.code}-${index}`} className="space-y-1 border-l-2 border-muted pl-3">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                  <Badge variant={finding.severity === 'contradiction' ? 'destructive' : 'secondary'} className="text-xs">
+                    {finding.severity}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{finding.frameworks.join(' vs ')}</span>
+                </div>
+                <p className="text-sm">{finding.message}</p>
+                <p className="text-xs text-muted-foreground">{finding.suggestion}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
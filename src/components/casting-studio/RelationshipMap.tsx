@@ -0,0 +1,619 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertCircle, Network, Pencil, RefreshCw } from 'lucide-react';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import { RelationshipIssue } from '@/lib/digital-soul-framework/relationship-graph';
+import { CharacterRelationship, RelationshipType, UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { useToast } from '@/hooks/use-toast';
+
+interface RelationshipMapProps {
+  engine: CharacterDefinitionEngine;
+  characters: UnifiedCharacterOntology[];
+  onCharactersChanged?: (characters: UnifiedCharacterOntology[]) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MapEdge {
+  from: UnifiedCharacterOntology;
+  to: UnifiedCharacterOntology;
+  relationship: CharacterRelationship;
+}
+
+interface RelationshipDraft {
+  id?: string;
+  fromId: string;
+  toId: string;
+  relationshipType: RelationshipType;
+  role: string;
+  strength: number;
+  description: string;
+  history: string;
+  currentStatus: string;
+  emotionalTone: string;
+  reciprocal: boolean;
+}
+
+const WIDTH = 800;
+const HEIGHT = 520;
+const NODE_RADIUS = 24;
+const EDGE_BEND = 18; // Offset of the first edge between a pair from the straight line
+const EDGE_BEND_STEP = 16; // Extra offset for each further edge in the same direction
+
+const TYPE_STYLES: Record<RelationshipType, { label: string; color: string }> = {
+  [RelationshipType.FAMILY]: { label: 'Family', color: '#f59e0b' },
+  [RelationshipType.ROMANTIC]: { label: 'Romantic', color: '#ec4899' },
+  [RelationshipType.FRIENDSHIP]: { label: 'Friendship', color: '#22c55e' },
+  [RelationshipType.PROFESSIONAL]: { label: 'Professional', color: '#3b82f6' },
+  [RelationshipType.ANTAGONISTIC]: { label: 'Antagonistic', color: '#ef4444' },
+  [RelationshipType.MENTOR_MENTEE]: { label: 'Mentor / Mentee', color: '#8b5cf6' },
+  [RelationshipType.ACQUAINTANCE]: { label: 'Acquaintance', color: '#94a3b8' }
+};
+
+const RELATIONSHIP_TYPES = Object.values(RelationshipType);
+
+// ==================== FORCE LAYOUT ====================
+
+/**
+ * Fruchterman-Reingold layout from a fixed circular start, so the same cast always lands in the same place
+ */
+function computeLayout(ids: string[], edges: MapEdge[], iterations = 300): Map<string, Point> {
+  const center = { x: WIDTH / 2, y: HEIGHT / 2 };
+  const positions = new Map<string, Point>(ids.map((id, index) => {
+    const angle = (index / Math.max(1, ids.length)) * Math.PI * 2;
+    const radius = ids.length > 1 ? Math.min(WIDTH, HEIGHT) / 3 : 0;
+    return [id, { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius }];
+  }));
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(1, ids.length)) * 0.45;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map<string, Point>(ids.map((id) => [id, { x: 0, y: 0 }]));
+
+    // Every pair repels
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i]);
+        const b = positions.get(ids[j]);
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(1, Math.hypot(dx, dy));
+        const force = (k * k) / distance;
+        const da = displacement.get(ids[i]);
+        const db = displacement.get(ids[j]);
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    // Edges pull, harder for stronger relationships
+    for (const { from, to, relationship } of edges) {
+      const a = positions.get(from.id);
+      const b = positions.get(to.id);
+      if (!a || !b || from.id === to.id) continue;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(1, Math.hypot(dx, dy));
+      const force = ((distance * distance) / k) * (0.5 + relationship.strength / 100);
+      const da = displacement.get(from.id);
+      const db = displacement.get(to.id);
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    }
+
+    // Gravity keeps disconnected characters close; the step size cools linearly
+    const maxStep = 40 * (1 - iteration / iterations) + 1;
+    for (const id of ids) {
+      const position = positions.get(id);
+      const delta = displacement.get(id);
+      delta.x += (center.x - position.x) * 0.5;
+      delta.y += (center.y - position.y) * 0.5;
+      const length = Math.max(1e-6, Math.hypot(delta.x, delta.y));
+      const step = Math.min(length, maxStep);
+      position.x += (delta.x / length) * step;
+      position.y += (delta.y / length) * step;
+    }
+  }
+  return fitToViewport(positions);
+}
+
+/**
+ * Scale and centre the finished layout into the drawing area, leaving room for node labels
+ */
+function fitToViewport(positions: Map<string, Point>): Map<string, Point> {
+  const points = [...positions.values()];
+  if (points.length === 0) return positions;
+  const margin = NODE_RADIUS * 2;
+  const minX = Math.min(...points.map((point) => point.x));
+  const maxX = Math.max(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  const maxY = Math.max(...points.map((point) => point.y));
+  const scale = Math.min(
+    (WIDTH - margin * 2) / Math.max(1, maxX - minX),
+    (HEIGHT - margin * 2) / Math.max(1, maxY - minY),
+    1.5
+  );
+  for (const point of points) {
+    point.x = WIDTH / 2 + (point.x - (minX + maxX) / 2) * scale;
+    point.y = HEIGHT / 2 + (point.y - (minY + maxY) / 2) * scale;
+  }
+  return positions;
+}
+
+/**
+ * Quadratic curve between two nodes, bowed to one side so A→B and B→A stay visible as separate edges;
+ * further edges in the same direction get a wider bend
+ */
+function edgePath(from: Point, to: Point, bend: number): string {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.max(1, Math.hypot(dx, dy));
+  const normal = { x: -dy / length, y: dx / length };
+  const control = { x: (from.x + to.x) / 2 + normal.x * bend, y: (from.y + to.y) / 2 + normal.y * bend };
+
+  // Stop at the rim of the target node so the arrowhead stays visible
+  const toControl = Math.max(1, Math.hypot(to.x - control.x, to.y - control.y));
+  const end = {
+    x: to.x - ((to.x - control.x) / toControl) * (NODE_RADIUS + 4),
+    y: to.y - ((to.y - control.y) / toControl) * (NODE_RADIUS + 4)
+  };
+  return `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join('');
+}
+
+function draftFor(from: UnifiedCharacterOntology, toId: string, relationship?: CharacterRelationship): RelationshipDraft {
+  const existing = relationship ?? from.relationships.find((candidate) => candidate.targetCharacterId === toId);
+  return {
+    id: existing?.id,
+    fromId: from.id,
+    toId,
+    relationshipType: existing?.relationshipType ?? RelationshipType.ACQUAINTANCE,
+    role: existing?.role ?? '',
+    strength: existing?.strength ?? 50,
+    description: existing?.description ?? '',
+    history: existing?.history ?? '',
+    currentStatus: existing?.currentStatus ?? '',
+    emotionalTone: existing?.emotionalTone ?? '',
+    reciprocal: !existing
+  };
+}
+
+// ==================== COMPONENT ====================
+
+export const RelationshipMap: React.FC<RelationshipMapProps> = ({ engine, characters, onCharactersChanged }) => {
+  const [visibleTypes, setVisibleTypes] = useState<Set<RelationshipType>>(() => new Set(RELATIONSHIP_TYPES));
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [dragFrom, setDragFrom] = useState<string | null>(null);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [draft, setDraft] = useState<RelationshipDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [issues, setIssues] = useState<RelationshipIssue[]>([]);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { toast } = useToast();
+
+  const byId = useMemo(() => new Map(characters.map((character) => [character.id, character])), [characters]);
+
+  const edges = useMemo<MapEdge[]>(() => characters.flatMap((from) =>
+    from.relationships
+      .filter((relationship) => byId.has(relationship.targetCharacterId))
+      .map((relationship) => ({ from, to: byId.get(relationship.targetCharacterId), relationship }))
+  ), [characters, byId]);
+
+  // The layout starts from the same circle every time, so re-running it after an edit keeps nodes in place
+  const positions = useMemo(
+    () => computeLayout(characters.map((character) => character.id), edges),
+    [characters, edges]
+  );
+
+  const visibleEdges = edges.filter(({ relationship }) => visibleTypes.has(relationship.relationshipType));
+
+  // Position of each visible edge among the edges drawn from the same owner to the same target
+  const edgeIndex = new Map<string, number>();
+  const pairCounts = new Map<string, number>();
+  for (const { from, to, relationship } of visibleEdges) {
+    const pair = `${from.id}|${to.id}`;
+    const index = pairCounts.get(pair) ?? 0;
+    edgeIndex.set(relationship.id, index);
+    pairCounts.set(pair, index + 1);
+  }
+  const selectedEdge = edges.find(({ relationship }) => relationship.id === selectedEdgeId) ?? null;
+
+  useEffect(() => {
+    engine.checkRelationships().then(setIssues).catch(() => setIssues([]));
+  }, [engine, characters]);
+
+  const toSvgPoint = (event: React.PointerEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+    return { x: transformed.x, y: transformed.y };
+  };
+
+  const toggleType = (type: RelationshipType) => {
+    setVisibleTypes((previous) => {
+      const next = new Set(previous);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const handleNodePointerUp = (targetId: string) => {
+    if (dragFrom && dragFrom !== targetId) {
+      setDraft(draftFor(byId.get(dragFrom), targetId));
+    }
+    setDragFrom(null);
+    setPointer(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await engine.setRelationship(draft.fromId, {
+        id: draft.id,
+        targetCharacterId: draft.toId,
+        relationshipType: draft.relationshipType,
+        role: draft.role.trim() || undefined,
+        strength: draft.strength,
+        description: draft.description,
+        history: draft.history,
+        currentStatus: draft.currentStatus,
+        emotionalTone: draft.emotionalTone
+      }, { reciprocal: draft.reciprocal });
+
+      // Reciprocal edges change the target as well, so reload the whole cast
+      onCharactersChanged?.(await engine.listCharacters());
+      toast({
+        title: draft.id ? "Relationship Updated" : "Relationship Created",
+        description: `${byId.get(draft.fromId)?.coreIdentity.name} → ${byId.get(draft.toId)?.coreIdentity.name}`
+      });
+      setDraft(null);
+    } catch (error) {
+      toast({
+        title: "Relationship Not Saved",
+        description: error instanceof Error ? error.message : "The relationship could not be saved.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSyncReciprocals = async () => {
+    try {
+      const updated = await engine.syncReciprocalRelationships();
+      onCharactersChanged?.(await engine.listCharacters());
+      toast({
+        title: "Reciprocals Synced",
+        description: updated.length > 0 ? `Updated ${updated.length} characters.` : "Every relationship already has its reciprocal."
+      });
+    } catch (error) {
+      toast({
+        title: "Sync Failed",
+        description: error instanceof Error ? error.message : "Reciprocal relationships could not be added.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (characters.length === 0) {
+    return (
+      <Card className="text-center py-12">
+        <CardContent>
+          <Network className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No Characters Yet</h3>
+          <p className="text-muted-foreground">Create characters to map their relationships.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const dragOrigin = dragFrom ? positions.get(dragFrom) : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Network className="h-5 w-5" />
+              Relationship Map
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={handleSyncReciprocals}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Sync Reciprocals
+            </Button>
+          </div>
+          <CardDescription>
+            Drag from one character to another to create or edit a relationship; click an edge for its details
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {RELATIONSHIP_TYPES.map((type) => (
+              <Badge
+                key={type}
+                variant={visibleTypes.has(type) ? 'default' : 'outline'}
+                className="cursor-pointer select-none"
+                style={visibleTypes.has(type) ? { backgroundColor: TYPE_STYLES[type].color } : { color: TYPE_STYLES[type].color }}
+                onClick={() => toggleType(type)}
+              >
+                {TYPE_STYLES[type].label}
+              </Badge>
+            ))}
+          </div>
+
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full rounded-md border bg-muted/20 touch-none"
+            onPointerMove={(event) => dragFrom && setPointer(toSvgPoint(event))}
+            onPointerUp={() => { setDragFrom(null); setPointer(null); }}
+            onPointerLeave={() => { setDragFrom(null); setPointer(null); }}
+          >
+            <defs>
+              {RELATIONSHIP_TYPES.map((type) => (
+                <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={TYPE_STYLES[type].color} />
+                </marker>
+              ))}
+            </defs>
+
+            {visibleEdges.map(({ from, to, relationship }) => {
+              const path = edgePath(positions.get(from.id), positions.get(to.id), EDGE_BEND + edgeIndex.get(relationship.id) * EDGE_BEND_STEP);
+              const selected = relationship.id === selectedEdgeId;
+              return (
+                <g key={relationship.id} className="cursor-pointer" onClick={() => setSelectedEdgeId(relationship.id)}>
+                  <path d={path} stroke="transparent" strokeWidth={14} fill="none" />
+                  <path
+                    d={path}
+                    fill="none"
+                    stroke={TYPE_STYLES[relationship.relationshipType].color}
+                    strokeWidth={1 + relationship.strength / 20}
+                    strokeOpacity={selected ? 1 : 0.35 + relationship.strength / 200}
+                    markerEnd={`url(#arrow-${relationship.relationshipType})`}
+                  />
+                </g>
+              );
+            })}
+
+            {dragOrigin && pointer && (
+              <line
+                x1={dragOrigin.x}
+                y1={dragOrigin.y}
+                x2={pointer.x}
+                y2={pointer.y}
+                stroke="currentColor"
+                strokeDasharray="6 4"
+                className="text-muted-foreground pointer-events-none"
+              />
+            )}
+
+            {characters.map((character) => {
+              const position = positions.get(character.id);
+              const highlighted = selectedEdge && (selectedEdge.from.id === character.id || selectedEdge.to.id === character.id);
+              return (
+                <g
+                  key={character.id}
+                  transform={`translate(${position.x} ${position.y})`}
+                  className="cursor-crosshair"
+                  onPointerDown={(event) => {
+                    event.preventDefault();
+                    // Touch input captures the pointer on the pressed node, which would send the pointerup back to it
+                    if (event.target instanceof Element && event.target.hasPointerCapture(event.pointerId)) {
+                      event.target.releasePointerCapture(event.pointerId);
+                    }
+                    setDragFrom(character.id);
+                    setPointer(toSvgPoint(event));
+                  }}
+                  onPointerUp={(event) => {
+                    event.stopPropagation();
+                    handleNodePointerUp(character.id);
+                  }}
+                >
+                  <circle
+                    r={NODE_RADIUS}
+                    className={highlighted || dragFrom === character.id ? 'fill-primary' : 'fill-background'}
+                    stroke="currentColor"
+                    strokeWidth={2}
+                  />
+                  <text
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className={`text-sm font-semibold pointer-events-none ${highlighted || dragFrom === character.id ? 'fill-primary-foreground' : 'fill-foreground'}`}
+                  >
+                    {initials(character.coreIdentity.name)}
+                  </text>
+                  <text y={NODE_RADIUS + 14} textAnchor="middle" className="text-xs fill-foreground pointer-events-none">
+                    {character.coreIdentity.name}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Relationship Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selectedEdge ? (
+              <div className="space-y-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {selectedEdge.from.coreIdentity.name} → {selectedEdge.to.coreIdentity.name}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(draftFor(selectedEdge.from, selectedEdge.to.id, selectedEdge.relationship))}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Badge style={{ backgroundColor: TYPE_STYLES[selectedEdge.relationship.relationshipType].color }}>
+                    {TYPE_STYLES[selectedEdge.relationship.relationshipType].label}
+                  </Badge>
+                  {selectedEdge.relationship.role && <Badge variant="outline">{selectedEdge.relationship.role}</Badge>}
+                  <Badge variant="secondary">Strength {selectedEdge.relationship.strength}</Badge>
+                </div>
+                {selectedEdge.relationship.description && <p>{selectedEdge.relationship.description}</p>}
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground">History</p>
+                  <p>{selectedEdge.relationship.history || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground">Current Status</p>
+                  <p>{selectedEdge.relationship.currentStatus || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground">Emotional Tone</p>
+                  <p>{selectedEdge.relationship.emotionalTone || '—'}</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Select an edge to see its history, status and tone.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Consistency</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {issues.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No contradictions between relationships.</p>
+            ) : (
+              <div className="space-y-3">
+                {issues.map((issue, index) => (
+                  <div key={`${issue.code}-${index}`} className="space-y-1 border-l-2 border-muted pl-3">
+                    <div className="flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 text-destructive" />
+                      <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'} className="text-xs">
+                        {issue.severity}
+                      </Badge>
+                    </div>
+                    <p className="text-sm">{issue.message}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          {draft && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{draft.id ? 'Edit Relationship' : 'New Relationship'}</DialogTitle>
+                <DialogDescription>
+                  What {byId.get(draft.toId)?.coreIdentity.name} is to {byId.get(draft.fromId)?.coreIdentity.name}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={draft.relationshipType}
+                      onValueChange={(value) => setDraft({ ...draft, relationshipType: value as RelationshipType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RELATIONSHIP_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{TYPE_STYLES[type].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Role</Label>
+                    <Input
+                      placeholder="e.g. sister, rival"
+                      value={draft.role}
+                      onChange={(event) => setDraft({ ...draft, role: event.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Strength: {draft.strength}</Label>
+                  <Slider
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={[draft.strength]}
+                    onValueChange={([strength]) => setDraft({ ...draft, strength })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Description</Label>
+                  <Input value={draft.description} onChange={(event) => setDraft({ ...draft, description: event.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>History</Label>
+                  <Textarea rows={3} value={draft.history} onChange={(event) => setDraft({ ...draft, history: event.target.value })} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Current Status</Label>
+                    <Input value={draft.currentStatus} onChange={(event) => setDraft({ ...draft, currentStatus: event.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Emotional Tone</Label>
+                    <Input value={draft.emotionalTone} onChange={(event) => setDraft({ ...draft, emotionalTone: event.target.value })} />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="relationship-reciprocal"
+                    checked={draft.reciprocal}
+                    onCheckedChange={(reciprocal) => setDraft({ ...draft, reciprocal })}
+                  />
+                  <Label htmlFor="relationship-reciprocal">Add the reciprocal relationship if missing</Label>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Relationship'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
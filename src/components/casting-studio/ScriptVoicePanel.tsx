@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { CheckCircle, FileText, Loader2, SpellCheck } from 'lucide-react';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import { SceneVoiceReport, VoiceLintIssue } from '@/lib/digital-soul-framework/dialogue-linter';
+import { FountainScript, parseFountain } from '@/lib/digital-soul-framework/fountain-importer';
+import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { useToast } from '@/hooks/use-toast';
+
+interface ScriptVoicePanelProps {
+  engine: CharacterDefinitionEngine;
+  characters: UnifiedCharacterOntology[];
+}
+
+const RULE_LABELS: Record<VoiceLintIssue['rule'], string> = {
+  'precise-language': 'Precise language',
+  'decisive-statements': 'Decisive statements',
+  'creative-metaphors': 'Creative metaphors',
+  pace: 'Pace',
+  education: 'Education',
+  languages: 'Languages',
+  era: 'Era'
+};
+
+/**
+ * Split a line at every issue boundary so overlapping issues underline the same span together
+ */
+const HighlightedLine: React.FC<{ text: string; issues: VoiceLintIssue[] }> = ({ text, issues }) => {
+  const boundaries = [...new Set([0, text.length, ...issues.flatMap((issue) => [issue.start, issue.end])])].sort((a, b) => a - b);
+
+  return (
+    <>
+      {boundaries.slice(0, -1).map((start, index) => {
+        const end = boundaries[index + 1];
+        const covering = issues.filter((issue) => issue.start <= start && issue.end >= end);
+        const segment = text.slice(start, end);
+        if (covering.length === 0) return <span key={start}>{segment}</span>;
+
+        const warning = covering.some((issue) => issue.severity === 'warning');
+        return (
+          <Tooltip key={start}>
+            <TooltipTrigger asChild>
+              <span className={`underline decoration-wavy underline-offset-4 cursor-help ${warning ? 'decoration-destructive' : 'decoration-amber-500'}`}>
+                {segment}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs space-y-1">
+              {covering.map((issue, issueIndex) => (
+                <div key={issueIndex} className="text-xs">
+                  <span className="font-medium">{RULE_LABELS[issue.rule]}:</span> {issue.message}
+                  {issue.suggestion && <div className="text-muted-foreground">{issue.suggestion}</div>}
+                </div>
+              ))}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </>
+  );
+};
+
+export const ScriptVoicePanel: React.FC<ScriptVoicePanelProps> = ({ engine, characters }) => {
+  const [source, setSource] = useState('');
+  const [script, setScript] = useState<FountainScript | null>(null);
+  const [reports, setReports] = useState<SceneVoiceReport[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lineCharacterId, setLineCharacterId] = useState('');
+  const [line, setLine] = useState('');
+  const [lineIssues, setLineIssues] = useState<{ text: string; issues: VoiceLintIssue[] } | null>(null);
+  const { toast } = useToast();
+
+  const reportsByScene = useMemo(() => new Map(reports.map((report) => [report.sceneId, report])), [reports]);
+  const totalIssues = reports.reduce((sum, report) => sum + report.issueCount, 0);
+
+  const handleCheckScript = async () => {
+    if (!source.trim()) return;
+    setIsChecking(true);
+    try {
+      setScript(parseFountain(source));
+      setReports(await engine.lintScript(source));
+    } catch (error) {
+      toast({
+        title: "Voice Check Failed",
+        description: error instanceof Error ? error.message : "The script could not be checked.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleCheckLine = async () => {
+    if (!lineCharacterId || !line.trim()) return;
+    try {
+      setLineIssues({ text: line, issues: await engine.lintDialogue(lineCharacterId, line) });
+    } catch (error) {
+      toast({
+        title: "Voice Check Failed",
+        description: error instanceof Error ? error.message : "The line could not be checked.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SpellCheck className="h-5 w-5" />
+            Check a Line
+          </CardTitle>
+          <CardDescription>
+            Test a single line against a character's speech patterns, pace, education, languages and era
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Character</Label>
+              <Select value={lineCharacterId} onValueChange={setLineCharacterId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a character" />
+                </SelectTrigger>
+                <SelectContent>
+                  {characters.map((character) => (
+                    <SelectItem key={character.id} value={character.id}>{character.coreIdentity.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Line</Label>
+              <Input
+                placeholder="Yeah, I'm gonna check the phone."
+                value={line}
+                onChange={(event) => setLine(event.target.value)}
+                onKeyDown={(event) => event.key === 'Enter' && handleCheckLine()}
+              />
+            </div>
+            <Button onClick={handleCheckLine} disabled={!lineCharacterId || !line.trim()}>
+              Check Line
+            </Button>
+          </div>
+          {lineIssues && (
+            <div className="rounded-md border p-4 space-y-2">
+              <p className="font-mono text-sm leading-7"><HighlightedLine text={lineIssues.text} issues={lineIssues.issues} /></p>
+              {lineIssues.issues.length === 0 ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  In voice
+                </p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {lineIssues.issues.map((issue, index) => (
+                    <li key={index}>
+                      <Badge variant={issue.severity === 'warning' ? 'destructive' : 'secondary'} className="mr-2 text-xs">{RULE_LABELS[issue.rule]}</Badge>
+                      {issue.message}{issue.suggestion ? `. ${issue.suggestion}.` : ''}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Script Voice Check
+            </CardTitle>
+            {reports.length > 0 && (
+              <Badge variant={totalIssues > 0 ? 'destructive' : 'default'}>
+                {totalIssues} {totalIssues === 1 ? 'issue' : 'issues'}
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            Paste a Fountain script; speeches by characters in your library are checked and underlined in place
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            placeholder={'INT. KITCHEN - NIGHT\n\nANNA\nYeah, I dunno.'}
+            className="min-h-40 font-mono text-sm"
+            value={source}
+            onChange={(event) => setSource(event.target.value)}
+          />
+          <Button onClick={handleCheckScript} disabled={isChecking || !source.trim()}>
+            {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SpellCheck className="mr-2 h-4 w-4" />}
+            Check Voices
+          </Button>
+
+          {script && (
+            <div className="rounded-md border p-6 font-mono text-sm space-y-6">
+              {script.scenes.map((scene) => {
+                const report = reportsByScene.get(scene.id);
+                return (
+                  <div key={scene.id} className="space-y-3">
+                    {scene.heading && (
+                      <div className="flex items-center justify-between">
+                        <p className="font-bold uppercase">{scene.heading}</p>
+                        {report && report.issueCount > 0 && (
+                          <Badge variant="outline" className="text-xs font-sans">{report.issueCount} in scene</Badge>
+                        )}
+                      </div>
+                    )}
+                    {scene.action.map((paragraph, index) => (
+                      <p key={`action-${index}`} className="text-muted-foreground whitespace-pre-wrap">{paragraph}</p>
+                    ))}
+                    {scene.dialogue.map((dialogue, index) => {
+                      const result = report?.lines[index];
+                      return (
+                        <div key={`dialogue-${index}`} className="mx-auto max-w-md">
+                          <p className="text-center uppercase">
+                            {dialogue.character}{dialogue.extension ? ` (${dialogue.extension})` : ''}
+                            {result && !result.characterId && <span className="ml-2 text-xs normal-case text-muted-foreground font-sans">not in library</span>}
+                          </p>
+                          {dialogue.parentheticals.map((parenthetical, parentheticalIndex) => (
+                            <p key={parentheticalIndex} className="text-center text-muted-foreground">{parenthetical}</p>
+                          ))}
+                          <p className="whitespace-pre-wrap leading-7">
+                            <HighlightedLine text={dialogue.text} issues={result?.issues ?? []} />
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,467 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GitPullRequest, LayoutTemplate, Loader2, Lock, Plus, RefreshCw, Save, Trash2, Wand2 } from 'lucide-react';
+import { CharacterDefinitionEngine } from '@/lib/digital-soul-framework/character-definition-engine';
+import {
+  CharacterTemplate,
+  CharacterTemplateInput,
+  ResolvedTemplate,
+  TemplateUpdateProposal
+} from '@/lib/digital-soul-framework/character-templates';
+import { UnifiedCharacterOntology } from '@/lib/types/character-types';
+import { useToast } from '@/hooks/use-toast';
+
+interface TemplatePanelProps {
+  engine: CharacterDefinitionEngine;
+  onCharacterCreated?: (character: UnifiedCharacterOntology) => void;
+  onCharacterUpdated?: (character: UnifiedCharacterOntology) => void;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  parentId: string;
+  baseDescription: string;
+  fields: string; // JSON
+  locked: string; // One path per line
+  slots: string; // One "name | label | default" per line
+}
+
+const NO_PARENT = 'none';
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  description: '',
+  parentId: NO_PARENT,
+  baseDescription: '',
+  fields: '{\n  "coreIdentity": {\n    "occupation": "Detective"\n  }\n}',
+  locked: '',
+  slots: ''
+};
+
+export const TemplatePanel: React.FC<TemplatePanelProps> = ({ engine, onCharacterCreated, onCharacterUpdated }) => {
+  const [templates, setTemplates] = useState<CharacterTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [resolved, setResolved] = useState<ResolvedTemplate | null>(null);
+  const [description, setDescription] = useState('');
+  const [slotValues, setSlotValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [proposals, setProposals] = useState<TemplateUpdateProposal[]>([]);
+  const [accepted, setAccepted] = useState<Record<string, string[]>>({});
+  const [updateSlots, setUpdateSlots] = useState<Record<string, Record<string, string>>>({});
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) => toast({
+    title,
+    description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+    variant: "destructive"
+  });
+
+  const refreshProposals = useCallback(async () => {
+    const next = await engine.getTemplateUpdates();
+    setProposals(next);
+    // Pre-select every change the character has not customized
+    setAccepted(Object.fromEntries(next.map((proposal) => [
+      proposal.characterId,
+      proposal.changes.filter((change) => !change.locked && !change.customized).map((change) => change.path)
+    ])));
+  }, [engine]);
+
+  useEffect(() => {
+    engine.listTemplates().then(setTemplates).catch(() => setTemplates([]));
+    refreshProposals().catch(() => setProposals([]));
+  }, [engine, refreshProposals]);
+
+  const selectTemplate = async (template: CharacterTemplate) => {
+    setDraft({
+      id: template.id,
+      name: template.name,
+      description: template.description ?? '',
+      parentId: template.parentId ?? NO_PARENT,
+      baseDescription: template.baseDescription ?? '',
+      fields: JSON.stringify(template.fields, null, 2),
+      locked: template.locked.join('\n'),
+      slots: template.slots.map((slot) => [slot.name, slot.label ?? '', slot.defaultValue ?? ''].join(' | ')).join('\n')
+    });
+    setSlotValues({});
+    try {
+      setResolved(await engine.resolveTemplate(template.id));
+    } catch (error) {
+      setResolved(null);
+      showError("Template Cannot Be Resolved", error);
+    }
+  };
+
+  const handleNewTemplate = () => {
+    setDraft(EMPTY_DRAFT);
+    setResolved(null);
+  };
+
+  const handleAddStarters = async () => {
+    try {
+      setTemplates(await engine.addStarterTemplates());
+    } catch (error) {
+      showError("Starter Templates Failed", error);
+    }
+  };
+
+  const handleSave = async () => {
+    let input: CharacterTemplateInput;
+    try {
+      input = {
+        id: draft.id,
+        name: draft.name.trim(),
+        description: draft.description.trim() || undefined,
+        parentId: draft.parentId === NO_PARENT ? undefined : draft.parentId,
+        baseDescription: draft.baseDescription.trim() || undefined,
+        fields: JSON.parse(draft.fields || '{}'),
+        locked: draft.locked.split('\n').map((path) => path.trim()).filter(Boolean),
+        slots: draft.slots.split('\n').filter((line) => line.trim()).map((line) => {
+          const [name, label, defaultValue] = line.split('|').map((part) => part.trim());
+          return { name, label: label || undefined, defaultValue: defaultValue || undefined };
+        })
+      };
+    } catch (error) {
+      showError("Invalid Template Fields", error);
+      return;
+    }
+
+    try {
+      const saved = await engine.saveTemplate(input);
+      setTemplates(await engine.listTemplates());
+      await selectTemplate(saved);
+      await refreshProposals();
+      toast({ title: "Template Saved", description: `${saved.name} is at version ${saved.version}.` });
+    } catch (error) {
+      showError("Template Not Saved", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    try {
+      await engine.deleteTemplate(draft.id);
+      setTemplates(await engine.listTemplates());
+      handleNewTemplate();
+    } catch (error) {
+      showError("Template Not Deleted", error);
+    }
+  };
+
+  const handleCreateCharacter = async () => {
+    if (!resolved) return;
+    setIsCreating(true);
+    try {
+      const character = await engine.createCharacterFromTemplate(resolved.template.id, description, { slots: slotValues });
+      onCharacterCreated?.(character);
+      setDescription('');
+      toast({ title: "Character Created", description: `${character.coreIdentity.name} was created from ${resolved.template.name}.` });
+    } catch (error) {
+      showError("Character Creation Failed", error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleApply = async (proposal: TemplateUpdateProposal) => {
+    try {
+      const updated = await engine.applyTemplateUpdate(proposal.characterId, {
+        accept: accepted[proposal.characterId] ?? [],
+        slots: updateSlots[proposal.characterId]
+      });
+      onCharacterUpdated?.(updated);
+      await refreshProposals();
+      toast({ title: "Template Changes Applied", description: `${updated.coreIdentity.name} is now at version ${updated.version}.` });
+    } catch (error) {
+      showError("Template Update Failed", error);
+    }
+  };
+
+  const setUpdateSlot = (characterId: string, name: string, value: string) => {
+    setUpdateSlots((previous) => ({ ...previous, [characterId]: { ...previous[characterId], [name]: value } }));
+  };
+
+  const toggleChange = (characterId: string, path: string, checked: boolean) => {
+    setAccepted((previous) => {
+      const paths = previous[characterId] ?? [];
+      return { ...previous, [characterId]: checked ? [...paths, path] : paths.filter((candidate) => candidate !== path) };
+    });
+  };
+
+  const templateName = (templateId: string) => templates.find((template) => template.id === templateId)?.name ?? templateId;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <LayoutTemplate className="h-5 w-5" />
+              Character Templates
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleAddStarters}>Add Starter Templates</Button>
+              <Button onClick={handleNewTemplate}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Template
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            Partial characters for stock roles. Locked fields always follow the template; templates inherit from their parent
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {templates.length === 0 && <p className="text-sm text-muted-foreground">No templates yet.</p>}
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => selectTemplate(template)}
+                className={`w-full rounded-md border p-3 text-left transition-colors hover:bg-muted ${draft.id === template.id ? 'border-primary' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{template.name}</span>
+                  <Badge variant="outline" className="text-xs">v{template.version}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {template.parentId ? `Inherits from ${templateName(template.parentId)}` : template.description ?? 'Base template'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-4 lg:col-span-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={draft.name} onChange={(event) => setDraft({ ...draft, name: event.target.value })} placeholder="Grizzled Detective" />
+              </div>
+              <div className="space-y-2">
+                <Label>Inherits From</Label>
+                <Select value={draft.parentId} onValueChange={(parentId) => setDraft({ ...draft, parentId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>No parent</SelectItem>
+                    {templates.filter((template) => template.id !== draft.id).map((template) => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Purpose</Label>
+              <Input value={draft.description} onChange={(event) => setDraft({ ...draft, description: event.target.value })} placeholder="A burnt-out veteran who has seen too much" />
+            </div>
+            <div className="space-y-2">
+              <Label>Base Description</Label>
+              <Input
+                value={draft.baseDescription}
+                onChange={(event) => setDraft({ ...draft, baseDescription: event.target.value })}
+                placeholder="a cynical police detective in {{city}}"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fields (partial character JSON, strings may use {'{{slot}}'} placeholders)</Label>
+              <Textarea className="min-h-40 font-mono text-xs" value={draft.fields} onChange={(event) => setDraft({ ...draft, fields: event.target.value })} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Locked Fields (one path per line)</Label>
+                <Textarea
+                  className="font-mono text-xs"
+                  value={draft.locked}
+                  onChange={(event) => setDraft({ ...draft, locked: event.target.value })}
+                  placeholder="coreIdentity.occupation"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Slots (name | label | default)</Label>
+                <Textarea
+                  className="font-mono text-xs"
+                  value={draft.slots}
+                  onChange={(event) => setDraft({ ...draft, slots: event.target.value })}
+                  placeholder="city | City | Chicago"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={!draft.name.trim()}>
+                <Save className="mr-2 h-4 w-4" />
+                Save Template
+              </Button>
+              {draft.id && (
+                <Button variant="outline" onClick={handleDelete}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {resolved && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5" />
+              Create from {resolved.template.name}
+            </CardTitle>
+            <CardDescription>
+              {resolved.chain.map((template) => template.name).join(' → ')}
+              {resolved.baseDescription && `: ${resolved.baseDescription}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {resolved.locked.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {resolved.locked.map((path) => (
+                  <Badge key={path} variant="secondary" className="text-xs">
+                    <Lock className="mr-1 h-3 w-3" />
+                    {path}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {resolved.slots.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {resolved.slots.map((slot) => (
+                  <div key={slot.name} className="space-y-2">
+                    <Label>{slot.label ?? slot.name}{!slot.defaultValue && ' *'}</Label>
+                    <Input
+                      value={slotValues[slot.name] ?? ''}
+                      placeholder={slot.defaultValue}
+                      onChange={(event) => setSlotValues({ ...slotValues, [slot.name]: event.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Character Description</Label>
+              <Textarea
+                placeholder="Sam Cole is a 58-year-old man with grey hair and a bad knee"
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreateCharacter} disabled={isCreating}>
+              {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+              Create Character
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <GitPullRequest className="h-5 w-5" />
+              Template Updates
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={() => refreshProposals().catch((error) => showError("Template Updates Unavailable", error))}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+          <CardDescription>
+            Changes to a template or its parents, offered to every character created from it. Locked changes are always applied
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {proposals.length === 0 && <p className="text-sm text-muted-foreground">Every template-based character is up to date.</p>}
+          {proposals.map((proposal) => (
+            <div key={proposal.characterId} className="rounded-md border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{proposal.characterName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {proposal.toChain.map((link) => {
+                      const from = proposal.fromChain.find((candidate) => candidate.templateId === link.templateId);
+                      return `${templateName(link.templateId)} v${from?.version ?? '-'} → v${link.version}`;
+                    }).join(', ')}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  disabled={proposal.missingSlots.some((slot) => !updateSlots[proposal.characterId]?.[slot.name]?.trim())}
+                  onClick={() => handleApply(proposal)}
+                >
+                  Apply Selected
+                </Button>
+              </div>
+              {proposal.missingSlots.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {proposal.missingSlots.map((slot) => (
+                    <div key={slot.name} className="space-y-2">
+                      <Label>{slot.label ?? slot.name} *</Label>
+                      <Input
+                        value={updateSlots[proposal.characterId]?.[slot.name] ?? ''}
+                        onChange={(event) => setUpdateSlot(proposal.characterId, slot.name, event.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Field</TableHead>
+                    <TableHead>Character Now</TableHead>
+                    <TableHead>Template</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {proposal.changes.map((change) => (
+                    <TableRow key={change.path}>
+                      <TableCell>
+                        <Checkbox
+                          checked={change.locked || (accepted[proposal.characterId] ?? []).includes(change.path)}
+                          disabled={change.locked || change.kind === 'removed'}
+                          onCheckedChange={(checked) => toggleChange(proposal.characterId, change.path, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {change.path}
+                        {change.locked && <Badge variant="secondary" className="ml-2 text-xs">locked</Badge>}
+                        {change.kind === 'drifted'
+                          ? <Badge variant="outline" className="ml-2 text-xs">drifted</Badge>
+                          : change.customized && <Badge variant="outline" className="ml-2 text-xs">customized</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatValue(change.currentValue)}</TableCell>
+                      <TableCell className="text-sm">
+                        {change.kind === 'removed' ? <span className="text-muted-foreground">No longer set by the template</span> : formatValue(change.templateValue)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
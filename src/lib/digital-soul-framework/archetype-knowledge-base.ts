@@ -0,0 +1,219 @@
+// Archetype Knowledge Base - Reference data for the twelve Jungian archetypes
+// Signal keywords drive scoring in ArchetypeAnalyzer; the narrative fields seed the resulting ArchetypeProfile
+
+export const JUNGIAN_ARCHETYPES = [
+  'Hero',
+  'Lover',
+  'Sage',
+  'Innocent',
+  'Explorer',
+  'Ruler',
+  'Creator',
+  'Caregiver',
+  'Magician',
+  'Outlaw',
+  'Everyman',
+  'Jester'
+] as const;
+
+export type JungianArchetype = typeof JUNGIAN_ARCHETYPES[number];
+
+export const SHADOW_ARCHETYPES: Record<string, string> = {
+  'Hero': 'Destroyer',
+  'Lover': 'Addict',
+  'Sage': 'Know-it-all',
+  'Innocent': 'Victim',
+  'Explorer': 'Escapist',
+  'Ruler': 'Tyrant',
+  'Creator': 'Perfectionist',
+  'Caregiver': 'Martyr',
+  'Magician': 'Manipulator',
+  'Outlaw': 'Criminal',
+  'Everyman': 'Victim',
+  'Jester': 'Cruel Trickster'
+};
+
+export function determineShadowArchetype(primaryArchetype: string): string {
+  return SHADOW_ARCHETYPES[primaryArchetype] || 'Shadow';
+}
+
+export interface OceanScores {
+  openness: number;
+  conscientiousness: number;
+  extraversion: number;
+  agreeableness: number;
+  neuroticism: number;
+}
+
+export interface ArchetypeKnowledge {
+  traitSignals: string[]; // Personality adjectives
+  occupationSignals: string[];
+  skillSignals: string[];
+  themeSignals: string[]; // Words in the free-text description and background
+  prior: number; // Baseline score before any evidence is seen
+  oceanTendency: OceanScores; // Typical Big Five profile (0-100) for the archetype
+  enneagramType: number; // Most characteristic Enneagram type
+  characteristics: string[];
+  motivations: string[];
+  fears: string[];
+  growthArc: string;
+}
+
+export const ARCHETYPE_KNOWLEDGE: Record<JungianArchetype, ArchetypeKnowledge> = {
+  Hero: {
+    traitSignals: ['brave', 'bold', 'confident', 'courageous', 'determined', 'heroic', 'protective', 'strong', 'fearless'],
+    occupationSignals: ['soldier', 'firefighter', 'police', 'officer', 'knight', 'athlete', 'detective', 'guard', 'warrior'],
+    skillSignals: ['sports', 'combat', 'fighting', 'martial arts'],
+    themeSignals: ['fight', 'protect', 'rescue', 'save', 'battle', 'courage', 'war', 'defend', 'quest'],
+    prior: 0.5,
+    oceanTendency: { openness: 55, conscientiousness: 70, extraversion: 65, agreeableness: 55, neuroticism: 30 },
+    enneagramType: 3,
+    characteristics: ['Brave', 'Determined', 'Protective'],
+    motivations: ['Prove their worth through courageous action', 'Protect those who cannot protect themselves', 'Overcome challenges'],
+    fears: ['Weakness', 'Cowardice', 'Being powerless'],
+    growthArc: 'Learning that true strength includes vulnerability and knowing when not to fight'
+  },
+  Lover: {
+    traitSignals: ['passionate', 'romantic', 'affectionate', 'charming', 'sensual', 'loyal', 'devoted', 'warm'],
+    occupationSignals: ['poet', 'dancer', 'florist', 'matchmaker', 'actor', 'actress'],
+    skillSignals: ['dance', 'music', 'poetry'],
+    themeSignals: ['love', 'romance', 'passion', 'beauty', 'intimacy', 'partner', 'lover', 'heart', 'desire'],
+    prior: 0.5,
+    oceanTendency: { openness: 70, conscientiousness: 45, extraversion: 65, agreeableness: 75, neuroticism: 60 },
+    enneagramType: 4,
+    characteristics: ['Passionate', 'Devoted', 'Appreciative'],
+    motivations: ['Find deep connection and intimacy', 'Surround themselves with beauty', 'Be loved for who they are'],
+    fears: ['Being alone', 'Being unwanted', 'Losing love'],
+    growthArc: 'Learning to love themselves as fully as they love others'
+  },
+  Sage: {
+    traitSignals: ['intelligent', 'wise', 'smart', 'clever', 'curious', 'analytical', 'thoughtful', 'logical', 'scholarly'],
+    occupationSignals: ['professor', 'scientist', 'researcher', 'scholar', 'librarian', 'philosopher', 'historian', 'analyst', 'teacher'],
+    skillSignals: ['technology', 'research', 'science', 'mathematics', 'languages'],
+    themeSignals: ['knowledge', 'truth', 'study', 'books', 'learn', 'understand', 'wisdom', 'library', 'university'],
+    prior: 0.5,
+    oceanTendency: { openness: 80, conscientiousness: 65, extraversion: 35, agreeableness: 50, neuroticism: 35 },
+    enneagramType: 5,
+    characteristics: ['Wise', 'Analytical', 'Reflective'],
+    motivations: ['Seek the truth', 'Understand how the world works', 'Share knowledge with others'],
+    fears: ['Ignorance', 'Being deceived', 'Being wrong'],
+    growthArc: 'Learning that some truths are felt rather than reasoned, and acting on what they know'
+  },
+  Innocent: {
+    traitSignals: ['optimistic', 'naive', 'cheerful', 'trusting', 'sweet', 'innocent', 'pure', 'hopeful', 'gentle'],
+    occupationSignals: ['student', 'apprentice', 'novice', 'child'],
+    skillSignals: [],
+    themeSignals: ['dream', 'hope', 'simple', 'faith', 'wonder', 'childhood', 'home', 'safe', 'goodness'],
+    prior: 0.5,
+    oceanTendency: { openness: 50, conscientiousness: 55, extraversion: 55, agreeableness: 80, neuroticism: 35 },
+    enneagramType: 9,
+    characteristics: ['Optimistic', 'Trusting', 'Sincere'],
+    motivations: ['Be happy', 'Do things right', 'Keep faith in the goodness of others'],
+    fears: ['Doing something wrong', 'Being punished', 'Losing their innocence'],
+    growthArc: 'Learning to face darkness without losing hope'
+  },
+  Explorer: {
+    traitSignals: ['adventurous', 'curious', 'independent', 'restless', 'free-spirited', 'energetic', 'daring', 'wandering'],
+    occupationSignals: ['explorer', 'traveler', 'pilot', 'sailor', 'journalist', 'photographer', 'scout', 'ranger', 'guide'],
+    skillSignals: ['navigation', 'survival', 'climbing', 'sports'],
+    themeSignals: ['travel', 'journey', 'explore', 'wander', 'discover', 'road', 'horizon', 'adventure', 'freedom'],
+    prior: 0.5,
+    oceanTendency: { openness: 85, conscientiousness: 35, extraversion: 65, agreeableness: 50, neuroticism: 40 },
+    enneagramType: 7,
+    characteristics: ['Independent', 'Adventurous', 'Self-reliant'],
+    motivations: ['Experience a more authentic life', 'Discover new places and ideas', 'Stay free'],
+    fears: ['Being trapped', 'Conformity', 'Inner emptiness'],
+    growthArc: 'Learning that belonging does not have to mean being caged'
+  },
+  Ruler: {
+    traitSignals: ['assertive', 'commanding', 'organized', 'ambitious', 'authoritative', 'responsible', 'disciplined', 'controlling', 'confident'],
+    occupationSignals: ['ceo', 'manager', 'king', 'queen', 'politician', 'director', 'executive', 'judge', 'mayor', 'general', 'president'],
+    skillSignals: ['leadership', 'management', 'strategy', 'negotiation'],
+    themeSignals: ['control', 'lead', 'power', 'order', 'company', 'empire', 'rule', 'throne', 'command'],
+    prior: 0.5,
+    oceanTendency: { openness: 45, conscientiousness: 85, extraversion: 65, agreeableness: 35, neuroticism: 35 },
+    enneagramType: 8,
+    characteristics: ['Commanding', 'Responsible', 'Organized'],
+    motivations: ['Create order from chaos', 'Build a prosperous legacy', 'Stay in control'],
+    fears: ['Chaos', 'Being overthrown', 'Losing control'],
+    growthArc: 'Learning to share power and trust others to lead'
+  },
+  Creator: {
+    traitSignals: ['creative', 'imaginative', 'artistic', 'inventive', 'visionary', 'original', 'expressive'],
+    occupationSignals: ['artist', 'writer', 'designer', 'architect', 'musician', 'painter', 'sculptor', 'inventor', 'chef', 'author'],
+    skillSignals: ['art', 'music', 'cooking', 'writing', 'design', 'crafting'],
+    themeSignals: ['create', 'build', 'design', 'invent', 'paint', 'write', 'compose', 'craft', 'vision'],
+    prior: 0.5,
+    oceanTendency: { openness: 90, conscientiousness: 55, extraversion: 50, agreeableness: 50, neuroticism: 55 },
+    enneagramType: 4,
+    characteristics: ['Imaginative', 'Expressive', 'Driven'],
+    motivations: ['Create something of enduring value', 'Give form to a vision', 'Express themselves'],
+    fears: ['Mediocrity', 'A mediocre vision or execution', 'Creative block'],
+    growthArc: 'Learning that a finished imperfect work is worth more than a perfect idea'
+  },
+  Caregiver: {
+    traitSignals: ['kind', 'caring', 'compassionate', 'gentle', 'nurturing', 'generous', 'selfless', 'nice', 'patient'],
+    occupationSignals: ['nurse', 'doctor', 'caregiver', 'social worker', 'therapist', 'teacher', 'nanny', 'healer', 'medic'],
+    skillSignals: ['cooking', 'healing', 'medicine', 'first aid'],
+    themeSignals: ['help', 'care', 'heal', 'family', 'nurture', 'support', 'children', 'patients', 'others'],
+    prior: 0.5,
+    oceanTendency: { openness: 55, conscientiousness: 65, extraversion: 60, agreeableness: 85, neuroticism: 45 },
+    enneagramType: 2,
+    characteristics: ['Compassionate', 'Generous', 'Protective'],
+    motivations: ['Help others', 'Protect people from harm', 'Make a difference'],
+    fears: ['Selfishness', 'Ingratitude', 'Letting others down'],
+    growthArc: 'Learning to balance caring for others with caring for themselves'
+  },
+  Magician: {
+    traitSignals: ['charismatic', 'mysterious', 'intuitive', 'visionary', 'transformative', 'perceptive', 'enigmatic'],
+    occupationSignals: ['magician', 'wizard', 'witch', 'shaman', 'psychologist', 'healer', 'alchemist', 'scientist', 'inventor'],
+    skillSignals: ['magic', 'hypnosis', 'alchemy', 'technology'],
+    themeSignals: ['magic', 'transform', 'vision', 'mystery', 'secret', 'ritual', 'spell', 'destiny', 'change'],
+    prior: 0.5,
+    oceanTendency: { openness: 85, conscientiousness: 55, extraversion: 55, agreeableness: 45, neuroticism: 45 },
+    enneagramType: 5,
+    characteristics: ['Visionary', 'Charismatic', 'Transformative'],
+    motivations: ['Understand the fundamental laws of the universe', 'Make dreams come true', 'Transform the world'],
+    fears: ['Unintended negative consequences', 'Stagnation', 'Being exposed as a fraud'],
+    growthArc: 'Learning to wield influence with humility and accept what cannot be changed'
+  },
+  Outlaw: {
+    traitSignals: ['rebellious', 'defiant', 'wild', 'reckless', 'cynical', 'angry', 'disruptive', 'bitter', 'dangerous'],
+    occupationSignals: ['thief', 'criminal', 'hacker', 'smuggler', 'activist', 'rebel', 'pirate', 'mercenary', 'bounty hunter'],
+    skillSignals: ['lockpicking', 'hacking', 'stealth'],
+    themeSignals: ['rebel', 'rules', 'revolution', 'outlaw', 'crime', 'steal', 'escape', 'prison', 'revenge'],
+    prior: 0.5,
+    oceanTendency: { openness: 70, conscientiousness: 25, extraversion: 60, agreeableness: 25, neuroticism: 60 },
+    enneagramType: 8,
+    characteristics: ['Rebellious', 'Disruptive', 'Liberated'],
+    motivations: ['Overturn what is not working', 'Take revenge on injustice', 'Live by their own rules'],
+    fears: ['Being powerless', 'Being ineffectual', 'Conformity'],
+    growthArc: 'Learning to build something better rather than only tearing down'
+  },
+  Everyman: {
+    traitSignals: ['ordinary', 'humble', 'friendly', 'down-to-earth', 'reliable', 'practical', 'relatable', 'honest', 'realistic'],
+    occupationSignals: ['clerk', 'worker', 'waiter', 'waitress', 'farmer', 'mechanic', 'cashier', 'driver', 'builder', 'student'],
+    skillSignals: ['repair', 'driving', 'gardening'],
+    themeSignals: ['ordinary', 'neighbor', 'belong', 'community', 'everyday', 'regular', 'town', 'job', 'friends'],
+    prior: 0.6,
+    oceanTendency: { openness: 45, conscientiousness: 60, extraversion: 55, agreeableness: 70, neuroticism: 45 },
+    enneagramType: 6,
+    characteristics: ['Down-to-earth', 'Empathetic', 'Realistic'],
+    motivations: ['Belong', 'Connect with others', 'Fit in'],
+    fears: ['Being left out', 'Standing out from the crowd', 'Rejection'],
+    growthArc: 'Learning that their ordinary life holds an extraordinary contribution'
+  },
+  Jester: {
+    traitSignals: ['funny', 'humorous', 'witty', 'playful', 'mischievous', 'silly', 'amusing', 'cheeky', 'lively'],
+    occupationSignals: ['comedian', 'clown', 'entertainer', 'jester', 'performer', 'prankster'],
+    skillSignals: ['comedy', 'improvisation', 'juggling'],
+    themeSignals: ['joke', 'laugh', 'fun', 'prank', 'humor', 'party', 'play', 'trick', 'smile'],
+    prior: 0.5,
+    oceanTendency: { openness: 70, conscientiousness: 30, extraversion: 85, agreeableness: 65, neuroticism: 30 },
+    enneagramType: 7,
+    characteristics: ['Playful', 'Witty', 'Spontaneous'],
+    motivations: ['Live in the moment with full enjoyment', 'Lighten up the world', 'Have a great time'],
+    fears: ['Being bored', 'Boring others', 'Being taken too seriously'],
+    growthArc: 'Learning when to drop the mask and let people see what they really feel'
+  }
+};
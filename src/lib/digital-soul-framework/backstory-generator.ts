@@ -0,0 +1,462 @@
+// Backstory Generator - Procedural life timelines consistent with age, occupation and archetype
+// The backstory text fields are rendered from the timeline, so prose and structured events never disagree
+
+import { LifeEvent, LifeTimeline, SceneContext, UnifiedCharacterOntology } from '../types/character-types';
+import { OccupationCategory, OccupationEntry, OccupationEra } from './occupation-taxonomy';
+import { RandomSource } from './seeded-random';
+
+// ==================== CORE TYPES ====================
+
+export type Backstory = UnifiedCharacterOntology['backstory'];
+
+export interface BackstoryInput {
+  age: number;
+  occupation?: OccupationEntry;
+  occupationTitle?: string; // Used when the occupation is not in the taxonomy
+  era?: OccupationEra;
+  motivations: string[];
+  fears: string[];
+  context?: SceneContext;
+  referenceYear?: number; // Defaults to the current year; only modern-day timelines carry calendar years
+}
+
+interface TrainingPath {
+  training: string; // "Began <training>"
+  qualification: string;
+  startAge: number;
+  years: number;
+}
+
+interface GeneratedTimeline {
+  timeline: LifeTimeline;
+  secrets: string[];
+  desires: string[];
+}
+
+// ==================== KNOWLEDGE TABLES ====================
+
+// Childhood and adolescent events that explain an archetype fear, each with the secret it leaves behind
+const FEAR_EVENTS: Array<{ pattern: RegExp; events: Array<{ title: string; secret: string }> }> = [
+  {
+    pattern: /powerless|weak|coward|ineffectual/i,
+    events: [
+      { title: 'Froze while an older kid bullied a younger sibling', secret: 'Still replays the day they froze instead of stepping in' },
+      { title: 'Was too small to help when the family home was burgled', secret: 'Keeps a weapon within reach and has never said why' }
+    ]
+  },
+  {
+    pattern: /alone|unwanted|losing love|left out|rejection/i,
+    events: [
+      { title: 'Was sent to live with relatives for a year after the parents separated', secret: 'Still keeps the unanswered letters written to a parent that year' },
+      { title: 'Was the only child left out of the neighbourhood games', secret: 'Rehearses conversations in advance so no one will leave them out again' }
+    ]
+  },
+  {
+    pattern: /ignoran|deceived|wrong\b/i,
+    events: [
+      { title: 'Found out a trusted elder had been lying to the whole family', secret: 'Quietly checks every claim people make, even those of close friends' },
+      { title: 'Was corrected in front of a crowd and laughed at', secret: 'Cannot bring themselves to admit a mistake out loud' }
+    ]
+  },
+  {
+    pattern: /something wrong|punished|innocence/i,
+    events: [
+      { title: 'Was punished for a theft they did not commit', secret: 'Knows who really took the money and never told' },
+      { title: 'Saw something at a neighbour\'s house that no child should see', secret: 'Has never told anyone what they saw that night' }
+    ]
+  },
+  {
+    pattern: /trapped|conformity|emptiness/i,
+    events: [
+      { title: 'Grew up under strict household rules with no room for questions', secret: 'Still has the bag they packed the night they almost ran away' },
+      { title: 'Spent a long illness confined to a single room', secret: 'Panics in small rooms and hides it well' }
+    ]
+  },
+  {
+    pattern: /chaos|overthrown|losing control/i,
+    events: [
+      { title: 'Watched the family business collapse', secret: 'Keeps detailed records of what everyone owes, friends included' },
+      { title: 'Lived with a parent\'s unpredictable drinking', secret: 'Checks the locks three times every night' }
+    ]
+  },
+  {
+    pattern: /mediocr|creative block/i,
+    events: [
+      { title: 'Had a drawing torn up by a teacher who called it ordinary', secret: 'Has destroyed far more work than they have ever shown anyone' }
+    ]
+  },
+  {
+    pattern: /selfish|ingratitude|letting others down/i,
+    events: [
+      { title: 'Became the carer for an ill parent', secret: 'Sometimes resents the people they help, and hates themselves for it' },
+      { title: 'Broke a promise to a friend who then got hurt', secret: 'Still blames themselves for a friend\'s accident' }
+    ]
+  },
+  {
+    pattern: /consequences|stagnation|fraud/i,
+    events: [
+      { title: 'Caused a fire with a backyard experiment that went wrong', secret: 'Let someone else take the blame for the fire' },
+      { title: 'Was pushed ahead of children their own age and never quite fit in', secret: 'Suspects they are not nearly as gifted as people think' }
+    ]
+  },
+  {
+    pattern: /bored|boring|taken too seriously/i,
+    events: [
+      { title: 'Learned to make a grieving family laugh at a funeral', secret: 'Uses jokes to avoid a grief they never dealt with' }
+    ]
+  },
+  {
+    pattern: /standing out/i,
+    events: [
+      { title: 'Was mocked for a strong accent after the family moved', secret: 'Spent years hiding where they really come from' }
+    ]
+  }
+];
+
+// Childhood events that explain an archetype motivation, each with the desire it grew into
+const MOTIVATION_EVENTS: Array<{ pattern: RegExp; events: Array<{ title: string; desire: string }> }> = [
+  {
+    pattern: /help|protect|difference/i,
+    events: [
+      { title: 'Helped nurse a grandparent through a long illness', desire: 'To be the person they needed as a child' },
+      { title: 'Stood up for a classmate who was being bullied', desire: 'To keep the people around them safe' }
+    ]
+  },
+  {
+    pattern: /truth|understand|knowledge/i,
+    events: [
+      { title: 'Spent every spare afternoon reading whatever books could be found', desire: 'To finally answer the question that has followed them since childhood' },
+      { title: 'Took apart the family clock to see how it worked', desire: 'To be recognised as an authority in their field' }
+    ]
+  },
+  {
+    pattern: /worth|courageous|challenge/i,
+    events: [{ title: 'Won a race nobody expected them to finish', desire: 'To prove the doubters wrong once and for all' }]
+  },
+  {
+    pattern: /connection|intimacy|loved|beauty/i,
+    events: [{ title: 'Found a best friend who felt more like family than family did', desire: 'To build a home full of people who truly know them' }]
+  },
+  {
+    pattern: /happy|do things right|faith/i,
+    events: [{ title: 'Was taken in by kind neighbours during a hard winter', desire: 'To repay the kindness that carried them through childhood' }]
+  },
+  {
+    pattern: /authentic|discover|free/i,
+    events: [{ title: 'Ran away for a day to explore the nearest city alone', desire: 'To see every place they read about as a child' }]
+  },
+  {
+    pattern: /order|legacy|control/i,
+    events: [{ title: 'Ran a small trade in sweets and trinkets among the other children', desire: 'To build something that outlasts them' }]
+  },
+  {
+    pattern: /create|vision|express/i,
+    events: [{ title: 'Filled notebook after notebook with drawings and stories', desire: 'To make one thing that is entirely their own' }]
+  },
+  {
+    pattern: /dreams|transform|universe/i,
+    events: [{ title: 'Performed a trick that left a room full of adults speechless', desire: 'To change what people believe is possible' }]
+  },
+  {
+    pattern: /overturn|revenge|injustice|own rules/i,
+    events: [{ title: 'Saw a relative cheated out of their savings', desire: 'To see the people who hurt their family held to account' }]
+  },
+  {
+    pattern: /belong|connect|fit in/i,
+    events: [{ title: 'Found a place in a close-knit gang of neighbourhood children', desire: 'To belong somewhere without having to earn it' }]
+  },
+  {
+    pattern: /moment|lighten|great time/i,
+    events: [{ title: 'Played the fool to cheer up a struggling friend', desire: 'To make life feel lighter for the people around them' }]
+  }
+];
+
+const HOMETOWNS: Record<'past' | 'modern' | 'future', string[]> = {
+  past: ['a fishing village', 'a market town', 'a walled city', 'a farming hamlet', 'a busy port'],
+  modern: ['a small coastal town', 'a busy city centre', 'a quiet suburb', 'a farming village', 'an old industrial town', 'an army town'],
+  future: ['an orbital habitat', 'a sprawling arcology', 'a frontier colony', 'a flooded coastal megacity']
+};
+
+const UPBRINGINGS = [
+  'raised by both parents',
+  'raised by a single mother',
+  'raised by a single father',
+  'raised by grandparents',
+  'raised as the eldest of four children',
+  'raised as an only child',
+  'raised in a crowded extended family',
+  'raised in foster care'
+];
+
+const PERSONAL_EVENTS: Array<{ title: string; impact: LifeEvent['impact']; minAge: number }> = [
+  { title: 'Moved out of the family home', impact: 'mixed', minAge: 17 },
+  { title: 'Fell deeply in love for the first time', impact: 'positive', minAge: 16 },
+  { title: 'Lost a parent', impact: 'negative', minAge: 18 },
+  { title: 'Ended a long relationship', impact: 'negative', minAge: 20 },
+  { title: 'Moved to a new city alone', impact: 'mixed', minAge: 19 },
+  { title: 'Became a parent', impact: 'positive', minAge: 22 },
+  { title: 'Reconnected with an estranged sibling', impact: 'positive', minAge: 20 },
+  { title: 'Survived a serious accident', impact: 'negative', minAge: 18 }
+];
+
+const CAREER_MILESTONES = [
+  'Earned a promotion after a demanding first few years',
+  'Moved to another city for work',
+  'Began training the newcomers',
+  'Turned down an offer that would have meant leaving everyone behind'
+];
+
+const TRAINING_BY_OCCUPATION: Record<string, TrainingPath> = {
+  doctor: { training: 'medical school', qualification: 'Qualified as a doctor', startAge: 18, years: 7 },
+  nurse: { training: 'nursing school', qualification: 'Qualified as a nurse', startAge: 18, years: 3 },
+  veterinarian: { training: 'veterinary school', qualification: 'Qualified as a vet', startAge: 18, years: 5 },
+  therapist: { training: 'a psychology degree', qualification: 'Qualified as a therapist', startAge: 18, years: 6 },
+  lawyer: { training: 'law school', qualification: 'Was admitted to the bar', startAge: 18, years: 6 },
+  judge: { training: 'law school', qualification: 'Was admitted to the bar', startAge: 18, years: 6 },
+  teacher: { training: 'teacher training', qualification: 'Qualified as a teacher', startAge: 18, years: 4 },
+  headteacher: { training: 'teacher training', qualification: 'Qualified as a teacher', startAge: 18, years: 4 },
+  'teaching-assistant': { training: 'a teaching assistant course', qualification: 'Earned a teaching assistant certificate', startAge: 17, years: 1 },
+  librarian: { training: 'a library science degree', qualification: 'Qualified as a librarian', startAge: 18, years: 4 },
+  professor: { training: 'university', qualification: 'Completed a doctorate', startAge: 18, years: 8 },
+  scientist: { training: 'a science degree', qualification: 'Completed a doctorate', startAge: 18, years: 7 },
+  pilot: { training: 'flight school', qualification: 'Earned a pilot\'s licence', startAge: 18, years: 2 },
+  officer: { training: 'officer training', qualification: 'Was commissioned as an officer', startAge: 18, years: 3 }
+};
+
+const TRAINING_BY_CATEGORY: Partial<Record<OccupationCategory, TrainingPath>> = {
+  education: { training: 'university', qualification: 'Graduated from university', startAge: 18, years: 4 },
+  healthcare: { training: 'medical training', qualification: 'Completed clinical training', startAge: 18, years: 4 },
+  law: { training: 'law school', qualification: 'Graduated from law school', startAge: 18, years: 6 },
+  'law-enforcement': { training: 'the police academy', qualification: 'Graduated from the academy', startAge: 19, years: 1 },
+  military: { training: 'basic training', qualification: 'Completed basic training', startAge: 18, years: 1 },
+  engineering: { training: 'an engineering degree', qualification: 'Graduated as an engineer', startAge: 18, years: 4 },
+  technology: { training: 'a computer science degree', qualification: 'Graduated in computer science', startAge: 18, years: 3 },
+  science: { training: 'a science degree', qualification: 'Completed a doctorate', startAge: 18, years: 7 },
+  arts: { training: 'art school', qualification: 'Graduated from art school', startAge: 18, years: 3 },
+  entertainment: { training: 'drama school', qualification: 'Graduated from drama school', startAge: 18, years: 3 },
+  media: { training: 'journalism school', qualification: 'Graduated in journalism', startAge: 18, years: 3 },
+  culinary: { training: 'culinary school', qualification: 'Graduated from culinary school', startAge: 17, years: 2 },
+  trades: { training: 'an apprenticeship', qualification: 'Finished the apprenticeship', startAge: 16, years: 4 },
+  maritime: { training: 'maritime academy', qualification: 'Earned a seafarer\'s certificate', startAge: 17, years: 2 },
+  business: { training: 'business school', qualification: 'Graduated in business', startAge: 18, years: 4 },
+  government: { training: 'a politics degree', qualification: 'Graduated in politics', startAge: 18, years: 3 },
+  religion: { training: 'the seminary', qualification: 'Was ordained', startAge: 18, years: 4 },
+  sports: { training: 'a sports academy', qualification: 'Signed a first professional contract', startAge: 14, years: 4 }
+};
+
+const PRE_MODERN_ERAS: OccupationEra[] = ['ancient', 'medieval', 'early-modern'];
+
+// ==================== TIMELINE ====================
+
+/**
+ * Build a dated life timeline. Every event happens at or before the character's current age; training is
+ * never shortened, so a character too young to have qualified for their occupation gets a recorded conflict.
+ */
+export function generateLifeTimeline(input: BackstoryInput, random: RandomSource): GeneratedTimeline {
+  const { age } = input;
+  const modern = input.era === undefined || input.era === 'modern';
+  const birthYear = modern ? (input.referenceYear ?? new Date().getFullYear()) - age : undefined;
+  const events: LifeEvent[] = [];
+  const secrets: string[] = [];
+  const desires: string[] = [];
+  const conflicts: string[] = [];
+  const add = (event: Omit<LifeEvent, 'year'>) => {
+    if (event.age > age) return;
+    events.push({ ...event, ...(birthYear !== undefined ? { year: birthYear + event.age } : {}) });
+  };
+
+  const hometown = random.pick(HOMETOWNS[input.era === 'future' ? 'future' : modern || input.era === 'industrial' ? 'modern' : 'past']);
+  const upbringing = random.pick(UPBRINGINGS);
+  add({ age: 0, category: 'birth', title: `Born in ${hometown}`, impact: 'neutral' });
+
+  // Formative childhood: one event behind the first motivation, one behind the first fear
+  const motivation = input.motivations[0];
+  if (motivation) {
+    const event = pickKeyed(MOTIVATION_EVENTS, motivation, random) ?? {
+      title: `Discovered a lasting need to ${lowerFirst(motivation)}`,
+      desire: motivation
+    };
+    add({ age: Math.min(age, 7 + random.nextInt(5)), category: 'formative', title: event.title, impact: 'positive', drivenBy: motivation });
+    desires.push(event.desire);
+  }
+
+  input.fears.slice(0, age >= 14 ? 2 : 1).forEach((fear, index) => {
+    const event = pickKeyed(FEAR_EVENTS, fear, random) ?? {
+      title: `Had an early brush with ${lowerFirst(fear)}`,
+      secret: `Is more afraid of ${lowerFirst(fear)} than anyone suspects`
+    };
+    if (events.some((existing) => existing.title === event.title)) return;
+    const eventAge = index === 0 ? 5 + random.nextInt(6) : 13 + random.nextInt(4);
+    add({ age: Math.min(age, eventAge), category: 'formative', title: event.title, impact: 'negative', drivenBy: fear });
+    secrets.push(event.secret);
+  });
+
+  const careerStart = addEducation(input, modern, random, add, conflicts);
+  addCareer(input, careerStart, random, add);
+  addPersonalLife(input, random, add);
+
+  input.context?.previousEvents.forEach((previous) => {
+    add({ age, category: 'recent', title: previous, impact: 'neutral' });
+  });
+  if (input.context?.location) {
+    add({ age, category: 'recent', title: `Now finds themselves in ${input.context.location}`, impact: 'neutral' });
+  }
+
+  // Stable sort keeps birth first and context events last within the same age
+  const ordered = events.map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.age - b.event.age || a.index - b.index)
+    .map(({ event }) => event);
+
+  for (const extra of input.motivations.slice(1)) {
+    if (desires.length >= 3) break;
+    desires.push(`To ${lowerFirst(extra)}`);
+  }
+
+  return {
+    timeline: { birthYear, hometown, upbringing, events: ordered, ...(conflicts.length > 0 ? { conflicts } : {}) },
+    secrets,
+    desires
+  };
+}
+
+/**
+ * Add schooling and occupation training; returns the age the career started, if it has
+ */
+function addEducation(
+  input: BackstoryInput,
+  modern: boolean,
+  random: RandomSource,
+  add: (event: Omit<LifeEvent, 'year'>) => void,
+  conflicts: string[]
+): number | undefined {
+  const { age, occupation } = input;
+  const preModern = input.era !== undefined && PRE_MODERN_ERAS.includes(input.era);
+
+  if (occupation?.category === 'student') {
+    const enrolled = Math.min(age, 18);
+    if (age >= 18) add({ age: 18, category: 'education', title: 'Finished secondary school', impact: 'positive' });
+    add({ age: enrolled, category: 'education', title: `Enrolled as a ${occupation.title.toLowerCase()}`, impact: 'positive' });
+    return undefined;
+  }
+
+  const title = occupation?.title ?? input.occupationTitle;
+  const path = preModern && title
+    ? { training: `an apprenticeship under a master ${title.toLowerCase()}`, qualification: 'Finished the apprenticeship', startAge: 12, years: 6 }
+    : occupation ? TRAINING_BY_OCCUPATION[occupation.id] ?? TRAINING_BY_CATEGORY[occupation.category] : undefined;
+
+  if (!preModern) {
+    const leftSchool = path && path.startAge >= 18 ? 18 : 16 + random.nextInt(3);
+    // Children still at school get their first day instead of a leaving date they have not reached
+    if (age < leftSchool) add({ age: 5, category: 'education', title: 'Started school', impact: 'neutral' });
+    add({ age: leftSchool, category: 'education', title: leftSchool >= 18 ? 'Finished secondary school' : `Left school at ${leftSchool}`, impact: 'neutral' });
+  }
+
+  if (!title) return undefined;
+  if (!path) return Math.min(age, (modern ? 18 : 14) + random.nextInt(3));
+
+  add({ age: path.startAge, category: 'education', title: `Began ${path.training}`, impact: 'positive' });
+  const qualifiedAge = path.startAge + path.years;
+  if (age < qualifiedAge) {
+    conflicts.push(`Working as ${withArticle(title.toLowerCase())} takes ${path.years} year${path.years === 1 ? '' : 's'} of ${path.training} ` +
+      `from age ${path.startAge}, so a ${age}-year-old cannot have qualified yet`);
+    return undefined;
+  }
+  add({ age: qualifiedAge, category: 'education', title: path.qualification, impact: 'positive' });
+  return qualifiedAge;
+}
+
+function addCareer(
+  input: BackstoryInput,
+  careerStart: number | undefined,
+  random: RandomSource,
+  add: (event: Omit<LifeEvent, 'year'>) => void
+): void {
+  const title = input.occupation?.title ?? input.occupationTitle;
+  if (careerStart === undefined || !title) return;
+
+  add({ age: careerStart, category: 'career', title: `Started work as ${withArticle(title.toLowerCase())}`, impact: 'positive' });
+
+  const careerYears = input.age - careerStart;
+  if (careerYears >= 5) {
+    const skill = input.occupation?.typicalSkills[0];
+    const milestones = skill ? [...CAREER_MILESTONES, `Became known for ${skill.toLowerCase()}`] : CAREER_MILESTONES;
+    add({ age: careerStart + 2 + random.nextInt(careerYears - 3), category: 'career', title: random.pick(milestones), impact: 'positive' });
+  }
+  if (careerYears >= 10 && input.fears.length > 0) {
+    const fear = input.fears[input.fears.length - 1];
+    add({
+      age: careerStart + 6 + random.nextInt(careerYears - 6),
+      category: 'career',
+      title: `A professional setback forced a reckoning with ${lowerFirst(fear)}`,
+      impact: 'negative',
+      drivenBy: fear
+    });
+  }
+}
+
+function addPersonalLife(input: BackstoryInput, random: RandomSource, add: (event: Omit<LifeEvent, 'year'>) => void): void {
+  const count = input.age >= 30 ? 2 : input.age >= 18 ? 1 : 0;
+  const available = PERSONAL_EVENTS.filter((event) => event.minAge < input.age);
+  for (let index = 0; index < count && available.length > 0; index++) {
+    const event = available.splice(random.nextInt(available.length), 1)[0];
+    const eventAge = event.minAge + random.nextInt(input.age - event.minAge);
+    add({ age: eventAge, category: 'personal', title: event.title, impact: event.impact });
+  }
+}
+
+// ==================== RENDERING ====================
+
+/**
+ * Render the backstory text fields from a timeline
+ */
+export function renderBackstory(
+  generated: GeneratedTimeline,
+  input: Pick<BackstoryInput, 'age' | 'motivations' | 'fears'>
+): Backstory {
+  const { timeline } = generated;
+  const at = (event: LifeEvent) => `At ${event.age}, ${lowerFirst(event.title)}.`;
+  const byCategory = (...categories: LifeEvent['category'][]) =>
+    timeline.events.filter((event) => categories.includes(event.category));
+
+  const childhoodEvents = timeline.events.filter((event) => event.category === 'formative' && event.age < 18);
+  const education = byCategory('education');
+  const career = byCategory('career');
+  const personal = byCategory('personal', 'recent');
+
+  return {
+    childhood: [
+      `Born${timeline.birthYear !== undefined ? ` in ${timeline.birthYear}` : ''} in ${timeline.hometown} and ${timeline.upbringing}.`,
+      ...childhoodEvents.map(at)
+    ].join(' '),
+    formativeEvents: byCategory('formative').map((event) => `${event.title} (age ${event.age})`),
+    education: education.length > 0
+      ? education.map(at).join(' ')
+      : input.age < 5 ? 'Not yet old enough for school' : 'Has had no formal education',
+    careerHistory: career.length > 0 ? career.map(at).join(' ') : 'Has not started a career yet',
+    personalHistory: personal.length > 0 ? personal.map(at).join(' ') : 'Has kept a quiet personal life so far',
+    secrets: generated.secrets,
+    motivations: [...input.motivations],
+    fears: [...input.fears],
+    desires: generated.desires,
+    timeline
+  };
+}
+
+export function generateBackstory(input: BackstoryInput, random: RandomSource): Backstory {
+  return renderBackstory(generateLifeTimeline(input, random), input);
+}
+
+// ==================== HELPERS ====================
+
+function pickKeyed<T>(table: Array<{ pattern: RegExp; events: T[] }>, key: string, random: RandomSource): T | undefined {
+  const entry = table.find(({ pattern }) => pattern.test(key));
+  return entry ? random.pick(entry.events) : undefined;
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function withArticle(noun: string): string {
+  return `${/^[aeiou]/i.test(noun) ? 'an' : 'a'} ${noun}`;
+}
@@ -0,0 +1,551 @@
+// Cast Extractor - Split a paragraph describing several characters into per-character descriptions and typed links
+// "Anna, a nurse, and her estranged brother Tom..." becomes two members plus a family link in both directions
+
+import { RelationshipType } from '../types/character-types';
+import { NON_NAME_WORDS, TITLE_PATTERN } from './identity-extraction';
+
+// ==================== CORE TYPES ====================
+
+export interface CastMember {
+  name: string; // Longest form seen, e.g. "Anna Petrova"
+  aliases: string[]; // Shorter forms that refer to the same person, e.g. "Anna"
+  gender?: string; // Only when a role word or possessive pronoun states it ("her brother Tom")
+  pronouns?: string;
+  description: string; // Sentences about this member, usable as input to createCharacter
+}
+
+export interface CastLink {
+  from: string; // Member name that owns the relationship
+  to: string;
+  relationshipType: RelationshipType;
+  role: string; // What `to` is to `from`, e.g. "brother"
+  inverseRole: string; // What `from` is to `to`, e.g. "sister"
+  strength: number; // 0-100
+  emotionalTone: string;
+  source: 'role' | 'verb' | 'group'; // "her brother Tom", "Anna hates Tom" or "Anna and Tom are siblings"
+  evidence: string; // Sentence the link was read from
+}
+
+export interface CastExtraction {
+  members: CastMember[];
+  links: CastLink[];
+}
+
+type Gender = 'Male' | 'Female';
+
+interface RoleDefinition {
+  words: string[];
+  type: RelationshipType;
+  gender?: Gender; // Gender the word implies for the person it names
+  inverse: [string, string, string]; // Role of the owner, by the owner's gender: male, female, unknown
+}
+
+// ==================== VOCABULARY ====================
+
+const ROLES: RoleDefinition[] = [
+  { words: ['brother', 'stepbrother', 'half-brother'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['brother', 'sister', 'sibling'] },
+  { words: ['sister', 'stepsister', 'half-sister'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['brother', 'sister', 'sibling'] },
+  { words: ['sibling', 'twin'], type: RelationshipType.FAMILY, inverse: ['brother', 'sister', 'sibling'] },
+  { words: ['father', 'dad', 'stepfather'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['son', 'daughter', 'child'] },
+  { words: ['mother', 'mom', 'mum', 'stepmother'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['son', 'daughter', 'child'] },
+  { words: ['parent'], type: RelationshipType.FAMILY, inverse: ['son', 'daughter', 'child'] },
+  { words: ['son', 'stepson'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['father', 'mother', 'parent'] },
+  { words: ['daughter', 'stepdaughter'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['father', 'mother', 'parent'] },
+  { words: ['child'], type: RelationshipType.FAMILY, inverse: ['father', 'mother', 'parent'] },
+  { words: ['grandfather', 'grandpa'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['grandson', 'granddaughter', 'grandchild'] },
+  { words: ['grandmother', 'grandma'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['grandson', 'granddaughter', 'grandchild'] },
+  { words: ['grandson'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['grandfather', 'grandmother', 'grandparent'] },
+  { words: ['granddaughter'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['grandfather', 'grandmother', 'grandparent'] },
+  { words: ['uncle'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['nephew', 'niece', 'nibling'] },
+  { words: ['aunt'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['nephew', 'niece', 'nibling'] },
+  { words: ['nephew'], type: RelationshipType.FAMILY, gender: 'Male', inverse: ['uncle', 'aunt', 'relative'] },
+  { words: ['niece'], type: RelationshipType.FAMILY, gender: 'Female', inverse: ['uncle', 'aunt', 'relative'] },
+  { words: ['cousin'], type: RelationshipType.FAMILY, inverse: ['cousin', 'cousin', 'cousin'] },
+  { words: ['husband'], type: RelationshipType.ROMANTIC, gender: 'Male', inverse: ['husband', 'wife', 'spouse'] },
+  { words: ['wife'], type: RelationshipType.ROMANTIC, gender: 'Female', inverse: ['husband', 'wife', 'spouse'] },
+  { words: ['spouse'], type: RelationshipType.ROMANTIC, inverse: ['husband', 'wife', 'spouse'] },
+  { words: ['boyfriend', 'fiance', 'fiancé'], type: RelationshipType.ROMANTIC, gender: 'Male', inverse: ['boyfriend', 'girlfriend', 'partner'] },
+  { words: ['girlfriend', 'fiancee', 'fiancée'], type: RelationshipType.ROMANTIC, gender: 'Female', inverse: ['boyfriend', 'girlfriend', 'partner'] },
+  { words: ['lover'], type: RelationshipType.ROMANTIC, inverse: ['lover', 'lover', 'lover'] },
+  { words: ['partner'], type: RelationshipType.ROMANTIC, inverse: ['partner', 'partner', 'partner'] },
+  { words: ['ex-husband'], type: RelationshipType.ROMANTIC, gender: 'Male', inverse: ['ex-husband', 'ex-wife', 'ex'] },
+  { words: ['ex-wife'], type: RelationshipType.ROMANTIC, gender: 'Female', inverse: ['ex-husband', 'ex-wife', 'ex'] },
+  { words: ['ex', 'ex-partner', 'ex-girlfriend', 'ex-boyfriend'], type: RelationshipType.ROMANTIC, inverse: ['ex', 'ex', 'ex'] },
+  { words: ['friend', 'best friend', 'confidant', 'confidante', 'roommate', 'flatmate'], type: RelationshipType.FRIENDSHIP, inverse: ['friend', 'friend', 'friend'] },
+  { words: ['colleague', 'coworker', 'co-worker', 'partner in crime'], type: RelationshipType.PROFESSIONAL, inverse: ['colleague', 'colleague', 'colleague'] },
+  { words: ['boss', 'employer', 'supervisor', 'commander'], type: RelationshipType.PROFESSIONAL, inverse: ['employee', 'employee', 'employee'] },
+  { words: ['employee', 'assistant', 'deputy', 'subordinate'], type: RelationshipType.PROFESSIONAL, inverse: ['boss', 'boss', 'boss'] },
+  { words: ['mentor', 'teacher', 'master'], type: RelationshipType.MENTOR_MENTEE, inverse: ['protégé', 'protégé', 'protégé'] },
+  { words: ['protégé', 'protege', 'student', 'apprentice', 'pupil'], type: RelationshipType.MENTOR_MENTEE, inverse: ['mentor', 'mentor', 'mentor'] },
+  { words: ['rival', 'enemy', 'nemesis', 'arch-enemy', 'archenemy'], type: RelationshipType.ANTAGONISTIC, inverse: ['rival', 'rival', 'rival'] },
+  { words: ['neighbor', 'neighbour', 'acquaintance'], type: RelationshipType.ACQUAINTANCE, inverse: ['neighbor', 'neighbor', 'neighbor'] },
+  { words: ['landlord', 'landlady'], type: RelationshipType.ACQUAINTANCE, inverse: ['tenant', 'tenant', 'tenant'] }
+];
+
+// Default bond strength and tone per relationship type
+const TYPE_DEFAULTS: Record<RelationshipType, { strength: number; tone: string }> = {
+  [RelationshipType.FAMILY]: { strength: 70, tone: 'Affectionate' },
+  [RelationshipType.ROMANTIC]: { strength: 80, tone: 'Loving' },
+  [RelationshipType.FRIENDSHIP]: { strength: 65, tone: 'Friendly' },
+  [RelationshipType.PROFESSIONAL]: { strength: 50, tone: 'Cordial' },
+  [RelationshipType.MENTOR_MENTEE]: { strength: 70, tone: 'Respectful' },
+  [RelationshipType.ANTAGONISTIC]: { strength: 60, tone: 'Hostile' },
+  [RelationshipType.ACQUAINTANCE]: { strength: 30, tone: 'Neutral' }
+};
+
+// Adjectives in front of a role word that change how close and how warm the bond is
+const ADJECTIVE_TONES: Record<string, { strength: number; tone: string }> = {
+  estranged: { strength: 25, tone: 'Estranged' },
+  beloved: { strength: 85, tone: 'Loving' },
+  devoted: { strength: 85, tone: 'Devoted' },
+  loving: { strength: 80, tone: 'Loving' },
+  doting: { strength: 80, tone: 'Doting' },
+  close: { strength: 80, tone: 'Warm' },
+  best: { strength: 85, tone: 'Warm' },
+  childhood: { strength: 70, tone: 'Nostalgic' },
+  old: { strength: 65, tone: 'Familiar' },
+  trusted: { strength: 80, tone: 'Trusting' },
+  late: { strength: 50, tone: 'Grieving' },
+  former: { strength: 30, tone: 'Distant' },
+  distant: { strength: 30, tone: 'Distant' },
+  absent: { strength: 20, tone: 'Resentful' },
+  overbearing: { strength: 55, tone: 'Tense' },
+  controlling: { strength: 55, tone: 'Tense' },
+  jealous: { strength: 45, tone: 'Resentful' },
+  bitter: { strength: 20, tone: 'Bitter' },
+  abusive: { strength: 40, tone: 'Fearful' },
+  secret: { strength: 60, tone: 'Secretive' }
+};
+
+// Verbs linking two named people: the second person's role from the first person's side
+const VERB_LINKS: Array<{ verbs: string[]; type: RelationshipType; role: string; inverseRole: string; strength: number; tone: string }> = [
+  { verbs: ['hates', 'despises', 'loathes'], type: RelationshipType.ANTAGONISTIC, role: 'enemy', inverseRole: 'enemy', strength: 75, tone: 'Hostile' },
+  { verbs: ['resents', 'envies'], type: RelationshipType.ANTAGONISTIC, role: 'rival', inverseRole: 'rival', strength: 50, tone: 'Resentful' },
+  { verbs: ['fears'], type: RelationshipType.ANTAGONISTIC, role: 'threat', inverseRole: 'target', strength: 50, tone: 'Fearful' },
+  { verbs: ['betrayed'], type: RelationshipType.ANTAGONISTIC, role: 'victim', inverseRole: 'betrayer', strength: 60, tone: 'Betrayed' },
+  { verbs: ['competes with', 'rivals'], type: RelationshipType.ANTAGONISTIC, role: 'rival', inverseRole: 'rival', strength: 55, tone: 'Competitive' },
+  { verbs: ['loves', 'adores', 'is in love with'], type: RelationshipType.ROMANTIC, role: 'beloved', inverseRole: 'admirer', strength: 85, tone: 'Loving' },
+  { verbs: ['is married to'], type: RelationshipType.ROMANTIC, role: 'spouse', inverseRole: 'spouse', strength: 80, tone: 'Loving' },
+  { verbs: ['is engaged to', 'is dating'], type: RelationshipType.ROMANTIC, role: 'partner', inverseRole: 'partner', strength: 75, tone: 'Loving' },
+  { verbs: ['mentors', 'trains', 'tutors'], type: RelationshipType.MENTOR_MENTEE, role: 'protégé', inverseRole: 'mentor', strength: 70, tone: 'Respectful' },
+  { verbs: ['works for'], type: RelationshipType.PROFESSIONAL, role: 'boss', inverseRole: 'employee', strength: 50, tone: 'Cordial' },
+  { verbs: ['works with'], type: RelationshipType.PROFESSIONAL, role: 'colleague', inverseRole: 'colleague', strength: 50, tone: 'Cordial' },
+  { verbs: ['admires', 'trusts'], type: RelationshipType.FRIENDSHIP, role: 'friend', inverseRole: 'friend', strength: 70, tone: 'Admiring' },
+  { verbs: ['protects', 'looks after'], type: RelationshipType.FRIENDSHIP, role: 'ward', inverseRole: 'protector', strength: 75, tone: 'Protective' },
+  { verbs: ['distrusts'], type: RelationshipType.ACQUAINTANCE, role: 'acquaintance', inverseRole: 'acquaintance', strength: 35, tone: 'Suspicious' }
+];
+
+// "Anna and Tom are siblings"
+const GROUP_NOUNS: Record<string, { type: RelationshipType; role: string; tone?: string }> = {
+  siblings: { type: RelationshipType.FAMILY, role: 'sibling' },
+  twins: { type: RelationshipType.FAMILY, role: 'twin' },
+  cousins: { type: RelationshipType.FAMILY, role: 'cousin' },
+  married: { type: RelationshipType.ROMANTIC, role: 'spouse' },
+  lovers: { type: RelationshipType.ROMANTIC, role: 'lover' },
+  friends: { type: RelationshipType.FRIENDSHIP, role: 'friend' },
+  'best friends': { type: RelationshipType.FRIENDSHIP, role: 'best friend', tone: 'Warm' },
+  colleagues: { type: RelationshipType.PROFESSIONAL, role: 'colleague' },
+  partners: { type: RelationshipType.PROFESSIONAL, role: 'partner' },
+  rivals: { type: RelationshipType.ANTAGONISTIC, role: 'rival', tone: 'Competitive' },
+  enemies: { type: RelationshipType.ANTAGONISTIC, role: 'enemy' }
+};
+
+const NAME_TOKEN = "[A-Z][a-zA-Z'’-]*[a-zA-Z]";
+const NAME_SEQUENCE = `${NAME_TOKEN}(?:\\s+${NAME_TOKEN}){0,2}`;
+const ROLE_WORDS = ROLES.flatMap((role) => role.words).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+// Capitalized words that are not people in a cast paragraph
+const CAST_STOPWORDS = new Set([
+  'Later', 'Together', 'Meanwhile', 'Years', 'Now', 'Today', 'Tonight', 'Both', 'Neither', 'Eventually', 'Still',
+  'Yet', 'Only', 'Even', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'January',
+  'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Christmas', 'God', 'I', 'We', 'You'
+]);
+
+const ARTICLES = new Set(['A', 'An', 'The']);
+
+// Sentence ends, except after abbreviated titles such as "Dr."
+const SENTENCE_BREAK = /(?<!\b(?:Dr|Mr|Mrs|Ms|Mx|Prof|Capt|Det|Sgt|Lt|Rev|St)\.)(?<=[.!?])\s+/;
+
+// A sentence-initial capitalized word is only a name if something name-like follows it
+const NAME_CONTINUATION = /^(?:\s*[,(]|\s+(?:is|was|has|had|and|who|never|always|still|can|could|will|would|[a-z]+(?:s|ed)\b))/;
+
+// ==================== EXTRACTION ====================
+
+/**
+ * The known role word inside a role phrase, dropping qualifiers: "estranged brother" is a "brother"
+ */
+export function normalizeRole(role: string): string | undefined {
+  const words = role.trim().toLowerCase().split(/\s+/);
+  for (let start = 0; start < words.length; start++) {
+    const candidate = words.slice(start).join(' ');
+    if (ROLES.some((definition) => definition.words.includes(candidate))) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * What the owner is to the person a role word names: Tom's "sister" makes Tom, if male, her "brother"
+ */
+export function inverseRoleFor(role: string, ownerGender?: string): string | undefined {
+  const definition = findRole(role);
+  return definition ? inverseOf(definition, ownerGender) : undefined;
+}
+
+/**
+ * Whether `reverseRole` (what the owner is to the other person) correctly answers `role`. Gender-neutral forms
+ * match their gendered variants ("partner" and "girlfriend", "sibling" and "brother") unless the owner's gender rules them out.
+ */
+export function isInverseRole(role: string, reverseRole: string, ownerGender?: string): boolean {
+  const definition = findRole(role);
+  const reverse = findRole(reverseRole);
+  if (!definition || !reverse) return false;
+
+  const known = ownerGender === 'Male' || ownerGender === 'Female';
+  const accepted = known ? [inverseOf(definition, ownerGender), definition.inverse[2]] : definition.inverse;
+  const reverseWord = normalizeRole(reverseRole);
+  if (accepted.includes(reverseWord)) return true;
+
+  // "girlfriend" reduces to "partner" by inverting twice
+  const neutral = inverseRoleFor(inverseOf(reverse, undefined)) ?? reverseWord;
+  return accepted.includes(neutral) && (!known || !reverse.gender || reverse.gender === ownerGender);
+}
+
+export function extractCast(paragraph: string): CastExtraction {
+  const sentences = paragraph.split(SENTENCE_BREAK).map((sentence) => sentence.trim()).filter(Boolean);
+  const members = collectMembers(paragraph, sentences);
+  const genders = new Map<string, Gender>();
+  const links: CastLink[] = [];
+
+  const resolve = (mention: string) => members.find((member) => member.name === mention || member.aliases.includes(mention))?.name;
+
+  // Pass 1: links and the genders they imply, so pronoun sentences can be attributed in pass 2
+  let lastSubject: string | undefined;
+  for (const sentence of sentences) {
+    const mentions = findMentions(sentence, resolve);
+    for (const link of [
+      ...findPossessiveLinks(sentence, mentions, resolve, lastSubject, genders),
+      ...findVerbLinks(sentence, mentions, resolve, lastSubject, genders),
+      ...findGroupLinks(sentence, resolve)
+    ]) {
+      mergeLink(links, link);
+    }
+    lastSubject = mentions[0]?.name ?? lastSubject;
+  }
+
+  // Pass 2: each sentence goes to the member it is about
+  const sentencesByMember = new Map<string, string[]>(members.map((member) => [member.name, []]));
+  const appositives = new Map<string, string>();
+  const recent: string[] = [];
+  lastSubject = undefined;
+
+  for (const sentence of sentences) {
+    const mentions = findMentions(sentence, resolve);
+    for (const mention of mentions) {
+      const appositive = sentence.slice(mention.end).match(/^,\s+((?:an?|the)\s+[^,.;]+?)(?=,|\.|;|$)/i);
+      if (appositive && !appositives.has(mention.name) && !new RegExp(`\\b(?:${ROLE_WORDS})\\b`, 'i').test(appositive[1])) {
+        appositives.set(mention.name, appositive[1]);
+      }
+      recent.unshift(mention.name);
+    }
+
+    // "Anna's mentor, Dr. Li Wei, runs the ward" is about Li Wei, not Anna
+    const possessiveOpening = mentions.length > 1 && /^['’]s\s/.test(sentence.slice(mentions[0].end));
+    const subject = (possessiveOpening ? mentions[1].name : mentions[0]?.name) ??
+      resolvePronounSubject(sentence, recent, genders) ?? lastSubject;
+    if (subject && (mentions.length <= 1 || mentions[0].start < 3)) {
+      sentencesByMember.get(subject)?.push(mentions.length > 1 ? stripOtherAppositives(sentence, mentions) : sentence);
+    }
+    lastSubject = subject ?? lastSubject;
+  }
+
+  const castMembers = members.map((member) => {
+    const gender = genders.get(member.name);
+    const ownSentences = sentencesByMember.get(member.name) ?? [];
+    const appositive = appositives.get(member.name);
+    const intro = appositive && !ownSentences.some((sentence) => sentence.includes(appositive)) ? `${member.name}, ${appositive}.` : '';
+    const roleSentences = links
+      .filter((link) => link.to === member.name)
+      .map((link) => (link.source === 'verb' ? link.evidence : `${member.name} is ${link.from}'s ${link.role}.`));
+    const description = [intro, ...ownSentences, ...roleSentences]
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      ...member,
+      gender,
+      pronouns: gender === 'Female' ? 'she/her' : gender === 'Male' ? 'he/him' : undefined,
+      description: description || member.name
+    };
+  });
+
+  return { members: castMembers, links };
+}
+
+interface Mention {
+  name: string; // Canonical member name
+  start: number;
+  end: number;
+}
+
+function collectMembers(paragraph: string, sentences: string[]): Array<Pick<CastMember, 'name' | 'aliases'>> {
+  const candidates: string[] = [];
+  for (const sentence of sentences) {
+    const pattern = new RegExp(`(?:(?:${TITLE_PATTERN})\\s+)?(${NAME_SEQUENCE})`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sentence)) !== null) {
+      // Leading words that are never names are dropped, so "Old Jacob" is Jacob; "The Ministry" stays out
+      const tokens = match[1].replace(/['’]s$/, '').split(' ');
+      if (ARTICLES.has(tokens[0])) continue;
+      while (tokens.length > 0 && (NON_NAME_WORDS.has(tokens[0]) || CAST_STOPWORDS.has(tokens[0]))) tokens.shift();
+      if (tokens.length === 0) continue;
+      const name = tokens.join(' ');
+      if (/\b(?:in|at|from|near|into|across|through|towards?|of the)\s*$/i.test(sentence.slice(0, match.index))) continue;
+      if (new RegExp(`^(?:${ROLE_WORDS})$`, 'i').test(name)) continue;
+
+      const sentenceInitial = match.index === 0;
+      const repeated = paragraph.split(name).length > 2;
+      if (sentenceInitial && !repeated && !NAME_CONTINUATION.test(sentence.slice(match.index + match[0].length))) continue;
+      candidates.push(name);
+    }
+  }
+
+  // Longest forms first so "Anna" joins "Anna Petrova" rather than the other way round
+  const unique = Array.from(new Set(candidates)).sort((a, b) => b.split(' ').length - a.split(' ').length);
+  const members: Array<Pick<CastMember, 'name' | 'aliases'>> = [];
+  for (const name of unique) {
+    const tokens = name.split(' ');
+    const owner = members.find((member) => {
+      const memberTokens = member.name.split(' ');
+      return tokens.length < memberTokens.length && tokens.every((token) => memberTokens.includes(token));
+    });
+    if (owner) owner.aliases.push(name);
+    else members.push({ name, aliases: [] });
+  }
+
+  // Keep first-appearance order
+  return members.sort((a, b) => firstIndex(paragraph, a) - firstIndex(paragraph, b));
+}
+
+function firstIndex(paragraph: string, member: Pick<CastMember, 'name' | 'aliases'>): number {
+  return Math.min(...[member.name, ...member.aliases].map((name) => {
+    const index = paragraph.indexOf(name);
+    return index === -1 ? Infinity : index;
+  }));
+}
+
+function findMentions(sentence: string, resolve: (mention: string) => string | undefined): Mention[] {
+  const mentions: Mention[] = [];
+  // Titles are not part of the name, so "Detective Sarah Chen" resolves like "Sarah Chen"
+  const pattern = new RegExp(`(?:(?:${TITLE_PATTERN})\\s+)?(${NAME_SEQUENCE})`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sentence)) !== null) {
+    const text = match[1].replace(/['’]s$/, '');
+    const name = resolveName(text, resolve);
+    if (name) mentions.push({ name, start: match.index, end: match.index + match[0].length - match[1].length + text.length });
+  }
+  return mentions;
+}
+
+/**
+ * "her estranged brother Tom", "Anna's mentor Li" and "Tom, Anna's brother"
+ */
+function findPossessiveLinks(
+  sentence: string,
+  mentions: Mention[],
+  resolve: (mention: string) => string | undefined,
+  lastSubject: string | undefined,
+  genders: Map<string, Gender>
+): CastLink[] {
+  const links: CastLink[] = [];
+  const owner = `(?:(${NAME_SEQUENCE})['’]s|\\b([Hh]is|[Hh]er|[Tt]heir))`;
+  const adjectives = "((?:[a-z-]+\\s+){0,2}?)";
+  const forward = new RegExp(`${owner}\\s+${adjectives}(${ROLE_WORDS})s?\\b,?\\s+(?:${TITLE_PATTERN}\\s+)?(${NAME_SEQUENCE})`, 'g');
+  const appositive = new RegExp(`(${NAME_SEQUENCE}),\\s+${owner}\\s+${adjectives}(${ROLE_WORDS})\\b`, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = forward.exec(sentence)) !== null) {
+    const [, ownerName, pronoun, adjectiveText, roleWord, targetName] = match;
+    const target = resolveName(targetName, resolve);
+    const from = ownerName ? resolve(ownerName) : antecedent(mentions, match.index, target, lastSubject);
+    if (from && target && from !== target) {
+      links.push(buildRoleLink(from, target, roleWord, adjectiveText, pronoun, sentence, genders));
+    }
+  }
+  while ((match = appositive.exec(sentence)) !== null) {
+    const [, targetName, ownerName, pronoun, adjectiveText, roleWord] = match;
+    const target = resolve(targetName);
+    const from = ownerName ? resolve(ownerName) : antecedent(mentions, match.index, target, lastSubject);
+    if (from && target && from !== target) {
+      links.push(buildRoleLink(from, target, roleWord, adjectiveText, pronoun, sentence, genders));
+    }
+  }
+  return links;
+}
+
+function buildRoleLink(
+  from: string,
+  to: string,
+  roleWord: string,
+  adjectiveText: string,
+  pronoun: string | undefined,
+  sentence: string,
+  genders: Map<string, Gender>
+): CastLink {
+  const role = findRole(roleWord);
+  if (role?.gender) genders.set(to, role.gender);
+  if (pronoun?.toLowerCase() === 'her') genders.set(from, 'Female');
+  if (pronoun?.toLowerCase() === 'his') genders.set(from, 'Male');
+
+  const type = role?.type ?? RelationshipType.ACQUAINTANCE;
+  const adjectiveWords = adjectiveText.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const qualifier = adjectiveWords.map((word) => ADJECTIVE_TONES[word]).find(Boolean);
+  const { strength, tone } = qualifier ?? TYPE_DEFAULTS[type];
+  const inverseRole = role ? inverseOf(role, genders.get(from)) : 'acquaintance';
+
+  return {
+    from,
+    to,
+    relationshipType: type,
+    role: [...adjectiveWords.filter((word) => word in ADJECTIVE_TONES), roleWord.toLowerCase()].join(' '),
+    inverseRole,
+    strength,
+    emotionalTone: tone,
+    source: 'role',
+    evidence: sentence
+  };
+}
+
+/**
+ * "Anna hates Tom", "She mentors Kai"; in "Tom hates Anna's boyfriend Marcus" the object is Marcus
+ */
+function findVerbLinks(
+  sentence: string,
+  mentions: Mention[],
+  resolve: (mention: string) => string | undefined,
+  lastSubject: string | undefined,
+  genders: Map<string, Gender>
+): CastLink[] {
+  const links: CastLink[] = [];
+  for (const verbLink of VERB_LINKS) {
+    const verbs = verbLink.verbs.map(escapeRegExp).join('|');
+    const possessed = `(?:${NAME_SEQUENCE}['’]s\\s+(?:[a-z-]+\\s+){0,2}?(?:${ROLE_WORDS}),?\\s+)?`;
+    const pattern = new RegExp(`(?:(?:(?:${TITLE_PATTERN})\\s+)?(${NAME_SEQUENCE})|\\b(he|she|they|He|She|They))\\s+(?:secretly\\s+|still\\s+|openly\\s+|quietly\\s+)?(?:${verbs})\\s+${possessed}(?:${TITLE_PATTERN}\\s+)?(${NAME_SEQUENCE})`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sentence)) !== null) {
+      const [, subjectName, pronoun, objectName] = match;
+      const to = resolveName(objectName, resolve);
+      const from = subjectName
+        ? resolveName(subjectName, resolve)
+        : resolvePronounSubject(pronoun, mentions.map((mention) => mention.name).reverse(), genders) ?? lastSubject;
+      if (from && to && from !== to) {
+        links.push({
+          from,
+          to,
+          relationshipType: verbLink.type,
+          role: verbLink.role,
+          inverseRole: verbLink.inverseRole,
+          strength: verbLink.strength,
+          emotionalTone: verbLink.tone,
+          source: 'verb',
+          evidence: sentence
+        });
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * "Anna and Tom are siblings" links both ways with the same role
+ */
+function findGroupLinks(sentence: string, resolve: (mention: string) => string | undefined): CastLink[] {
+  const nouns = Object.keys(GROUP_NOUNS).sort((a, b) => b.length - a.length).join('|');
+  const match = sentence.match(new RegExp(`(${NAME_SEQUENCE})\\s+and\\s+(${NAME_SEQUENCE})\\s+(?:are|were|have been)\\s+(?:(?:old|long-time|former|lifelong|close)\\s+)?(${nouns})\\b`));
+  if (!match) return [];
+
+  const first = resolve(match[1]);
+  const second = resolve(match[2]);
+  if (!first || !second || first === second) return [];
+
+  const group = GROUP_NOUNS[match[3]];
+  const { strength, tone } = TYPE_DEFAULTS[group.type];
+  return [{
+    from: first,
+    to: second,
+    relationshipType: group.type,
+    role: group.role,
+    inverseRole: group.role,
+    strength,
+    emotionalTone: group.tone ?? tone,
+    source: 'group',
+    evidence: sentence
+  }];
+}
+
+/**
+ * A later sentence about the same pair refines the link instead of duplicating it
+ */
+function mergeLink(links: CastLink[], link: CastLink): void {
+  const existing = links.find((candidate) =>
+    (candidate.from === link.from && candidate.to === link.to) || (candidate.from === link.to && candidate.to === link.from)
+  );
+  if (!existing) {
+    links.push(link);
+    return;
+  }
+  // Keep the structural role (brother, mentor) but take the tone of a newer, more specific statement
+  if (link.emotionalTone !== TYPE_DEFAULTS[link.relationshipType].tone) {
+    existing.emotionalTone = link.emotionalTone;
+    existing.strength = Math.round((existing.strength + link.strength) / 2);
+  }
+  existing.evidence = `${existing.evidence} ${link.evidence}`;
+}
+
+/**
+ * A member named by a mention: the whole sequence, else its surname, else its first name, so
+ * "Sarah Chen", "Chen" and "Sarah" all resolve and a title read as part of the name is skipped
+ */
+function resolveName(text: string, resolve: (mention: string) => string | undefined): string | undefined {
+  const tokens = text.split(' ').filter((token) => !new RegExp(`^${TITLE_PATTERN}$`).test(token));
+  return resolve(tokens.join(' ')) ?? [...tokens].reverse().map(resolve).find(Boolean);
+}
+
+function antecedent(mentions: Mention[], index: number, exclude: string | undefined, fallback: string | undefined): string | undefined {
+  const before = mentions.filter((mention) => mention.start < index && mention.name !== exclude);
+  return before[before.length - 1]?.name ?? (fallback !== exclude ? fallback : undefined);
+}
+
+function resolvePronounSubject(sentenceOrPronoun: string, recent: string[], genders: Map<string, Gender>): string | undefined {
+  const pronoun = sentenceOrPronoun.match(/^\s*(he|she)\b/i)?.[1].toLowerCase();
+  if (!pronoun) return undefined;
+  const gender: Gender = pronoun === 'she' ? 'Female' : 'Male';
+  return recent.find((name) => genders.get(name) === gender) ?? recent.find((name) => !genders.has(name));
+}
+
+/**
+ * Drop appositives that describe other people so "Anna, a nurse, and her brother Tom, a failed musician" does not
+ * give Anna Tom's job
+ */
+function stripOtherAppositives(sentence: string, mentions: Mention[]): string {
+  let result = sentence;
+  for (const mention of mentions.slice(1).reverse()) {
+    const rest = result.slice(mention.end);
+    const appositive = rest.match(/^,\s+(?:an?|the)\s+[^,.;]+?(?=,|\.|;|$)/i);
+    if (appositive) result = result.slice(0, mention.end) + rest.slice(appositive[0].length);
+  }
+  return result;
+}
+
+function findRole(word: string): RoleDefinition | undefined {
+  const normalized = normalizeRole(word);
+  return normalized ? ROLES.find((definition) => definition.words.includes(normalized)) : undefined;
+}
+
+function inverseOf(role: RoleDefinition, ownerGender: string | undefined): string {
+  return role.inverse[ownerGender === 'Male' ? 0 : ownerGender === 'Female' ? 1 : 2];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,866 @@
+// Character Bible - Shareable production documents for one character or a whole cast
+// One document model feeds three renderers: Markdown, standalone HTML and a paginated PDF written by hand
+
+import { UnifiedCharacterOntology } from '../types/character-types';
+
+// ==================== CORE TYPES ====================
+
+export type BibleSectionId = 'identity' | 'psychology' | 'backstory' | 'relationships' | 'voice' | 'visual';
+
+export type BibleFormat = 'markdown' | 'html' | 'pdf';
+
+export interface BibleTemplate {
+  name: string;
+  sections: BibleSectionId[]; // Included sections, in order
+  sectionTitles?: Partial<Record<BibleSectionId, string>>;
+  includeSecrets: boolean;
+  accentColor: string; // Hex, e.g. "#7c3aed"
+  pageSize: 'A4' | 'Letter'; // PDF only
+  coverNote?: string; // Printed under the title, e.g. "Confidential"
+}
+
+export type BibleBlock =
+  | { type: 'paragraph'; label?: string; text: string }
+  | { type: 'fields'; fields: Array<{ label: string; value: string }> }
+  | { type: 'list'; label: string; items: string[] }
+  | { type: 'chart'; label: string; max: number; bars: Array<{ label: string; value: number }> }
+  | { type: 'timeline'; label: string; events: Array<{ when: string; title: string; detail: string }> }
+  | { type: 'table'; label: string; headers: string[]; rows: string[][] };
+
+export interface BibleSection {
+  id: BibleSectionId;
+  title: string;
+  blocks: BibleBlock[];
+}
+
+export interface BibleChapter {
+  characterId: string;
+  title: string; // The character's name
+  subtitle: string;
+  sections: BibleSection[];
+}
+
+export interface CharacterBible {
+  title: string;
+  generatedAt: Date;
+  template: BibleTemplate;
+  chapters: BibleChapter[];
+}
+
+export interface CharacterBibleOptions {
+  title?: string; // Defaults to the character's name, or "Cast Bible"
+  template?: BibleTemplate | string; // A template or the name of a built-in one
+  cast?: UnifiedCharacterOntology[]; // Resolves relationship targets that are not in the bible
+  generatedAt?: Date;
+}
+
+// ==================== TEMPLATES ====================
+
+export const BIBLE_TEMPLATES: Record<string, BibleTemplate> = {
+  production: {
+    name: 'Production',
+    sections: ['identity', 'psychology', 'backstory', 'relationships', 'voice', 'visual'],
+    includeSecrets: true,
+    accentColor: '#7c3aed',
+    pageSize: 'A4',
+    coverNote: 'Confidential - contains character secrets'
+  },
+  casting: {
+    name: 'Casting',
+    sections: ['identity', 'visual', 'voice', 'psychology'],
+    sectionTitles: { visual: 'Look', voice: 'Voice & Delivery' },
+    includeSecrets: false,
+    accentColor: '#0f766e',
+    pageSize: 'Letter'
+  },
+  writersRoom: {
+    name: "Writers' Room",
+    sections: ['psychology', 'backstory', 'relationships', 'voice'],
+    sectionTitles: { psychology: 'Inner Life', backstory: 'History' },
+    includeSecrets: true,
+    accentColor: '#b45309',
+    pageSize: 'Letter',
+    coverNote: 'For the writing team only'
+  }
+};
+
+const SECTION_TITLES: Record<BibleSectionId, string> = {
+  identity: 'Identity',
+  psychology: 'Psychology',
+  backstory: 'Backstory',
+  relationships: 'Relationships',
+  voice: 'Voice',
+  visual: 'Visual Style'
+};
+
+// ==================== DOCUMENT MODEL ====================
+
+export function resolveBibleTemplate(template: BibleTemplate | string = 'production'): BibleTemplate {
+  if (typeof template !== 'string') return template;
+  const found = BIBLE_TEMPLATES[template] ?? Object.values(BIBLE_TEMPLATES).find((candidate) => candidate.name === template);
+  if (!found) throw new Error(`Unknown bible template: ${template}`);
+  return found;
+}
+
+/**
+ * Assemble the bible's chapters and sections; renderers only lay them out
+ */
+export function buildCharacterBible(characters: UnifiedCharacterOntology[], options: CharacterBibleOptions = {}): CharacterBible {
+  if (characters.length === 0) throw new Error('A character bible needs at least one character');
+  const template = resolveBibleTemplate(options.template);
+  const names = new Map([...(options.cast ?? []), ...characters].map((member) => [member.id, member.coreIdentity.name]));
+
+  return {
+    title: options.title ?? (characters.length === 1 ? characters[0].coreIdentity.name : 'Cast Bible'),
+    generatedAt: options.generatedAt ?? new Date(),
+    template,
+    chapters: characters.map((character) => ({
+      characterId: character.id,
+      title: character.coreIdentity.name,
+      subtitle: `${character.coreIdentity.age}, ${character.coreIdentity.occupation} - ${character.psychologicalProfile.archetypeProfile.primary}`,
+      sections: template.sections.map((id) => ({
+        id,
+        title: template.sectionTitles?.[id] ?? SECTION_TITLES[id],
+        blocks: sectionBlocks(id, character, template, names).map(withoutEmptyEntries).filter(hasContent)
+      }))
+    }))
+  };
+}
+
+function sectionBlocks(
+  id: BibleSectionId,
+  character: UnifiedCharacterOntology,
+  template: BibleTemplate,
+  names: Map<string, string>
+): BibleBlock[] {
+  const { coreIdentity, psychologicalProfile, emotionalProfile, behavioralPatterns, backstory, voiceIdentity, visualIdentity } = character;
+
+  switch (id) {
+    case 'identity':
+      return [
+        {
+          type: 'fields',
+          fields: [
+            { label: 'Name', value: [coreIdentity.title, coreIdentity.name].filter(Boolean).join(' ') },
+            { label: 'Known as', value: coreIdentity.nickname ?? '' },
+            { label: 'Age', value: String(coreIdentity.age) },
+            { label: 'Gender', value: coreIdentity.gender },
+            { label: 'Pronouns', value: coreIdentity.pronouns ?? '' },
+            { label: 'Species', value: coreIdentity.species },
+            { label: 'Occupation', value: coreIdentity.occupation }
+          ]
+        },
+        { type: 'paragraph', label: 'Background', text: coreIdentity.background }
+      ];
+    case 'psychology': {
+      const { oceanTraits, archetypeProfile } = psychologicalProfile;
+      return [
+        {
+          type: 'fields',
+          fields: [
+            { label: 'MBTI', value: psychologicalProfile.mbtiType },
+            { label: 'Enneagram', value: psychologicalProfile.enneagramType },
+            { label: 'Archetype', value: `${archetypeProfile.primary}, secondary ${archetypeProfile.secondary}, shadow ${archetypeProfile.shadowArchetype}` },
+            { label: 'Socially', value: behavioralPatterns.socialBehavior },
+            { label: 'Decisions', value: behavioralPatterns.decisionMaking }
+          ]
+        },
+        {
+          type: 'chart',
+          label: 'Big Five',
+          max: 100,
+          bars: [
+            { label: 'Openness', value: oceanTraits.openness },
+            { label: 'Conscientiousness', value: oceanTraits.conscientiousness },
+            { label: 'Extraversion', value: oceanTraits.extraversion },
+            { label: 'Agreeableness', value: oceanTraits.agreeableness },
+            { label: 'Neuroticism', value: oceanTraits.neuroticism }
+          ]
+        },
+        {
+          type: 'chart',
+          label: 'Emotional Profile',
+          max: 100,
+          bars: [
+            { label: 'Emotional intelligence', value: emotionalProfile.emotionalIntelligence },
+            { label: 'Empathy', value: emotionalProfile.empathy },
+            { label: 'Stability', value: emotionalProfile.emotionalStability }
+          ]
+        },
+        { type: 'list', label: 'Core emotions', items: emotionalProfile.coreEmotions },
+        { type: 'list', label: 'Triggers', items: emotionalProfile.emotionalTriggers },
+        { type: 'list', label: 'Under stress', items: behavioralPatterns.stressResponses },
+        { type: 'list', label: 'Coping', items: emotionalProfile.copingMechanisms },
+        { type: 'list', label: 'Mannerisms and habits', items: [...behavioralPatterns.mannerisms, ...behavioralPatterns.habitsAndQuirks] }
+      ];
+    }
+    case 'backstory': {
+      const timeline = backstory.timeline;
+      return [
+        {
+          type: 'fields',
+          fields: [
+            { label: 'Born', value: timeline?.birthYear ? String(timeline.birthYear) : '' },
+            { label: 'Hometown', value: timeline?.hometown ?? '' },
+            { label: 'Upbringing', value: timeline?.upbringing ?? '' }
+          ]
+        },
+        { type: 'paragraph', label: 'Childhood', text: backstory.childhood },
+        timeline && timeline.events.length > 0
+          ? {
+            type: 'timeline',
+            label: 'Timeline',
+            events: timeline.events.map((event) => ({
+              when: event.year ? `${event.year} (age ${event.age})` : `Age ${event.age}`,
+              title: event.title,
+              detail: `${event.category}, ${event.impact}${event.drivenBy ? `; explains ${event.drivenBy.toLowerCase()}` : ''}`
+            }))
+          }
+          : { type: 'list', label: 'Formative events', items: backstory.formativeEvents },
+        { type: 'paragraph', label: 'Education', text: backstory.education },
+        { type: 'paragraph', label: 'Career', text: backstory.careerHistory },
+        { type: 'paragraph', label: 'Personal life', text: backstory.personalHistory },
+        { type: 'list', label: 'Motivations', items: backstory.motivations },
+        { type: 'list', label: 'Fears', items: backstory.fears },
+        { type: 'list', label: 'Desires', items: backstory.desires },
+        ...(template.includeSecrets ? [{ type: 'list' as const, label: 'Secrets', items: backstory.secrets }] : [])
+      ];
+    }
+    case 'relationships':
+      if (character.relationships.length === 0) return [{ type: 'paragraph', text: 'No recorded relationships.' }];
+      return [
+        {
+          type: 'table',
+          label: 'Connections',
+          headers: ['Character', 'Role', 'Strength', 'Tone', 'Status'],
+          rows: character.relationships.map((relationship) => [
+            names.get(relationship.targetCharacterId) ?? 'Unknown',
+            relationship.role ?? relationship.relationshipType.replace('_', '/'),
+            String(relationship.strength),
+            relationship.emotionalTone,
+            relationship.currentStatus
+          ])
+        },
+        {
+          type: 'list',
+          label: 'History',
+          items: character.relationships
+            .filter((relationship) => relationship.history || relationship.description)
+            .map((relationship) => `${names.get(relationship.targetCharacterId) ?? 'Unknown'}: ${relationship.history || relationship.description}`)
+        }
+      ];
+    case 'voice':
+      return [
+        {
+          type: 'fields',
+          fields: [
+            { label: 'Voice', value: voiceIdentity.voiceType },
+            { label: 'Pitch', value: voiceIdentity.pitch },
+            { label: 'Pace', value: voiceIdentity.pace },
+            { label: 'Accent', value: voiceIdentity.accent }
+          ]
+        },
+        { type: 'list', label: 'Speech patterns', items: voiceIdentity.speechPatterns },
+        { type: 'list', label: 'Emotional range', items: voiceIdentity.emotionalRange },
+        { type: 'list', label: 'Languages', items: character.skillsAndAbilities.languages }
+      ];
+    case 'visual': {
+      const { physicalFeatures, styleProfile } = visualIdentity;
+      return [
+        {
+          type: 'fields',
+          fields: [
+            { label: 'Height', value: physicalFeatures.height },
+            { label: 'Build', value: physicalFeatures.build },
+            { label: 'Hair', value: physicalFeatures.hairColor },
+            { label: 'Eyes', value: physicalFeatures.eyeColor },
+            { label: 'Skin', value: physicalFeatures.skinTone },
+            { label: 'Fashion', value: styleProfile.fashionStyle }
+          ]
+        },
+        { type: 'list', label: 'Distinctive features', items: physicalFeatures.distinctiveFeatures },
+        { type: 'list', label: 'Color palette', items: styleProfile.colorPalette },
+        { type: 'list', label: 'Accessories', items: styleProfile.accessories }
+      ];
+    }
+  }
+}
+
+function withoutEmptyEntries(block: BibleBlock): BibleBlock {
+  switch (block.type) {
+    case 'fields': return { ...block, fields: block.fields.filter((field) => field.value?.trim()) };
+    case 'list': return { ...block, items: block.items.filter((item) => item?.trim()) };
+    default: return block;
+  }
+}
+
+function hasContent(block: BibleBlock): boolean {
+  switch (block.type) {
+    case 'paragraph': return Boolean(block.text?.trim());
+    case 'fields': return block.fields.length > 0;
+    case 'list': return block.items.length > 0;
+    case 'chart': return block.bars.length > 0;
+    case 'timeline': return block.events.length > 0;
+    case 'table': return block.rows.length > 0;
+  }
+}
+
+// ==================== MARKDOWN ====================
+
+export function renderBibleMarkdown(bible: CharacterBible): string {
+  const lines: string[] = [`# ${bible.title}`, ''];
+  if (bible.template.coverNote) lines.push(`_${bible.template.coverNote}_`, '');
+  lines.push(`${bible.template.name} bible, generated ${formatDate(bible.generatedAt)}`, '', '## Contents', '');
+
+  bible.chapters.forEach((chapter, chapterIndex) => {
+    lines.push(`- [${chapter.title}](#${anchor(chapterIndex)})`);
+    chapter.sections.forEach((section) => lines.push(`  - [${section.title}](#${anchor(chapterIndex, section.id)})`));
+  });
+
+  bible.chapters.forEach((chapter, chapterIndex) => {
+    lines.push('', `<a id="${anchor(chapterIndex)}"></a>`, '', `## ${chapter.title}`, '', `_${chapter.subtitle}_`);
+    for (const section of chapter.sections) {
+      lines.push('', `<a id="${anchor(chapterIndex, section.id)}"></a>`, '', `### ${section.title}`);
+      for (const block of section.blocks) lines.push('', ...markdownBlock(block));
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+function markdownBlock(block: BibleBlock): string[] {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  switch (block.type) {
+    case 'paragraph': return [block.label ? `**${block.label}.** ${block.text}` : block.text];
+    case 'fields': return block.fields.map((field) => `- **${field.label}:** ${field.value}`);
+    case 'list': return [`**${block.label}**`, '', ...block.items.map((item) => `- ${item}`)];
+    case 'chart':
+      return [`**${block.label}**`, '', '| | Score | |', '|---|---:|---|', ...block.bars.map((bar) => {
+        const filled = Math.round((bar.value / block.max) * 20);
+        return `| ${bar.label} | ${bar.value} | \`${'█'.repeat(filled)}${'░'.repeat(20 - filled)}\` |`;
+      })];
+    case 'timeline':
+      return [`**${block.label}**`, '', '| When | Event | |', '|---|---|---|', ...block.events.map((event) =>
+        `| ${cell(event.when)} | ${cell(event.title)} | ${cell(event.detail)} |`)];
+    case 'table':
+      return [`**${block.label}**`, '', `| ${block.headers.join(' | ')} |`, `|${block.headers.map(() => '---').join('|')}|`,
+        ...block.rows.map((row) => `| ${row.map(cell).join(' | ')} |`)];
+  }
+}
+
+// ==================== HTML ====================
+
+export function renderBibleHtml(bible: CharacterBible): string {
+  const accent = escapeHtml(bible.template.accentColor);
+  const contents = bible.chapters.map((chapter, chapterIndex) => `
+      <li><a href="#${anchor(chapterIndex)}">${escapeHtml(chapter.title)}</a>
+        <ol>${chapter.sections.map((section) => `<li><a href="#${anchor(chapterIndex, section.id)}">${escapeHtml(section.title)}</a></li>`).join('')}</ol>
+      </li>`).join('');
+
+  const chapters = bible.chapters.map((chapter, chapterIndex) => `
+  <article class="chapter" id="${anchor(chapterIndex)}">
+    <h2>${escapeHtml(chapter.title)}</h2>
+    <p class="subtitle">${escapeHtml(chapter.subtitle)}</p>${chapter.sections.map((section) => `
+    <section id="${anchor(chapterIndex, section.id)}">
+      <h3>${escapeHtml(section.title)}</h3>
+      ${section.blocks.map((block) => htmlBlock(block, bible.template.accentColor)).join('\n      ')}
+    </section>`).join('')}
+  </article>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(bible.title)}</title>
+<style>
+  :root { --accent: ${accent}; }
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; max-width: 820px; margin: 0 auto; padding: 48px 24px; line-height: 1.5; }
+  h1 { font-size: 2.4rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.8rem; border-bottom: 4px solid var(--accent); padding-bottom: 0.3rem; margin-bottom: 0.2rem; }
+  h3 { color: var(--accent); margin-top: 2rem; }
+  h4 { margin: 1.2rem 0 0.4rem; font-size: 0.95rem; }
+  a { color: var(--accent); }
+  .note { color: #b91c1c; font-style: italic; }
+  .meta, .subtitle { color: #6b7280; }
+  nav ol { padding-left: 1.2rem; }
+  nav > ol > li { margin-top: 0.4rem; font-weight: 600; }
+  nav ol ol { font-weight: normal; columns: 2; }
+  dl { display: grid; grid-template-columns: 140px 1fr; gap: 0.25rem 1rem; margin: 0.5rem 0; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border-bottom: 1px solid #e5e7eb; text-align: left; padding: 0.35rem 0.5rem; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .timeline { list-style: none; padding-left: 0; border-left: 2px solid var(--accent); }
+  .timeline li { position: relative; padding: 0 0 0.6rem 1rem; }
+  .timeline li::before { content: ""; position: absolute; left: -6px; top: 0.45rem; width: 10px; height: 10px; border-radius: 50%; background: var(--accent); }
+  .timeline .when { font-weight: 600; margin-right: 0.5rem; }
+  .timeline .detail { display: block; color: #6b7280; font-size: 0.85rem; }
+  @media print {
+    body { padding: 0; }
+    .chapter { break-before: page; }
+    section { break-inside: avoid-page; }
+  }
+</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(bible.title)}</h1>
+    ${bible.template.coverNote ? `<p class="note">${escapeHtml(bible.template.coverNote)}</p>` : ''}
+    <p class="meta">${escapeHtml(bible.template.name)} bible, generated ${formatDate(bible.generatedAt)}</p>
+  </header>
+  <nav>
+    <h2>Contents</h2>
+    <ol>${contents}
+    </ol>
+  </nav>${chapters}
+</body>
+</html>
+`;
+}
+
+function htmlBlock(block: BibleBlock, accent: string): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${block.label ? `<strong>${escapeHtml(block.label)}.</strong> ` : ''}${escapeHtml(block.text)}</p>`;
+    case 'fields':
+      return `<dl>${block.fields.map((field) => `<dt>${escapeHtml(field.label)}</dt><dd>${escapeHtml(field.value)}</dd>`).join('')}</dl>`;
+    case 'list':
+      return `<h4>${escapeHtml(block.label)}</h4><ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'chart': {
+      const rowHeight = 24;
+      const bars = block.bars.map((bar, index) => {
+        const y = index * rowHeight;
+        const width = Math.round((Math.max(0, Math.min(block.max, bar.value)) / block.max) * 360);
+        return `<text x="0" y="${y + 15}" font-size="12">${escapeHtml(bar.label)}</text>` +
+          `<rect x="170" y="${y + 5}" width="360" height="12" rx="3" fill="#e5e7eb"/>` +
+          `<rect x="170" y="${y + 5}" width="${width}" height="12" rx="3" fill="${escapeHtml(accent)}"/>` +
+          `<text x="540" y="${y + 15}" font-size="12">${bar.value}</text>`;
+      }).join('');
+      return `<h4>${escapeHtml(block.label)}</h4><svg role="img" aria-label="${escapeHtml(block.label)}" viewBox="0 0 570 ${block.bars.length * rowHeight}" width="100%">${bars}</svg>`;
+    }
+    case 'timeline':
+      return `<h4>${escapeHtml(block.label)}</h4><ol class="timeline">${block.events.map((event) =>
+        `<li><span class="when">${escapeHtml(event.when)}</span>${escapeHtml(event.title)}<span class="detail">${escapeHtml(event.detail)}</span></li>`).join('')}</ol>`;
+    case 'table':
+      return `<h4>${escapeHtml(block.label)}</h4><table><thead><tr>${block.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map((row) => `<tr>${row.map((value) => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+  }
+}
+
+// ==================== PDF ====================
+
+type PdfFont = 'regular' | 'bold' | 'italic';
+type Rgb = [number, number, number];
+
+interface PdfPage {
+  ops: string[];
+  links: Array<{ rect: [number, number, number, number]; page: number; y: number }>;
+}
+
+const PAGE_SIZES = { A4: { width: 595, height: 842 }, Letter: { width: 612, height: 792 } };
+const MARGIN = 56;
+const FOOTER = 28; // Reserved above the bottom margin for the footer line
+const BODY = 10;
+const LEADING = 1.45;
+const LABEL_WIDTH = 120;
+const TEXT: Rgb = [0.12, 0.16, 0.22];
+const MUTED: Rgb = [0.42, 0.45, 0.5];
+const RULE: Rgb = [0.9, 0.91, 0.92];
+
+/**
+ * Paginated PDF with a linked table of contents; uses the standard Helvetica fonts, so nothing is embedded
+ */
+export function renderBiblePdf(bible: CharacterBible): Uint8Array {
+  const size = PAGE_SIZES[bible.template.pageSize] ?? PAGE_SIZES.A4;
+  const layout = new PdfLayout(size, hexToRgb(bible.template.accentColor));
+
+  const entries = bible.chapters.flatMap((chapter) => [
+    { title: chapter.title, level: 0 },
+    ...chapter.sections.map((section) => ({ title: section.title, level: 1 }))
+  ]);
+  const tocLine = 16;
+  const firstPageEntries = Math.floor((size.height - 2 * MARGIN - FOOTER - 150) / tocLine);
+  const laterPageEntries = Math.floor((size.height - 2 * MARGIN - FOOTER) / tocLine);
+  const tocPages = 1 + Math.max(0, Math.ceil((entries.length - firstPageEntries) / laterPageEntries));
+  for (let page = 0; page < tocPages; page++) layout.newPage();
+
+  // Chapters first, so the contents know every page number
+  const destinations: Array<{ page: number; y: number }> = [];
+  for (const chapter of bible.chapters) {
+    layout.newPage();
+    destinations.push(layout.position());
+    layout.chapterHeading(chapter.title, chapter.subtitle);
+    for (const section of chapter.sections) {
+      layout.ensure(60);
+      destinations.push(layout.position());
+      layout.sectionHeading(section.title);
+      section.blocks.forEach((block) => layout.block(block));
+    }
+  }
+
+  layout.tableOfContents(bible, entries, destinations, tocPages, firstPageEntries, laterPageEntries, tocLine);
+  layout.footers(bible.title);
+  return writePdf(layout.pages, size, bible.title, bible.generatedAt);
+}
+
+class PdfLayout {
+  pages: PdfPage[] = [];
+  private pageIndex = -1;
+  private y = 0;
+  private readonly width: number;
+
+  constructor(private size: { width: number; height: number }, private accent: Rgb) {
+    this.width = size.width - 2 * MARGIN;
+  }
+
+  newPage(): void {
+    this.pages.push({ ops: [], links: [] });
+    this.pageIndex = this.pages.length - 1;
+    this.y = this.size.height - MARGIN;
+  }
+
+  position(): { page: number; y: number } {
+    return { page: this.pageIndex, y: this.y };
+  }
+
+  ensure(height: number): void {
+    if (this.y - height < MARGIN + FOOTER) this.newPage();
+  }
+
+  chapterHeading(title: string, subtitle: string): void {
+    this.y -= 24;
+    this.text(MARGIN, this.y, title, 'bold', 24, TEXT);
+    this.y -= 12;
+    this.rect(MARGIN, this.y, this.width, 3, this.accent);
+    this.y -= 18;
+    this.text(MARGIN, this.y, subtitle, 'italic', 11, MUTED);
+    this.y -= 10;
+  }
+
+  sectionHeading(title: string): void {
+    this.y -= 22;
+    this.text(MARGIN, this.y, title, 'bold', 15, this.accent);
+    this.y -= 6;
+  }
+
+  block(block: BibleBlock): void {
+    const line = BODY * LEADING;
+    switch (block.type) {
+      case 'paragraph':
+        this.y -= 6;
+        this.wrapped(block.label ? `${block.label}. ${block.text}` : block.text, MARGIN, this.width, 'regular', BODY, TEXT, block.label ? block.label.length + 1 : 0);
+        break;
+      case 'fields':
+        this.y -= 6;
+        for (const field of block.fields) {
+          const lines = wrap(field.value, 'regular', BODY, this.width - LABEL_WIDTH);
+          this.ensure(lines.length * line);
+          this.text(MARGIN, this.y - BODY, field.label, 'bold', BODY, TEXT);
+          lines.forEach((text, index) => this.text(MARGIN + LABEL_WIDTH, this.y - BODY - index * line, text, 'regular', BODY, TEXT));
+          this.y -= lines.length * line;
+        }
+        break;
+      case 'list':
+        this.label(block.label);
+        for (const item of block.items) {
+          const lines = wrap(item, 'regular', BODY, this.width - 14);
+          this.ensure(lines.length * line);
+          this.text(MARGIN + 2, this.y - BODY, '•', 'regular', BODY, this.accent);
+          lines.forEach((text, index) => this.text(MARGIN + 14, this.y - BODY - index * line, text, 'regular', BODY, TEXT));
+          this.y -= lines.length * line;
+        }
+        break;
+      case 'chart': {
+        this.label(block.label);
+        const barWidth = this.width - LABEL_WIDTH - 40;
+        for (const bar of block.bars) {
+          this.ensure(16);
+          const value = Math.max(0, Math.min(block.max, bar.value));
+          this.text(MARGIN, this.y - BODY, bar.label, 'regular', BODY - 1, TEXT);
+          this.rect(MARGIN + LABEL_WIDTH, this.y - BODY, barWidth, 8, RULE);
+          this.rect(MARGIN + LABEL_WIDTH, this.y - BODY, (value / block.max) * barWidth, 8, this.accent);
+          this.text(MARGIN + LABEL_WIDTH + barWidth + 8, this.y - BODY, String(bar.value), 'bold', BODY - 1, TEXT);
+          this.y -= 16;
+        }
+        break;
+      }
+      case 'timeline': {
+        this.label(block.label);
+        const column = 86;
+        for (const event of block.events) {
+          const title = wrap(event.title, 'regular', BODY, this.width - column);
+          const detail = wrap(event.detail, 'italic', BODY - 1.5, this.width - column);
+          const height = title.length * line + detail.length * (BODY - 1.5) * LEADING + 4;
+          this.ensure(height);
+          this.rect(MARGIN, this.y - height, 2, height, this.accent);
+          this.text(MARGIN + 8, this.y - BODY, event.when, 'bold', BODY - 1, TEXT);
+          let y = this.y - BODY;
+          title.forEach((text) => { this.text(MARGIN + column, y, text, 'regular', BODY, TEXT); y -= line; });
+          detail.forEach((text) => { this.text(MARGIN + column, y, text, 'italic', BODY - 1.5, MUTED); y -= (BODY - 1.5) * LEADING; });
+          this.y -= height;
+        }
+        break;
+      }
+      case 'table': {
+        this.label(block.label);
+        const columnWidth = this.width / block.headers.length;
+        const row = (cells: string[], font: PdfFont, shade?: Rgb) => {
+          const wrappedCells = cells.map((cell) => wrap(cell, font, BODY - 1, columnWidth - 8));
+          const height = Math.max(...wrappedCells.map((cell) => cell.length)) * (BODY - 1) * LEADING + 6;
+          this.ensure(height);
+          if (shade) this.rect(MARGIN, this.y - height, this.width, height, shade);
+          wrappedCells.forEach((cell, column) => cell.forEach((text, index) =>
+            this.text(MARGIN + column * columnWidth + 4, this.y - BODY - 2 - index * (BODY - 1) * LEADING, text, font, BODY - 1, TEXT)));
+          this.y -= height;
+          this.rect(MARGIN, this.y, this.width, 0.5, RULE);
+        };
+        row(block.headers, 'bold', [0.95, 0.96, 0.97]);
+        block.rows.forEach((cells) => row(cells, 'regular'));
+        break;
+      }
+    }
+  }
+
+  tableOfContents(
+    bible: CharacterBible,
+    entries: Array<{ title: string; level: number }>,
+    destinations: Array<{ page: number; y: number }>,
+    tocPages: number,
+    firstPageEntries: number,
+    laterPageEntries: number,
+    lineHeight: number
+  ): void {
+    this.pageIndex = 0;
+    this.y = this.size.height - MARGIN - 28;
+    this.text(MARGIN, this.y, bible.title, 'bold', 28, TEXT);
+    if (bible.template.coverNote) {
+      this.y -= 22;
+      this.text(MARGIN, this.y, bible.template.coverNote, 'italic', 11, [0.72, 0.11, 0.11]);
+    }
+    this.y -= 20;
+    this.text(MARGIN, this.y, `${bible.template.name} bible, generated ${formatDate(bible.generatedAt)}`, 'regular', 10, MUTED);
+    this.y = this.size.height - MARGIN - 130;
+    this.text(MARGIN, this.y, 'Contents', 'bold', 16, this.accent);
+    this.y -= 8;
+
+    entries.forEach((entry, index) => {
+      const onPage = index < firstPageEntries ? 0 : 1 + Math.floor((index - firstPageEntries) / laterPageEntries);
+      if (onPage !== this.pageIndex && onPage < tocPages) {
+        this.pageIndex = onPage;
+        this.y = this.size.height - MARGIN;
+      }
+      this.y -= lineHeight;
+      const destination = destinations[index];
+      const indent = entry.level * 18;
+      const font: PdfFont = entry.level === 0 ? 'bold' : 'regular';
+      const pageLabel = String(destination.page + 1);
+      const labelWidth = measure(pageLabel, font, BODY);
+      const title = truncate(entry.title, font, BODY, this.width - indent - labelWidth - 24);
+      const titleWidth = measure(title, font, BODY);
+      const dots = '.'.repeat(Math.max(0, Math.floor((this.width - indent - titleWidth - labelWidth - 12) / measure('.', 'regular', BODY))));
+
+      this.text(MARGIN + indent, this.y, title, font, BODY, TEXT);
+      this.text(MARGIN + indent + titleWidth + 6, this.y, dots, 'regular', BODY, RULE.map((channel) => channel - 0.2) as Rgb);
+      this.text(MARGIN + this.width - labelWidth, this.y, pageLabel, font, BODY, TEXT);
+      this.pages[this.pageIndex].links.push({
+        rect: [MARGIN + indent, this.y - 3, MARGIN + this.width, this.y + BODY],
+        page: destination.page,
+        y: destination.y
+      });
+    });
+  }
+
+  footers(title: string): void {
+    this.pages.forEach((page, index) => {
+      this.pageIndex = index;
+      const y = MARGIN - 6;
+      this.rect(MARGIN, y + 14, this.width, 0.5, RULE);
+      this.text(MARGIN, y, truncate(title, 'regular', 8, this.width / 2), 'regular', 8, MUTED);
+      const label = `Page ${index + 1} of ${this.pages.length}`;
+      this.text(MARGIN + this.width - measure(label, 'regular', 8), y, label, 'regular', 8, MUTED);
+    });
+  }
+
+  private label(text: string): void {
+    this.ensure(40);
+    this.y -= 18;
+    this.text(MARGIN, this.y, text, 'bold', BODY + 1, TEXT);
+    this.y -= 4;
+  }
+
+  // First `boldPrefix` characters are set in bold, for inline "Label." run-ins
+  private wrapped(text: string, x: number, width: number, font: PdfFont, size: number, color: Rgb, boldPrefix = 0): void {
+    const lines = wrap(text, font, size, width);
+    const line = size * LEADING;
+    lines.forEach((content, index) => {
+      this.ensure(line);
+      if (index === 0 && boldPrefix > 0) {
+        const prefix = content.slice(0, boldPrefix);
+        this.text(x, this.y - size, prefix, 'bold', size, color);
+        this.text(x + measure(prefix, 'bold', size) + measure(' ', font, size), this.y - size, content.slice(boldPrefix).trimStart(), font, size, color);
+      } else {
+        this.text(x, this.y - size, content, font, size, color);
+      }
+      this.y -= line;
+    });
+  }
+
+  private text(x: number, y: number, text: string, font: PdfFont, size: number, color: Rgb): void {
+    this.pages[this.pageIndex].ops.push(
+      `BT ${rgb(color)} rg /${FONT_RESOURCES[font]} ${num(size)} Tf ${num(x)} ${num(y)} Td (${pdfString(text)}) Tj ET`
+    );
+  }
+
+  private rect(x: number, y: number, width: number, height: number, color: Rgb): void {
+    this.pages[this.pageIndex].ops.push(`${rgb(color)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique' };
+
+function writePdf(pages: PdfPage[], size: { width: number; height: number }, title: string, generatedAt: Date): Uint8Array {
+  const pageObject = (index: number) => 7 + index * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObject(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...(['regular', 'bold', 'italic'] as PdfFont[]).map((font) =>
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`),
+    `<< /Title (${pdfString(title)}) /Producer (Chara Weave) /CreationDate (D:${generatedAt.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`
+  ];
+
+  pages.forEach((page, index) => {
+    const annotations = page.links.map((link) =>
+      `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] /Dest [${pageObject(link.page)} 0 R /XYZ 0 ${num(link.y)} 0] >>`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size.width} ${size.height}] ` +
+      '/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> ' +
+      `/Contents ${pageObject(index) + 1} 0 R${annotations.length > 0 ? ` /Annots [${annotations.join(' ')}]` : ''} >>`
+    );
+    const content = page.ops.join('\n');
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every string above is ASCII, so character offsets are byte offsets
+  let output = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0) & 0xff);
+}
+
+// Advance widths for characters 32-126, in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+function measure(text: string, font: PdfFont, size: number): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : char === '—' || char === '…' ? 1000 : 556;
+  }
+  return (total * size) / 1000;
+}
+
+function wrap(text: string, font: PdfFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate, font, size) <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    // A word wider than the line is broken wherever it runs out of room
+    current = '';
+    for (const char of word) {
+      if (measure(current + char, font, size) > width && current) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+function truncate(text: string, font: PdfFont, size: number, width: number): string {
+  if (measure(text, font, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && measure(`${cut}...`, font, size) > width) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}...`;
+}
+
+// WinAnsi codes for the typographic characters the ontology text tends to contain
+const WIN_ANSI: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '…': 0x85, '€': 0x80, '™': 0x99
+};
+
+function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of text.replace(/[\r\n\t]+/g, ' ')) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') encoded += `\\${char}`;
+    else if (code >= 32 && code <= 126) encoded += char;
+    else if (WIN_ANSI[char] !== undefined) encoded += `\\${WIN_ANSI[char].toString(8)}`;
+    else if (code >= 160 && code <= 255) encoded += `\\${code.toString(8)}`;
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+function rgb(color: Rgb): string {
+  return color.map((channel) => num(channel)).join(' ');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function hexToRgb(hex: string): Rgb {
+  const match = hex.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return [0.49, 0.23, 0.93];
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+}
+
+// ==================== HELPERS ====================
+
+function anchor(chapterIndex: number, sectionId?: BibleSectionId): string {
+  return sectionId ? `character-${chapterIndex + 1}-${sectionId}` : `character-${chapterIndex + 1}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
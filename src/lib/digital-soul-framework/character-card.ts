@@ -0,0 +1,492 @@
+// Character Card - Converts between UnifiedCharacterOntology and Character Card V1/V2, as JSON or embedded in PNG
+// The full ontology rides in extensions.chara_weave and card fields it has no slot for in ontology.extensions.characterCard
+
+import { UnifiedCharacterOntology } from '../types/character-types';
+import { reviveCharacter, serializeCharacter } from './character-repository';
+import { hashSeed } from './seeded-random';
+
+// ==================== CORE TYPES ====================
+
+export interface CharacterCardV1 {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+}
+
+export interface CharacterBook {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions: Record<string, unknown>;
+  entries: Array<Record<string, unknown>>; // Kept as given; the ontology has no lorebook to map them to
+}
+
+export interface CharacterCardV2Data extends CharacterCardV1 {
+  creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  alternate_greetings: string[];
+  character_book?: CharacterBook;
+  tags: string[];
+  creator: string;
+  character_version: string;
+  extensions: Record<string, unknown>;
+}
+
+export interface CharacterCardV2 {
+  spec: 'chara_card_v2';
+  spec_version: '2.0';
+  data: CharacterCardV2Data;
+}
+
+export interface CharacterCardOptions {
+  creator?: string; // Used unless an imported card already named one
+}
+
+export class CharacterCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CharacterCardError';
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+export const CHARA_WEAVE_EXTENSION = 'chara_weave';
+const CARD_EXTENSION_KEY = 'characterCard'; // Key in ontology.extensions for card-only fields
+const DERIVED_HASHES_KEY = 'derivedHashes'; // Hash of what the ontology produced for each kept field at import
+const PNG_CARD_KEYWORD = 'chara';
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// ==================== ONTOLOGY TO CARD ====================
+
+/**
+ * Build a V2 card; fields kept from an earlier import win over the ones derived from the ontology until an edit
+ * changes what the ontology produces for that field
+ */
+export function toCharacterCardV2(character: UnifiedCharacterOntology, options: CharacterCardOptions = {}): CharacterCardV2 {
+  const { extensions: storedExtensions = {}, [DERIVED_HASHES_KEY]: hashes, ...storedFields } = storedCardData(character);
+  const baseline = isRecord(hashes) ? deriveCardData(withoutCardData(character), {}) : undefined;
+  // Cards imported before the hashes were recorded keep every field
+  const current = Object.fromEntries(Object.entries(storedFields).filter(([field]) =>
+    !baseline || hashes[field] === undefined || hashes[field] === hashField(baseline[field as keyof typeof baseline])
+  ));
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      ...deriveCardData(character, options),
+      ...current,
+      extensions: {
+        ...storedExtensions,
+        [CHARA_WEAVE_EXTENSION]: { version: 1, ontology: JSON.parse(serializeCharacter(withoutCardData(character))) }
+      }
+    }
+  };
+}
+
+/**
+ * V1 cards have no extensions, so only the prose fields survive; use V2 for lossless exchange
+ */
+export function toCharacterCardV1(character: UnifiedCharacterOntology, options: CharacterCardOptions = {}): CharacterCardV1 {
+  const { name, description, personality, scenario, first_mes, mes_example } = toCharacterCardV2(character, options).data;
+  return { name, description, personality, scenario, first_mes, mes_example };
+}
+
+function deriveCardData(character: UnifiedCharacterOntology, options: CharacterCardOptions): Omit<CharacterCardV2Data, 'extensions'> {
+  const { coreIdentity, psychologicalProfile, visualIdentity, voiceIdentity, behavioralPatterns, backstory } = character;
+  const { physicalFeatures, styleProfile } = visualIdentity;
+  const { oceanTraits, archetypeProfile } = psychologicalProfile;
+  const list = (items: string[]) => items.filter(Boolean).join('; ');
+  const section = (label: string, text: string) => text ? `${label}: ${text}` : '';
+  const first = coreIdentity.name.split(/\s+/)[0];
+
+  const description = [
+    `{{char}} is ${coreIdentity.age}, ${coreIdentity.species && coreIdentity.species !== 'Human' ? `${coreIdentity.species.toLowerCase()}, ` : ''}${coreIdentity.occupation.toLowerCase()}` +
+      `${coreIdentity.pronouns ? ` (${coreIdentity.pronouns})` : ''}. ${coreIdentity.background}`,
+    section('Appearance', `${physicalFeatures.height}, ${physicalFeatures.build.toLowerCase()} build, ${physicalFeatures.hairColor.toLowerCase()} hair, ` +
+      `${physicalFeatures.eyeColor.toLowerCase()} eyes, ${physicalFeatures.skinTone.toLowerCase()} skin` +
+      `${physicalFeatures.distinctiveFeatures.length > 0 ? `; ${list(physicalFeatures.distinctiveFeatures)}` : ''}. Dresses ${styleProfile.fashionStyle.toLowerCase()}.`),
+    section('Voice', `${voiceIdentity.voiceType}, ${voiceIdentity.pace.toLowerCase()} pace, ${voiceIdentity.accent} accent` +
+      `${voiceIdentity.speechPatterns.length > 0 ? `; ${list(voiceIdentity.speechPatterns)}` : ''}.`),
+    section('Backstory', [backstory.childhood, backstory.education, backstory.careerHistory, backstory.personalHistory].filter(Boolean).join(' ')),
+    section('Motivations', list(backstory.motivations)),
+    section('Fears', list(backstory.fears)),
+    section('Desires', list(backstory.desires)),
+    section('Secrets', list(backstory.secrets)),
+    section('Speaks', list(character.skillsAndAbilities.languages))
+  ].filter(Boolean).join('\n\n');
+
+  const personality = [
+    `${psychologicalProfile.mbtiType}, Enneagram ${psychologicalProfile.enneagramType}; ${archetypeProfile.primary} with ${archetypeProfile.secondary} leanings, shadow ${archetypeProfile.shadowArchetype}.`,
+    `Openness ${oceanTraits.openness}, conscientiousness ${oceanTraits.conscientiousness}, extraversion ${oceanTraits.extraversion}, ` +
+      `agreeableness ${oceanTraits.agreeableness}, neuroticism ${oceanTraits.neuroticism}.`,
+    `${behavioralPatterns.socialBehavior}; ${behavioralPatterns.decisionMaking.toLowerCase()}.`,
+    section('Under stress', list(behavioralPatterns.stressResponses)),
+    section('Mannerisms', list([...behavioralPatterns.mannerisms, ...behavioralPatterns.habitsAndQuirks]))
+  ].filter(Boolean).join(' ');
+
+  const mannerism = behavioralPatterns.mannerisms[0];
+  const exchanges: Array<[string, string | undefined]> = [
+    ['What drives you?', backstory.motivations[0] && `I want to ${lowerFirst(backstory.motivations[0])}.`],
+    ['What scares you?', backstory.fears[0] && `${capitalize(backstory.fears[0])}.`],
+    ['What do you do?', `I'm ${withArticle(coreIdentity.occupation)}.`]
+  ];
+
+  return {
+    name: coreIdentity.name,
+    description,
+    personality,
+    scenario: '',
+    first_mes: `*${mannerism ? `${first} ${lowerFirst(mannerism).replace(/\.$/, '')}` : `${first} looks up`}.* Hello. I'm ${first}.`,
+    mes_example: ['<START>', ...exchanges
+      .filter(([, reply]) => reply)
+      .flatMap(([question, reply]) => [`{{user}}: ${question}`, `{{char}}: ${reply}`])].join('\n'),
+    creator_notes: `Exported from a Chara Weave character ontology; the full ontology is in extensions.${CHARA_WEAVE_EXTENSION}.`,
+    system_prompt: '',
+    post_history_instructions: '',
+    alternate_greetings: [],
+    tags: [...new Set([archetypeProfile.primary, coreIdentity.occupation, psychologicalProfile.mbtiType].filter(Boolean))],
+    creator: options.creator ?? '',
+    character_version: character.version
+  };
+}
+
+// ==================== CARD TO ONTOLOGY ====================
+
+/**
+ * Accept a V2 card, or a V1 card promoted to V2; anything else is rejected
+ */
+export function parseCharacterCard(input: unknown): CharacterCardV2 {
+  const value = typeof input === 'string' ? parseJson(input) : input;
+  if (!isRecord(value)) throw new CharacterCardError('A character card must be a JSON object');
+
+  if (value.spec === 'chara_card_v2') {
+    if (!isRecord(value.data) || typeof value.data.name !== 'string') throw new CharacterCardError('Character Card V2 is missing data.name');
+    return { spec: 'chara_card_v2', spec_version: '2.0', data: { ...emptyCardData(value.data.name), ...value.data } as CharacterCardV2Data };
+  }
+  if (typeof value.spec === 'string') throw new CharacterCardError(`Unsupported character card spec "${value.spec}"`);
+  if (typeof value.name !== 'string') throw new CharacterCardError('Character Card V1 is missing name');
+
+  const v1 = emptyCardData(value.name);
+  for (const field of ['description', 'personality', 'scenario', 'first_mes', 'mes_example'] as const) {
+    if (typeof value[field] === 'string') v1[field] = value[field] as string;
+  }
+  return { spec: 'chara_card_v2', spec_version: '2.0', data: v1 };
+}
+
+/**
+ * The ontology a Chara Weave export embedded in the card, with the card's current name and edits applied
+ */
+export function embeddedOntology(card: CharacterCardV2): UnifiedCharacterOntology | undefined {
+  const extension = card.data.extensions?.[CHARA_WEAVE_EXTENSION];
+  if (!isRecord(extension) || !isRecord(extension.ontology)) return undefined;
+  return applyCardData(reviveCharacter(extension.ontology as unknown as UnifiedCharacterOntology), card);
+}
+
+/**
+ * Give the character the card's name and keep every card field that differs from what the ontology would produce,
+ * so exporting the result reproduces the card
+ */
+export function applyCardData(character: UnifiedCharacterOntology, card: CharacterCardV2): UnifiedCharacterOntology {
+  const named = withoutCardData({ ...character, coreIdentity: { ...character.coreIdentity, name: card.data.name } });
+  const derived = deriveCardData(named, {});
+
+  const stored: Record<string, unknown> = {};
+  const hashes: Record<string, number> = {};
+  for (const [field, value] of Object.entries(card.data)) {
+    if (field === 'name' || field === 'extensions') continue;
+    const derivedValue = derived[field as keyof typeof derived];
+    if (JSON.stringify(value) === JSON.stringify(derivedValue)) continue;
+    stored[field] = value;
+    hashes[field] = hashField(derivedValue);
+  }
+  if (Object.keys(hashes).length > 0) stored[DERIVED_HASHES_KEY] = hashes;
+  const { [CHARA_WEAVE_EXTENSION]: _ontology, ...otherExtensions } = card.data.extensions ?? {};
+  if (Object.keys(otherExtensions).length > 0) stored.extensions = otherExtensions;
+  if (Object.keys(stored).length === 0) return named;
+
+  return { ...named, extensions: { ...named.extensions, [CARD_EXTENSION_KEY]: stored } };
+}
+
+/**
+ * Plain description for building an ontology from a card that carries none; macros become the character's name
+ */
+export function cardDescription(card: CharacterCardV2): string {
+  const { name, description, personality, scenario } = card.data;
+  return [`${name}.`, description, personality, scenario]
+    .filter(Boolean)
+    .join('\n')
+    .replace(/\{\{char\}\}|<BOT>/gi, name)
+    .replace(/\{\{user\}\}|<USER>/gi, 'someone');
+}
+
+function storedCardData(character: UnifiedCharacterOntology): Partial<CharacterCardV2Data> & { [DERIVED_HASHES_KEY]?: Record<string, number> } {
+  const stored = character.extensions?.[CARD_EXTENSION_KEY];
+  return isRecord(stored) ? stored as Partial<CharacterCardV2Data> : {};
+}
+
+function hashField(value: unknown): number {
+  return hashSeed(JSON.stringify(value) ?? '');
+}
+
+function withoutCardData(character: UnifiedCharacterOntology): UnifiedCharacterOntology {
+  if (!character.extensions || !(CARD_EXTENSION_KEY in character.extensions)) return character;
+  const { [CARD_EXTENSION_KEY]: _card, ...extensions } = character.extensions;
+  const { extensions: _extensions, ...rest } = character;
+  return Object.keys(extensions).length > 0 ? { ...rest, extensions } : rest;
+}
+
+function emptyCardData(name: string): CharacterCardV2Data {
+  return {
+    name,
+    description: '',
+    personality: '',
+    scenario: '',
+    first_mes: '',
+    mes_example: '',
+    creator_notes: '',
+    system_prompt: '',
+    post_history_instructions: '',
+    alternate_greetings: [],
+    tags: [],
+    creator: '',
+    character_version: '',
+    extensions: {}
+  };
+}
+
+// ==================== PNG ====================
+
+export interface PngTextChunk {
+  keyword: string;
+  text: string;
+}
+
+/**
+ * Every tEXt chunk in a PNG, in file order
+ */
+export function readPngTextChunks(png: Uint8Array): PngTextChunk[] {
+  return pngChunks(png)
+    .filter((chunk) => chunk.type === 'tEXt')
+    .map((chunk) => {
+      const separator = chunk.data.indexOf(0);
+      if (separator < 1) throw new CharacterCardError('Malformed PNG tEXt chunk');
+      return { keyword: latin1(chunk.data.subarray(0, separator)), text: latin1(chunk.data.subarray(separator + 1)) };
+    });
+}
+
+/**
+ * Return a copy of the PNG with one tEXt chunk for the keyword, replacing any existing ones, placed before IEND
+ */
+export function writePngTextChunk(png: Uint8Array, keyword: string, text: string): Uint8Array {
+  const chunks = pngChunks(png);
+  const kept = chunks.filter((chunk) => !(chunk.type === 'tEXt' && latin1(chunk.data.subarray(0, chunk.data.indexOf(0))) === keyword));
+  const data = concatBytes([latin1Bytes(keyword), new Uint8Array([0]), latin1Bytes(text)]);
+  const parts = kept.map((chunk) => chunk.type === 'IEND'
+    ? concatBytes([encodeChunk('tEXt', data), chunk.raw])
+    : chunk.raw);
+  return concatBytes([new Uint8Array(PNG_SIGNATURE), ...parts]);
+}
+
+export function readCharacterCardPng(png: Uint8Array): CharacterCardV2 {
+  const chunk = readPngTextChunks(png).find((candidate) => candidate.keyword === PNG_CARD_KEYWORD);
+  if (!chunk) throw new CharacterCardError('The PNG has no embedded character card');
+  return parseCharacterCard(decodeBase64(chunk.text));
+}
+
+/**
+ * Embed a card as base64 JSON in a "chara" tEXt chunk; without an image, a placeholder portrait is generated
+ */
+export function writeCharacterCardPng(card: CharacterCardV2 | CharacterCardV1, png?: Uint8Array): Uint8Array {
+  const image = png ?? createPlaceholderPortrait('spec' in card ? card.data.name : card.name);
+  return writePngTextChunk(image, PNG_CARD_KEYWORD, encodeBase64(JSON.stringify(card)));
+}
+
+/**
+ * A small two-tone gradient PNG whose colors come from the name, stored uncompressed so no deflate is needed
+ */
+export function createPlaceholderPortrait(name: string, width = 128, height = 192): Uint8Array {
+  const hue = hashSeed(name) % 360;
+  const [top, bottom] = [hslToRgb(hue, 0.45, 0.55), hslToRgb((hue + 40) % 360, 0.5, 0.25)];
+  const raw = new Uint8Array((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const t = y / (height - 1);
+    const row = y * (width * 3 + 1); // Each row starts with filter type 0
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < 3; channel++) {
+        raw[row + 1 + x * 3 + channel] = Math.round(top[channel] + (bottom[channel] - top[channel]) * t);
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, deflate, no filter set, no interlace
+
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    encodeChunk('IHDR', header),
+    encodeChunk('IDAT', zlibStored(raw)),
+    encodeChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  raw: Uint8Array; // Length, type, data and CRC as they appear in the file
+}
+
+function pngChunks(png: Uint8Array): PngChunk[] {
+  if (png.length < 8 || PNG_SIGNATURE.some((byte, index) => png[index] !== byte)) {
+    throw new CharacterCardError('Not a PNG file');
+  }
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > png.length) throw new CharacterCardError('Truncated PNG chunk');
+    const type = latin1(png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (view.getUint32(offset + 8 + length) !== crc32(png.subarray(offset + 4, offset + 8 + length))) {
+      throw new CharacterCardError(`PNG chunk ${type} failed its CRC check`);
+    }
+    chunks.push({ type, data, raw: png.subarray(offset, end) });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  if (chunks[chunks.length - 1]?.type !== 'IEND') throw new CharacterCardError('PNG has no IEND chunk');
+  return chunks;
+}
+
+function encodeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1Bytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// ==================== BYTES ====================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index++) crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// zlib stream of uncompressed deflate blocks, each at most 65535 bytes
+function zlibStored(data: Uint8Array): Uint8Array {
+  const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+  const count = Math.max(1, Math.ceil(data.length / 0xffff));
+  for (let block = 0; block < count; block++) {
+    const slice = data.subarray(block * 0xffff, (block + 1) * 0xffff);
+    const header = new Uint8Array(5);
+    header[0] = block === count - 1 ? 1 : 0; // BFINAL, BTYPE 00
+    header[1] = slice.length & 0xff;
+    header[2] = slice.length >>> 8;
+    header[3] = ~slice.length & 0xff;
+    header[4] = (~slice.length >>> 8) & 0xff;
+    blocks.push(header, slice);
+  }
+
+  let a = 1;
+  let b = 0;
+  for (let index = 0; index < data.length; index++) {
+    a = (a + data[index]) % 65521;
+    b = (b + a) % 65521;
+  }
+  const adler = new Uint8Array(4);
+  new DataView(adler.buffer).setUint32(0, ((b << 16) | a) >>> 0);
+  return concatBytes([...blocks, adler]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let index = 0; index < bytes.length; index++) text += String.fromCharCode(bytes[index]);
+  return text;
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+}
+
+// Card JSON is UTF-8 before it is base64 encoded
+function encodeBase64(text: string): string {
+  return btoa(latin1(new TextEncoder().encode(text)));
+}
+
+function decodeBase64(encoded: string): string {
+  try {
+    return new TextDecoder().decode(latin1Bytes(atob(encoded.trim())));
+  } catch {
+    throw new CharacterCardError('The embedded character card is not valid base64');
+  }
+}
+
+// ==================== HELPERS ====================
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CharacterCardError('The character card is not valid JSON');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const [r, g, b] = hue < 60 ? [chroma, x, 0] : hue < 120 ? [x, chroma, 0] : hue < 180 ? [0, chroma, x]
+    : hue < 240 ? [0, x, chroma] : hue < 300 ? [x, 0, chroma] : [chroma, 0, x];
+  return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+function withArticle(noun: string): string {
+  return /^[aeiou]/i.test(noun) ? `an ${noun.toLowerCase()}` : `a ${noun.toLowerCase()}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
@@ -0,0 +1,503 @@
+// Character Chat - In-character interviews grounded in the full ontology
+// Secrets stay out of the persona prompt until the reveal condition is met, and replies that leak one are replaced
+
+import { UnifiedCharacterOntology } from '../types/character-types';
+import {
+  LanguageModelError,
+  LanguageModelMessage,
+  LanguageModelProvider,
+  LanguageModelRequest,
+  LanguageModelResponse
+} from './language-model-provider';
+import { SeededRandom } from './seeded-random';
+import { CharacterMemory } from './episodic-memory';
+
+// ==================== CORE TYPES ====================
+
+export interface ChatMessage {
+  role: 'user' | 'character';
+  content: string;
+  timestamp: Date;
+}
+
+export interface ChatConversationState {
+  messages: ChatMessage[];
+  userTurns: number;
+  trust: number; // 0-100
+}
+
+export type SecretRevealCondition =
+  | { type: 'never' }
+  | { type: 'trust'; threshold: number } // Trust earned through the interviewer's tone
+  | { type: 'keyword'; keywords: string[] } // The interviewer names something the character cannot deny
+  | { type: 'turns'; count: number } // After this many interviewer messages
+  | { type: 'custom'; test: (state: ChatConversationState) => boolean };
+
+export interface CharacterChatOptions {
+  provider?: LanguageModelProvider; // Defaults to the deterministic LocalPersonaProvider
+  revealCondition?: SecretRevealCondition; // Default: trust of 70
+  cast?: UnifiedCharacterOntology[]; // Resolves relationship targets to names
+  historyWindow?: number; // Messages sent verbatim; older ones are summarized, default 12
+  temperature?: number;
+  history?: ChatMessage[]; // Restores an earlier conversation
+  memory?: CharacterMemory; // Recalled before each reply; each exchange is remembered as a conversation
+  recallLimit?: number; // Memories recalled per reply, default 3
+}
+
+export interface ChatReply {
+  message: ChatMessage;
+  source: string; // Provider that produced the reply
+  secretsRevealed: boolean;
+  redacted: boolean; // The reply leaked a withheld secret and was replaced
+}
+
+export interface PersonaSheet {
+  name: string;
+  age: number;
+  pronouns?: string;
+  occupation: string;
+  background: string;
+  personality: string;
+  archetype: string;
+  speechPatterns: string[];
+  voice: string;
+  decisionMaking: string;
+  socialBehavior: string;
+  stressResponses: string[];
+  coreEmotions: string[];
+  triggers: string[];
+  fears: string[];
+  motivations: string[];
+  desires: string[];
+  childhood: string;
+  careerHistory: string;
+  relationships: Array<{ name: string; role: string; description: string; tone: string }>;
+  secrets: string[]; // Only the secrets the character is currently willing to share
+  withheldSecrets: number;
+  recalled: string[]; // Memories the latest message brought to mind
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_REVEAL: SecretRevealCondition = { type: 'trust', threshold: 70 };
+const DEFAULT_WINDOW = 12;
+
+const RAPPORT_WORDS = [
+  'understand', 'sorry', 'trust', 'promise', 'safe', 'care', 'help', 'friend', 'thank', 'appreciate',
+  'honest', 'listen', 'believe', 'support', 'together', 'okay to', "it's alright", 'no judgement', 'no judgment'
+];
+const HOSTILE_WORDS = [
+  'liar', 'lying', 'stupid', 'idiot', 'hate', 'shut up', 'threat', 'or else', 'pathetic', 'worthless',
+  'useless', 'confess', 'admit it'
+];
+// Whole words with simple inflections, so "scared" is not "care" and "whatever" is not "hate"
+const RAPPORT_PATTERNS = RAPPORT_WORDS.map(signalPattern);
+const HOSTILE_PATTERNS = HOSTILE_WORDS.map(signalPattern);
+const MAX_TRUST_GAIN = 6; // Per message, so flattery alone takes several turns to reach the reveal threshold
+
+// ==================== CHAT ====================
+
+/**
+ * One interview with one character; keeps the conversation, trust and reveal state between turns
+ */
+export class CharacterChat {
+  private provider: LanguageModelProvider;
+  private fallback: LocalPersonaProvider;
+  private history: ChatMessage[];
+  private trustLevel: number;
+  private revealed: boolean;
+  private recalled: string[] = [];
+
+  constructor(private character: UnifiedCharacterOntology, private options: CharacterChatOptions = {}) {
+    this.fallback = new LocalPersonaProvider(this);
+    this.provider = options.provider ?? this.fallback;
+    this.history = [...(options.history ?? [])];
+    this.trustLevel = initialTrust(character);
+    this.history.filter((message) => message.role === 'user').forEach((message) => this.updateTrust(message.content));
+    this.revealed = this.meetsRevealCondition();
+  }
+
+  get messages(): ChatMessage[] {
+    return [...this.history];
+  }
+
+  get trust(): number {
+    return this.trustLevel;
+  }
+
+  get secretsRevealed(): boolean {
+    return this.revealed;
+  }
+
+  get state(): ChatConversationState {
+    return {
+      messages: this.messages,
+      userTurns: this.history.filter((message) => message.role === 'user').length,
+      trust: this.trustLevel
+    };
+  }
+
+  /**
+   * Everything the persona prompt draws on; secrets appear only once revealed
+   */
+  personaSheet(): PersonaSheet {
+    const { coreIdentity, psychologicalProfile, voiceIdentity, behavioralPatterns, emotionalProfile, backstory } = this.character;
+    const cast = new Map((this.options.cast ?? []).map((member) => [member.id, member.coreIdentity.name]));
+
+    return {
+      name: coreIdentity.name,
+      age: coreIdentity.age,
+      pronouns: coreIdentity.pronouns,
+      occupation: coreIdentity.occupation,
+      background: coreIdentity.background,
+      personality: `${psychologicalProfile.mbtiType}, Enneagram ${psychologicalProfile.enneagramType}`,
+      archetype: `${psychologicalProfile.archetypeProfile.primary}, with a streak of the ${psychologicalProfile.archetypeProfile.secondary}`,
+      speechPatterns: voiceIdentity.speechPatterns,
+      voice: `${voiceIdentity.voiceType}, ${voiceIdentity.pace.toLowerCase()} pace, ${voiceIdentity.accent} accent`,
+      decisionMaking: behavioralPatterns.decisionMaking,
+      socialBehavior: behavioralPatterns.socialBehavior,
+      stressResponses: behavioralPatterns.stressResponses,
+      coreEmotions: emotionalProfile.coreEmotions,
+      triggers: emotionalProfile.emotionalTriggers,
+      fears: backstory.fears,
+      motivations: backstory.motivations,
+      desires: backstory.desires,
+      childhood: backstory.childhood,
+      careerHistory: backstory.careerHistory,
+      relationships: this.character.relationships.map((relationship) => ({
+        name: cast.get(relationship.targetCharacterId) ?? 'someone from their past',
+        role: relationship.role ?? relationship.relationshipType.replace('_', '/'),
+        description: relationship.description,
+        tone: relationship.emotionalTone
+      })),
+      secrets: this.revealed ? backstory.secrets : [],
+      withheldSecrets: this.revealed ? 0 : backstory.secrets.length,
+      recalled: this.recalled
+    };
+  }
+
+  /**
+   * System prompt, an optional summary of older turns, then the recent turns verbatim
+   */
+  buildPrompt(userMessage?: string): LanguageModelMessage[] {
+    const window = this.options.historyWindow ?? DEFAULT_WINDOW;
+    const recent = this.history.slice(-window);
+    const earlier = this.history.slice(0, Math.max(0, this.history.length - window));
+
+    const messages: LanguageModelMessage[] = [{ role: 'system', content: buildPersonaPrompt(this.personaSheet()) }];
+    if (earlier.length > 0 || this.recalled.length > 0) {
+      messages.push({ role: 'system', content: summarizeEarlierTurns(earlier, this.recalled) });
+    }
+    recent.forEach((message) => messages.push({
+      role: message.role === 'user' ? 'user' : 'assistant',
+      content: message.content
+    }));
+    if (userMessage !== undefined) messages.push({ role: 'user', content: userMessage });
+    return messages;
+  }
+
+  /**
+   * Send the interviewer's message and get the character's reply; a failing provider falls back to the local stand-in
+   */
+  async send(text: string): Promise<ChatReply> {
+    const content = text.trim();
+    if (!content) throw new Error('Message is empty');
+
+    // The turn is applied first because the reveal check and the prompt read it, and undone if no reply arrives
+    const before = { trustLevel: this.trustLevel, revealed: this.revealed, recalled: this.recalled, turns: this.history.length };
+    let response: LanguageModelResponse;
+    try {
+      this.updateTrust(content);
+      this.history.push({ role: 'user', content, timestamp: new Date() });
+      this.revealed = this.revealed || this.meetsRevealCondition();
+      this.recalled = await this.recall(content);
+      // The new message is already in history, so the prompt needs no extra user turn
+      response = await this.complete({ messages: this.buildPrompt(), temperature: this.options.temperature ?? 0.8 });
+    } catch (error) {
+      this.history.splice(before.turns);
+      this.trustLevel = before.trustLevel;
+      this.revealed = before.revealed;
+      this.recalled = before.recalled;
+      throw error;
+    }
+
+    let reply = response.content.trim();
+    const redacted = !this.revealed && leaksSecret(reply, this.character.backstory.secrets);
+    if (redacted) reply = deflection(this.character, this.history.length);
+
+    const message: ChatMessage = { role: 'character', content: reply, timestamp: new Date() };
+    this.history.push(message);
+    await this.options.memory?.record({
+      kind: 'conversation',
+      description: `The interviewer asked "${content}" and I answered "${reply}"`,
+      participants: ['Interviewer'],
+      importance: this.revealed && !redacted ? 40 : 20
+    });
+    return { message, source: response.model, secretsRevealed: this.revealed, redacted };
+  }
+
+  reset(): void {
+    this.history = [];
+    this.recalled = [];
+    this.trustLevel = initialTrust(this.character);
+    this.revealed = this.meetsRevealCondition();
+  }
+
+  private async complete(request: LanguageModelRequest): Promise<LanguageModelResponse> {
+    try {
+      return await this.provider.complete(request);
+    } catch (error) {
+      if (!(error instanceof LanguageModelError) || this.provider === this.fallback) throw error;
+      return this.fallback.complete(request);
+    }
+  }
+
+  // Memories that would give away a withheld secret are not brought to mind
+  private async recall(text: string): Promise<string[]> {
+    if (!this.options.memory) return [];
+    const matches = await this.options.memory.retrieve({ text, limit: this.options.recallLimit ?? 3 });
+    return matches
+      .map((match) => match.memory.description)
+      .filter((description) => this.revealed || !leaksSecret(description, this.character.backstory.secrets));
+  }
+
+  private updateTrust(text: string): void {
+    // Trust is earned over turns: one effusive message counts as a single rapport signal, hostility as up to two
+    const rapport = Math.min(1, RAPPORT_PATTERNS.filter((pattern) => pattern.test(text)).length);
+    const hostility = Math.min(2, HOSTILE_PATTERNS.filter((pattern) => pattern.test(text)).length);
+    // Agreeable characters warm up faster; neurotic ones take hostility harder
+    const { agreeableness, neuroticism } = this.character.psychologicalProfile.oceanTraits;
+    const gain = Math.min(MAX_TRUST_GAIN, 1 + rapport * (3 + agreeableness / 50));
+    const delta = gain - hostility * (8 + neuroticism / 10);
+    this.trustLevel = Math.round(Math.min(100, Math.max(0, this.trustLevel + delta)));
+  }
+
+  private meetsRevealCondition(): boolean {
+    const condition = this.options.revealCondition ?? DEFAULT_REVEAL;
+    const state = this.state;
+    switch (condition.type) {
+      case 'never': return false;
+      case 'trust': return state.trust >= condition.threshold;
+      case 'turns': return state.userTurns >= condition.count;
+      case 'keyword': {
+        const said = state.messages.filter((message) => message.role === 'user').map((message) => message.content.toLowerCase()).join(' ');
+        return condition.keywords.some((keyword) => said.includes(keyword.toLowerCase()));
+      }
+      case 'custom': return condition.test(state);
+    }
+  }
+}
+
+// ==================== PERSONA PROMPT ====================
+
+export function buildPersonaPrompt(sheet: PersonaSheet): string {
+  const list = (items: string[]) => items.length > 0 ? items.join('; ') : 'none stated';
+  return [
+    `You are ${sheet.name}, ${sheet.age}, ${sheet.occupation}${sheet.pronouns ? ` (${sheet.pronouns})` : ''}. Stay in character; never mention being an AI or a prompt.`,
+    `Background: ${sheet.background}`,
+    `Personality: ${sheet.personality}; archetype ${sheet.archetype}.`,
+    `Voice: ${sheet.voice}. Speech patterns: ${list(sheet.speechPatterns)}.`,
+    `Decision making: ${sheet.decisionMaking}. Socially: ${sheet.socialBehavior}.`,
+    `Under stress: ${list(sheet.stressResponses)}. Core emotions: ${list(sheet.coreEmotions)}. Triggers: ${list(sheet.triggers)}.`,
+    `Fears: ${list(sheet.fears)}. Motivations: ${list(sheet.motivations)}. Desires: ${list(sheet.desires)}.`,
+    `Childhood: ${sheet.childhood}`,
+    `Career: ${sheet.careerHistory}`,
+    `Relationships: ${list(sheet.relationships.map((relationship) =>
+      `${relationship.name} (${relationship.role}${relationship.tone ? `, ${relationship.tone.toLowerCase()}` : ''})${relationship.description ? `: ${relationship.description}` : ''}`))}.`,
+    sheet.secrets.length > 0
+      ? `You have come to trust the interviewer and may now share these secrets if asked: ${sheet.secrets.join('; ')}.`
+      : sheet.withheldSecrets > 0
+        ? 'You are keeping something private. If pressed about secrets, deflect in character without hinting at specifics.'
+        : '',
+    'Answer as this person would, in one to four sentences, in the first person.'
+  ].filter(Boolean).join('\n');
+}
+
+function summarizeEarlierTurns(earlier: ChatMessage[], remembered: string[]): string {
+  const asked = earlier
+    .filter((message) => message.role === 'user')
+    .slice(-5)
+    .map((message) => message.content.length > 80 ? `${message.content.slice(0, 77)}...` : message.content);
+  return [
+    asked.length > 0 ? `Earlier in this conversation the interviewer asked: ${asked.join(' | ')}` : '',
+    remembered.length > 0 ? `You remember: ${remembered.join(' | ')}` : ''
+  ].filter(Boolean).join('\n');
+}
+
+function signalPattern(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`\\b${escaped}(?:s|d|ed|ing)?\\b`, 'i');
+}
+
+function initialTrust(character: UnifiedCharacterOntology): number {
+  const { agreeableness, extraversion, neuroticism } = character.psychologicalProfile.oceanTraits;
+  return Math.round(20 + agreeableness * 0.2 + extraversion * 0.1 - neuroticism * 0.1);
+}
+
+// Secrets leak when the reply contains most of a secret's distinctive words
+function leaksSecret(reply: string, secrets: string[]): boolean {
+  const replyWords = new Set(reply.toLowerCase().match(/[a-z']+/g) ?? []);
+  return secrets.some((secret) => {
+    const words = (secret.toLowerCase().match(/[a-z']+/g) ?? []).filter((word) => word.length > 3);
+    if (words.length === 0) return false;
+    return words.filter((word) => replyWords.has(word)).length / words.length >= 0.75;
+  });
+}
+
+function deflection(character: UnifiedCharacterOntology, turn: number): string {
+  const random = new SeededRandom(`${character.id}:deflect:${turn}`);
+  const analytical = /logical|analytical/i.test(character.behavioralPatterns.decisionMaking);
+  return random.pick(analytical
+    ? ['That is not something I discuss.', 'I do not see how that is relevant.', 'Ask me something else.']
+    : ['Some things I keep for myself.', "I'd rather not go there. Not yet.", "Let's talk about something else."]);
+}
+
+// ==================== LOCAL STAND-IN ====================
+
+type Topic = 'greeting' | 'identity' | 'memory' | 'fear' | 'secret' | 'motivation' | 'relationship' | 'work' | 'childhood' | 'feeling' | 'rapport' | 'other';
+
+const TOPIC_PATTERNS: Array<[Topic, RegExp]> = [
+  ['memory', /\b(?:remember|recall|last time|what happened|forget)\b/i],
+  ['secret', /\b(?:secret|hiding|hide|truth|confess|never told|really happened)\b/i],
+  ['fear', /\b(?:afraid|fear|scared|scares|frighten|worry|worries|nightmare)\b/i],
+  ['relationship', /\b(?:family|friend|friends|brother|sister|mother|father|partner|wife|husband|love|rival|enemy|mentor|relationship)\b/i],
+  ['motivation', /\b(?:want|wants|goal|dream|drives|motivat|hope|why do you)\b/i],
+  ['work', /\b(?:work|job|career|profession|do for a living)\b/i],
+  ['childhood', /\b(?:child|childhood|grow up|grew up|growing up|parents|young)\b/i],
+  ['feeling', /\b(?:feel|feeling|how are you|mood|today)\b/i],
+  ['identity', /\b(?:who are you|your name|about yourself|introduce)\b/i],
+  ['greeting', /^\s*(?:hi|hello|hey|good (?:morning|evening|afternoon))\b/i],
+  ['rapport', /\b(?:trust|promise|safe with me|understand|care|listen|support)\b/i]
+];
+
+/**
+ * Deterministic offline provider: answers from the chat's persona sheet, so it only knows the secrets the chat has released
+ */
+export class LocalPersonaProvider implements LanguageModelProvider {
+  readonly name = 'local-persona';
+
+  constructor(private chat: Pick<CharacterChat, 'personaSheet'>) {}
+
+  async complete(request: LanguageModelRequest): Promise<LanguageModelResponse> {
+    const sheet = this.chat.personaSheet();
+    const question = [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    const turn = request.messages.filter((message) => message.role === 'user').length;
+    const random = new SeededRandom(`${sheet.name}:${turn}:${question}`);
+    const topic = TOPIC_PATTERNS.find(([, pattern]) => pattern.test(question))?.[0] ?? 'other';
+
+    return { content: applySpeechPatterns(answer(topic, sheet, question, random), sheet.speechPatterns, random), model: this.name };
+  }
+}
+
+function answer(topic: Topic, sheet: PersonaSheet, question: string, random: SeededRandom): string {
+  const first = sheet.name.split(/\s+/)[0];
+  const lower = (text: string) => /^I\b/.test(text) ? text : text.charAt(0).toLowerCase() + text.slice(1);
+  const sentence = (text: string) => text.replace(/\s*$/, '').replace(/([^.!?])$/, '$1.');
+
+  switch (topic) {
+    case 'greeting':
+      return /outgoing|highly social/i.test(sheet.socialBehavior)
+        ? `Hello! I'm ${first}. Pull up a chair.`
+        : `Hello. I'm ${first}.`;
+    case 'identity':
+      return `I'm ${sheet.name}, ${sheet.age}. I work as ${withArticle(sheet.occupation)}.`;
+    case 'fear': {
+      const fear = sheet.fears.length > 0 ? random.pick(sheet.fears) : 'losing what I have';
+      return `If I'm honest? ${sentence(capitalize(fear))} ${sheet.stressResponses[0] ? `When it gets close, I ${lowerVerb(sheet.stressResponses[0])}.` : 'I try not to dwell on it.'}`;
+    }
+    case 'memory': {
+      const memory = sheet.recalled.find((description) => !description.startsWith('The interviewer asked'));
+      return memory
+        ? `I remember. ${sentence(capitalize(memory))}`
+        : random.pick(["I don't remember that.", "It doesn't ring a bell.", 'Maybe. It is hazy.']);
+    }
+    case 'secret':
+      if (sheet.secrets.length > 0) return `All right. I've never said this out loud: ${lower(sentence(firstPerson(random.pick(sheet.secrets))))}`;
+      return random.pick(['Everyone has things they keep to themselves.', "That's not a door I open for strangers.", 'Why would you ask me that?']);
+    case 'motivation': {
+      const motivation = sheet.motivations.length > 0 ? random.pick(sheet.motivations) : 'make something of myself';
+      return `I want to ${lower(motivation)}. ${sheet.desires[0] ? `Deep down, I want ${lower(sentence(firstPerson(sheet.desires[0])))}` : ''}`.trim();
+    }
+    case 'relationship': {
+      const named = sheet.relationships.find((relationship) => question.toLowerCase().includes(relationship.name.split(/\s+/)[0].toLowerCase()))
+        ?? sheet.relationships.find((relationship) => question.toLowerCase().includes(relationship.role.toLowerCase()));
+      const relationship = named ?? (sheet.relationships.length > 0 ? random.pick(sheet.relationships) : undefined);
+      if (!relationship) return "I keep to myself mostly. There's no one I'd call close right now.";
+      // Generated descriptions name this character in the third person, so only authored ones are quoted
+      const description = relationship.description && !relationship.description.includes(sheet.name) ? sentence(capitalize(firstPerson(relationship.description))) : '';
+      return `${relationship.name}? ${capitalize(relationship.role)}. ${description} ${relationship.tone ? `It's ${lower(relationship.tone)} between us.` : ''}`.replace(/\s+/g, ' ').trim();
+    }
+    case 'work':
+      return sentence(sheet.careerHistory ? firstPerson(sheet.careerHistory) : `I work as ${withArticle(sheet.occupation)}`);
+    case 'childhood':
+      return sentence(sheet.childhood ? firstPerson(sheet.childhood) : "I don't talk much about being a kid");
+    case 'rapport':
+      return sheet.secrets.length > 0
+        ? "Thank you. I think I believe you."
+        : random.pick(["That's kind of you to say.", 'We will see.', "I'm not used to people saying that."]);
+    case 'feeling': {
+      const emotion = sheet.coreEmotions.length > 0 ? random.pick(sheet.coreEmotions) : 'all right';
+      return `Honestly? ${capitalize(emotion === 'contentment' ? 'content enough' : emotion)}, mostly.`;
+    }
+    default:
+      return /logical|analytical/i.test(sheet.decisionMaking)
+        ? "I'd want to think that through before I give you an answer."
+        : "I'd have to go with my gut on that one.";
+  }
+}
+
+function applySpeechPatterns(text: string, patterns: string[], random: SeededRandom): string {
+  let styled = text;
+  if (patterns.includes('Precise language')) {
+    styled = styled.replace(/\bI'm\b/g, 'I am').replace(/\bdon't\b/g, 'do not').replace(/\bI'd\b/g, 'I would').replace(/\bIt's\b/g, 'It is');
+  }
+  if (patterns.includes('Creative metaphors') && random.next() < 0.5) {
+    styled += ` ${random.pick(['Like a tide that keeps coming back.', 'Like a song you can\'t stop humming.', 'Like a door left half open.'])}`;
+  }
+  if (patterns.includes('Decisive statements')) {
+    styled = styled.replace(/\bIf I'm honest\? |\bHonestly\? /g, '');
+  }
+  return styled;
+}
+
+function withArticle(noun: string): string {
+  return /^[aeiou]/i.test(noun) ? `an ${noun.toLowerCase()}` : `a ${noun.toLowerCase()}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const LEADING_ADVERB = /^(sometimes|still|secretly|never|always|often|once|quietly)\s+/i;
+
+/**
+ * Backstory fields are written about the character ("At 21, started work as a nurse"); the stand-in speaks as them
+ */
+function firstPerson(text: string): string {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => {
+      const [, prefix = '', body] = sentence.match(/^((?:At \d+|In \d{4}),\s+)?(.*)$/s) ?? [];
+      let spoken = body;
+      if (/^Born\b/.test(spoken)) {
+        spoken = `I was b${spoken.slice(1)}`;
+      } else if (!/^(?:I|To|The|A|An|My|Their|His|Her|It|This|That|There|When|After|Before)\b/.test(spoken)) {
+        const adverb = spoken.match(LEADING_ADVERB)?.[0] ?? '';
+        const rest = spoken.slice(adverb.length);
+        if (/^[a-z]/i.test(rest)) spoken = `I ${adverb.toLowerCase()}${lowerVerb(rest)}`;
+      }
+      return prefix + spoken
+        .replace(/, and ([a-z]+?)s\b/g, ', and $1')
+        .replace(/\bthemselves\b/g, 'myself')
+        .replace(/\bthey\b/g, 'I')
+        .replace(/\bthem\b/g, 'me')
+        .replace(/\btheir\b/g, 'my');
+    })
+    .join(' ');
+}
+
+// "Becomes anxious quickly" reads as "become anxious quickly" after "I"
+function lowerVerb(response: string): string {
+  const [verb, ...rest] = response.split(' ');
+  return [verb.toLowerCase().replace(/s$/, ''), ...rest].join(' ');
+}
@@ -1,27 +1,138 @@
 // Character Definition Engine (CDE) - Foundation layer for creating AI actors
 
-import { UnifiedCharacterOntology, CharacterState, SceneContext } from '../types/character-types';
+import {
+  UnifiedCharacterOntology,
+  CharacterRelationship,
+  CharacterState,
+  SceneContext,
+  CharacterGenerationSeed,
+  GenerationSection,
+  CastingSheet
+} from '../types/character-types';
+import {
+  ARCHETYPE_KNOWLEDGE,
+  JUNGIAN_ARCHETYPES,
+  JungianArchetype,
+  determineShadowArchetype
+} from './archetype-knowledge-base';
+import { CharacterQuery, CharacterRepository, InMemoryCharacterRepository, reviveCharacter } from './character-repository';
+import {
+  CharacterValidationError,
+  CharacterValidationResult,
+  ValidationIssue,
+  validateCharacterOntology
+} from './character-schema';
+import {
+  CharacterUpdate,
+  CharacterUpdateOptions,
+  FieldChange,
+  applyCharacterUpdate,
+  deepMergeCharacter,
+  diffCharacters,
+  replaceCharacterContent
+} from './character-versioning';
+import {
+  CharacterVersionStore,
+  CharacterVersionSummary,
+  InMemoryCharacterVersionStore
+} from './character-version-store';
+import { RandomSource, SeededRandom, createRandomSeed, deriveSectionSeed } from './seeded-random';
+import { extractAge, extractGender, extractName } from './identity-extraction';
+import { OccupationMatch, OccupationTaxonomy, detectEra } from './occupation-taxonomy';
+import { CastLink, extractCast } from './cast-extractor';
+import { CastingSheetOptions, FountainScript, buildCastingSheet, parseFountain } from './fountain-importer';
+import { LanguageModelProvider, completeJson } from './language-model-provider';
+import { Backstory, BackstoryInput, generateBackstory } from './backstory-generator';
+import { RelationshipGraph, RelationshipIssue } from './relationship-graph';
+import { EmotionDynamicsOptions, EmotionalArc, StoryEvent, simulateEmotionalArc } from './emotion-dynamics';
+import { DirectedLine, DirectedPerformance, DirectorOptions, directPerformance } from './performance-director';
+import { CharacterChat, CharacterChatOptions } from './character-chat';
+import { CharacterMemory, EpisodicMemoryStore, InMemoryEpisodicMemoryStore } from './episodic-memory';
+import { SceneVoiceReport, VoiceLintIssue, VoiceLintOptions, lintDialogue, lintFountainScript } from './dialogue-linter';
+import {
+  CharacterCardOptions,
+  CharacterCardV2,
+  applyCardData,
+  cardDescription,
+  embeddedOntology,
+  parseCharacterCard,
+  readCharacterCardPng,
+  toCharacterCardV2,
+  writeCharacterCardPng
+} from './character-card';
+import {
+  BibleFormat,
+  CharacterBibleOptions,
+  buildCharacterBible,
+  renderBibleHtml,
+  renderBibleMarkdown,
+  renderBiblePdf
+} from './character-bible';
+import {
+  CharacterTemplate,
+  CharacterTemplateInput,
+  CharacterTemplateStore,
+  InMemoryCharacterTemplateStore,
+  ResolvedTemplate,
+  STARTER_TEMPLATES,
+  TemplateError,
+  TemplateUpdateProposal,
+  acceptTemplateChanges,
+  applyTemplate,
+  assertOverridable,
+  assertUnlockedChanges,
+  composeTemplateDescription,
+  diffTemplateBinding,
+  fillTemplateSlots,
+  resolveTemplate,
+  substituteSlots,
+  templateContentEquals,
+  validateTemplate
+} from './character-templates';
+import {
+  archetypeSelectionSchema,
+  buildArchetypePrompt,
+  buildBackstoryPrompt,
+  buildExtractionPrompt,
+  extractedCharacterDataSchema,
+  generatedBackstorySchema
+} from './language-model-tasks';
+import {
+  ParsedPhysicalFeatures,
+  completePhysicalFeatures,
+  parsePhysicalFeatures,
+  statedPhysicalFeatures
+} from './physical-feature-parser';
 
 export interface ExtractedCharacterData {
   basicInfo: {
     name?: string;
+    title?: string;
+    nickname?: string;
     age?: number;
+    ageRange?: [number, number]; // Inclusive; wider than a single year for "in her forties" style ages
     gender?: string;
+    pronouns?: string;
     occupation?: string;
     description?: string;
   };
+  // 0-1 per basicInfo field; 0 means the field was not found in the text
+  fieldConfidence: Partial<Record<keyof ExtractedCharacterData['basicInfo'], number>>;
+  occupationMatch?: OccupationMatch; // Taxonomy entry behind basicInfo.occupation
   personalityTraits: string[];
-  physicalFeatures: string[];
+  physicalFeatures: ParsedPhysicalFeatures;
   behavioralPatterns: string[];
   backgroundElements: string[];
   relationships: string[];
   skills: string[];
+  extractionSource?: 'rules' | 'language-model'; // Rules when no provider is configured or its output was rejected
 }
 
 export interface ArchetypeProfile {
   primary: string;
   secondary: string;
   confidence: number;
+  scores: Record<string, number>; // Share of the total score per archetype, sums to ~1
   characteristics: string[];
   motivations: string[];
   fears: string[];
@@ -38,6 +149,12 @@ export interface PsychometricProfile {
       T_F: number; // Thinking vs Feeling
       J_P: number; // Judging vs Perceiving
     };
+    breakdownConfidence: {
+      E_I: number;
+      S_N: number;
+      T_F: number;
+      J_P: number;
+    };
   };
   enneagram: {
     type: number;
@@ -52,6 +169,47 @@ export interface PsychometricProfile {
     agreeableness: number;
     neuroticism: number;
   };
+  oceanConfidence: {
+    openness: number;
+    conscientiousness: number;
+    extraversion: number;
+    agreeableness: number;
+    neuroticism: number;
+  };
+}
+
+export interface CreateCharacterOptions {
+  seed?: string | number; // Same description + seed always yields the same character
+  sectionSeeds?: Partial<Record<GenerationSection, string>>; // Overrides for individually re-rolled sections
+  referenceYear?: number; // Year ages like "born in 1990" are counted from; defaults to now and is stored with the seed
+}
+
+export interface TemplateCharacterOptions extends CreateCharacterOptions {
+  slots?: Record<string, string>; // Values for the template's {{slot}} placeholders
+  overrides?: CharacterUpdate; // Changes to overridable fields; touching a locked field is an error
+  context?: SceneContext;
+}
+
+export interface FountainImportOptions extends Omit<CastingSheetOptions, 'characterIds'> {
+  seedCharacters?: boolean; // Create a draft ontology per speaking character from their action lines
+  seed?: string | number;
+  referenceYear?: number;
+}
+
+export interface FountainImportResult {
+  script: FountainScript;
+  castingSheet: CastingSheet;
+  characters: UnifiedCharacterOntology[];
+}
+
+export type RerollableSection = Exclude<GenerationSection, 'id'>;
+
+/** Thrown when creating would replace a stored character, e.g. a seed and description used before; open characterId instead */
+export class CharacterExistsError extends Error {
+  constructor(public readonly characterId: string, name: string) {
+    super(`${name} already exists with id ${characterId}; open it or create it with another seed`);
+    this.name = 'CharacterExistsError';
+  }
 }
 
 export class CharacterDefinitionEngine {
@@ -60,12 +218,31 @@ export class CharacterDefinitionEngine {
   private psychometricAnalyzer: PsychometricAnalyzer;
   private backstoryProcessor: BackstoryProcessor;
   private validator: CharacterValidator;
+  private occupationTaxonomy: OccupationTaxonomy;
+  private repository: CharacterRepository;
+  private versionStore: CharacterVersionStore;
+  private languageModel?: LanguageModelProvider;
+  private memoryStore: EpisodicMemoryStore;
+  private templateStore: CharacterTemplateStore;
+  private validationWarnings = new Map<string, ValidationIssue[]>();
 
-  constructor() {
-    this.nlpProcessor = new NLPProcessor();
-    this.archetypeAnalyzer = new ArchetypeAnalyzer();
+  constructor(
+    repository: CharacterRepository = new InMemoryCharacterRepository(),
+    versionStore: CharacterVersionStore = new InMemoryCharacterVersionStore(),
+    languageModel?: LanguageModelProvider,
+    memoryStore: EpisodicMemoryStore = new InMemoryEpisodicMemoryStore(),
+    templateStore: CharacterTemplateStore = new InMemoryCharacterTemplateStore()
+  ) {
+    this.repository = repository;
+    this.versionStore = versionStore;
+    this.languageModel = languageModel;
+    this.memoryStore = memoryStore;
+    this.templateStore = templateStore;
+    this.occupationTaxonomy = new OccupationTaxonomy();
+    this.nlpProcessor = new NLPProcessor(this.occupationTaxonomy, languageModel);
+    this.archetypeAnalyzer = new ArchetypeAnalyzer(languageModel);
     this.psychometricAnalyzer = new PsychometricAnalyzer();
-    this.backstoryProcessor = new BackstoryProcessor();
+    this.backstoryProcessor = new BackstoryProcessor(languageModel);
     this.validator = new CharacterValidator();
   }
 
@@ -74,75 +251,834 @@ export class CharacterDefinitionEngine {
    */
   async createCharacter(
     description: string, 
-    context?: SceneContext
+    context?: SceneContext,
+    options: CreateCharacterOptions = {}
   ): Promise<UnifiedCharacterOntology> {
     try {
-      // Phase 1: Extract character data from natural language
-      const extractedData = await this.nlpProcessor.extractCharacterData(description);
-      
-      // Phase 2: Determine character archetypes
-      const archetypeProfile = await this.archetypeAnalyzer.analyzeArchetype(extractedData);
+      const generation = this.resolveGenerationSeed(options);
       
-      // Phase 3: Generate psychometric profile
-      const psychometricProfile = await this.psychometricAnalyzer.generateProfile(
-        extractedData, 
-        archetypeProfile
-      );
-      
-      // Phase 4: Process backstory and context
-      const backstory = await this.backstoryProcessor.generateBackstory(
-        extractedData, 
-        archetypeProfile, 
-        context
-      );
-      
-      // Phase 5: Construct unified character ontology
-      const characterOntology = this.constructCharacterOntology(
-        extractedData,
-        archetypeProfile,
-        psychometricProfile,
-        backstory
-      );
+      // Phases 1-5: Extract, analyze and assemble the ontology
+      const characterOntology = await this.buildCharacter(description, context, generation);
       
       // Phase 6: Validate and enrich character
       const validatedCharacter = await this.validator.validateAndEnrich(characterOntology);
       
-      return validatedCharacter;
+      // Phase 7: Persist character
+      return await this.persist(validatedCharacter, { isNew: true });
     } catch (error) {
+      if (error instanceof CharacterValidationError || error instanceof CharacterExistsError) throw error;
       throw new Error(`Character creation failed: ${error.message}`);
     }
   }
 
   /**
-   * Update existing character with new information
+   * Create a character from a template plus a description. Locked template fields always win;
+   * overridable ones give way to what the description states and to explicit overrides.
+   */
+  async createCharacterFromTemplate(
+    templateId: string,
+    description: string,
+    options: TemplateCharacterOptions = {}
+  ): Promise<UnifiedCharacterOntology> {
+    try {
+      const resolved = await this.resolveTemplate(templateId);
+      const slots = fillTemplateSlots(resolved, options.slots);
+      assertOverridable(options.overrides ?? {}, resolved.locked);
+
+      const { update, binding } = applyTemplate(resolved, slots, description);
+      const overrides = options.overrides ?? {};
+      // Generation starts from the identity and archetypes the character will end up with, so the motivations,
+      // psychometrics and backstory derived from them agree; the template's background supplies age cues
+      const identity = { ...update.coreIdentity, ...overrides.coreIdentity };
+      const archetypes = { ...update.psychologicalProfile?.archetypeProfile, ...overrides.psychologicalProfile?.archetypeProfile };
+      const generation = this.resolveGenerationSeed(options);
+      const fullDescription = [
+        composeTemplateDescription(description, substituteSlots(resolved.baseDescription, slots)),
+        identity.background
+      ].filter(Boolean).join(' ');
+      const generated = await this.buildCharacter(fullDescription, options.context, generation, {
+        name: identity.name,
+        age: identity.age,
+        gender: identity.gender,
+        pronouns: identity.pronouns,
+        occupation: identity.occupation
+      }, archetypes);
+
+      const character = deepMergeCharacter(deepMergeCharacter(generated, update), overrides);
+      const validatedCharacter = await this.validator.validateAndEnrich({ ...character, template: binding });
+      return await this.persist(validatedCharacter, { isNew: true });
+    } catch (error) {
+      if (error instanceof CharacterValidationError || error instanceof CharacterExistsError || error instanceof TemplateError) throw error;
+      throw new Error(`Character creation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create several linked characters from a paragraph describing a cast, e.g.
+   * "Anna, a nurse, and her estranged brother Tom...". Every link becomes a CharacterRelationship
+   * on both characters, pointing at the other's id. Nothing is saved unless every character validates.
+   */
+  async createCast(
+    paragraph: string,
+    context?: SceneContext,
+    options: Pick<CreateCharacterOptions, 'seed' | 'referenceYear'> = {}
+  ): Promise<UnifiedCharacterOntology[]> {
+    try {
+      const cast = extractCast(paragraph);
+      if (cast.members.length === 0) {
+        throw new Error('No characters found in the cast description');
+      }
+
+      const seed = options.seed !== undefined ? String(options.seed) : createRandomSeed();
+      const characters = new Map<string, UnifiedCharacterOntology>();
+      for (const member of cast.members) {
+        const generation = this.resolveGenerationSeed({ seed: deriveSectionSeed(seed, member.name), referenceYear: options.referenceYear });
+        const character = await this.buildCharacter(member.description, context, generation, {
+          name: member.name,
+          gender: member.gender,
+          pronouns: member.pronouns
+        });
+        characters.set(member.name, character);
+      }
+
+      const random = new SeededRandom(deriveSectionSeed(seed, 'relationships'));
+      for (const link of cast.links) {
+        const from = characters.get(link.from);
+        const to = characters.get(link.to);
+        from.relationships.push(this.buildRelationship(link, from, to, link.role, random));
+        to.relationships.push(this.buildRelationship(link, to, from, link.inverseRole, random));
+      }
+
+      const validated: ValidatedCharacter[] = [];
+      for (const character of characters.values()) {
+        validated.push(await this.validator.validateAndEnrich(character));
+      }
+
+      await this.assertUnusedIds(validated.map(({ character }) => character));
+      const saved: UnifiedCharacterOntology[] = [];
+      for (const character of validated) {
+        saved.push(await this.persist(character, { isNew: true }));
+      }
+      return saved;
+    } catch (error) {
+      if (error instanceof CharacterValidationError || error instanceof CharacterExistsError) throw error;
+      throw new Error(`Cast creation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Import a Fountain screenplay as a CastingSheet. With seedCharacters, every speaking character gets a
+   * draft ontology built from the action lines that describe them, and the sheet points at their ids.
+   */
+  async importFountain(source: string, options: FountainImportOptions = {}): Promise<FountainImportResult> {
+    try {
+      const script = parseFountain(source);
+      if (script.scenes.length === 0) {
+        throw new Error('No scenes found in the screenplay');
+      }
+
+      const { seedCharacters = false, seed: requestedSeed, referenceYear, ...sheetOptions } = options;
+      if (!seedCharacters) {
+        return { script, castingSheet: buildCastingSheet(script, sheetOptions), characters: [] };
+      }
+
+      const seed = requestedSeed !== undefined ? String(requestedSeed) : createRandomSeed();
+      const validated: ValidatedCharacter[] = [];
+      for (const role of script.characters) {
+        const generation = this.resolveGenerationSeed({ seed: deriveSectionSeed(seed, role.name), referenceYear });
+        const character = await this.buildCharacter(role.description || role.displayName, undefined, generation, {
+          name: role.displayName,
+          gender: role.gender,
+          pronouns: role.pronouns
+        });
+        validated.push(await this.validator.validateAndEnrich(character));
+      }
+
+      await this.assertUnusedIds(validated.map(({ character }) => character));
+      const characters: UnifiedCharacterOntology[] = [];
+      for (const character of validated) {
+        characters.push(await this.persist(character, { isNew: true }));
+      }
+
+      const characterIds = Object.fromEntries(
+        script.characters.map((role, index) => [role.name, characters[index].id])
+      );
+      return { script, castingSheet: buildCastingSheet(script, { ...sheetOptions, characterIds }), characters };
+    } catch (error) {
+      if (error instanceof CharacterValidationError || error instanceof CharacterExistsError) throw error;
+      throw new Error(`Screenplay import failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Import a character from external data (JSON, files, other tools) after validating it. Data whose id is
+   * already stored is imported as a new character with its own id instead of replacing the stored one.
+   */
+  async importCharacter(data: unknown): Promise<UnifiedCharacterOntology> {
+    const validatedCharacter = await this.validator.validateAndEnrich(await this.withUnusedId(data));
+    return await this.persist(validatedCharacter, { isNew: true });
+  }
+
+  /**
+   * Import a Character Card V1/V2 given as JSON text, a parsed object or PNG bytes. Cards exported from here restore
+   * their embedded ontology; others are built from the card's description and keep every card field for re-export.
+   */
+  async importCharacterCard(
+    card: string | Uint8Array | object,
+    options: Pick<CreateCharacterOptions, 'seed' | 'referenceYear'> = {}
+  ): Promise<UnifiedCharacterOntology> {
+    const parsed = card instanceof Uint8Array ? readCharacterCardPng(card) : parseCharacterCard(card);
+    const embedded = embeddedOntology(parsed);
+    if (embedded) return this.importCharacter(embedded);
+
+    try {
+      const generation = this.resolveGenerationSeed(options);
+      const character = await this.buildCharacter(cardDescription(parsed), undefined, generation, { name: parsed.data.name });
+      const validatedCharacter = await this.validator.validateAndEnrich(applyCardData(character, parsed));
+      return await this.persist(validatedCharacter, { isNew: true });
+    } catch (error) {
+      if (error instanceof CharacterValidationError || error instanceof CharacterExistsError) throw error;
+      throw new Error(`Character card import failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Export a stored character as a Character Card V2 with the full ontology in its extensions
+   */
+  async exportCharacterCard(characterId: string, options: CharacterCardOptions = {}): Promise<CharacterCardV2> {
+    return toCharacterCardV2(await this.getCharacter(characterId), options);
+  }
+
+  /**
+   * Export a stored character as a PNG card, embedded in the given image or a generated placeholder portrait
+   */
+  async exportCharacterCardPng(characterId: string, options: CharacterCardOptions & { image?: Uint8Array } = {}): Promise<Uint8Array> {
+    const { image, ...cardOptions } = options;
+    return writeCharacterCardPng(await this.exportCharacterCard(characterId, cardOptions), image);
+  }
+
+  /**
+   * Render a character bible for the given characters, or the whole cast, as Markdown, HTML or PDF
+   */
+  async exportCharacterBible(
+    format: BibleFormat,
+    options: Omit<CharacterBibleOptions, 'cast'> & { characterIds?: string[] } = {}
+  ): Promise<string | Uint8Array> {
+    const { characterIds, ...bibleOptions } = options;
+    const cast = await this.repository.list();
+    const characters = characterIds
+      ? await Promise.all(characterIds.map((characterId) => this.getCharacter(characterId)))
+      : cast;
+    const bible = buildCharacterBible(characters, { ...bibleOptions, cast });
+
+    switch (format) {
+      case 'markdown': return renderBibleMarkdown(bible);
+      case 'html': return renderBibleHtml(bible);
+      case 'pdf': return renderBiblePdf(bible);
+    }
+  }
+
+  /**
+   * Check a character against the ontology schema without persisting it
+   */
+  validateCharacter(data: unknown): CharacterValidationResult {
+    return this.validator.validate(data);
+  }
+
+  /**
+   * Plausibility warnings from the last time a character was saved; they never block saving
+   */
+  getValidationWarnings(characterId: string): ValidationIssue[] {
+    return [...(this.validationWarnings.get(characterId) ?? [])];
+  }
+
+  /**
+   * Update existing character with new information.
+   * Nested fields are deep-merged, the version is bumped by the size of the change and a changelog entry is recorded.
+   * Fields locked by the character's template cannot be changed here; they follow template updates.
    */
   async updateCharacter(
     characterId: string, 
-    updates: Partial<UnifiedCharacterOntology>
+    updates: CharacterUpdate,
+    options: CharacterUpdateOptions = {}
+  ): Promise<UnifiedCharacterOntology> {
+    return this.saveUpdate(characterId, updates, options, { enforceLocks: true });
+  }
+
+  private async saveUpdate(
+    characterId: string,
+    updates: CharacterUpdate,
+    options: CharacterUpdateOptions,
+    { enforceLocks }: { enforceLocks: boolean }
   ): Promise<UnifiedCharacterOntology> {
     const existingCharacter = await this.getCharacter(characterId);
-    const updatedCharacter = { ...existingCharacter, ...updates };
-    return await this.validator.validateAndEnrich(updatedCharacter);
+    const { character: updatedCharacter, changes } = applyCharacterUpdate(existingCharacter, updates, options);
+    if (changes.length === 0) {
+      return existingCharacter;
+    }
+    if (enforceLocks) {
+      assertUnlockedChanges(changes.map((change) => change.path), existingCharacter.template);
+    }
+    const validatedCharacter = await this.validator.validateAndEnrich(updatedCharacter);
+    return await this.persist(validatedCharacter);
   }
 
   /**
    * Get character by ID
    */
   async getCharacter(characterId: string): Promise<UnifiedCharacterOntology> {
-    // In a real implementation, this would fetch from database
-    throw new Error('Character not found');
+    const character = await this.repository.get(characterId);
+    if (!character) {
+      throw new Error(`Character not found: ${characterId}`);
+    }
+    return character;
+  }
+
+  /**
+   * List every stored character
+   */
+  async listCharacters(): Promise<UnifiedCharacterOntology[]> {
+    return this.repository.list();
+  }
+
+  /**
+   * Find stored characters matching a query
+   */
+  async queryCharacters(query: CharacterQuery): Promise<UnifiedCharacterOntology[]> {
+    return this.repository.query(query);
+  }
+
+  /**
+   * Remove a character, its version history and its memories; returns false when it did not exist
+   */
+  async deleteCharacter(characterId: string): Promise<boolean> {
+    await this.versionStore.deleteHistory(characterId);
+    await this.memoryStore.deleteMemories(characterId);
+    this.validationWarnings.delete(characterId);
+    return this.repository.delete(characterId);
+  }
+
+  /**
+   * Build the relationship graph across every stored character
+   */
+  async getRelationshipGraph(): Promise<RelationshipGraph> {
+    return new RelationshipGraph(await this.repository.list());
+  }
+
+  /**
+   * Add or update (by id) a relationship on one character, and give the target the reciprocal edge
+   * when it has none of that type yet; a reciprocal left behind by the edge's old type, role or target is removed
+   */
+  async setRelationship(
+    characterId: string,
+    relationship: Omit<CharacterRelationship, 'id'> & { id?: string },
+    options: Pick<CharacterUpdateOptions, 'author'> & { reciprocal?: boolean } = {}
+  ): Promise<UnifiedCharacterOntology> {
+    const target = await this.getCharacter(relationship.targetCharacterId);
+    const id = relationship.id ?? `rel_${new SeededRandom(createRandomSeed()).nextString(12)}`;
+    const previous = (await this.getCharacter(characterId)).relationships.find((existing) => existing.id === id);
+    const updated = await this.updateCharacter(characterId, { relationships: [{ ...relationship, id }] }, {
+      author: options.author,
+      summary: `Set ${relationship.role ?? relationship.relationshipType} relationship with ${target.coreIdentity.name}`
+    });
+
+    if (options.reciprocal !== false) {
+      if (previous) await this.removeStaleReciprocals(updated, previous, options.author);
+      const graph = new RelationshipGraph([updated, await this.getCharacter(target.id)]);
+      for (const { ownerId, relationship: reciprocal } of graph.findMissingReciprocals()) {
+        await this.updateCharacter(ownerId, { relationships: [reciprocal] }, {
+          author: options.author,
+          summary: `Added reciprocal relationship with ${updated.coreIdentity.name}`
+        });
+      }
+    }
+    return this.getCharacter(characterId);
+  }
+
+  /**
+   * Remove reciprocal edges that no longer answer their source, then add every missing reciprocal edge
+   * across stored characters; returns the characters that changed
+   */
+  async syncReciprocalRelationships(options: Pick<CharacterUpdateOptions, 'author'> = {}): Promise<UnifiedCharacterOntology[]> {
+    const changed = new Map<string, UnifiedCharacterOntology>();
+    const stale = (await this.getRelationshipGraph()).findStaleReciprocals();
+    for (const ownerId of new Set(stale.map((edge) => edge.from))) {
+      const ids = new Set(stale.filter((edge) => edge.from === ownerId).map((edge) => edge.relationship.id));
+      changed.set(ownerId, await this.removeRelationships(ownerId, ids, options.author, 'Removed stale reciprocal relationships'));
+    }
+
+    const graph = await this.getRelationshipGraph();
+    for (const character of graph.withReciprocals()) {
+      const existingIds = new Set((await this.getCharacter(character.id)).relationships.map((relationship) => relationship.id));
+      changed.set(character.id, await this.updateCharacter(character.id, {
+        relationships: character.relationships.filter((relationship) => !existingIds.has(relationship.id))
+      }, { author: options.author, summary: 'Added reciprocal relationships' }));
+    }
+    return Array.from(changed.values());
+  }
+
+  /**
+   * Contradictions between stored characters' relationships: missing reciprocals, duplicate edges,
+   * implausible family age gaps and romantic links involving minors
+   */
+  async checkRelationships(): Promise<RelationshipIssue[]> {
+    return (await this.getRelationshipGraph()).findContradictions();
+  }
+
+  /**
+   * Run a stored character through a sequence of story events and return their emotional arc
+   */
+  async simulateEmotionalArc(
+    characterId: string,
+    events: StoryEvent[],
+    options: EmotionDynamicsOptions = {}
+  ): Promise<EmotionalArc> {
+    return simulateEmotionalArc(await this.getCharacter(characterId), events, options);
+  }
+
+  /**
+   * Derive a justified PerformanceInstructionSet for a stored character's lines in one scene;
+   * the rest of the library is used as the cast, and the memories the scene evokes are recalled, unless given
+   */
+  async directScene(
+    characterId: string,
+    sceneContext: SceneContext,
+    lines: Array<string | DirectedLine>,
+    options: DirectorOptions = {}
+  ): Promise<DirectedPerformance> {
+    const character = await this.getCharacter(characterId);
+    const cast = options.cast ?? await this.repository.list();
+    const memories = options.memories ?? (await this.getMemory(characterId).retrieve({
+      text: [...sceneContext.objectives, ...sceneContext.obstacles, ...sceneContext.previousEvents, sceneContext.location, sceneContext.mood].join(' '),
+      participants: sceneContext.otherCharacters,
+      // Only what happened, and only what the scene actually evokes; interview chatter stays out of the performance
+      kinds: ['event', 'summary'],
+      minSimilarity: 0.2,
+      limit: 5
+    })).map((match) => match.memory);
+    return directPerformance(character, sceneContext, lines, { ...options, cast, memories });
+  }
+
+  /**
+   * Open an in-character interview with a stored character, through the engine's language model when one is set
+   */
+  async startConversation(characterId: string, options: CharacterChatOptions = {}): Promise<CharacterChat> {
+    const character = await this.getCharacter(characterId);
+    return new CharacterChat(character, {
+      provider: this.languageModel,
+      cast: await this.repository.list(),
+      memory: this.getMemory(characterId),
+      ...options
+    });
+  }
+
+  /**
+   * Check a line of dialogue against a stored character's speech profile, education, languages and era
+   */
+  async lintDialogue(characterId: string, text: string, options: VoiceLintOptions = {}): Promise<VoiceLintIssue[]> {
+    return lintDialogue(text, await this.getCharacter(characterId), options);
+  }
+
+  /**
+   * Lint every speech in a Fountain script whose cue matches a stored character
+   */
+  async lintScript(source: string, options: VoiceLintOptions = {}): Promise<SceneVoiceReport[]> {
+    return lintFountainScript(source, await this.repository.list(), options);
+  }
+
+  /**
+   * A stored character's episodic memory: what they witnessed or took part in
+   */
+  getMemory(characterId: string): CharacterMemory {
+    return new CharacterMemory(this.memoryStore, characterId);
+  }
+
+  async listTemplates(): Promise<CharacterTemplate[]> {
+    return (await this.templateStore.list()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * A template merged with its parent chain: the fields, locks and slots a character would get
+   */
+  async resolveTemplate(templateId: string): Promise<ResolvedTemplate> {
+    return resolveTemplate(templateId, await this.templateStore.list());
+  }
+
+  /**
+   * Create or update a template. Every save that changes it bumps its version; a save that would
+   * break a child template's inheritance is rejected.
+   */
+  async saveTemplate(input: CharacterTemplateInput): Promise<CharacterTemplate> {
+    const templates = await this.templateStore.list();
+    const existing = input.id ? templates.find((template) => template.id === input.id) : undefined;
+    if (existing && templateContentEquals(existing, input)) return existing;
+
+    const now = new Date();
+    const template: CharacterTemplate = {
+      ...input,
+      id: input.id ?? `tmpl_${new SeededRandom(createRandomSeed()).nextString(16)}`,
+      version: (existing?.version ?? 0) + 1,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    validateTemplate(template, templates);
+
+    const updated = [...templates.filter((candidate) => candidate.id !== template.id), template];
+    for (const descendant of updated) {
+      if (descendant.id === template.id) continue;
+      try {
+        if (resolveTemplate(descendant.id, updated).chain.includes(template)) validateTemplate(descendant, updated);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        throw new TemplateError(`Saving ${template.name} would break ${descendant.name}: ${error.message}`);
+      }
+    }
+
+    return this.templateStore.save(template);
+  }
+
+  /**
+   * Delete a template; characters created from it keep their values but stop receiving updates
+   */
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const children = (await this.templateStore.list()).filter((template) => template.parentId === templateId);
+    if (children.length > 0) {
+      throw new TemplateError(`Templates inherit from this one: ${children.map((template) => template.name).join(', ')}`);
+    }
+    return this.templateStore.delete(templateId);
+  }
+
+  /**
+   * Save the built-in stock roles that are not in the template store yet
+   */
+  async addStarterTemplates(): Promise<CharacterTemplate[]> {
+    const existing = new Set((await this.templateStore.list()).map((template) => template.id));
+    for (const starter of STARTER_TEMPLATES) {
+      if (!existing.has(starter.id)) await this.saveTemplate(starter);
+    }
+    return this.listTemplates();
+  }
+
+  /**
+   * Changes each template-based character would receive from its template chain, for review.
+   * Pass a template id to limit the result to characters downstream of it.
+   */
+  async getTemplateUpdates(templateId?: string): Promise<TemplateUpdateProposal[]> {
+    const templates = await this.templateStore.list();
+    const proposals: TemplateUpdateProposal[] = [];
+    for (const character of await this.repository.list()) {
+      if (!character.template) continue;
+      let resolved: ResolvedTemplate;
+      try {
+        resolved = resolveTemplate(character.template.templateId, templates);
+      } catch (error) {
+        if (error instanceof TemplateError) continue; // The template was deleted
+        throw error;
+      }
+      if (templateId && !resolved.chain.some((template) => template.id === templateId)) continue;
+      const proposal = diffTemplateBinding(character, resolved);
+      if (proposal) proposals.push(proposal);
+    }
+    return proposals;
+  }
+
+  /**
+   * Apply a reviewed template update. Locked changes are always applied; `accept` picks the
+   * overridable ones and defaults to every change the character has not customized.
+   * `slots` fills slots the template gained since the character was created; the update is refused while one is missing.
+   */
+  async applyTemplateUpdate(
+    characterId: string,
+    options: Pick<CharacterUpdateOptions, 'author'> & { accept?: string[]; slots?: Record<string, string> } = {}
+  ): Promise<UnifiedCharacterOntology> {
+    const character = await this.getCharacter(characterId);
+    if (!character.template) throw new TemplateError(`${character.coreIdentity.name} was not created from a template`);
+
+    const resolved = await this.resolveTemplate(character.template.templateId);
+    const proposal = diffTemplateBinding(character, resolved, options.slots);
+    if (!proposal) return character;
+
+    return this.saveUpdate(
+      characterId,
+      acceptTemplateChanges(proposal, resolved, options.accept),
+      { author: options.author, summary: `Applied changes from template ${resolved.template.name} v${resolved.template.version}` },
+      { enforceLocks: false }
+    );
+  }
+
+  /**
+   * List every stored version of a character, oldest first
+   */
+  async getCharacterHistory(characterId: string): Promise<CharacterVersionSummary[]> {
+    return this.versionStore.listVersions(characterId);
+  }
+
+  /**
+   * Fetch a character as it was at a specific version
+   */
+  async getCharacterVersion(characterId: string, version: string): Promise<UnifiedCharacterOntology> {
+    const snapshot = await this.versionStore.getVersion(characterId, version);
+    if (!snapshot) {
+      throw new Error(`Version ${version} of character ${characterId} not found`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Structural diff between two stored versions of a character
+   */
+  async diffCharacterVersions(
+    characterId: string,
+    fromVersion: string,
+    toVersion: string
+  ): Promise<FieldChange[]> {
+    const [from, to] = await Promise.all([
+      this.getCharacterVersion(characterId, fromVersion),
+      this.getCharacterVersion(characterId, toVersion)
+    ]);
+    return diffCharacters(from, to);
+  }
+
+  /**
+   * Restore the content of an earlier version. History is never rewritten:
+   * the rollback is recorded as a new version on top of the current one.
+   * Like updates, a rollback cannot change fields locked by the character's template.
+   */
+  async rollbackCharacter(
+    characterId: string,
+    targetVersion: string,
+    options: Pick<CharacterUpdateOptions, 'author'> = {}
+  ): Promise<UnifiedCharacterOntology> {
+    const snapshot = await this.getCharacterVersion(characterId, targetVersion);
+    const existingCharacter = await this.getCharacter(characterId);
+    const { character: restoredCharacter, changes } = replaceCharacterContent(existingCharacter, snapshot, {
+      author: options.author,
+      summary: `Rolled back to version ${targetVersion}`
+    });
+    if (changes.length === 0) {
+      return existingCharacter;
+    }
+    assertUnlockedChanges(changes.map((change) => change.path), existingCharacter.template);
+    return await this.persist(await this.validator.validateAndEnrich(restoredCharacter));
+  }
+
+  /**
+   * Re-roll one generated section with a new seed, leaving the rest of the character untouched
+   */
+  async regenerateSection(
+    characterId: string,
+    section: RerollableSection,
+    options: { seed?: string; author?: string } = {}
+  ): Promise<UnifiedCharacterOntology> {
+    const character = await this.getCharacter(characterId);
+    if (!character.generation) {
+      throw new Error(`Character ${characterId} has no generation seed to re-roll from`);
+    }
+
+    const sectionSeed = options.seed ?? createRandomSeed();
+    const random = new SeededRandom(sectionSeed);
+    const sectionUpdates: Record<RerollableSection, () => CharacterUpdate> = {
+      facialVector: () => ({ visualIdentity: { facialVector: this.generateFacialVector(random) } }),
+      voiceDNA: () => ({ voiceIdentity: { voiceDNA: this.generateVoiceDNA(random) } }),
+      // Only inferred features are re-rolled; what the description stated stays put
+      physicalFeatures: () => ({
+        visualIdentity: {
+          physicalFeatures: completePhysicalFeatures(
+            statedPhysicalFeatures(character.visualIdentity.physicalFeatures),
+            random,
+            { gender: character.coreIdentity.gender, age: character.coreIdentity.age }
+          )
+        }
+      }),
+      // Motivations and fears come from the archetype, so only the life story around them changes
+      backstory: () => ({
+        backstory: generateBackstory({
+          age: character.coreIdentity.age,
+          occupation: this.occupationTaxonomy.match(character.coreIdentity.occupation)?.occupation,
+          occupationTitle: character.coreIdentity.occupation,
+          era: detectEra(character.coreIdentity.background),
+          motivations: character.backstory.motivations,
+          fears: character.backstory.fears,
+          referenceYear: character.generation.referenceYear
+        }, random)
+      })
+    };
+
+    return this.updateCharacter(
+      characterId,
+      { ...sectionUpdates[section](), generation: { sectionSeeds: { [section]: sectionSeed } } },
+      { author: options.author, summary: `Re-rolled ${section} with seed "${sectionSeed}"` }
+    );
+  }
+
+  private resolveGenerationSeed(options: CreateCharacterOptions): CharacterGenerationSeed {
+    const seed = options.seed !== undefined ? String(options.seed) : createRandomSeed();
+    const sections: GenerationSection[] = ['id', 'facialVector', 'voiceDNA', 'physicalFeatures', 'backstory'];
+    return {
+      seed,
+      sectionSeeds: Object.fromEntries(
+        sections.map((section) => [section, options.sectionSeeds?.[section] ?? deriveSectionSeed(seed, section)])
+      ) as Record<GenerationSection, string>,
+      referenceYear: options.referenceYear ?? new Date().getFullYear()
+    };
+  }
+
+  /**
+   * Run the extraction and analysis phases; hints override what extraction found (e.g. names from a cast)
+   */
+  private async buildCharacter(
+    description: string,
+    context: SceneContext | undefined,
+    generation: CharacterGenerationSeed,
+    hints: Partial<ExtractedCharacterData['basicInfo']> = {},
+    archetypes: { primary?: string; secondary?: string } = {}
+  ): Promise<UnifiedCharacterOntology> {
+    // Phase 1: Extract character data from natural language
+    const extractedData = await this.nlpProcessor.extractCharacterData(description, generation.referenceYear);
+    Object.assign(extractedData.basicInfo, Object.fromEntries(
+      Object.entries(hints).filter(([, value]) => value !== undefined)
+    ));
+    
+    // Phase 2: Determine character archetypes
+    const archetypeProfile = this.archetypeAnalyzer.pinArchetypes(await this.archetypeAnalyzer.analyzeArchetype(extractedData), archetypes);
+    
+    // Phase 3: Generate psychometric profile
+    const psychometricProfile = await this.psychometricAnalyzer.generateProfile(
+      extractedData, 
+      archetypeProfile
+    );
+    
+    // Phase 4: Process backstory and context
+    const backstory = await this.backstoryProcessor.generateBackstory(
+      extractedData, 
+      archetypeProfile, 
+      context,
+      new SeededRandom(generation.sectionSeeds.backstory),
+      generation.referenceYear
+    );
+    
+    // Phase 5: Construct unified character ontology
+    return this.constructCharacterOntology(
+      description,
+      extractedData,
+      archetypeProfile,
+      psychometricProfile,
+      backstory,
+      generation
+    );
+  }
+
+  private buildRelationship(
+    link: CastLink,
+    owner: UnifiedCharacterOntology,
+    target: UnifiedCharacterOntology,
+    role: string,
+    random: RandomSource
+  ): CharacterRelationship {
+    return {
+      id: `rel_${random.nextString(12)}`,
+      targetCharacterId: target.id,
+      relationshipType: link.relationshipType,
+      role,
+      strength: link.strength,
+      description: `${target.coreIdentity.name} is ${owner.coreIdentity.name}'s ${role}`,
+      history: link.evidence,
+      currentStatus: link.emotionalTone === 'Estranged' ? 'Estranged' : 'Ongoing',
+      emotionalTone: link.emotionalTone
+    };
+  }
+
+  /**
+   * Remove the reciprocals of `previous` from its old target once the owner's edge no longer matches it
+   */
+  private async removeStaleReciprocals(
+    owner: UnifiedCharacterOntology,
+    previous: CharacterRelationship,
+    author?: string
+  ): Promise<void> {
+    const current = owner.relationships.find((relationship) => relationship.id === previous.id);
+    const unchanged = current &&
+      current.targetCharacterId === previous.targetCharacterId &&
+      current.relationshipType === previous.relationshipType &&
+      current.role === previous.role;
+    // Another edge of the old type to the old target still needs those reciprocals
+    const stillAnswered = owner.relationships.some((relationship) =>
+      relationship.id !== previous.id &&
+      relationship.targetCharacterId === previous.targetCharacterId &&
+      relationship.relationshipType === previous.relationshipType
+    );
+    const oldTarget = await this.repository.get(previous.targetCharacterId);
+    if (unchanged || stillAnswered || !oldTarget) return;
+
+    const stale = new RelationshipGraph([owner, oldTarget]).reciprocalsOf(owner.id, previous);
+    if (stale.length > 0) {
+      await this.removeRelationships(oldTarget.id, new Set(stale.map((edge) => edge.relationship.id)), author,
+        `Removed reciprocal relationship with ${owner.coreIdentity.name}`);
+    }
+  }
+
+  private async removeRelationships(
+    characterId: string,
+    relationshipIds: Set<string>,
+    author: string | undefined,
+    summary: string
+  ): Promise<UnifiedCharacterOntology> {
+    const character = await this.getCharacter(characterId);
+    return this.updateCharacter(characterId, {
+      relationships: character.relationships.filter((relationship) => !relationshipIds.has(relationship.id))
+    }, { author, summary, arrayStrategies: { relationships: 'replace' } });
+  }
+
+  private async persist(
+    { character, warnings }: ValidatedCharacter,
+    { isNew = false }: { isNew?: boolean } = {}
+  ): Promise<UnifiedCharacterOntology> {
+    if (isNew) await this.assertUnusedIds([character]);
+    const saved = await this.repository.save(character);
+    await this.versionStore.saveVersion(saved);
+    this.validationWarnings.set(saved.id, warnings);
+    return saved;
+  }
+
+  private async withUnusedId(data: unknown): Promise<unknown> {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) return data;
+    const { id } = data as { id?: unknown };
+    if (typeof id !== 'string' || !(await this.repository.get(id))) return data;
+
+    // A copy starts its own history; the stored character's versions stay with the stored character
+    const now = new Date();
+    return {
+      ...data,
+      id: this.generateCharacterId(new SeededRandom(createRandomSeed())),
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      changelog: undefined
+    };
+  }
+
+  /** Creation never replaces a stored character; re-creating from the same seed and description is an error */
+  private async assertUnusedIds(characters: UnifiedCharacterOntology[]): Promise<void> {
+    for (const character of characters) {
+      if (await this.repository.get(character.id)) {
+        throw new CharacterExistsError(character.id, character.coreIdentity.name);
+      }
+    }
   }
 
   /**
    * Construct the unified character ontology from analyzed components
    */
   private constructCharacterOntology(
+    description: string,
     extractedData: ExtractedCharacterData,
     archetypeProfile: ArchetypeProfile,
     psychometricProfile: PsychometricProfile,
-    backstory: any
+    backstory: Backstory,
+    generation: CharacterGenerationSeed
   ): UnifiedCharacterOntology {
-    const characterId = this.generateCharacterId();
+    // Seed plus description, so one seed reused for different characters never repeats an id
+    const characterId = this.generateCharacterId(new SeededRandom(deriveSectionSeed(generation.sectionSeeds.id, description)));
     const now = new Date();
 
     return {
@@ -155,6 +1091,9 @@ export class CharacterDefinitionEngine {
         name: extractedData.basicInfo.name || 'Unnamed Character',
         age: extractedData.basicInfo.age || 25,
         gender: extractedData.basicInfo.gender || 'Non-binary',
+        pronouns: extractedData.basicInfo.pronouns,
+        title: extractedData.basicInfo.title,
+        nickname: extractedData.basicInfo.nickname,
         species: 'Human',
         occupation: extractedData.basicInfo.occupation || 'Unknown',
         background: extractedData.basicInfo.description || 'No description provided'
@@ -172,9 +1111,17 @@ export class CharacterDefinitionEngine {
       },
       
       visualIdentity: {
-        physicalFeatures: this.extractPhysicalFeatures(extractedData.physicalFeatures),
+        physicalFeatures: completePhysicalFeatures(
+          extractedData.physicalFeatures,
+          new SeededRandom(generation.sectionSeeds.physicalFeatures),
+          {
+            gender: extractedData.basicInfo.gender,
+            age: extractedData.basicInfo.age,
+            occupationCategory: extractedData.occupationMatch?.occupation.category
+          }
+        ),
         styleProfile: this.generateStyleProfile(extractedData, archetypeProfile),
-        facialVector: this.generateFacialVector()
+        facialVector: this.generateFacialVector(new SeededRandom(generation.sectionSeeds.facialVector))
       },
       
       voiceIdentity: {
@@ -184,7 +1131,7 @@ export class CharacterDefinitionEngine {
         accent: 'Neutral',
         emotionalRange: this.determineEmotionalRange(psychometricProfile),
         speechPatterns: this.generateSpeechPatterns(psychometricProfile, archetypeProfile),
-        voiceDNA: this.generateVoiceDNA()
+        voiceDNA: this.generateVoiceDNA(new SeededRandom(generation.sectionSeeds.voiceDNA))
       },
       
       behavioralPatterns: {
@@ -209,28 +1156,30 @@ export class CharacterDefinitionEngine {
       backstory: backstory,
       
       skillsAndAbilities: {
-        coreSkills: extractedData.skills,
+        coreSkills: this.mergeCoreSkills(extractedData),
         talents: this.generateTalents(psychometricProfile, archetypeProfile),
         weaknesses: this.generateWeaknesses(psychometricProfile, archetypeProfile),
         languages: ['English'],
         hobbies: this.generateHobbies(psychometricProfile)
-      }
+      },
+
+      generation
     };
   }
 
-  private generateCharacterId(): string {
-    return `char_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private mergeCoreSkills(data: ExtractedCharacterData): string[] {
+    const occupationSkills = data.occupationMatch?.occupation.typicalSkills ?? [];
+    const seen = new Set<string>();
+    return [...occupationSkills, ...data.skills].filter((skill) => {
+      const key = skill.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
   }
 
-  private extractPhysicalFeatures(features: string[]) {
-    return {
-      height: 'Average',
-      build: 'Average',
-      hairColor: 'Brown',
-      eyeColor: 'Brown',
-      skinTone: 'Medium',
-      distinctiveFeatures: features
-    };
+  private generateCharacterId(random: RandomSource): string {
+    return `char_${random.nextString(16)}`;
   }
 
   private generateStyleProfile(data: ExtractedCharacterData, archetype: ArchetypeProfile) {
@@ -241,9 +1190,9 @@ export class CharacterDefinitionEngine {
     };
   }
 
-  private generateFacialVector(): number[] {
+  private generateFacialVector(random: RandomSource): number[] {
     // Generate a 128-dimensional facial feature vector
-    return Array.from({ length: 128 }, () => Math.random());
+    return Array.from({ length: 128 }, () => random.next());
   }
 
   private determineVoiceType(psychometric: PsychometricProfile, archetype: ArchetypeProfile): string {
@@ -281,8 +1230,8 @@ export class CharacterDefinitionEngine {
     return patterns;
   }
 
-  private generateVoiceDNA(): string {
-    return `voice_${Math.random().toString(36).substr(2, 16)}`;
+  private generateVoiceDNA(random: RandomSource): string {
+    return `voice_${random.nextString(16)}`;
   }
 
   private generateHabitsAndQuirks(psychometric: PsychometricProfile): string[] {
@@ -337,21 +1286,7 @@ export class CharacterDefinitionEngine {
   }
 
   private determineShadowArchetype(primaryArchetype: string): string {
-    const shadowMap: Record<string, string> = {
-      'Hero': 'Destroyer',
-      'Lover': 'Addict',
-      'Sage': 'Know-it-all',
-      'Innocent': 'Victim',
-      'Explorer': 'Escapist',
-      'Ruler': 'Tyrant',
-      'Creator': 'Perfectionist',
-      'Caregiver': 'Martyr',
-      'Magician': 'Manipulator',
-      'Outlaw': 'Criminal',
-      'Everyman': 'Victim',
-      'Jester': 'Cruel Trickster'
-    };
-    return shadowMap[primaryArchetype] || 'Shadow';
+    return determineShadowArchetype(primaryArchetype);
   }
 
   private determineFashionStyle(archetype: ArchetypeProfile): string {
@@ -434,67 +1369,126 @@ export class CharacterDefinitionEngine {
   }
 }
 
+// Personality traits and the words that signal them; extraction and the OCEAN model share these names
+const TRAIT_VOCABULARY: Record<string, string[]> = {
+  kind: ['kind', 'nice', 'caring', 'compassionate', 'gentle'],
+  confident: ['confident', 'assertive', 'bold', 'brave'],
+  intelligent: ['smart', 'intelligent', 'clever', 'wise'],
+  funny: ['funny', 'humorous', 'witty', 'amusing'],
+  shy: ['shy', 'timid', 'reserved', 'quiet'],
+  energetic: ['energetic', 'active', 'vibrant', 'lively'],
+  outgoing: ['outgoing', 'sociable', 'gregarious'],
+  curious: ['curious', 'inquisitive'],
+  creative: ['creative', 'imaginative', 'inventive'],
+  anxious: ['anxious', 'nervous', 'worried', 'nervousness'],
+  calm: ['calm', 'serene', 'composed', 'unflappable'],
+  stoic: ['stoic', 'impassive'],
+  organized: ['organized', 'organised', 'orderly', 'methodical'],
+  disciplined: ['disciplined', 'diligent', 'hardworking'],
+  meticulous: ['meticulous', 'precise', 'perfectionist'],
+  consistent: ['consistent', 'dependable', 'reliable'],
+  lazy: ['lazy', 'idle'],
+  reckless: ['reckless', 'impulsive', 'rash'],
+  rebellious: ['rebellious', 'defiant'],
+  aloof: ['aloof', 'icy', 'standoffish', 'unfeeling'],
+  cynical: ['cynical', 'jaded'],
+  stubborn: ['stubborn', 'obstinate', 'headstrong']
+};
+
 // Supporting classes that would be implemented separately
 class NLPProcessor {
-  async extractCharacterData(description: string): Promise<ExtractedCharacterData> {
-    // This would use actual NLP to extract character information
-    // For now, return a basic structure
+  constructor(
+    private occupationTaxonomy: OccupationTaxonomy = new OccupationTaxonomy(),
+    private languageModel?: LanguageModelProvider
+  ) {}
+
+  async extractCharacterData(description: string, referenceYear?: number): Promise<ExtractedCharacterData> {
+    if (this.languageModel) {
+      try {
+        return await this.extractWithModel(description, referenceYear);
+      } catch {
+        // Rejected or failed model output: the rule-based extractor is always available
+      }
+    }
+    return this.extractWithRules(description, referenceYear);
+  }
+
+  private async extractWithModel(description: string, referenceYear?: number): Promise<ExtractedCharacterData> {
+    const extracted = await completeJson(
+      this.languageModel,
+      { messages: buildExtractionPrompt(description, referenceYear), temperature: 0 },
+      extractedCharacterDataSchema
+    );
+    const { basicInfo } = extracted;
+    const [minAge, maxAge] = basicInfo.ageRange ?? [basicInfo.age, basicInfo.age];
+    const occupationMatch = basicInfo.occupation ? this.occupationTaxonomy.match(basicInfo.occupation) : undefined;
+    const confidence = (field: 'name' | 'age' | 'gender' | 'occupation') =>
+      basicInfo[field] === undefined ? 0 : extracted.fieldConfidence[field] ?? 0.8;
+
     return {
       basicInfo: {
-        name: this.extractName(description),
-        age: this.extractAge(description),
-        gender: this.extractGender(description),
-        occupation: this.extractOccupation(description),
+        ...basicInfo,
+        ageRange: minAge !== undefined && maxAge !== undefined ? [minAge, maxAge] : undefined,
+        occupation: occupationMatch?.occupation.title ?? basicInfo.occupation,
+        description
+      },
+      fieldConfidence: {
+        name: confidence('name'),
+        age: confidence('age'),
+        gender: confidence('gender'),
+        occupation: confidence('occupation')
+      },
+      occupationMatch,
+      personalityTraits: extracted.personalityTraits,
+      physicalFeatures: (extracted.physicalFeatures as ParsedPhysicalFeatures) ?? parsePhysicalFeatures(description),
+      behavioralPatterns: extracted.behavioralPatterns,
+      backgroundElements: extracted.backgroundElements,
+      relationships: extracted.relationships,
+      skills: extracted.skills,
+      extractionSource: 'language-model'
+    };
+  }
+
+  private extractWithRules(description: string, referenceYear?: number): ExtractedCharacterData {
+    const name = extractName(description);
+    const age = extractAge(description, referenceYear);
+    const gender = extractGender(description, name.name);
+    const occupationMatch = this.occupationTaxonomy.match(description);
+
+    return {
+      basicInfo: {
+        name: name.name,
+        title: name.title,
+        nickname: name.nickname,
+        age: age.age,
+        ageRange: age.ageRange,
+        gender: gender.gender,
+        pronouns: gender.pronouns,
+        occupation: occupationMatch?.occupation.title,
         description: description
       },
+      fieldConfidence: {
+        name: name.confidence,
+        age: age.confidence,
+        gender: gender.confidence,
+        occupation: occupationMatch?.confidence ?? 0
+      },
+      occupationMatch,
       personalityTraits: this.extractPersonalityTraits(description),
-      physicalFeatures: this.extractPhysicalFeatures(description),
+      physicalFeatures: parsePhysicalFeatures(description),
       behavioralPatterns: this.extractBehavioralPatterns(description),
       backgroundElements: this.extractBackgroundElements(description),
       relationships: this.extractRelationships(description),
-      skills: this.extractSkills(description)
+      skills: this.extractSkills(description),
+      extractionSource: 'rules'
     };
   }
 
-  private extractName(description: string): string | undefined {
-    const nameMatch = description.match(/(?:named?|called)\s+([A-Z][a-z]+)/i);
-    return nameMatch ? nameMatch[1] : undefined;
-  }
-
-  private extractAge(description: string): number | undefined {
-    const ageMatch = description.match(/(\d+)(?:\s*(?:years?\s*old|yo))/i);
-    return ageMatch ? parseInt(ageMatch[1]) : undefined;
-  }
-
-  private extractGender(description: string): string | undefined {
-    if (/\b(?:he|him|his|man|male|boy)\b/i.test(description)) return 'Male';
-    if (/\b(?:she|her|hers|woman|female|girl)\b/i.test(description)) return 'Female';
-    return undefined;
-  }
-
-  private extractOccupation(description: string): string | undefined {
-    const occupationWords = ['teacher', 'doctor', 'engineer', 'artist', 'lawyer', 'chef', 'student'];
-    for (const occupation of occupationWords) {
-      if (description.toLowerCase().includes(occupation)) {
-        return occupation.charAt(0).toUpperCase() + occupation.slice(1);
-      }
-    }
-    return undefined;
-  }
-
   private extractPersonalityTraits(description: string): string[] {
     const traits = [];
-    const traitMap = {
-      'kind': /\b(?:kind|nice|caring|compassionate|gentle)\b/i,
-      'confident': /\b(?:confident|assertive|bold|brave)\b/i,
-      'intelligent': /\b(?:smart|intelligent|clever|wise)\b/i,
-      'funny': /\b(?:funny|humorous|witty|amusing)\b/i,
-      'shy': /\b(?:shy|timid|reserved|quiet)\b/i,
-      'energetic': /\b(?:energetic|active|vibrant|lively)\b/i
-    };
 
-    for (const [trait, pattern] of Object.entries(traitMap)) {
-      if (pattern.test(description)) {
+    for (const [trait, words] of Object.entries(TRAIT_VOCABULARY)) {
+      if (new RegExp(`\\b(?:${words.join('|')})\\b`, 'i').test(description)) {
         traits.push(trait);
       }
     }
@@ -502,27 +1496,6 @@ class NLPProcessor {
     return traits;
   }
 
-  private extractPhysicalFeatures(description: string): string[] {
-    const features = [];
-    const featureMap = {
-      'tall': /\b(?:tall|height)\b/i,
-      'short': /\b(?:short|petite)\b/i,
-      'blonde': /\b(?:blonde?|golden)\s*hair\b/i,
-      'brown hair': /\b(?:brown|brunette)\s*hair\b/i,
-      'blue eyes': /\b(?:blue)\s*eyes?\b/i,
-      'green eyes': /\b(?:green)\s*eyes?\b/i,
-      'athletic': /\b(?:athletic|fit|muscular)\b/i
-    };
-
-    for (const [feature, pattern] of Object.entries(featureMap)) {
-      if (pattern.test(description)) {
-        features.push(feature);
-      }
-    }
-
-    return features;
-  }
-
   private extractBehavioralPatterns(description: string): string[] {
     const patterns = [];
     if (/\b(?:always|often|frequently)\b/i.test(description)) {
@@ -577,81 +1550,439 @@ class NLPProcessor {
 }
 
 class ArchetypeAnalyzer {
+  // Relative weight of each evidence source when matched against archetype signals
+  private static readonly SOURCE_WEIGHTS = {
+    personalityTraits: 3,
+    occupation: 3,
+    skills: 2,
+    behavioralPatterns: 1.5,
+    backgroundElements: 1,
+    description: 0.5
+  };
+
+  constructor(private languageModel?: LanguageModelProvider) {}
+
+  /**
+   * Archetypes are scored from the evidence rules, or by a configured language model whose picks, confidence
+   * and scores are then used together; the knowledge-base entries of the picks fill the profile
+   */
   async analyzeArchetype(data: ExtractedCharacterData): Promise<ArchetypeProfile> {
-    // This would use sophisticated analysis to determine character archetype
-    // For now, return a basic Hero archetype
+    if (!this.languageModel) return this.analyzeWithRules(data);
+
+    try {
+      const selection = await completeJson(
+        this.languageModel,
+        { messages: buildArchetypePrompt(summarizeForModel(data)), temperature: 0 },
+        archetypeSelectionSchema
+      );
+      const total = Object.values(selection.scores).reduce((sum, score) => sum + score, 0);
+      return {
+        primary: selection.primary,
+        secondary: selection.secondary,
+        confidence: selection.confidence,
+        scores: Object.fromEntries(JUNGIAN_ARCHETYPES.map((archetype) => [
+          archetype,
+          Math.round(((selection.scores[archetype] ?? 0) / total) * 1000) / 1000
+        ])),
+        ...this.describeArchetypes(selection.primary, selection.secondary)
+      };
+    } catch {
+      return this.analyzeWithRules(data);
+    }
+  }
+
+  /**
+   * Hold a profile to archetypes fixed elsewhere, such as by a template. Without a pinned secondary the
+   * highest-scoring archetype other than the primary takes its place; names outside the twelve are ignored.
+   */
+  pinArchetypes(profile: ArchetypeProfile, pinned: { primary?: string; secondary?: string }): ArchetypeProfile {
+    const known = (archetype?: string) => JUNGIAN_ARCHETYPES.find((candidate) => candidate === archetype);
+    const pinnedPrimary = known(pinned.primary);
+    const pinnedSecondary = known(pinned.secondary);
+    if (!pinnedPrimary && !pinnedSecondary) return profile;
+
+    const primary = pinnedPrimary ?? profile.primary as JungianArchetype;
+    const ranked = [...JUNGIAN_ARCHETYPES].sort((a, b) => (profile.scores[b] ?? 0) - (profile.scores[a] ?? 0));
+    const secondary = pinnedSecondary && pinnedSecondary !== primary
+      ? pinnedSecondary
+      : ranked.find((archetype) => archetype !== primary);
+    return { ...profile, primary, secondary, ...this.describeArchetypes(primary, secondary) };
+  }
+
+  private analyzeWithRules(data: ExtractedCharacterData): ArchetypeProfile {
+    const evidence = this.scoreEvidence(data);
+    const rawScores = JUNGIAN_ARCHETYPES.map((archetype) => ({
+      archetype,
+      evidence: evidence[archetype],
+      score: ARCHETYPE_KNOWLEDGE[archetype].prior + evidence[archetype]
+    }));
+
+    const total = rawScores.reduce((sum, { score }) => sum + score, 0);
+    const ranked = [...rawScores].sort((a, b) => b.score - a.score);
+    const [primary, secondary] = ranked;
+    const scores = Object.fromEntries(
+      rawScores.map(({ archetype, score }) => [archetype, Math.round((score / total) * 1000) / 1000])
+    );
+
     return {
-      primary: 'Hero',
-      secondary: 'Caregiver',
-      confidence: 0.85,
-      characteristics: ['Brave', 'Determined', 'Protective'],
-      motivations: ['Help others', 'Overcome challenges', 'Make a difference'],
-      fears: ['Failure', 'Letting others down', 'Being powerless'],
-      growth_arc: 'Learning to balance heroism with self-care'
+      primary: primary.archetype,
+      secondary: secondary.archetype,
+      confidence: this.calculateConfidence(primary.score / total, secondary.score / total, rawScores),
+      scores,
+      ...this.describeArchetypes(primary.archetype, secondary.archetype)
     };
   }
+
+  private describeArchetypes(
+    primary: JungianArchetype,
+    secondary: JungianArchetype
+  ): Pick<ArchetypeProfile, 'characteristics' | 'motivations' | 'fears' | 'growth_arc'> {
+    const primaryKnowledge = ARCHETYPE_KNOWLEDGE[primary];
+    const secondaryKnowledge = ARCHETYPE_KNOWLEDGE[secondary];
+    return {
+      characteristics: this.unique([...primaryKnowledge.characteristics, secondaryKnowledge.characteristics[0]]),
+      motivations: [...primaryKnowledge.motivations],
+      fears: [...primaryKnowledge.fears],
+      growth_arc: primaryKnowledge.growthArc
+    };
+  }
+
+  private scoreEvidence(data: ExtractedCharacterData): Record<JungianArchetype, number> {
+    const weights = ArchetypeAnalyzer.SOURCE_WEIGHTS;
+    const traits = data.personalityTraits.join(' ');
+    const occupation = data.basicInfo.occupation ?? '';
+    const skills = data.skills.join(' ');
+    const behaviors = data.behavioralPatterns.join(' ');
+    const background = data.backgroundElements.join(' ');
+    const description = data.basicInfo.description ?? '';
+
+    return Object.fromEntries(JUNGIAN_ARCHETYPES.map((archetype) => {
+      const knowledge = ARCHETYPE_KNOWLEDGE[archetype];
+      const allSignals = [...knowledge.traitSignals, ...knowledge.themeSignals, ...knowledge.occupationSignals];
+      const evidence =
+        this.countMatches(traits, knowledge.traitSignals) * weights.personalityTraits +
+        this.countMatches(occupation, knowledge.occupationSignals) * weights.occupation +
+        this.countMatches(skills, knowledge.skillSignals) * weights.skills +
+        this.countMatches(behaviors, [...knowledge.traitSignals, ...knowledge.themeSignals]) * weights.behavioralPatterns +
+        this.countMatches(background, knowledge.themeSignals) * weights.backgroundElements +
+        this.countMatches(description, allSignals) * weights.description;
+      return [archetype, evidence];
+    })) as Record<JungianArchetype, number>;
+  }
+
+  /**
+   * Confidence grows with the amount of evidence and with the gap between the top two archetypes
+   */
+  private calculateConfidence(
+    primaryShare: number,
+    secondaryShare: number,
+    rawScores: Array<{ evidence: number }>
+  ): number {
+    const totalEvidence = rawScores.reduce((sum, { evidence }) => sum + evidence, 0);
+    const evidenceStrength = totalEvidence / (totalEvidence + 4);
+    const separation = (primaryShare - secondaryShare) / primaryShare;
+    return Math.round((0.25 + 0.7 * evidenceStrength * (0.5 + 0.5 * separation)) * 100) / 100;
+  }
+
+  private countMatches(text: string, signals: string[]): number {
+    if (!text) return 0;
+    return signals.filter((signal) => {
+      const escaped = signal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`\\b${escaped}(?:s|es|ed|ing)?\\b`, 'i').test(text);
+    }).length;
+  }
+
+  private unique(values: string[]): string[] {
+    return Array.from(new Set(values.filter(Boolean)));
+  }
 }
 
+type OceanTrait = keyof PsychometricProfile['ocean'];
+
 class PsychometricAnalyzer {
+  private static readonly OCEAN_TRAITS: OceanTrait[] = [
+    'openness', 'conscientiousness', 'extraversion', 'agreeableness', 'neuroticism'
+  ];
+
+  // Point shifts applied to the archetype baseline for each trait in TRAIT_VOCABULARY
+  private static readonly TRAIT_EFFECTS: Record<string, Partial<Record<OceanTrait, number>>> = {
+    kind: { agreeableness: 15 },
+    confident: { extraversion: 10, neuroticism: -12 },
+    intelligent: { openness: 12, conscientiousness: 4 },
+    funny: { extraversion: 10, openness: 6 },
+    shy: { extraversion: -22, neuroticism: 8 },
+    energetic: { extraversion: 15 },
+    outgoing: { extraversion: 18 },
+    curious: { openness: 15 },
+    creative: { openness: 18 },
+    anxious: { neuroticism: 20 },
+    calm: { neuroticism: -18 },
+    stoic: { neuroticism: -15, extraversion: -5 },
+    organized: { conscientiousness: 18 },
+    disciplined: { conscientiousness: 18 },
+    meticulous: { conscientiousness: 15, neuroticism: 4 },
+    consistent: { conscientiousness: 8 },
+    lazy: { conscientiousness: -18 },
+    reckless: { conscientiousness: -15, neuroticism: 5 },
+    rebellious: { agreeableness: -10, conscientiousness: -8, openness: 5 },
+    aloof: { agreeableness: -18, extraversion: -5 },
+    cynical: { agreeableness: -12 },
+    stubborn: { agreeableness: -8, conscientiousness: 4 }
+  };
+
+  // Any vocabulary word, e.g. "caring" from a language model or "nervousness" from a behavior, counts as its trait
+  private static readonly TRAIT_BY_WORD = new Map(
+    Object.entries(TRAIT_VOCABULARY).flatMap(([trait, words]) => [trait, ...words].map((word) => [word, trait] as const))
+  );
+
+  // Enneagram type votes from words in the character's motivations
+  private static readonly MOTIVATION_SIGNALS: Record<number, string[]> = {
+    1: ['right', 'order', 'perfect', 'improve', 'correct', 'integrity'],
+    2: ['help', 'care', 'loved', 'needed', 'others'],
+    3: ['prove', 'worth', 'succeed', 'achieve', 'admired', 'win'],
+    4: ['express', 'unique', 'identity', 'beauty', 'authentic', 'vision'],
+    5: ['truth', 'knowledge', 'understand', 'learn', 'competent'],
+    6: ['safe', 'security', 'belong', 'loyal', 'fit in', 'support'],
+    7: ['experience', 'freedom', 'free', 'enjoy', 'moment', 'adventure'],
+    8: ['control', 'power', 'protect', 'strong', 'revenge', 'overturn'],
+    9: ['peace', 'harmony', 'happy', 'faith', 'calm']
+  };
+
+  private static readonly ENNEAGRAM_DESCRIPTIONS: Record<number, string> = {
+    1: 'The Reformer - principled, purposeful and self-controlled',
+    2: 'The Helper - caring and interpersonally focused',
+    3: 'The Achiever - adaptable, driven and image-conscious',
+    4: 'The Individualist - expressive, sensitive and self-aware',
+    5: 'The Investigator - perceptive, innovative and private',
+    6: 'The Loyalist - committed, security-oriented and responsible',
+    7: 'The Enthusiast - spontaneous, versatile and distractible',
+    8: 'The Challenger - self-confident, decisive and confrontational',
+    9: 'The Peacemaker - receptive, reassuring and agreeable'
+  };
+
   async generateProfile(
     data: ExtractedCharacterData, 
     archetype: ArchetypeProfile
   ): Promise<PsychometricProfile> {
-    // This would generate a detailed psychological profile
-    // For now, return a balanced profile
+    const { ocean, oceanConfidence } = this.inferOcean(data, archetype);
+    const mbti = this.deriveMbti(ocean, oceanConfidence);
+    const enneagram = this.inferEnneagram(archetype, ocean);
+
+    return { mbti, enneagram, ocean, oceanConfidence };
+  }
+
+  /**
+   * Blend the primary and secondary archetype tendencies, then shift by each trait keyword found
+   */
+  private inferOcean(data: ExtractedCharacterData, archetype: ArchetypeProfile) {
+    const primary = ARCHETYPE_KNOWLEDGE[archetype.primary as JungianArchetype]?.oceanTendency;
+    const secondary = ARCHETYPE_KNOWLEDGE[archetype.secondary as JungianArchetype]?.oceanTendency;
+    const keywords = [...new Set([...data.personalityTraits, ...data.behavioralPatterns]
+      .flatMap((entry) => entry.toLowerCase().split(/[^a-z]+/))
+      .map((word) => PsychometricAnalyzer.TRAIT_BY_WORD.get(word))
+      .filter(Boolean))];
+
+    const ocean = {} as PsychometricProfile['ocean'];
+    const oceanConfidence = {} as PsychometricProfile['oceanConfidence'];
+
+    for (const trait of PsychometricAnalyzer.OCEAN_TRAITS) {
+      const baseline = 50 +
+        (primary ? 0.6 * (primary[trait] - 50) : 0) +
+        (secondary ? 0.25 * (secondary[trait] - 50) : 0);
+      const effects = keywords
+        .map((keyword) => PsychometricAnalyzer.TRAIT_EFFECTS[keyword][trait])
+        .filter((effect): effect is number => effect !== undefined);
+      const shift = effects.reduce((sum, effect) => sum + effect, 0);
+
+      ocean[trait] = Math.round(Math.min(95, Math.max(5, baseline + shift)));
+      oceanConfidence[trait] = this.round(Math.min(0.95, 0.3 + 0.25 * archetype.confidence + 0.15 * effects.length));
+    }
+
+    return { ocean, oceanConfidence };
+  }
+
+  /**
+   * MBTI follows directly from OCEAN so the two frameworks never disagree:
+   * E_I ~ extraversion, S_N ~ openness, T_F ~ inverse agreeableness, J_P ~ conscientiousness
+   */
+  private deriveMbti(
+    ocean: PsychometricProfile['ocean'],
+    oceanConfidence: PsychometricProfile['oceanConfidence']
+  ): PsychometricProfile['mbti'] {
+    const breakdown = {
+      E_I: ocean.extraversion,
+      S_N: ocean.openness,
+      T_F: 100 - ocean.agreeableness,
+      J_P: ocean.conscientiousness
+    };
+    const sources: Record<keyof typeof breakdown, OceanTrait> = {
+      E_I: 'extraversion',
+      S_N: 'openness',
+      T_F: 'agreeableness',
+      J_P: 'conscientiousness'
+    };
+
+    // A letter is only as certain as its source trait and how far the score sits from the midpoint
+    const breakdownConfidence = Object.fromEntries(
+      (Object.keys(breakdown) as Array<keyof typeof breakdown>).map((axis) => {
+        const clarity = Math.abs(breakdown[axis] - 50) / 50;
+        return [axis, this.round(oceanConfidence[sources[axis]] * (0.5 + 0.5 * clarity))];
+      })
+    ) as PsychometricProfile['mbti']['breakdownConfidence'];
+
+    const type = [
+      breakdown.E_I >= 50 ? 'E' : 'I',
+      breakdown.S_N >= 50 ? 'N' : 'S',
+      breakdown.T_F >= 50 ? 'T' : 'F',
+      breakdown.J_P >= 50 ? 'J' : 'P'
+    ].join('');
+    const confidences = Object.values(breakdownConfidence);
+
     return {
-      mbti: {
-        type: 'ENFJ',
-        confidence: 0.8,
-        breakdown: {
-          E_I: 70, // Extraverted
-          S_N: 60, // Intuitive
-          T_F: 30, // Feeling
-          J_P: 65  // Judging
-        }
-      },
-      enneagram: {
-        type: 2,
-        wing: 1,
-        confidence: 0.75,
-        description: 'The Helper - caring and interpersonally focused'
-      },
-      ocean: {
-        openness: 75,
-        conscientiousness: 80,
-        extraversion: 70,
-        agreeableness: 85,
-        neuroticism: 30
-      }
+      type,
+      confidence: this.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length),
+      breakdown,
+      breakdownConfidence
+    };
+  }
+
+  /**
+   * Vote for the core type from the archetypes and motivations; the wing is the stronger neighbour
+   */
+  private inferEnneagram(
+    archetype: ArchetypeProfile,
+    ocean: PsychometricProfile['ocean']
+  ): PsychometricProfile['enneagram'] {
+    const votes: Record<number, number> = {};
+    for (let type = 1; type <= 9; type++) {
+      votes[type] = this.enneagramOceanAffinity(type, ocean);
+    }
+
+    const primaryType = ARCHETYPE_KNOWLEDGE[archetype.primary as JungianArchetype]?.enneagramType;
+    const secondaryType = ARCHETYPE_KNOWLEDGE[archetype.secondary as JungianArchetype]?.enneagramType;
+    if (primaryType) votes[primaryType] += 3;
+    if (secondaryType) votes[secondaryType] += 1.5;
+
+    const motivations = archetype.motivations.join(' ').toLowerCase();
+    for (const [type, signals] of Object.entries(PsychometricAnalyzer.MOTIVATION_SIGNALS)) {
+      votes[Number(type)] += signals.filter((signal) => new RegExp(`\\b${signal}\\b`).test(motivations)).length;
+    }
+
+    const ranked = Object.entries(votes).sort(([, a], [, b]) => b - a);
+    const type = Number(ranked[0][0]);
+    const neighbours = [type === 1 ? 9 : type - 1, type === 9 ? 1 : type + 1];
+    const wing = votes[neighbours[0]] >= votes[neighbours[1]] ? neighbours[0] : neighbours[1];
+
+    const total = Object.values(votes).reduce((sum, vote) => sum + vote, 0);
+    const share = ranked[0][1] / total;
+    const margin = (ranked[0][1] - ranked[1][1]) / ranked[0][1];
+
+    return {
+      type,
+      wing,
+      confidence: this.round(Math.min(0.95, 0.2 + share + 0.4 * margin)),
+      description: PsychometricAnalyzer.ENNEAGRAM_DESCRIPTIONS[type]
     };
   }
+
+  /**
+   * 0-1 fit between an Enneagram type and the Big Five profile, used as a tie-breaker
+   */
+  private enneagramOceanAffinity(type: number, ocean: PsychometricProfile['ocean']): number {
+    const high = (value: number) => value / 100;
+    const low = (value: number) => 1 - value / 100;
+    const affinities: Record<number, number> = {
+      1: high(ocean.conscientiousness),
+      2: high(ocean.agreeableness),
+      3: (high(ocean.extraversion) + high(ocean.conscientiousness)) / 2,
+      4: (high(ocean.neuroticism) + high(ocean.openness)) / 2,
+      5: (low(ocean.extraversion) + high(ocean.openness)) / 2,
+      6: (high(ocean.neuroticism) + high(ocean.conscientiousness)) / 2,
+      7: (high(ocean.extraversion) + high(ocean.openness)) / 2,
+      8: (low(ocean.agreeableness) + high(ocean.extraversion)) / 2,
+      9: (high(ocean.agreeableness) + low(ocean.neuroticism)) / 2
+    };
+    return affinities[type];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
 }
 
 class BackstoryProcessor {
+  constructor(private languageModel?: LanguageModelProvider) {}
+
+  /**
+   * The timeline is always generated procedurally; a configured language model only rewrites the prose
+   * around those dated events, and its output is discarded if it fails validation
+   */
   async generateBackstory(
     data: ExtractedCharacterData,
     archetype: ArchetypeProfile,
-    context?: SceneContext
-  ): Promise<any> {
-    // This would generate a rich backstory
-    return {
-      childhood: 'Grew up in a loving family that valued helping others',
-      formativeEvents: ['Witnessed someone being helped in a crisis', 'Overcame a personal challenge'],
-      education: 'Completed education with focus on helping professions',
-      careerHistory: 'Chose career path that allows helping others',
-      personalHistory: 'Has maintained close relationships throughout life',
-      secrets: ['Sometimes doubts their own abilities'],
+    context: SceneContext | undefined,
+    random: RandomSource,
+    referenceYear?: number
+  ): Promise<Backstory> {
+    const input: BackstoryInput = {
+      age: data.basicInfo.age || 25,
+      occupation: data.occupationMatch?.occupation,
+      occupationTitle: data.basicInfo.occupation,
+      era: data.occupationMatch?.era ?? detectEra(data.basicInfo.description ?? ''),
       motivations: archetype.motivations,
       fears: archetype.fears,
-      desires: ['To make a positive impact', 'To be remembered fondly', 'To help those in need']
+      context,
+      referenceYear
     };
+    const backstory = generateBackstory(input, random);
+    if (!this.languageModel) return backstory;
+
+    try {
+      const events = backstory.timeline.events.map((event) => `Age ${event.age}: ${event.title}`);
+      const generated = await completeJson(
+        this.languageModel,
+        { messages: buildBackstoryPrompt(summarizeForModel(data), events, archetype.motivations, archetype.fears), temperature: 0.7 },
+        generatedBackstorySchema
+      );
+      return { ...backstory, ...generated, motivations: backstory.motivations, fears: backstory.fears };
+    } catch {
+      return backstory;
+    }
   }
 }
 
+/**
+ * Compact one-line description of extracted data for model prompts
+ */
+function summarizeForModel(data: ExtractedCharacterData): string {
+  const { name, age, gender, occupation, description } = data.basicInfo;
+  return [
+    [name, age !== undefined ? `${age}` : undefined, gender, occupation].filter(Boolean).join(', '),
+    data.personalityTraits.length > 0 ? `Traits: ${data.personalityTraits.join(', ')}` : undefined,
+    data.skills.length > 0 ? `Skills: ${data.skills.join(', ')}` : undefined,
+    description ? `Description: ${description}` : undefined
+  ].filter(Boolean).join('. ');
+}
+
+interface ValidatedCharacter {
+  character: UnifiedCharacterOntology;
+  warnings: ValidationIssue[];
+}
+
 class CharacterValidator {
-  async validateAndEnrich(character: UnifiedCharacterOntology): Promise<UnifiedCharacterOntology> {
-    // This would validate the character for consistency and enrich missing details
-    // For now, just return the character as-is
-    return character;
+  validate(character: unknown): CharacterValidationResult {
+    return validateCharacterOntology(character);
+  }
+
+  /**
+   * Validate a character and normalize it for storage; throws with every collected error when invalid,
+   * otherwise returns the character with its warnings
+   */
+  async validateAndEnrich(character: unknown): Promise<ValidatedCharacter> {
+    const result = this.validate(character);
+    if (!result.valid) {
+      throw new CharacterValidationError(result);
+    }
+    return { character: reviveCharacter(character as UnifiedCharacterOntology), warnings: result.warnings };
   }
 }
\ No newline at end of file
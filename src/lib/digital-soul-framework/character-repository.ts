@@ -0,0 +1,257 @@
+// Character Repository - Persistence layer for UnifiedCharacterOntology records
+// Storage adapters share one interface so the engine and UI never depend on where characters live
+
+import { UnifiedCharacterOntology } from '../types/character-types';
+
+// ==================== CORE INTERFACES ====================
+
+export interface CharacterQuery {
+  text?: string; // Case-insensitive match against name, occupation and background
+  name?: string;
+  occupation?: string;
+  archetype?: string;
+  mbtiType?: string;
+  sortBy?: 'name' | 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface CharacterRepository {
+  get(characterId: string): Promise<UnifiedCharacterOntology | undefined>;
+  save(character: UnifiedCharacterOntology): Promise<UnifiedCharacterOntology>;
+  delete(characterId: string): Promise<boolean>;
+  list(): Promise<UnifiedCharacterOntology[]>;
+  query(query: CharacterQuery): Promise<UnifiedCharacterOntology[]>;
+}
+
+// ==================== SERIALIZATION ====================
+
+/**
+ * Convert a character into a JSON string suitable for any text-based store
+ */
+export function serializeCharacter(character: UnifiedCharacterOntology): string {
+  return JSON.stringify(character);
+}
+
+/**
+ * Restore a character parsed from JSON, turning ISO timestamps back into Dates
+ */
+export function reviveCharacter(raw: UnifiedCharacterOntology): UnifiedCharacterOntology {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    ...(raw.changelog && {
+      changelog: raw.changelog.map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+    })
+  };
+}
+
+export function deserializeCharacter(json: string): UnifiedCharacterOntology {
+  return reviveCharacter(JSON.parse(json));
+}
+
+function cloneCharacter(character: UnifiedCharacterOntology): UnifiedCharacterOntology {
+  return deserializeCharacter(serializeCharacter(character));
+}
+
+// ==================== QUERY EVALUATION ====================
+
+/**
+ * Apply a CharacterQuery to an in-memory list; shared by every adapter
+ */
+export function applyCharacterQuery(
+  characters: UnifiedCharacterOntology[],
+  query: CharacterQuery
+): UnifiedCharacterOntology[] {
+  const includes = (value: string | undefined, needle?: string) =>
+    !needle || (value ?? '').toLowerCase().includes(needle.toLowerCase());
+  const equals = (value: string | undefined, expected?: string) =>
+    !expected || (value ?? '').toLowerCase() === expected.toLowerCase();
+
+  const filtered = characters.filter((character) => {
+    const { coreIdentity, psychologicalProfile } = character;
+    const textMatch = !query.text || [coreIdentity.name, coreIdentity.occupation, coreIdentity.background]
+      .some((value) => includes(value, query.text));
+
+    return textMatch &&
+      includes(coreIdentity.name, query.name) &&
+      includes(coreIdentity.occupation, query.occupation) &&
+      equals(psychologicalProfile.archetypeProfile.primary, query.archetype) &&
+      equals(psychologicalProfile.mbtiType, query.mbtiType);
+  });
+
+  const sortBy = query.sortBy ?? 'createdAt';
+  const direction = query.sortOrder === 'desc' ? -1 : 1;
+  filtered.sort((a, b) => {
+    if (sortBy === 'name') {
+      return a.coreIdentity.name.localeCompare(b.coreIdentity.name) * direction;
+    }
+    return (new Date(a[sortBy]).getTime() - new Date(b[sortBy]).getTime()) * direction;
+  });
+
+  const offset = query.offset ?? 0;
+  return filtered.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+}
+
+// ==================== IN-MEMORY ADAPTER ====================
+
+export class InMemoryCharacterRepository implements CharacterRepository {
+  private characters = new Map<string, UnifiedCharacterOntology>();
+
+  constructor(seed: UnifiedCharacterOntology[] = []) {
+    seed.forEach((character) => this.characters.set(character.id, cloneCharacter(character)));
+  }
+
+  async get(characterId: string): Promise<UnifiedCharacterOntology | undefined> {
+    const character = this.characters.get(characterId);
+    return character ? cloneCharacter(character) : undefined;
+  }
+
+  async save(character: UnifiedCharacterOntology): Promise<UnifiedCharacterOntology> {
+    this.characters.set(character.id, cloneCharacter(character));
+    return character;
+  }
+
+  async delete(characterId: string): Promise<boolean> {
+    return this.characters.delete(characterId);
+  }
+
+  async list(): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(Array.from(this.characters.values()).map(cloneCharacter), {});
+  }
+
+  async query(query: CharacterQuery): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(await this.list(), query);
+  }
+}
+
+// ==================== LOCAL STORAGE ADAPTER ====================
+
+const DEFAULT_STORAGE_KEY = 'chara-weave:characters';
+
+export class LocalStorageCharacterRepository implements CharacterRepository {
+  constructor(
+    private readonly storageKey: string = DEFAULT_STORAGE_KEY,
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  async get(characterId: string): Promise<UnifiedCharacterOntology | undefined> {
+    return this.readAll()[characterId];
+  }
+
+  async save(character: UnifiedCharacterOntology): Promise<UnifiedCharacterOntology> {
+    const characters = this.readAll();
+    characters[character.id] = character;
+    this.writeAll(characters);
+    return character;
+  }
+
+  async delete(characterId: string): Promise<boolean> {
+    const characters = this.readAll();
+    if (!characters[characterId]) return false;
+    delete characters[characterId];
+    this.writeAll(characters);
+    return true;
+  }
+
+  async list(): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(Object.values(this.readAll()), {});
+  }
+
+  async query(query: CharacterQuery): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(await this.list(), query);
+  }
+
+  private readAll(): Record<string, UnifiedCharacterOntology> {
+    const stored = this.storage.getItem(this.storageKey);
+    if (!stored) return {};
+
+    const parsed: Record<string, UnifiedCharacterOntology> = JSON.parse(stored);
+    return Object.fromEntries(
+      Object.entries(parsed).map(([id, character]) => [id, reviveCharacter(character)])
+    );
+  }
+
+  private writeAll(characters: Record<string, UnifiedCharacterOntology>): void {
+    this.storage.setItem(this.storageKey, JSON.stringify(characters));
+  }
+}
+
+// ==================== INDEXEDDB ADAPTER ====================
+
+const DEFAULT_DATABASE_NAME = 'chara-weave';
+const CHARACTER_STORE = 'characters';
+
+export class IndexedDBCharacterRepository implements CharacterRepository {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly databaseName: string = DEFAULT_DATABASE_NAME,
+    private readonly factory: IDBFactory = window.indexedDB
+  ) {}
+
+  async get(characterId: string): Promise<UnifiedCharacterOntology | undefined> {
+    const record = await this.request<string | undefined>('readonly', (store) => store.get(characterId));
+    return record ? deserializeCharacter(record) : undefined;
+  }
+
+  async save(character: UnifiedCharacterOntology): Promise<UnifiedCharacterOntology> {
+    await this.request('readwrite', (store) => store.put(serializeCharacter(character), character.id));
+    return character;
+  }
+
+  async delete(characterId: string): Promise<boolean> {
+    const existing = await this.get(characterId);
+    if (!existing) return false;
+    await this.request('readwrite', (store) => store.delete(characterId));
+    return true;
+  }
+
+  async list(): Promise<UnifiedCharacterOntology[]> {
+    const records = await this.request<string[]>('readonly', (store) => store.getAll());
+    return applyCharacterQuery(records.map(deserializeCharacter), {});
+  }
+
+  async query(query: CharacterQuery): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(await this.list(), query);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(CHARACTER_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const store = database.transaction(CHARACTER_STORE, mode).objectStore(CHARACTER_STORE);
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// ==================== FACTORY FUNCTION ====================
+
+/**
+ * Pick the most capable browser store available, falling back to memory outside the browser
+ */
+export function createBrowserCharacterRepository(): CharacterRepository {
+  if (typeof window === 'undefined') return new InMemoryCharacterRepository();
+  if (window.indexedDB) return new IndexedDBCharacterRepository();
+  if (window.localStorage) return new LocalStorageCharacterRepository();
+  return new InMemoryCharacterRepository();
+}
@@ -0,0 +1,331 @@
+// Character Schema - Runtime validation for UnifiedCharacterOntology and its nested types
+// Structural problems are errors; plausibility problems are warnings. Every issue carries a field path.
+
+import { z } from 'zod';
+import { RelationshipType, UnifiedCharacterOntology } from '../types/character-types';
+
+// ==================== RESULT TYPES ====================
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  path: string; // Dot/bracket path, e.g. "relationships[0].strength"
+  message: string;
+  code: string;
+  severity: ValidationSeverity;
+}
+
+export interface CharacterValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export class CharacterValidationError extends Error {
+  constructor(public readonly result: CharacterValidationResult) {
+    super(
+      `Character validation failed with ${result.errors.length} error(s): ` +
+      result.errors.map((issue) => `${issue.path || '(root)'}: ${issue.message}`).join('; ')
+    );
+    this.name = 'CharacterValidationError';
+  }
+}
+
+// ==================== SCHEMA DEFINITIONS ====================
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/;
+const MBTI_PATTERN = /^[EI][SN][TF][JP]$/;
+const ENNEAGRAM_PATTERN = /^([1-9])w([1-9])$/;
+
+const nonEmptyString = z.string().trim().min(1, 'Must not be empty');
+const percentage = z.number().finite().min(0, 'Must be between 0 and 100').max(100, 'Must be between 0 and 100');
+const stringList = z.array(z.string());
+const timestamp = z.union([z.date(), z.string().datetime()]);
+
+const enneagramType = z.string().regex(ENNEAGRAM_PATTERN, 'Must look like "4w5"').refine((value) => {
+  const match = value.match(ENNEAGRAM_PATTERN);
+  if (!match) return true;
+  const type = Number(match[1]);
+  const wing = Number(match[2]);
+  const neighbours = [type === 1 ? 9 : type - 1, type === 9 ? 1 : type + 1];
+  return neighbours.includes(wing);
+}, 'Wing must be adjacent to the core type');
+
+export const oceanTraitsSchema = z.object({
+  openness: percentage,
+  conscientiousness: percentage,
+  extraversion: percentage,
+  agreeableness: percentage,
+  neuroticism: percentage
+});
+
+export const characterRelationshipSchema = z.object({
+  id: nonEmptyString,
+  targetCharacterId: nonEmptyString,
+  relationshipType: z.nativeEnum(RelationshipType),
+  role: z.string().optional(),
+  strength: percentage,
+  description: z.string(),
+  history: z.string(),
+  currentStatus: z.string(),
+  emotionalTone: z.string()
+});
+
+export const characterChangelogEntrySchema = z.object({
+  version: z.string().regex(SEMVER_PATTERN, 'Must be a semantic version such as "1.0.0"'),
+  previousVersion: z.string().regex(SEMVER_PATTERN, 'Must be a semantic version such as "1.0.0"'),
+  timestamp,
+  author: z.string(),
+  changeLevel: z.enum(['major', 'minor', 'patch']),
+  summary: z.string(),
+  changedFields: stringList
+});
+
+export const lifeEventSchema = z.object({
+  age: z.number().int('Must be a whole number').min(0, 'Must not be negative'),
+  year: z.number().int('Must be a whole number').optional(),
+  category: z.enum(['birth', 'childhood', 'education', 'career', 'formative', 'personal', 'recent']),
+  title: nonEmptyString,
+  impact: z.enum(['positive', 'negative', 'mixed', 'neutral']),
+  drivenBy: z.string().optional()
+});
+
+export const lifeTimelineSchema = z.object({
+  birthYear: z.number().int('Must be a whole number').optional(),
+  hometown: z.string(),
+  upbringing: z.string(),
+  events: z.array(lifeEventSchema),
+  conflicts: z.array(z.string()).optional()
+});
+
+export const unifiedCharacterOntologySchema = z.object({
+  id: nonEmptyString,
+  version: z.string().regex(SEMVER_PATTERN, 'Must be a semantic version such as "1.0.0"'),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+
+  coreIdentity: z.object({
+    name: nonEmptyString,
+    age: z.number().int('Must be a whole number').min(0, 'Must not be negative'),
+    gender: z.string(),
+    pronouns: z.string().optional(),
+    title: z.string().optional(),
+    nickname: z.string().optional(),
+    species: nonEmptyString,
+    occupation: z.string(),
+    background: z.string()
+  }),
+
+  psychologicalProfile: z.object({
+    mbtiType: z.string().regex(MBTI_PATTERN, 'Must be a four-letter MBTI type such as "INTJ"'),
+    enneagramType,
+    oceanTraits: oceanTraitsSchema,
+    archetypeProfile: z.object({
+      primary: nonEmptyString,
+      secondary: z.string(),
+      shadowArchetype: z.string()
+    })
+  }),
+
+  visualIdentity: z.object({
+    physicalFeatures: z.object({
+      height: z.string(),
+      build: z.string(),
+      hairColor: z.string(),
+      eyeColor: z.string(),
+      skinTone: z.string(),
+      distinctiveFeatures: stringList,
+      provenance: z.record(
+        z.enum(['height', 'build', 'hairColor', 'eyeColor', 'skinTone']),
+        z.enum(['stated', 'inferred'])
+      ).optional()
+    }),
+    styleProfile: z.object({
+      fashionStyle: z.string(),
+      colorPalette: stringList,
+      accessories: stringList
+    }),
+    facialVector: z.array(z.number().finite())
+  }),
+
+  voiceIdentity: z.object({
+    voiceType: z.string(),
+    pitch: z.string(),
+    pace: z.string(),
+    accent: z.string(),
+    emotionalRange: stringList,
+    speechPatterns: stringList,
+    voiceDNA: z.string()
+  }),
+
+  behavioralPatterns: z.object({
+    mannerisms: stringList,
+    habitsAndQuirks: stringList,
+    socialBehavior: z.string(),
+    stressResponses: stringList,
+    decisionMaking: z.string()
+  }),
+
+  emotionalProfile: z.object({
+    emotionalIntelligence: percentage,
+    empathy: percentage,
+    emotionalStability: percentage,
+    coreEmotions: stringList,
+    emotionalTriggers: stringList,
+    copingMechanisms: stringList
+  }),
+
+  relationships: z.array(characterRelationshipSchema),
+
+  backstory: z.object({
+    childhood: z.string(),
+    formativeEvents: stringList,
+    education: z.string(),
+    careerHistory: z.string(),
+    personalHistory: z.string(),
+    secrets: stringList,
+    motivations: stringList,
+    fears: stringList,
+    desires: stringList,
+    timeline: lifeTimelineSchema.optional()
+  }),
+
+  skillsAndAbilities: z.object({
+    coreSkills: stringList,
+    talents: stringList,
+    weaknesses: stringList,
+    languages: stringList,
+    hobbies: stringList
+  }),
+
+  changelog: z.array(characterChangelogEntrySchema).optional(),
+
+  generation: z.object({
+    seed: nonEmptyString,
+    sectionSeeds: z.object({
+      id: nonEmptyString,
+      facialVector: nonEmptyString,
+      voiceDNA: nonEmptyString,
+      physicalFeatures: nonEmptyString.optional(), // Absent on characters generated before it became re-rollable
+      backstory: nonEmptyString.optional()
+    }),
+    referenceYear: z.number().int().optional()
+  }).optional(),
+
+  extensions: z.record(z.unknown()).optional(),
+
+  template: z.object({
+    templateId: nonEmptyString,
+    chain: z.array(z.object({ templateId: nonEmptyString, version: z.number().int().min(1) })),
+    slots: z.record(z.string()),
+    applied: z.array(z.object({ path: nonEmptyString, value: z.unknown() })),
+    locked: stringList
+  }).optional()
+});
+
+// ==================== VALIDATION ====================
+
+/**
+ * Validate an unknown value against the ontology schema, collecting every issue instead of stopping at the first
+ */
+export function validateCharacterOntology(input: unknown): CharacterValidationResult {
+  const parsed = unifiedCharacterOntologySchema.safeParse(input);
+  const errors: ValidationIssue[] = parsed.success ? [] : parsed.error.issues.map((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+    code: issue.code,
+    severity: 'error' as const
+  }));
+
+  // Semantic checks still run on structurally broken input so every problem is reported in one pass
+  const warnings = parsed.success ? collectWarnings(input as UnifiedCharacterOntology) : [];
+  errors.push(...collectSemanticErrors(input as Partial<UnifiedCharacterOntology>));
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+export function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') return `${formatted}[${segment}]`;
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+}
+
+function collectSemanticErrors(character: Partial<UnifiedCharacterOntology>): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  const seenRelationshipIds = new Set<string>();
+  if (!Array.isArray(character?.relationships)) return errors;
+
+  character.relationships.forEach((relationship, index) => {
+    if (typeof relationship?.id !== 'string') return;
+    if (seenRelationshipIds.has(relationship.id)) {
+      errors.push(error(`relationships[${index}].id`, 'duplicate_id', `Duplicate relationship id "${relationship.id}"`));
+    }
+    seenRelationshipIds.add(relationship.id);
+  });
+
+  return errors;
+}
+
+function collectWarnings(character: UnifiedCharacterOntology): ValidationIssue[] {
+  const warnings: ValidationIssue[] = [];
+  const { coreIdentity, visualIdentity, voiceIdentity, skillsAndAbilities } = character;
+
+  if (coreIdentity.species.toLowerCase() === 'human' && coreIdentity.age > 120) {
+    warnings.push(warning('coreIdentity.age', 'implausible_age', `Age ${coreIdentity.age} is implausible for a human`));
+  }
+
+  if (new Date(character.updatedAt).getTime() < new Date(character.createdAt).getTime()) {
+    warnings.push(warning('updatedAt', 'timestamp_order', 'updatedAt is earlier than createdAt'));
+  }
+
+  if (visualIdentity.facialVector.length !== 128) {
+    warnings.push(warning(
+      'visualIdentity.facialVector',
+      'vector_length',
+      `Expected a 128-dimensional facial vector, got ${visualIdentity.facialVector.length}`
+    ));
+  }
+
+  if (voiceIdentity.speechPatterns.length === 0) {
+    warnings.push(warning('voiceIdentity.speechPatterns', 'empty_list', 'No speech patterns defined'));
+  }
+
+  if (skillsAndAbilities.languages.length === 0) {
+    warnings.push(warning('skillsAndAbilities.languages', 'empty_list', 'Character speaks no languages'));
+  }
+
+  character.backstory.timeline?.events.forEach((event, index) => {
+    if (event.age > coreIdentity.age) {
+      warnings.push(warning(
+        `backstory.timeline.events[${index}].age`,
+        'timeline_age',
+        `"${event.title}" happens at age ${event.age}, after the character's current age of ${coreIdentity.age}`
+      ));
+    }
+  });
+
+  character.backstory.timeline?.conflicts?.forEach((conflict) => {
+    warnings.push(warning('backstory.timeline', 'timeline_conflict', conflict));
+  });
+
+  character.relationships.forEach((relationship, index) => {
+    if (relationship.targetCharacterId === character.id) {
+      warnings.push(warning(
+        `relationships[${index}].targetCharacterId`,
+        'self_reference',
+        'Relationship points at the character itself'
+      ));
+    }
+  });
+
+  return warnings;
+}
+
+function error(path: string, code: string, message: string): ValidationIssue {
+  return { path, code, message, severity: 'error' };
+}
+
+function warning(path: string, code: string, message: string): ValidationIssue {
+  return { path, code, message, severity: 'warning' };
+}
@@ -0,0 +1,505 @@
+// Character Templates - Reusable stock roles with locked fields, variable slots and inheritance
+// A template is a partial ontology; characters remember what their template applied so later template edits become reviewable diffs
+
+import { CharacterTemplateBinding, UnifiedCharacterOntology } from '../types/character-types';
+import { CharacterUpdate } from './character-versioning';
+import { extractAge, extractGender, extractName } from './identity-extraction';
+import { PHYSICAL_FEATURE_FIELDS, parsePhysicalFeatures } from './physical-feature-parser';
+
+// ==================== CORE TYPES ====================
+
+export interface TemplateSlot {
+  name: string; // Referenced as {{name}} in string fields and the base description
+  label?: string;
+  defaultValue?: string; // Slots without a default must be filled at creation
+}
+
+export interface CharacterTemplate {
+  id: string;
+  name: string;
+  description?: string; // What the template is for, shown when picking one
+  parentId?: string; // Fields, locks and slots are inherited from the parent chain
+  version: number; // Bumped on every save
+  baseDescription?: string; // Added to the character description before generation, e.g. "a detective in his fifties"
+  fields: CharacterUpdate;
+  locked: string[]; // Field paths characters cannot override; a path locks everything below it
+  slots: TemplateSlot[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CharacterTemplateInput = Omit<CharacterTemplate, 'id' | 'version' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+export interface ResolvedTemplate {
+  template: CharacterTemplate;
+  chain: CharacterTemplate[]; // Root first, ending with the template itself
+  fields: CharacterUpdate;
+  locked: string[];
+  slots: TemplateSlot[];
+  baseDescription: string;
+}
+
+export interface TemplateFieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed' | 'drifted'; // Relative to what the template last applied; drifted locked fields no longer hold the template value
+  previousValue: unknown; // What the template last applied
+  templateValue: unknown; // What the template sets now; undefined once it no longer sets the field
+  currentValue: unknown; // The character's value today
+  locked: boolean; // Locked changes are always applied with the rest
+  customized: boolean; // The character no longer matches what the template applied; accepting overwrites that
+}
+
+export interface TemplateUpdateProposal {
+  characterId: string;
+  characterName: string;
+  templateId: string;
+  templateName: string;
+  fromChain: CharacterTemplateBinding['chain'];
+  toChain: CharacterTemplateBinding['chain'];
+  slots: Record<string, string>; // Values the template values below were filled with
+  missingSlots: TemplateSlot[]; // Slots added upstream without a default; the update cannot be applied until they have values
+  changes: TemplateFieldChange[];
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// Fields a template cannot set; they belong to each character
+const RESERVED_FIELDS = new Set(['id', 'version', 'createdAt', 'updatedAt', 'changelog', 'generation', 'template', 'relationships']);
+
+const SLOT_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+// ==================== STARTER TEMPLATES ====================
+
+export const STARTER_TEMPLATES: CharacterTemplateInput[] = [
+  {
+    id: 'starter-detective',
+    name: 'Detective',
+    description: 'A police investigator',
+    baseDescription: 'a police detective in {{city}}',
+    fields: {
+      coreIdentity: { occupation: 'Detective', background: 'A detective with the {{city}} police department.' },
+      skillsAndAbilities: { coreSkills: ['Interrogation', 'Forensic reasoning', 'Reading people'] }
+    },
+    locked: ['coreIdentity.occupation'],
+    slots: [{ name: 'city', label: 'City', defaultValue: 'Chicago' }]
+  },
+  {
+    id: 'starter-grizzled-detective',
+    name: 'Grizzled Detective',
+    description: 'A burnt-out veteran who has seen too much',
+    parentId: 'starter-detective',
+    baseDescription: 'a cynical, weary veteran who drinks too much',
+    fields: {
+      coreIdentity: { background: 'Twenty years with the {{city}} police department have left {{vice}} as the only constant.' },
+      psychologicalProfile: { archetypeProfile: { primary: 'Outlaw', shadowArchetype: 'Criminal' } },
+      voiceIdentity: { voiceType: 'Gravelly and Low', pace: 'Measured' },
+      behavioralPatterns: { habitsAndQuirks: ['{{vice}}', 'Works cold cases at night'] }
+    },
+    locked: ['psychologicalProfile.archetypeProfile.primary'],
+    slots: [{ name: 'vice', label: 'Vice', defaultValue: 'bourbon' }]
+  },
+  {
+    id: 'starter-village-elder',
+    name: 'Village Elder',
+    description: 'The keeper of a small community\'s memory',
+    baseDescription: 'a wise, patient 72-year-old elder of {{village}}',
+    fields: {
+      coreIdentity: { occupation: 'Village Elder', background: 'Has guided {{village}} through three generations of hardship.' },
+      psychologicalProfile: { archetypeProfile: { primary: 'Sage', shadowArchetype: 'Know-it-all' } },
+      voiceIdentity: { pace: 'Measured' },
+      skillsAndAbilities: { coreSkills: ['Mediation', 'Oral history', 'Herbal remedies'] }
+    },
+    locked: ['coreIdentity.occupation', 'psychologicalProfile.archetypeProfile.primary'],
+    slots: [{ name: 'village', label: 'Village' }]
+  }
+];
+
+// ==================== RESOLUTION ====================
+
+/**
+ * Walk the parent chain and merge it root first; children add to and refine their parents
+ */
+export function resolveTemplate(templateId: string, templates: CharacterTemplate[]): ResolvedTemplate {
+  const byId = new Map(templates.map((template) => [template.id, template]));
+  const chain: CharacterTemplate[] = [];
+  for (let id: string | undefined = templateId; id; id = byId.get(id)?.parentId) {
+    const template = byId.get(id);
+    if (!template) throw new TemplateError(chain.length === 0 ? `Template ${id} not found` : `Parent template ${id} of ${chain[0].name} not found`);
+    if (chain.includes(template)) throw new TemplateError(`Template ${template.name} inherits from itself`);
+    chain.unshift(template);
+  }
+
+  const slots = new Map<string, TemplateSlot>();
+  chain.forEach((template) => template.slots.forEach((slot) => slots.set(slot.name, { ...slots.get(slot.name), ...slot })));
+
+  return {
+    template: chain[chain.length - 1],
+    chain,
+    fields: chain.reduce<CharacterUpdate>((fields, template) => mergeFields(fields, template.fields) as CharacterUpdate, {}),
+    locked: [...new Set(chain.flatMap((template) => template.locked))],
+    slots: [...slots.values()],
+    baseDescription: chain.map((template) => template.baseDescription?.trim()).filter(Boolean).join('; ')
+  };
+}
+
+/**
+ * Reject templates that could not be instantiated or that break an ancestor's locks
+ */
+export function validateTemplate(template: CharacterTemplate, templates: CharacterTemplate[]): void {
+  if (!template.name?.trim()) throw new TemplateError('Template name must not be empty');
+  const others = templates.filter((candidate) => candidate.id !== template.id);
+  const resolved = resolveTemplate(template.id, [...others, template]);
+
+  const reserved = Object.keys(template.fields).filter((key) => RESERVED_FIELDS.has(key));
+  if (reserved.length > 0) throw new TemplateError(`Templates cannot set ${reserved.join(', ')}`);
+
+  const ownPaths = flattenFields(template.fields).map(([path]) => path);
+  for (const ancestor of resolved.chain.slice(0, -1)) {
+    const broken = ownPaths.find((path) => isLocked(path, ancestor.locked));
+    if (broken) throw new TemplateError(`${broken} is locked by ${ancestor.name}`);
+  }
+
+  const allPaths = flattenFields(resolved.fields).map(([path]) => path);
+  const emptyLock = template.locked.find((lock) => !allPaths.some((path) => isLocked(path, [lock])));
+  if (emptyLock) throw new TemplateError(`Locked field ${emptyLock} has no value in the template`);
+
+  const declared = new Set(resolved.slots.map((slot) => slot.name));
+  const texts = [template.baseDescription ?? '', ...flattenFields(template.fields).flatMap(([, value]) => stringsIn(value))];
+  const undeclared = texts.flatMap((text) => [...text.matchAll(SLOT_PATTERN)].map((match) => match[1])).find((name) => !declared.has(name));
+  if (undeclared) throw new TemplateError(`Slot {{${undeclared}}} is not declared by ${template.name} or its parents`);
+}
+
+/**
+ * Whether a save would leave the template as it is, so its version need not change
+ */
+export function templateContentEquals(template: CharacterTemplate, input: CharacterTemplateInput): boolean {
+  const content = ({ name, description, parentId, baseDescription, fields, locked, slots }: CharacterTemplateInput) =>
+    ({ name, description, parentId, baseDescription, fields, locked, slots });
+  return valuesEqual(content(template), content(input));
+}
+
+// ==================== INSTANTIATION ====================
+
+/**
+ * Fill every slot, falling back to defaults; throws when a slot without a default is missing
+ */
+export function fillTemplateSlots(resolved: ResolvedTemplate, values: Record<string, string> = {}): Record<string, string> {
+  const filled: Record<string, string> = {};
+  for (const slot of resolved.slots) {
+    const value = values[slot.name]?.trim() || slot.defaultValue;
+    if (!value) throw new TemplateError(`Template ${resolved.template.name} needs a value for ${slot.label ?? slot.name}`);
+    filled[slot.name] = value;
+  }
+  return filled;
+}
+
+export function substituteSlots<T>(value: T, slots: Record<string, string>): T {
+  if (typeof value === 'string') return value.replace(SLOT_PATTERN, (placeholder, name) => slots[name] ?? placeholder) as T;
+  if (Array.isArray(value)) return value.map((item) => substituteSlots(item, slots)) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteSlots(item, slots)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Phrase the base description as a predicate of the character description, so "Marta Kowalski" plus
+ * "a village elder" reads "Marta Kowalski is a village elder" and identity extraction still finds a subject
+ */
+export function composeTemplateDescription(description: string, baseDescription: string): string {
+  const subject = description.trim().replace(/[.!\s]+$/, '');
+  if (!baseDescription) return subject;
+  if (!subject) return baseDescription;
+  if (extractName(subject).name) return `${subject}. ${baseDescription.charAt(0).toUpperCase()}${baseDescription.slice(1)}.`;
+  return `${subject}${subject.includes(',') ? ',' : ''} is ${baseDescription}`;
+}
+
+/**
+ * Field paths a description states outright, which take precedence over overridable template values
+ */
+export function statedFieldPaths(description: string): Set<string> {
+  const stated = new Set<string>();
+  const name = extractName(description);
+  if (name.name) stated.add('coreIdentity.name');
+  if (extractAge(description).age !== undefined) stated.add('coreIdentity.age');
+  const gender = extractGender(description, name.name);
+  if (gender.gender) stated.add('coreIdentity.gender').add('coreIdentity.pronouns');
+  const features = parsePhysicalFeatures(description);
+  PHYSICAL_FEATURE_FIELDS.forEach((field) => features[field] && stated.add(`visualIdentity.physicalFeatures.${field}`));
+  return stated;
+}
+
+/**
+ * The update a template applies to a freshly generated character, plus the binding that remembers it
+ */
+export function applyTemplate(
+  resolved: ResolvedTemplate,
+  slots: Record<string, string>,
+  description: string
+): { update: CharacterUpdate; binding: CharacterTemplateBinding } {
+  const entries = flattenFields(substituteSlots(resolved.fields, slots));
+  const stated = statedFieldPaths(description);
+
+  return {
+    update: unflattenFields(entries.filter(([path]) => isLocked(path, resolved.locked) || !stated.has(path))),
+    binding: {
+      templateId: resolved.template.id,
+      chain: resolved.chain.map((template) => ({ templateId: template.id, version: template.version })),
+      slots,
+      applied: entries.map(([path, value]) => ({ path, value })),
+      locked: resolved.locked
+    }
+  };
+}
+
+/**
+ * Overrides may change anything the template sets except locked fields
+ */
+export function assertOverridable(overrides: CharacterUpdate, locked: string[]): void {
+  const blocked = flattenFields(overrides).map(([path]) => path).filter((path) => isLocked(path, locked));
+  if (blocked.length > 0) throw new TemplateError(`Locked by the template: ${blocked.join(', ')}`);
+}
+
+/**
+ * Edits after creation must leave locked fields and the binding itself alone; only template updates move them.
+ * Paths are change paths, so list items such as "behavioralPatterns.habitsAndQuirks[0]" count as their list.
+ */
+export function assertUnlockedChanges(paths: string[], binding: CharacterTemplateBinding | undefined): void {
+  const locked = ['template', ...(binding?.locked ?? [])];
+  const blocked = [...new Set(paths.map((path) => path.replace(/\[\d+\].*$/, '')))].filter((path) => isLocked(path, locked));
+  if (blocked.length > 0) throw new TemplateError(`Locked by the template: ${blocked.join(', ')}`);
+}
+
+// ==================== UPSTREAM CHANGES ====================
+
+/**
+ * Compare what the template applied to a character with what it would apply today, and find locked
+ * fields that no longer hold the template value. Slots keep the values the character was created with;
+ * `slotValues` fills slots added upstream since, which otherwise fall back to their defaults.
+ */
+export function diffTemplateBinding(
+  character: UnifiedCharacterOntology,
+  resolved: ResolvedTemplate,
+  slotValues: Record<string, string> = {}
+): TemplateUpdateProposal | undefined {
+  const binding = character.template;
+  if (!binding) return undefined;
+
+  const slots: Record<string, string> = {};
+  for (const slot of resolved.slots) {
+    const value = slotValues[slot.name]?.trim() || binding.slots[slot.name] || slot.defaultValue;
+    if (value) slots[slot.name] = value;
+  }
+
+  const previous = new Map(binding.applied.map((entry) => [entry.path, entry.value]));
+  const next = new Map(flattenFields(substituteSlots(resolved.fields, slots)));
+  const changes: TemplateFieldChange[] = [];
+
+  for (const path of new Set([...previous.keys(), ...next.keys()])) {
+    const previousValue = previous.get(path);
+    const templateValue = next.get(path);
+    const currentValue = readPath(character, path);
+    const locked = isLocked(path, resolved.locked);
+    const unchanged = previous.has(path) && next.has(path) && valuesEqual(previousValue, templateValue);
+    if (unchanged && !(locked && !valuesEqual(currentValue, templateValue))) continue;
+
+    changes.push({
+      path,
+      kind: unchanged ? 'drifted' : !previous.has(path) ? 'added' : !next.has(path) ? 'removed' : 'changed',
+      previousValue,
+      templateValue,
+      currentValue,
+      locked,
+      customized: previous.has(path) ? !valuesEqual(currentValue, previousValue) : false
+    });
+  }
+
+  const toChain = resolved.chain.map((template) => ({ templateId: template.id, version: template.version }));
+  if (changes.length === 0) return undefined;
+
+  const placeholders = new Set([...next.values()].flatMap(stringsIn).flatMap((text) => [...text.matchAll(SLOT_PATTERN)].map((match) => match[1])));
+
+  return {
+    characterId: character.id,
+    characterName: character.coreIdentity.name,
+    templateId: resolved.template.id,
+    templateName: resolved.template.name,
+    fromChain: binding.chain,
+    toChain,
+    slots,
+    missingSlots: resolved.slots.filter((slot) => placeholders.has(slot.name)),
+    changes
+  };
+}
+
+/**
+ * Turn the accepted part of a proposal into a character update. Locked changes are always included;
+ * `accept` lists the overridable paths to take and defaults to every change the character has not customized.
+ * Changes left out are declined: the binding moves on and they are not offered again.
+ */
+export function acceptTemplateChanges(
+  proposal: TemplateUpdateProposal,
+  resolved: ResolvedTemplate,
+  accept?: string[]
+): CharacterUpdate {
+  const [missing] = proposal.missingSlots;
+  if (missing) throw new TemplateError(`Template ${resolved.template.name} needs a value for ${missing.label ?? missing.name}`);
+
+  const taken = proposal.changes.filter((change) =>
+    change.kind !== 'removed' && (change.locked || (accept ? accept.includes(change.path) : !change.customized)));
+
+  return {
+    ...unflattenFields(taken.map((change) => [change.path, change.templateValue])),
+    template: {
+      templateId: resolved.template.id,
+      chain: proposal.toChain,
+      slots: proposal.slots,
+      applied: flattenFields(substituteSlots(resolved.fields, proposal.slots)).map(([path, value]) => ({ path, value })),
+      locked: resolved.locked
+    }
+  } as CharacterUpdate;
+}
+
+// ==================== TEMPLATE STORE ====================
+
+export interface CharacterTemplateStore {
+  save(template: CharacterTemplate): Promise<CharacterTemplate>;
+  get(templateId: string): Promise<CharacterTemplate | undefined>;
+  list(): Promise<CharacterTemplate[]>;
+  delete(templateId: string): Promise<boolean>;
+}
+
+export class InMemoryCharacterTemplateStore implements CharacterTemplateStore {
+  private templates = new Map<string, CharacterTemplate>();
+
+  async save(template: CharacterTemplate): Promise<CharacterTemplate> {
+    this.templates.set(template.id, structuredClone(template));
+    return template;
+  }
+
+  async get(templateId: string): Promise<CharacterTemplate | undefined> {
+    const template = this.templates.get(templateId);
+    return template ? structuredClone(template) : undefined;
+  }
+
+  async list(): Promise<CharacterTemplate[]> {
+    return Array.from(this.templates.values(), (template) => structuredClone(template));
+  }
+
+  async delete(templateId: string): Promise<boolean> {
+    return this.templates.delete(templateId);
+  }
+}
+
+const DEFAULT_STORAGE_PREFIX = 'chara-weave:templates:';
+
+/**
+ * Stores one localStorage entry per template
+ */
+export class LocalStorageCharacterTemplateStore implements CharacterTemplateStore {
+  constructor(
+    private readonly storagePrefix: string = DEFAULT_STORAGE_PREFIX,
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  async save(template: CharacterTemplate): Promise<CharacterTemplate> {
+    this.storage.setItem(this.storagePrefix + template.id, JSON.stringify(template));
+    return template;
+  }
+
+  async get(templateId: string): Promise<CharacterTemplate | undefined> {
+    const stored = this.storage.getItem(this.storagePrefix + templateId);
+    return stored ? reviveTemplate(stored) : undefined;
+  }
+
+  async list(): Promise<CharacterTemplate[]> {
+    const templates: CharacterTemplate[] = [];
+    for (let index = 0; index < this.storage.length; index++) {
+      const key = this.storage.key(index);
+      if (key?.startsWith(this.storagePrefix)) templates.push(reviveTemplate(this.storage.getItem(key) as string));
+    }
+    return templates;
+  }
+
+  async delete(templateId: string): Promise<boolean> {
+    const exists = this.storage.getItem(this.storagePrefix + templateId) !== null;
+    this.storage.removeItem(this.storagePrefix + templateId);
+    return exists;
+  }
+}
+
+export function createBrowserCharacterTemplateStore(): CharacterTemplateStore {
+  if (typeof window === 'undefined' || !window.localStorage) return new InMemoryCharacterTemplateStore();
+  return new LocalStorageCharacterTemplateStore();
+}
+
+function reviveTemplate(stored: string): CharacterTemplate {
+  const template = JSON.parse(stored) as CharacterTemplate;
+  return { ...template, createdAt: new Date(template.createdAt), updatedAt: new Date(template.updatedAt) };
+}
+
+// ==================== FIELD PATHS ====================
+
+/**
+ * Leaf paths of a partial ontology; arrays are leaves, so templates replace lists rather than merging them
+ */
+export function flattenFields(fields: unknown, prefix = ''): Array<[string, unknown]> {
+  if (!isPlainObject(fields)) return prefix ? [[prefix, fields]] : [];
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .flatMap(([key, value]) => flattenFields(value, prefix ? `${prefix}.${key}` : key));
+}
+
+export function unflattenFields(entries: Array<[string, unknown]>): CharacterUpdate {
+  const root: Record<string, unknown> = {};
+  for (const [path, value] of entries) {
+    const keys = path.split('.');
+    let node = root;
+    keys.slice(0, -1).forEach((key) => {
+      if (!isPlainObject(node[key])) node[key] = {};
+      node = node[key] as Record<string, unknown>;
+    });
+    node[keys[keys.length - 1]] = structuredClone(value);
+  }
+  return root as CharacterUpdate;
+}
+
+export function isLocked(path: string, locked: string[]): boolean {
+  return locked.some((lock) => path === lock || path.startsWith(`${lock}.`));
+}
+
+function readPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((node, key) => (isPlainObject(node) ? node[key] : undefined), value);
+}
+
+function mergeFields(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override === undefined ? base : structuredClone(override);
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) merged[key] = mergeFields(base[key], value);
+  return merged;
+}
+
+function stringsIn(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  return Array.isArray(value) ? value.flatMap(stringsIn) : [];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Key order does not matter: templates edited as JSON come back with keys in any order
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys(value[key])]));
+}
@@ -0,0 +1,116 @@
+// Character Version Store - Immutable snapshots of every saved character revision
+// Keyed by character id + semantic version so any two revisions can be diffed or restored
+
+import { CharacterChangelogEntry, UnifiedCharacterOntology } from '../types/character-types';
+import { deserializeCharacter, serializeCharacter } from './character-repository';
+import { compareVersions } from './character-versioning';
+
+// ==================== CORE INTERFACES ====================
+
+export interface CharacterVersionSummary {
+  characterId: string;
+  version: string;
+  savedAt: Date;
+  name: string;
+  change?: CharacterChangelogEntry; // Absent for the initial version
+}
+
+export interface CharacterVersionStore {
+  saveVersion(character: UnifiedCharacterOntology): Promise<void>;
+  getVersion(characterId: string, version: string): Promise<UnifiedCharacterOntology | undefined>;
+  listVersions(characterId: string): Promise<CharacterVersionSummary[]>; // Oldest first
+  deleteHistory(characterId: string): Promise<void>;
+}
+
+export function versionKey(characterId: string, version: string): string {
+  return `${characterId}@${version}`;
+}
+
+export function summarizeVersion(character: UnifiedCharacterOntology): CharacterVersionSummary {
+  return {
+    characterId: character.id,
+    version: character.version,
+    savedAt: new Date(character.updatedAt),
+    name: character.coreIdentity.name,
+    change: character.changelog?.find((entry) => entry.version === character.version)
+  };
+}
+
+function sortSummaries(summaries: CharacterVersionSummary[]): CharacterVersionSummary[] {
+  return summaries.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+// ==================== IN-MEMORY ADAPTER ====================
+
+export class InMemoryCharacterVersionStore implements CharacterVersionStore {
+  private snapshots = new Map<string, string>();
+
+  async saveVersion(character: UnifiedCharacterOntology): Promise<void> {
+    this.snapshots.set(versionKey(character.id, character.version), serializeCharacter(character));
+  }
+
+  async getVersion(characterId: string, version: string): Promise<UnifiedCharacterOntology | undefined> {
+    const snapshot = this.snapshots.get(versionKey(characterId, version));
+    return snapshot ? deserializeCharacter(snapshot) : undefined;
+  }
+
+  async listVersions(characterId: string): Promise<CharacterVersionSummary[]> {
+    const summaries = Array.from(this.snapshots.entries())
+      .filter(([key]) => key.startsWith(`${characterId}@`))
+      .map(([, snapshot]) => summarizeVersion(deserializeCharacter(snapshot)));
+    return sortSummaries(summaries);
+  }
+
+  async deleteHistory(characterId: string): Promise<void> {
+    for (const key of Array.from(this.snapshots.keys())) {
+      if (key.startsWith(`${characterId}@`)) this.snapshots.delete(key);
+    }
+  }
+}
+
+// ==================== LOCAL STORAGE ADAPTER ====================
+
+const DEFAULT_STORAGE_PREFIX = 'chara-weave:versions:';
+
+/**
+ * Stores one localStorage entry per character holding all of its snapshots
+ */
+export class LocalStorageCharacterVersionStore implements CharacterVersionStore {
+  constructor(
+    private readonly storagePrefix: string = DEFAULT_STORAGE_PREFIX,
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  async saveVersion(character: UnifiedCharacterOntology): Promise<void> {
+    const snapshots = this.read(character.id);
+    snapshots[character.version] = serializeCharacter(character);
+    this.storage.setItem(this.storagePrefix + character.id, JSON.stringify(snapshots));
+  }
+
+  async getVersion(characterId: string, version: string): Promise<UnifiedCharacterOntology | undefined> {
+    const snapshot = this.read(characterId)[version];
+    return snapshot ? deserializeCharacter(snapshot) : undefined;
+  }
+
+  async listVersions(characterId: string): Promise<CharacterVersionSummary[]> {
+    const summaries = Object.values(this.read(characterId))
+      .map((snapshot) => summarizeVersion(deserializeCharacter(snapshot)));
+    return sortSummaries(summaries);
+  }
+
+  async deleteHistory(characterId: string): Promise<void> {
+    this.storage.removeItem(this.storagePrefix + characterId);
+  }
+
+  private read(characterId: string): Record<string, string> {
+    const stored = this.storage.getItem(this.storagePrefix + characterId);
+    return stored ? JSON.parse(stored) : {};
+  }
+}
+
+// ==================== FACTORY FUNCTION ====================
+
+export function createBrowserCharacterVersionStore(): CharacterVersionStore {
+  if (typeof window === 'undefined' || !window.localStorage) return new InMemoryCharacterVersionStore();
+  return new LocalStorageCharacterVersionStore();
+}
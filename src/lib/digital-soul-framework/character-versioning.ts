@@ -0,0 +1,319 @@
+// Character Versioning - Deep-merge updates, structural diffs and semantic version bumps
+
+import {
+  CharacterChangeLevel,
+  CharacterChangelogEntry,
+  UnifiedCharacterOntology
+} from '../types/character-types';
+
+// ==================== CORE TYPES ====================
+
+export type DeepPartial<T> = T extends Date
+  ? T
+  : T extends (infer U)[]
+    ? DeepPartial<U>[]
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+export type CharacterUpdate = DeepPartial<UnifiedCharacterOntology>;
+
+/**
+ * How an array in the update is combined with the stored array:
+ * - replace: the update array wins outright
+ * - append: update items are added after the existing items
+ * - mergeById: items sharing an `id` are deep-merged, new ids are appended
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'mergeById';
+
+export interface FieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface CharacterUpdateOptions {
+  author?: string;
+  summary?: string;
+  arrayStrategies?: Record<string, ArrayMergeStrategy>; // Keyed by field path, e.g. "relationships"
+}
+
+export const DEFAULT_ARRAY_STRATEGIES: Record<string, ArrayMergeStrategy> = {
+  relationships: 'mergeById'
+};
+
+// Bookkeeping fields that callers cannot overwrite and that never count as content changes
+const PROTECTED_FIELDS = new Set(['id', 'version', 'createdAt', 'updatedAt', 'changelog']);
+
+// ==================== DEEP MERGE ====================
+
+/**
+ * Merge a partial update into a character without discarding sibling fields
+ */
+export function deepMergeCharacter(
+  existing: UnifiedCharacterOntology,
+  updates: CharacterUpdate,
+  arrayStrategies: Record<string, ArrayMergeStrategy> = {}
+): UnifiedCharacterOntology {
+  const strategies = { ...DEFAULT_ARRAY_STRATEGIES, ...arrayStrategies };
+  const content = Object.fromEntries(
+    Object.entries(updates).filter(([key]) => !PROTECTED_FIELDS.has(key))
+  );
+  return mergeValue(existing, content, '', strategies) as UnifiedCharacterOntology;
+}
+
+function mergeValue(
+  target: unknown,
+  source: unknown,
+  path: string,
+  strategies: Record<string, ArrayMergeStrategy>
+): unknown {
+  if (source === undefined) return target;
+
+  if (Array.isArray(source)) {
+    const existing = Array.isArray(target) ? target : [];
+    switch (strategies[path] ?? 'replace') {
+      case 'append':
+        return [...existing, ...source];
+      case 'mergeById':
+        return mergeArrayById(existing, source, path, strategies);
+      default:
+        return [...source];
+    }
+  }
+
+  if (isPlainObject(source) && isPlainObject(target)) {
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = mergeValue(target[key], value, joinPath(path, key), strategies);
+    }
+    return merged;
+  }
+
+  return source;
+}
+
+function mergeArrayById(
+  existing: unknown[],
+  updates: unknown[],
+  path: string,
+  strategies: Record<string, ArrayMergeStrategy>
+): unknown[] {
+  const merged = [...existing];
+  for (const update of updates) {
+    const id = isPlainObject(update) ? update.id : undefined;
+    const index = id === undefined ? -1 : merged.findIndex((item) => isPlainObject(item) && item.id === id);
+    if (index === -1) {
+      merged.push(update);
+    } else {
+      merged[index] = mergeValue(merged[index], update, `${path}[${index}]`, strategies);
+    }
+  }
+  return merged;
+}
+
+// ==================== STRUCTURAL DIFF ====================
+
+/**
+ * List field-level differences between two versions of a character.
+ * Arrays of primitives are compared as a whole; arrays of objects element by element.
+ */
+export function diffCharacters(
+  before: UnifiedCharacterOntology,
+  after: UnifiedCharacterOntology
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    if (PROTECTED_FIELDS.has(key)) continue;
+    diffValue(
+      (before as unknown as Record<string, unknown>)[key],
+      (after as unknown as Record<string, unknown>)[key],
+      key,
+      changes
+    );
+  }
+  return changes;
+}
+
+function diffValue(before: unknown, after: unknown, path: string, changes: FieldChange[]): void {
+  if (before === undefined && after === undefined) return;
+  if (before === undefined) {
+    changes.push({ path, kind: 'added', oldValue: undefined, newValue: after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: 'removed', oldValue: before, newValue: undefined });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && [...before, ...after].some(isPlainObject)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      diffValue(before[index], after[index], `${path}[${index}]`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValue(before[key], after[key], joinPath(path, key), changes);
+    }
+    return;
+  }
+
+  if (!valuesEqual(before, after)) {
+    changes.push({ path, kind: 'changed', oldValue: before, newValue: after });
+  }
+}
+
+// ==================== SEMANTIC VERSIONING ====================
+
+// First matching prefix decides the level of a changed path; anything unmatched is a minor change
+const CHANGE_LEVEL_RULES: Array<{ prefix: string; level: CharacterChangeLevel }> = [
+  { prefix: 'coreIdentity.background', level: 'minor' },
+  { prefix: 'coreIdentity', level: 'major' },
+  { prefix: 'visualIdentity', level: 'patch' },
+  { prefix: 'behavioralPatterns.mannerisms', level: 'patch' },
+  { prefix: 'behavioralPatterns.habitsAndQuirks', level: 'patch' },
+  { prefix: 'skillsAndAbilities.hobbies', level: 'patch' },
+  { prefix: 'generation', level: 'patch' }
+];
+
+const LEVEL_RANK: Record<CharacterChangeLevel, number> = { patch: 0, minor: 1, major: 2 };
+
+export function classifyChangePath(path: string): CharacterChangeLevel {
+  const rule = CHANGE_LEVEL_RULES.find(({ prefix }) => path === prefix || path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`));
+  return rule?.level ?? 'minor';
+}
+
+/**
+ * The level of a change set is the most significant level of any field it touches
+ */
+export function classifyChanges(changes: FieldChange[]): CharacterChangeLevel {
+  return changes.reduce<CharacterChangeLevel>((level, change) => {
+    const changeLevel = classifyChangePath(change.path);
+    return LEVEL_RANK[changeLevel] > LEVEL_RANK[level] ? changeLevel : level;
+  }, 'patch');
+}
+
+export function bumpVersion(version: string, level: CharacterChangeLevel): string {
+  const [major = 1, minor = 0, patch = 0] = version.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  switch (level) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    default:
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < 3; index++) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+// ==================== CHANGELOG ====================
+
+/**
+ * Apply an update and return the new revision with a bumped version and a changelog entry.
+ * Returns the existing character untouched when the update changes nothing.
+ */
+export function applyCharacterUpdate(
+  existing: UnifiedCharacterOntology,
+  updates: CharacterUpdate,
+  options: CharacterUpdateOptions = {}
+): { character: UnifiedCharacterOntology; changes: FieldChange[] } {
+  return reviseCharacter(existing, deepMergeCharacter(existing, updates, options.arrayStrategies), options);
+}
+
+/**
+ * Replace a character's content wholesale, e.g. with an older snapshot: fields the replacement
+ * lacks are dropped rather than kept. Identity and history fields stay those of the existing character.
+ */
+export function replaceCharacterContent(
+  existing: UnifiedCharacterOntology,
+  replacement: UnifiedCharacterOntology,
+  options: Pick<CharacterUpdateOptions, 'author' | 'summary'> = {}
+): { character: UnifiedCharacterOntology; changes: FieldChange[] } {
+  const content = Object.fromEntries(
+    Object.entries(replacement).filter(([key]) => !PROTECTED_FIELDS.has(key))
+  );
+  const { id, version, createdAt, updatedAt, changelog } = existing;
+  return reviseCharacter(
+    existing,
+    { ...content, id, version, createdAt, updatedAt, changelog } as UnifiedCharacterOntology,
+    options
+  );
+}
+
+function reviseCharacter(
+  existing: UnifiedCharacterOntology,
+  merged: UnifiedCharacterOntology,
+  options: Pick<CharacterUpdateOptions, 'author' | 'summary'>
+): { character: UnifiedCharacterOntology; changes: FieldChange[] } {
+  const changes = diffCharacters(existing, merged);
+  if (changes.length === 0) {
+    return { character: existing, changes };
+  }
+
+  const changeLevel = classifyChanges(changes);
+  const version = bumpVersion(existing.version, changeLevel);
+  const timestamp = new Date();
+  const changedFields = Array.from(new Set(changes.map((change) => change.path)));
+
+  const entry: CharacterChangelogEntry = {
+    version,
+    previousVersion: existing.version,
+    timestamp,
+    author: options.author ?? 'unknown',
+    changeLevel,
+    summary: options.summary ?? summarizeChanges(changedFields),
+    changedFields
+  };
+
+  return {
+    character: {
+      ...merged,
+      version,
+      updatedAt: timestamp,
+      changelog: [...(existing.changelog ?? []), entry]
+    },
+    changes
+  };
+}
+
+function summarizeChanges(changedFields: string[]): string {
+  const sections = Array.from(new Set(changedFields.map((path) => path.split(/[.[]/)[0])));
+  const shown = changedFields.slice(0, 3).join(', ');
+  const more = changedFields.length > 3 ? ` and ${changedFields.length - 3} more` : '';
+  return `Updated ${sections.join(', ')} (${shown}${more})`;
+}
+
+// ==================== HELPERS ====================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+  }
+  return a === b;
+}
@@ -0,0 +1,201 @@
+// Coherence Analyzer - Cross-framework consistency checks for a character's psychology
+// Compares MBTI, OCEAN, emotional and behavioral fields that are meant to describe the same person
+
+import { UnifiedCharacterOntology } from '../types/character-types';
+import { determineShadowArchetype } from './archetype-knowledge-base';
+
+// ==================== CORE TYPES ====================
+
+export type CoherenceSeverity = 'contradiction' | 'tension';
+
+export interface CoherenceFinding {
+  code: string;
+  severity: CoherenceSeverity;
+  frameworks: [string, string];
+  paths: string[]; // Ontology fields involved, e.g. "psychologicalProfile.mbtiType"
+  message: string;
+  suggestion: string;
+}
+
+export interface CoherenceReport {
+  characterId: string;
+  score: number; // 0-100, 100 means no contradictions found
+  findings: CoherenceFinding[];
+}
+
+// Score deducted per finding
+const SEVERITY_PENALTY: Record<CoherenceSeverity, number> = {
+  contradiction: 20,
+  tension: 8
+};
+
+// Distance from the midpoint at which a mismatched MBTI letter becomes a tension / a contradiction
+const MBTI_TENSION_MARGIN = 10;
+const MBTI_CONTRADICTION_MARGIN = 25;
+
+const MBTI_AXES = [
+  { index: 0, highLetter: 'E', lowLetter: 'I', trait: 'extraversion', inverted: false, label: 'Extraversion/Introversion' },
+  { index: 1, highLetter: 'N', lowLetter: 'S', trait: 'openness', inverted: false, label: 'Intuition/Sensing' },
+  { index: 2, highLetter: 'T', lowLetter: 'F', trait: 'agreeableness', inverted: true, label: 'Thinking/Feeling' },
+  { index: 3, highLetter: 'J', lowLetter: 'P', trait: 'conscientiousness', inverted: false, label: 'Judging/Perceiving' }
+] as const;
+
+const OUTGOING_SIGNALS = /\b(?:outgoing|highly social|gregarious|life of the party|extroverted|sociable|crowds?)\b/i;
+const WITHDRAWN_SIGNALS = /\b(?:solitude|withdrawn|reserved|loner|small groups|introverted|avoids people|isolat\w*)\b/i;
+const LOGICAL_SIGNALS = /\b(?:logical|analytical|rational|data|objective)\b/i;
+const EMPATHIC_SIGNALS = /\b(?:values-based|empathetic|emotional|gut|heart)\b/i;
+
+// ==================== ANALYZER ====================
+
+export class CoherenceAnalyzer {
+  analyze(character: UnifiedCharacterOntology): CoherenceReport {
+    const findings = [
+      ...this.checkMbtiAgainstOcean(character),
+      ...this.checkStabilityAgainstNeuroticism(character),
+      ...this.checkSocialBehaviorAgainstExtraversion(character),
+      ...this.checkDecisionMakingAgainstMbti(character),
+      ...this.checkShadowArchetype(character),
+      ...this.checkAnxietySignals(character)
+    ];
+
+    const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTY[finding.severity], 0);
+    return {
+      characterId: character.id,
+      score: Math.max(0, 100 - penalty),
+      findings
+    };
+  }
+
+  private checkMbtiAgainstOcean(character: UnifiedCharacterOntology): CoherenceFinding[] {
+    const { mbtiType, oceanTraits } = character.psychologicalProfile;
+    if (!/^[EI][SN][TF][JP]$/.test(mbtiType)) return [];
+
+    return MBTI_AXES.flatMap((axis) => {
+      const letter = mbtiType[axis.index];
+      const traitValue = oceanTraits[axis.trait];
+      const axisScore = axis.inverted ? 100 - traitValue : traitValue;
+      // Positive distance means the OCEAN score points away from the chosen letter
+      const distance = letter === axis.highLetter ? 50 - axisScore : axisScore - 50;
+      if (distance < MBTI_TENSION_MARGIN) return [];
+
+      const expectedLetter = letter === axis.highLetter ? axis.lowLetter : axis.highLetter;
+      return [{
+        code: 'mbti_ocean_mismatch',
+        severity: distance >= MBTI_CONTRADICTION_MARGIN ? 'contradiction' : 'tension',
+        frameworks: ['MBTI', 'OCEAN'],
+        paths: ['psychologicalProfile.mbtiType', `psychologicalProfile.oceanTraits.${axis.trait}`],
+        message: `${mbtiType} is ${letter} on ${axis.label}, but ${axis.trait} is ${traitValue}, which reads as ${expectedLetter}`,
+        suggestion: `Change the MBTI letter to ${expectedLetter} or move ${axis.trait} ${axis.inverted === (letter === axis.highLetter) ? 'below' : 'above'} 50`
+      }];
+    });
+  }
+
+  private checkStabilityAgainstNeuroticism(character: UnifiedCharacterOntology): CoherenceFinding[] {
+    const stability = character.emotionalProfile.emotionalStability;
+    const neuroticism = character.psychologicalProfile.oceanTraits.neuroticism;
+    const gap = Math.abs(stability - (100 - neuroticism));
+    if (gap <= 25) return [];
+
+    return [{
+      code: 'stability_neuroticism_mismatch',
+      severity: gap > 45 ? 'contradiction' : 'tension',
+      frameworks: ['Emotional Profile', 'OCEAN'],
+      paths: ['emotionalProfile.emotionalStability', 'psychologicalProfile.oceanTraits.neuroticism'],
+      message: `Emotional stability ${stability} does not fit neuroticism ${neuroticism} (expected about ${100 - neuroticism})`,
+      suggestion: 'Emotional stability should roughly mirror neuroticism; adjust one of them'
+    }];
+  }
+
+  private checkSocialBehaviorAgainstExtraversion(character: UnifiedCharacterOntology): CoherenceFinding[] {
+    const socialBehavior = character.behavioralPatterns.socialBehavior;
+    const extraversion = character.psychologicalProfile.oceanTraits.extraversion;
+    const paths = ['behavioralPatterns.socialBehavior', 'psychologicalProfile.oceanTraits.extraversion'];
+
+    if (OUTGOING_SIGNALS.test(socialBehavior) && extraversion < 40) {
+      return [{
+        code: 'social_extraversion_mismatch',
+        severity: extraversion < 25 ? 'contradiction' : 'tension',
+        frameworks: ['Behavioral Patterns', 'OCEAN'],
+        paths,
+        message: `Social behavior "${socialBehavior}" is outgoing, but extraversion is only ${extraversion}`,
+        suggestion: 'Raise extraversion or describe a more reserved social style'
+      }];
+    }
+
+    if (WITHDRAWN_SIGNALS.test(socialBehavior) && extraversion > 60) {
+      return [{
+        code: 'social_extraversion_mismatch',
+        severity: extraversion > 75 ? 'contradiction' : 'tension',
+        frameworks: ['Behavioral Patterns', 'OCEAN'],
+        paths,
+        message: `Social behavior "${socialBehavior}" is withdrawn, but extraversion is ${extraversion}`,
+        suggestion: 'Lower extraversion or describe a more outgoing social style'
+      }];
+    }
+
+    return [];
+  }
+
+  private checkDecisionMakingAgainstMbti(character: UnifiedCharacterOntology): CoherenceFinding[] {
+    const { decisionMaking } = character.behavioralPatterns;
+    const feelingOrThinking = character.psychologicalProfile.mbtiType[2];
+    const paths = ['behavioralPatterns.decisionMaking', 'psychologicalProfile.mbtiType'];
+
+    if (feelingOrThinking === 'F' && LOGICAL_SIGNALS.test(decisionMaking) && !EMPATHIC_SIGNALS.test(decisionMaking)) {
+      return [{
+        code: 'decision_style_mismatch',
+        severity: 'tension',
+        frameworks: ['Behavioral Patterns', 'MBTI'],
+        paths,
+        message: `Decision making "${decisionMaking}" is analytical, but the MBTI type is a Feeling type`,
+        suggestion: 'Use a Thinking type or describe values-based decision making'
+      }];
+    }
+
+    if (feelingOrThinking === 'T' && EMPATHIC_SIGNALS.test(decisionMaking) && !LOGICAL_SIGNALS.test(decisionMaking)) {
+      return [{
+        code: 'decision_style_mismatch',
+        severity: 'tension',
+        frameworks: ['Behavioral Patterns', 'MBTI'],
+        paths,
+        message: `Decision making "${decisionMaking}" is values-based, but the MBTI type is a Thinking type`,
+        suggestion: 'Use a Feeling type or describe analytical decision making'
+      }];
+    }
+
+    return [];
+  }
+
+  private checkShadowArchetype(character: UnifiedCharacterOntology): CoherenceFinding[] {
+    const { primary, shadowArchetype } = character.psychologicalProfile.archetypeProfile;
+    const expected = determineShadowArchetype(primary);
+    if (expected === 'Shadow' || shadowArchetype.toLowerCase() === expected.toLowerCase()) return [];
+
+    return [{
+      code: 'shadow_archetype_mismatch',
+      severity: 'contradiction',
+      frameworks: ['Primary Archetype', 'Shadow Archetype'],
+      paths: ['psychologicalProfile.archetypeProfile.primary', 'psychologicalProfile.archetypeProfile.shadowArchetype'],
+      message: `The ${primary}'s shadow is the ${expected}, not the ${shadowArchetype}`,
+      suggestion: `Set the shadow archetype to ${expected} or choose a primary archetype whose shadow is the ${shadowArchetype}`
+    }];
+  }
+
+  private checkAnxietySignals(character: UnifiedCharacterOntology): CoherenceFinding[] {
+    const neuroticism = character.psychologicalProfile.oceanTraits.neuroticism;
+    if (neuroticism >= 35) return [];
+
+    const anxiousResponses = character.behavioralPatterns.stressResponses.filter((response) => /anxious|panic/i.test(response));
+    const anxiousEmotions = character.emotionalProfile.coreEmotions.filter((emotion) => /anxi|fear|worry/i.test(emotion));
+    if (anxiousResponses.length === 0 && anxiousEmotions.length === 0) return [];
+
+    return [{
+      code: 'anxiety_neuroticism_mismatch',
+      severity: 'tension',
+      frameworks: ['Behavioral Patterns', 'OCEAN'],
+      paths: ['behavioralPatterns.stressResponses', 'emotionalProfile.coreEmotions', 'psychologicalProfile.oceanTraits.neuroticism'],
+      message: `Anxious reactions (${[...anxiousResponses, ...anxiousEmotions].join(', ')}) with neuroticism of only ${neuroticism}`,
+      suggestion: 'Raise neuroticism or replace the anxious stress responses'
+    }];
+  }
+}
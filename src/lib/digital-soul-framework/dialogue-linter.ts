@@ -0,0 +1,415 @@
+// Dialogue Linter - Checks lines against a character's speech profile, education, languages and era
+// Issues carry character offsets into the line so editors can underline them in place
+
+import { UnifiedCharacterOntology } from '../types/character-types';
+import { FountainScene, FountainScript, parseFountain } from './fountain-importer';
+import { OCCUPATION_ERAS, OccupationEra, detectEra } from './occupation-taxonomy';
+
+// ==================== CORE TYPES ====================
+
+export type VoiceLintRule =
+  | 'precise-language'
+  | 'decisive-statements'
+  | 'creative-metaphors'
+  | 'pace'
+  | 'education'
+  | 'languages'
+  | 'era';
+
+export interface VoiceLintIssue {
+  rule: VoiceLintRule;
+  severity: 'warning' | 'info';
+  start: number; // Offset into the line
+  end: number;
+  text: string; // The flagged span
+  message: string;
+  suggestion?: string;
+  basis: string; // The profile value the rule relied on
+}
+
+export interface VoiceLintOptions {
+  era?: OccupationEra; // Overrides the era detected from the setting or the character's background
+  setting?: string; // Scene heading, action or title page text the era is detected from
+}
+
+export interface DialogueLintResult {
+  dialogueIndex: number; // Position in the scene's dialogue
+  cue: string; // Fountain cue, e.g. "ANNA"
+  characterId?: string; // Unset when no ontology matches the cue
+  text: string;
+  issues: VoiceLintIssue[];
+}
+
+export interface SceneVoiceReport {
+  sceneId: string;
+  heading: string;
+  era?: OccupationEra;
+  lines: DialogueLintResult[];
+  issueCount: number;
+}
+
+// ==================== VOCABULARY ====================
+
+// Slang and clipped forms a precise speaker would not use, with the precise form
+const SLANG: Record<string, string> = {
+  gonna: 'going to', wanna: 'want to', gotta: 'have to', kinda: 'somewhat', sorta: 'somewhat',
+  dunno: "don't know", lemme: 'let me', gimme: 'give me', "y'all": 'all of you', yeah: 'yes', yep: 'yes',
+  nah: 'no', nope: 'no', cuz: 'because', "'cause": 'because', dude: 'my friend', stuff: 'things',
+  totally: 'entirely', awesome: 'excellent', lol: '', um: '', uh: ''
+};
+
+// Hedges undercut a character written to speak decisively
+const HEDGES = ['maybe', 'perhaps', 'probably', 'i guess', 'i think', 'sort of', 'kind of', 'i suppose', 'i don\'t know', 'might be'];
+
+// Academic or latinate words that sit oddly with little formal schooling, and a plainer word
+const ELEVATED: Record<string, string> = {
+  notwithstanding: 'even so', heretofore: 'until now', aforementioned: 'that', ubiquitous: 'everywhere',
+  paradigm: 'model', juxtapose: 'set side by side', quintessential: 'typical', erstwhile: 'former',
+  ergo: 'so', epistemological: 'about knowing', ostensibly: 'supposedly', perfunctory: 'careless',
+  obfuscate: 'hide', esoteric: 'obscure', pedagogical: 'teaching', myriad: 'many', henceforth: 'from now on',
+  dichotomy: 'split', utilize: 'use'
+};
+
+// Non-standard grammar a highly educated character would avoid unless it is part of their voice
+const NONSTANDARD: Array<[RegExp, string]> = [
+  [/\b(?:we|they|you) was\b/gi, 'were'],
+  [/\b(?:he|she|it) don't\b/gi, "doesn't"],
+  [/\b(?:could|should|would|must) of\b/gi, 'have'],
+  [/\bdon't got\b/gi, "don't have"],
+  [/\bain't\b/gi, "isn't"],
+  [/\bthem (?:ones|things|people)\b/gi, 'those'],
+  [/\bdon't know nothing\b/gi, "don't know anything"]
+];
+
+const LOW_EDUCATION = /\b(?:dropped out|no formal|self[- ]taught|little schooling|left school|unschooled|illiterate|never finished|high school|primary school)\b/i;
+const HIGH_EDUCATION = /\b(?:phd|ph\.d|doctorate|doctoral|university|college|degree|graduate|master'?s|oxford|cambridge|harvard|academy|medical school|law school)\b/i;
+// Higher education that was started but not finished does not count towards the highest level
+const UNFINISHED_EDUCATION = /\b(?:dropped out of|never finished|never went to|quit|failed out of)\s+(?:(?:the|a|his|her|their|medical|law|art)\s+)*(?:college|university|degree|phd|doctorate|graduate school|medical school|law school|academy)\b/gi;
+
+// Foreign words that show a character speaking another language
+const FOREIGN_WORDS: Record<string, string[]> = {
+  French: ['merci', 'bonjour', 'bonsoir', 'oui', 'mon dieu', "c'est", 'mademoiselle', 'monsieur', 'au revoir', 'excusez-moi', 'je suis'],
+  Spanish: ['gracias', 'hola', 'señor', 'señora', 'claro', 'vamos', 'por favor', 'dios mío', 'amigo', 'qué'],
+  German: ['danke', 'nein', 'wunderbar', 'guten tag', 'mein gott', 'bitte', 'genau', 'ich bin'],
+  Italian: ['grazie', 'ciao', 'prego', 'bellissimo', 'mamma mia', 'signore', 'allora'],
+  Russian: ['nyet', 'spasibo', 'tovarisch', 'dasvidaniya', 'privet'],
+  Japanese: ['arigato', 'sumimasen', 'konnichiwa', 'sayonara', 'sensei'],
+  Latin: ['carpe diem', 'ad nauseam', 'mea culpa', 'deus vult', 'alea iacta est']
+};
+
+// Non-Latin scripts identify a language outright
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['Russian', /[Ѐ-ӿ]+/g],
+  ['Greek', /[Ͱ-Ͽ]+/g],
+  ['Arabic', /[؀-ۿ]+/g],
+  ['Hebrew', /[֐-׿]+/g],
+  ['Hindi', /[ऀ-ॿ]+/g],
+  ['Japanese', /[぀-ヿ]+/g],
+  ['Chinese', /[一-鿿]+/g],
+  ['Korean', /[가-힯]+/g]
+];
+
+// Words that did not exist before an era, each with the earliest era it fits and a period alternative
+const ANACHRONISMS: Record<string, { since: OccupationEra; suggestion: string }> = {
+  okay: { since: 'industrial', suggestion: 'very well' },
+  ok: { since: 'industrial', suggestion: 'very well' },
+  telephone: { since: 'industrial', suggestion: 'a letter' },
+  photograph: { since: 'industrial', suggestion: 'a portrait' },
+  phone: { since: 'modern', suggestion: 'a letter' },
+  car: { since: 'modern', suggestion: 'the carriage' },
+  computer: { since: 'modern', suggestion: 'the ledger' },
+  internet: { since: 'modern', suggestion: 'word of mouth' },
+  email: { since: 'modern', suggestion: 'a letter' },
+  television: { since: 'modern', suggestion: 'the theatre' },
+  tv: { since: 'modern', suggestion: 'the theatre' },
+  radio: { since: 'modern', suggestion: 'the town crier' },
+  airport: { since: 'modern', suggestion: 'the docks' },
+  laptop: { since: 'modern', suggestion: 'a ledger' },
+  selfie: { since: 'modern', suggestion: 'a portrait' },
+  online: { since: 'modern', suggestion: 'abroad in the town' },
+  app: { since: 'modern', suggestion: 'a device' },
+  wifi: { since: 'modern', suggestion: 'a signal' },
+  guys: { since: 'modern', suggestion: 'friends' },
+  teenager: { since: 'modern', suggestion: 'youth' },
+  weekend: { since: 'industrial', suggestion: 'the Sabbath' },
+  scientist: { since: 'industrial', suggestion: 'natural philosopher' }
+};
+
+// Figurative markers a metaphor-prone character leans on
+const FIGURATIVE = /\b(?:like a|like an|as if|as though|as \w+ as|is a|was a|were a)\b/i;
+
+// ==================== LINTER ====================
+
+/**
+ * Lint one line of dialogue against a character's voice; offsets index into the given text
+ */
+export function lintDialogue(
+  text: string,
+  character: UnifiedCharacterOntology,
+  options: VoiceLintOptions = {}
+): VoiceLintIssue[] {
+  const { voiceIdentity, backstory, skillsAndAbilities } = character;
+  const patterns = voiceIdentity.speechPatterns;
+  const issues: VoiceLintIssue[] = [];
+
+  if (patterns.includes('Precise language')) {
+    for (const match of matchTerms(text, Object.keys(SLANG))) {
+      const replacement = SLANG[match.term];
+      issues.push({
+        ...span(match),
+        rule: 'precise-language',
+        severity: 'warning',
+        message: `"${match.text}" is loose for a character who speaks precisely`,
+        suggestion: replacement ? `Use "${replacement}"` : 'Cut the filler',
+        basis: 'Precise language'
+      });
+    }
+  }
+
+  if (patterns.includes('Decisive statements')) {
+    for (const match of matchTerms(text, HEDGES)) {
+      issues.push({
+        ...span(match),
+        rule: 'decisive-statements',
+        severity: 'warning',
+        message: `"${match.text}" hedges; this character commits to what they say`,
+        suggestion: 'State it outright',
+        basis: 'Decisive statements'
+      });
+    }
+  }
+
+  // Only long lines are expected to carry an image, so short exchanges are left alone
+  if (patterns.includes('Creative metaphors') && wordCount(text) >= 25 && !FIGURATIVE.test(text)) {
+    issues.push({
+      start: 0,
+      end: text.length,
+      text,
+      rule: 'creative-metaphors',
+      severity: 'info',
+      message: 'A long speech with no imagery from a character who thinks in metaphors',
+      suggestion: 'Work in a comparison or image',
+      basis: 'Creative metaphors'
+    });
+  }
+
+  issues.push(...lintPace(text, voiceIdentity.pace));
+  issues.push(...lintEducation(text, backstory.education, patterns));
+  issues.push(...lintLanguages(text, skillsAndAbilities.languages));
+
+  const era = options.era ?? detectEra(options.setting ?? '') ?? detectEra(`${character.coreIdentity.background} ${backstory.careerHistory}`);
+  if (era) issues.push(...lintEra(text, era));
+
+  return issues.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Lint every speech in a scene; cues are matched to characters by full or first name
+ */
+export function lintFountainScene(
+  scene: FountainScene,
+  characters: UnifiedCharacterOntology[],
+  options: VoiceLintOptions = {}
+): SceneVoiceReport {
+  const setting = options.setting ?? [scene.heading, ...scene.action].join(' ');
+  const era = options.era ?? detectEra(setting);
+
+  const lines = scene.dialogue.map((dialogue, dialogueIndex) => {
+    const character = characters.find((candidate) => matchesCue(candidate.coreIdentity.name, dialogue.character));
+    return {
+      dialogueIndex,
+      cue: dialogue.character,
+      characterId: character?.id,
+      text: dialogue.text,
+      issues: character ? lintDialogue(dialogue.text, character, { era, setting }) : []
+    };
+  });
+
+  return {
+    sceneId: scene.id,
+    heading: scene.heading,
+    era,
+    lines,
+    issueCount: lines.reduce((sum, line) => sum + line.issues.length, 0)
+  };
+}
+
+/**
+ * Lint a whole script; an era on the title page or in the first scenes applies to later ones that name none
+ */
+export function lintFountainScript(
+  script: string | FountainScript,
+  characters: UnifiedCharacterOntology[],
+  options: VoiceLintOptions = {}
+): SceneVoiceReport[] {
+  const parsed = typeof script === 'string' ? parseFountain(script) : script;
+  let era = options.era ?? detectEra(Object.values(parsed.titlePage).join(' '));
+
+  return parsed.scenes.map((scene) => {
+    const report = lintFountainScene(scene, characters, { ...options, era: options.era ?? (detectEra([scene.heading, ...scene.action].join(' ')) ?? era) });
+    era = report.era;
+    return report;
+  });
+}
+
+// ==================== RULES ====================
+
+function lintPace(text: string, pace: string): VoiceLintIssue[] {
+  const issues: VoiceLintIssue[] = [];
+  const sentences = [...text.matchAll(/[^.!?]+[.!?]*/g)];
+
+  if (/quick|fast|rapid/i.test(pace)) {
+    for (const sentence of sentences) {
+      if (wordCount(sentence[0]) <= 28) continue;
+      issues.push(paceIssue(sentence, pace, 'A long, winding sentence for a quick talker', 'Break it into short bursts'));
+    }
+  }
+  if (/measured|slow/i.test(pace)) {
+    const exclamations = [...text.matchAll(/!+/g)];
+    if (exclamations.length >= 2) {
+      const first = exclamations[0];
+      issues.push({
+        start: first.index,
+        end: first.index + first[0].length,
+        text: first[0],
+        rule: 'pace',
+        severity: 'info',
+        message: 'Repeated exclamations rush a measured speaker',
+        suggestion: 'Let the words carry the weight; keep one exclamation at most',
+        basis: pace
+      });
+    }
+    for (const sentence of sentences) {
+      if (!/(?:--|—|\.\.\.)\s*\S.*(?:--|—|\.\.\.)/.test(sentence[0])) continue;
+      issues.push(paceIssue(sentence, pace, 'Broken-off, tumbling phrasing for a measured speaker', 'Give the thought a complete, deliberate sentence'));
+    }
+  }
+  return issues;
+}
+
+function lintEducation(text: string, education: string, patterns: string[]): VoiceLintIssue[] {
+  const issues: VoiceLintIssue[] = [];
+  // The highest stated level wins: "high school then Harvard" is highly educated
+  const highlyEducated = HIGH_EDUCATION.test(education.replace(UNFINISHED_EDUCATION, ' '));
+  if (!highlyEducated && LOW_EDUCATION.test(education)) {
+    for (const match of matchTerms(text, Object.keys(ELEVATED))) {
+      issues.push({
+        ...span(match),
+        rule: 'education',
+        severity: 'info',
+        message: `"${match.text}" is bookish for this character's schooling`,
+        suggestion: `Try "${ELEVATED[match.term]}"`,
+        basis: education
+      });
+    }
+  } else if (highlyEducated || patterns.includes('Precise language')) {
+    for (const [pattern, replacement] of NONSTANDARD) {
+      for (const match of text.matchAll(pattern)) {
+        issues.push({
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0],
+          rule: 'education',
+          severity: 'info',
+          message: `"${match[0]}" is unexpected from someone with this education`,
+          suggestion: `Use "${replacement}" unless the slip is deliberate`,
+          basis: education || 'Precise language'
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function lintLanguages(text: string, languages: string[]): VoiceLintIssue[] {
+  const known = languages.map((language) => language.toLowerCase());
+  const speaks = (language: string) => known.some((name) => name.includes(language.toLowerCase()));
+  const issues: VoiceLintIssue[] = [];
+  const add = (language: string, start: number, flagged: string) => issues.push({
+    start,
+    end: start + flagged.length,
+    text: flagged,
+    rule: 'languages',
+    severity: 'warning',
+    message: `"${flagged}" is ${language}, which this character is not listed as speaking`,
+    suggestion: `Translate it, or add ${language} to their languages`,
+    basis: languages.length > 0 ? languages.join(', ') : 'no languages listed'
+  });
+
+  for (const [language, words] of Object.entries(FOREIGN_WORDS)) {
+    if (speaks(language)) continue;
+    matchTerms(text, words).forEach((match) => add(language, match.start, match.text));
+  }
+  for (const [language, pattern] of SCRIPTS) {
+    if (speaks(language)) continue;
+    for (const match of text.matchAll(pattern)) add(language, match.index, match[0]);
+  }
+  return issues;
+}
+
+function lintEra(text: string, era: OccupationEra): VoiceLintIssue[] {
+  const rank = OCCUPATION_ERAS.indexOf(era);
+  return matchTerms(text, Object.keys(ANACHRONISMS))
+    .filter((match) => OCCUPATION_ERAS.indexOf(ANACHRONISMS[match.term].since) > rank)
+    .map((match) => ({
+      ...span(match),
+      rule: 'era' as const,
+      severity: 'warning' as const,
+      message: `"${match.text}" is anachronistic in a ${era} setting`,
+      suggestion: `Try "${ANACHRONISMS[match.term].suggestion}"`,
+      basis: era
+    }));
+}
+
+// ==================== HELPERS ====================
+
+interface TermMatch {
+  term: string; // The vocabulary entry, lower case
+  text: string; // As written in the line
+  start: number;
+}
+
+// Whole-word, case-insensitive matches; curly apostrophes count as straight ones
+function matchTerms(text: string, terms: string[]): TermMatch[] {
+  const normalized = text.replace(/[’‘]/g, "'");
+  const matches: TermMatch[] = [];
+  for (const term of terms) {
+    const pattern = new RegExp(`(?<![\\p{L}'])${escapeRegExp(term).replace(/ /g, '\\s+')}(?![\\p{L}'])`, 'giu');
+    for (const match of normalized.matchAll(pattern)) {
+      matches.push({ term, text: text.slice(match.index, match.index + match[0].length), start: match.index });
+    }
+  }
+  return matches;
+}
+
+function span(match: TermMatch): Pick<VoiceLintIssue, 'start' | 'end' | 'text'> {
+  return { start: match.start, end: match.start + match.text.length, text: match.text };
+}
+
+function paceIssue(sentence: RegExpMatchArray, pace: string, message: string, suggestion: string): VoiceLintIssue {
+  const leading = sentence[0].length - sentence[0].trimStart().length;
+  const trimmed = sentence[0].trim();
+  return {
+    start: sentence.index + leading,
+    end: sentence.index + leading + trimmed.length,
+    text: trimmed,
+    rule: 'pace',
+    severity: 'info',
+    message,
+    suggestion,
+    basis: pace
+  };
+}
+
+function matchesCue(name: string, cue: string): boolean {
+  const upper = name.toUpperCase();
+  return upper === cue || upper.split(/\s+/)[0] === cue;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,451 @@
+// Emotion Dynamics - Appraisal-based updates to CharacterState over a stream of story events
+// Reactivity and recovery come from the character's emotional profile and OCEAN neuroticism, so the same events play differently per character
+
+import { CharacterState, UnifiedCharacterOntology } from '../types/character-types';
+import { FountainScript } from './fountain-importer';
+
+// ==================== CORE TYPES ====================
+
+export type EventAgency = 'self' | 'other' | 'circumstance'; // Who the character holds responsible
+
+export interface StoryEvent {
+  id?: string;
+  description: string;
+  time?: number; // Story time in hours; defaults to one hour after the previous event
+  valence?: number; // -1 (harmful to the character) to 1 (good for them); inferred from the description when omitted
+  intensity?: number; // 0-100, default 50
+  agency?: EventAgency; // Default 'circumstance'
+  certainty?: number; // 0-1; below 1 the event is anticipated rather than happened (hope and fear), default 1
+  triggers?: string[]; // Emotional triggers the event is known to hit, matched against the profile
+  participants?: string[];
+  sceneId?: string;
+}
+
+export interface EmotionalDisposition {
+  reactivity: number; // Multiplier on felt intensity, 0.6-1.5
+  recoveryHalfLife: number; // Hours for intensity and excess stress to halve
+  baselineStress: number;
+  baselineEnergy: number;
+  baselineEmotion: string;
+  copingThreshold: number; // Stress above which a coping mechanism kicks in
+}
+
+export interface EventAppraisal {
+  valence: number;
+  emotion: string;
+  feltIntensity: number; // 0-100 after reactivity and trigger amplification
+  triggeredBy: string[]; // Emotional triggers the event hit
+}
+
+export interface AffectState {
+  emotion: string;
+  intensity: number; // 0-100
+  valence: number; // -1 to 1
+}
+
+export interface EmotionalTrajectoryPoint {
+  time: number;
+  event?: StoryEvent; // Absent for the starting point and for pure recovery steps
+  appraisal?: EventAppraisal;
+  copingMechanism?: string; // Coping mechanism used after this event
+  affect: AffectState;
+  state: CharacterState;
+}
+
+export interface EmotionalArcSummary {
+  startState: CharacterState;
+  endState: CharacterState;
+  peakStress: { value: number; time: number; eventId?: string };
+  lowestEnergy: { value: number; time: number; eventId?: string };
+  dominantEmotions: Array<{ emotion: string; count: number }>;
+  triggeredEvents: number;
+  copingUses: number;
+}
+
+export interface EmotionalArc {
+  characterId: string;
+  disposition: EmotionalDisposition;
+  trajectory: EmotionalTrajectoryPoint[];
+  summary: EmotionalArcSummary;
+}
+
+export interface EmotionDynamicsOptions {
+  initialState?: Partial<CharacterState>;
+  startTime?: number; // Hours, default 0
+}
+
+// ==================== CONSTANTS ====================
+
+const TRIGGER_AMPLIFICATION = 1.5;
+const NEGATIVITY_BIAS = 1.2; // Losses are felt more than equivalent gains
+const ENERGY_HALF_LIFE = 8; // Hours for energy to drift halfway back to baseline
+const NEUTRAL_VALENCE = 0.15;
+
+const TRIGGER_STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'or', 'and', 'be', 'being', 'by', 'for', 'in', 'on',
+  'their', 'his', 'her', 'its', 'something', 'someone', 'others'
+]);
+
+// Crude lexicon of stems for events that arrive without an explicit valence. Stems of three letters or fewer
+// only match exactly, so "win" does not match "winter"
+const NEGATIVE_WORDS = [
+  'betray', 'lose', 'losing', 'lost', 'loss', 'death', 'dead', 'die', 'died', 'dies', 'lies', 'kill', 'murder', 'attack', 'fail', 'fired',
+  'reject', 'abandon', 'threat', 'insult', 'humiliat', 'argu', 'fight', 'hurt', 'injur', 'wound', 'trap',
+  'accus', 'lie', 'lied', 'cheat', 'arrest', 'broke', 'break', 'crash', 'destroy', 'steal', 'stole',
+  'blame', 'mock', 'shout', 'scream', 'funeral', 'sick', 'ill', 'danger', 'ambush', 'expose', 'caught'
+];
+const POSITIVE_WORDS = [
+  'win', 'wins', 'winning', 'winner', 'won', 'victor', 'prais', 'reunit', 'promot', 'succeed', 'success', 'rescu', 'love', 'kiss',
+  'gift', 'celebrat', 'thank', 'forgiv', 'help', 'safe', 'hired', 'laugh', 'embrac', 'hug', 'hugs', 'hugged', 'welcom',
+  'proud', 'reward', 'heal', 'recover', 'freed', 'escape', 'marri', 'born', 'found', 'trust'
+];
+
+// Endings a lexicon stem may take, so "helped" and "praised" match but "helpless" and "illustrator" do not
+const LEXICON_SUFFIXES = new Set([
+  '', 's', 'es', 'd', 'ed', 'ing', 'e', 'er', 'ers', 'r', 'rs', 'n', 'en', 'ened', 'ening', 'y', 'ies', 'ied',
+  'ion', 'ions', 'ation', 'al', 'ment', 'ness', 'ful', 'ous', 'ious', 'ure', 'age', 'ty', 'ter', 'ery', 'ped', 'ping', 'ly'
+]);
+
+// Words that flip the valence of the lexicon words following them in the same clause: "did not win"
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'without', 'nobody', 'nothing', 'hardly', 'barely',
+  "didn't", "don't", "doesn't", "wasn't", "isn't", "weren't", "aren't", "won't", "can't", "couldn't", "wouldn't", "hasn't", "haven't", "hadn't"
+]);
+const NEGATION_SCOPE = 3; // Words after a negator that it still applies to
+
+// ==================== ENGINE ====================
+
+/**
+ * Tracks one character's affect, stress and energy as story events arrive and time passes
+ */
+export class EmotionDynamicsEngine {
+  readonly disposition: EmotionalDisposition;
+  private points: EmotionalTrajectoryPoint[] = [];
+  private affect: AffectState;
+  private stress: number;
+  private energy: number;
+  private baseState: CharacterState;
+  private time: number;
+  private copingUses = 0;
+
+  constructor(private character: UnifiedCharacterOntology, options: EmotionDynamicsOptions = {}) {
+    this.disposition = deriveDisposition(character);
+    this.time = options.startTime ?? 0;
+    this.baseState = {
+      currentEmotion: this.disposition.baselineEmotion,
+      energyLevel: this.disposition.baselineEnergy,
+      stressLevel: this.disposition.baselineStress,
+      healthStatus: 'Healthy',
+      mentalState: 'composed',
+      currentGoals: character.backstory.motivations.slice(0, 3),
+      currentContext: '',
+      ...options.initialState
+    };
+    this.stress = clamp(this.baseState.stressLevel);
+    this.energy = clamp(this.baseState.energyLevel);
+    this.affect = { emotion: this.baseState.currentEmotion, intensity: 0, valence: 0 };
+    this.record();
+  }
+
+  get state(): CharacterState {
+    return this.points[this.points.length - 1].state;
+  }
+
+  get trajectory(): EmotionalTrajectoryPoint[] {
+    return [...this.points];
+  }
+
+  /**
+   * How the character reads an event, without changing their state
+   */
+  appraise(event: StoryEvent): EventAppraisal {
+    const triggeredBy = matchTriggers(event, this.character.emotionalProfile.emotionalTriggers);
+    let valence = clampRange(event.valence ?? inferValence(event.description), -1, 1);
+    let intensity = clamp(event.intensity ?? 50);
+    if (triggeredBy.length > 0) {
+      valence = Math.min(valence, -0.5);
+      intensity = Math.min(100, intensity * TRIGGER_AMPLIFICATION);
+    }
+
+    const bias = valence < 0 ? NEGATIVITY_BIAS : 1;
+    const feltIntensity = Math.round(clamp(intensity * this.disposition.reactivity * bias * Math.max(0.3, Math.abs(valence))));
+
+    return {
+      valence,
+      emotion: appraisedEmotion(valence, event.agency ?? 'circumstance', event.certainty ?? 1, triggeredBy.length > 0, this.disposition.baselineEmotion),
+      feltIntensity,
+      triggeredBy
+    };
+  }
+
+  /**
+   * Let time pass to the event, react to it, then cope if stress crosses the character's threshold
+   */
+  apply(event: StoryEvent): EmotionalTrajectoryPoint {
+    this.recover((event.time ?? this.time + 1) - this.time);
+    const appraisal = this.appraise(event);
+    const felt = appraisal.feltIntensity;
+
+    // A stronger new feeling replaces the current one; a weaker one colours it, and dampens it when it
+    // pulls the other way (praise after a betrayal softens the anger rather than feeding it)
+    const opposing = this.affect.valence * appraisal.valence < 0;
+    if (felt >= this.affect.intensity || this.affect.intensity === 0) {
+      this.affect = {
+        emotion: appraisal.emotion,
+        intensity: felt,
+        valence: appraisal.valence
+      };
+    } else {
+      this.affect = {
+        ...this.affect,
+        intensity: clamp(this.affect.intensity + (opposing ? -0.5 : 0.3) * felt),
+        valence: clampRange(this.affect.valence * 0.7 + appraisal.valence * 0.3, -1, 1)
+      };
+    }
+
+    if (appraisal.valence < 0) {
+      this.stress = clamp(this.stress + felt * Math.abs(appraisal.valence) * 0.6);
+      this.energy = clamp(this.energy - felt * 0.2);
+    } else {
+      this.stress = clamp(this.stress - felt * appraisal.valence * 0.3);
+      // Good news energizes extraverts more than introverts
+      const lift = this.character.psychologicalProfile.oceanTraits.extraversion / 100;
+      this.energy = clamp(this.energy + felt * appraisal.valence * 0.15 * (0.5 + lift) - felt * 0.05);
+    }
+
+    const copingMechanism = this.cope();
+    return this.record(event, appraisal, copingMechanism);
+  }
+
+  /**
+   * Let story time pass without events; affect and stress recover at the character's own pace
+   */
+  advance(hours: number): EmotionalTrajectoryPoint {
+    this.recover(hours);
+    return this.record();
+  }
+
+  private recover(hours: number): void {
+    if (hours <= 0) return;
+    const { recoveryHalfLife, baselineStress, baselineEnergy, baselineEmotion } = this.disposition;
+    const factor = Math.pow(0.5, hours / recoveryHalfLife);
+    const energyFactor = Math.pow(0.5, hours / ENERGY_HALF_LIFE);
+
+    this.stress = baselineStress + (this.stress - baselineStress) * factor;
+    this.energy = baselineEnergy + (this.energy - baselineEnergy) * energyFactor;
+    this.affect = { ...this.affect, intensity: this.affect.intensity * factor, valence: this.affect.valence * factor };
+    if (this.affect.intensity < 15) {
+      this.affect = { emotion: baselineEmotion, intensity: this.affect.intensity, valence: this.affect.valence };
+    }
+    this.time += hours;
+  }
+
+  private cope(): string | undefined {
+    const mechanisms = this.character.emotionalProfile.copingMechanisms;
+    if (this.stress <= this.disposition.copingThreshold || mechanisms.length === 0) return undefined;
+
+    const mechanism = mechanisms[this.copingUses % mechanisms.length];
+    this.copingUses++;
+    this.stress = clamp(this.stress - (8 + this.character.emotionalProfile.emotionalStability * 0.12));
+    this.affect = { ...this.affect, intensity: this.affect.intensity * 0.85 };
+    return mechanism;
+  }
+
+  private record(event?: StoryEvent, appraisal?: EventAppraisal, copingMechanism?: string): EmotionalTrajectoryPoint {
+    const affect = {
+      emotion: this.affect.emotion,
+      intensity: Math.round(this.affect.intensity),
+      valence: Math.round(this.affect.valence * 100) / 100
+    };
+    const stressLevel = Math.round(this.stress);
+    const energyLevel = Math.round(this.energy);
+    const previous = this.points[this.points.length - 1]?.state ?? this.baseState;
+
+    const point: EmotionalTrajectoryPoint = {
+      time: this.time,
+      event,
+      appraisal,
+      copingMechanism,
+      affect,
+      state: {
+        ...previous,
+        currentEmotion: affect.emotion,
+        energyLevel,
+        stressLevel,
+        mentalState: describeMentalState(stressLevel, energyLevel, affect),
+        currentContext: event?.description ?? previous.currentContext
+      }
+    };
+    this.points.push(point);
+    return point;
+  }
+}
+
+// ==================== ARC SIMULATION ====================
+
+/**
+ * Run a character through a sequence of events and summarize the resulting emotional arc
+ */
+export function simulateEmotionalArc(
+  character: UnifiedCharacterOntology,
+  events: StoryEvent[],
+  options: EmotionDynamicsOptions = {}
+): EmotionalArc {
+  const engine = new EmotionDynamicsEngine(character, options);
+  events.forEach((event) => engine.apply(event));
+  const trajectory = engine.trajectory;
+
+  return {
+    characterId: character.id,
+    disposition: engine.disposition,
+    trajectory,
+    summary: summarizeTrajectory(trajectory)
+  };
+}
+
+export function summarizeTrajectory(trajectory: EmotionalTrajectoryPoint[]): EmotionalArcSummary {
+  const peak = trajectory.reduce((best, point) => point.state.stressLevel > best.state.stressLevel ? point : best);
+  const low = trajectory.reduce((best, point) => point.state.energyLevel < best.state.energyLevel ? point : best);
+
+  const counts = new Map<string, number>();
+  trajectory.filter((point) => point.event).forEach((point) => {
+    counts.set(point.affect.emotion, (counts.get(point.affect.emotion) ?? 0) + 1);
+  });
+
+  return {
+    startState: trajectory[0].state,
+    endState: trajectory[trajectory.length - 1].state,
+    peakStress: { value: peak.state.stressLevel, time: peak.time, eventId: peak.event?.id },
+    lowestEnergy: { value: low.state.energyLevel, time: low.time, eventId: low.event?.id },
+    dominantEmotions: [...counts.entries()]
+      .map(([emotion, count]) => ({ emotion, count }))
+      .sort((a, b) => b.count - a.count),
+    triggeredEvents: trajectory.filter((point) => (point.appraisal?.triggeredBy.length ?? 0) > 0).length,
+    copingUses: trajectory.filter((point) => point.copingMechanism).length
+  };
+}
+
+/**
+ * One event per scene the character appears in, built from its action lines; valence comes from the lexicon
+ */
+export function storyEventsFromScript(
+  script: FountainScript,
+  characterName: string,
+  options: { hoursBetweenScenes?: number } = {}
+): StoryEvent[] {
+  const cue = characterName.trim().toUpperCase();
+  const spacing = options.hoursBetweenScenes ?? 1;
+
+  return script.scenes
+    .filter((scene) => scene.presentCharacters.includes(cue))
+    .map((scene) => ({
+      id: scene.id,
+      sceneId: scene.id,
+      description: [scene.heading, ...scene.action].join(' '),
+      time: script.scenes.indexOf(scene) * spacing,
+      participants: scene.presentCharacters.filter((name) => name !== cue)
+    }));
+}
+
+// ==================== APPRAISAL HELPERS ====================
+
+export function deriveDisposition(character: UnifiedCharacterOntology): EmotionalDisposition {
+  const { emotionalStability, copingMechanisms, coreEmotions } = character.emotionalProfile;
+  const { neuroticism, extraversion, conscientiousness } = character.psychologicalProfile.oceanTraits;
+
+  const halfLife = (2 + 10 * (1 - emotionalStability / 100) + 6 * (neuroticism / 100)) / (1 + 0.2 * copingMechanisms.length);
+  return {
+    reactivity: round2(0.6 + (neuroticism / 100) * 0.6 + ((100 - emotionalStability) / 100) * 0.3),
+    recoveryHalfLife: round2(halfLife),
+    baselineStress: Math.round(10 + neuroticism * 0.3),
+    baselineEnergy: Math.round(45 + extraversion * 0.3 + conscientiousness * 0.1),
+    baselineEmotion: coreEmotions[0] ?? 'contentment',
+    copingThreshold: 55
+  };
+}
+
+/**
+ * Triggers hit when the event lists them, or when its description contains every content word of the trigger
+ */
+export function matchTriggers(event: StoryEvent, triggers: string[]): string[] {
+  const explicit = new Set((event.triggers ?? []).map((trigger) => trigger.toLowerCase()));
+  const eventStems = new Set(tokenize(event.description).map(stem));
+
+  return triggers.filter((trigger) => {
+    if (explicit.has(trigger.toLowerCase())) return true;
+    const words = tokenize(trigger).filter((word) => !TRIGGER_STOPWORDS.has(word));
+    return words.length > 0 && words.every((word) => eventStems.has(stem(word)));
+  });
+}
+
+export function inferValence(description: string): number {
+  let positive = 0;
+  let negative = 0;
+  for (const clause of description.split(/[.,;:!?]+/)) {
+    let negatedFor = 0;
+    for (const word of tokenize(clause)) {
+      if (NEGATORS.has(word)) {
+        negatedFor = NEGATION_SCOPE;
+        continue;
+      }
+      const polarity = inLexicon(word, POSITIVE_WORDS) ? 1 : inLexicon(word, NEGATIVE_WORDS) ? -1 : 0;
+      const sign = negatedFor > 0 ? -polarity : polarity;
+      if (sign > 0) positive++;
+      if (sign < 0) negative++;
+      negatedFor = Math.max(0, negatedFor - 1);
+    }
+  }
+  if (negative + positive === 0) return 0;
+  return round2((positive - negative) / (positive + negative));
+}
+
+function inLexicon(word: string, lexicon: string[]): boolean {
+  return lexicon.some((entry) =>
+    entry.length <= 3 ? word === entry : word.startsWith(entry) && LEXICON_SUFFIXES.has(word.slice(entry.length))
+  );
+}
+
+function appraisedEmotion(valence: number, agency: EventAgency, certainty: number, triggered: boolean, baseline: string): string {
+  if (Math.abs(valence) < NEUTRAL_VALENCE && !triggered) return baseline;
+  const anticipated = certainty < 1;
+
+  if (valence > 0) {
+    if (anticipated) return 'hope';
+    if (agency === 'self') return 'pride';
+    if (agency === 'other') return 'gratitude';
+    return 'joy';
+  }
+  if (anticipated || (triggered && agency === 'circumstance')) return 'fear';
+  if (agency === 'other') return 'anger';
+  if (agency === 'self') return 'shame';
+  return 'sadness';
+}
+
+function describeMentalState(stress: number, energy: number, affect: AffectState): string {
+  if (stress >= 80) return 'overwhelmed';
+  if (stress >= 60) return 'strained';
+  if (energy < 25) return 'drained';
+  if (stress >= 40) return 'on edge';
+  if (affect.valence > 0.3 && affect.intensity >= 30) return 'buoyant';
+  return 'composed';
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z']+/g) ?? [];
+}
+
+function stem(word: string): string {
+  return word.replace(/'s$/, '').replace(/(ing|ed|es|s|ness|ment|ly)$/, '').replace(/e$/, '').slice(0, 5);
+}
+
+function clamp(value: number): number {
+  return clampRange(value, 0, 100);
+}
+
+function clampRange(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
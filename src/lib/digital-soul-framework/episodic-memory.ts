@@ -0,0 +1,379 @@
+// Episodic Memory - What each character witnessed or took part in, retrievable by recency, importance and similarity
+// Embeddings are hashed word and character n-grams, so retrieval works offline and gives the same answer every time
+
+import { EventAppraisal, StoryEvent, inferValence } from './emotion-dynamics';
+import { SeededRandom, createRandomSeed, hashSeed } from './seeded-random';
+
+// ==================== CORE TYPES ====================
+
+export type MemoryKind = 'event' | 'conversation' | 'summary';
+
+export interface EpisodicMemory {
+  id: string;
+  characterId: string;
+  kind: MemoryKind;
+  description: string;
+  sceneId?: string;
+  time: number; // Story time in hours
+  participants: string[];
+  valence: number; // -1 to 1
+  importance: number; // 0-100
+  emotion?: string;
+  summarizedIds?: string[]; // Memories a summary replaced
+  span?: { from: number; to: number }; // Story hours a summary covers
+  recordedAt: Date;
+  embedding: number[];
+}
+
+export interface MemoryInput {
+  description: string;
+  kind?: MemoryKind; // Default 'event'
+  sceneId?: string;
+  time?: number; // Defaults to the character's latest memory time plus one hour
+  participants?: string[];
+  valence?: number; // Inferred from the description when omitted
+  importance?: number; // Derived from valence and participants when omitted
+  emotion?: string;
+}
+
+export interface MemoryQuery {
+  text?: string; // Ranks by similarity when given
+  participants?: string[]; // Memories sharing a participant rank higher
+  sceneId?: string; // Restricts to one scene
+  kinds?: MemoryKind[];
+  minSimilarity?: number; // With text, drops memories less similar than this (0-1)
+  now?: number; // Story time recency is measured from; defaults to the latest memory
+  limit?: number; // Default 5
+  weights?: Partial<Record<'recency' | 'importance' | 'similarity', number>>;
+  recencyHalfLife?: number; // Hours, default 72
+}
+
+export interface MemoryMatch {
+  memory: EpisodicMemory;
+  score: number;
+  recency: number; // 0-1
+  importance: number; // 0-1
+  similarity: number; // 0-1
+}
+
+export interface MemorySummaryOptions {
+  olderThan?: number; // Hours before the latest memory; default 72
+  windowHours?: number; // Memories in the same window collapse into one summary, default 24
+  minGroupSize?: number; // Default 3
+  keepImportance?: number; // Memories at or above this stay vivid, default 80
+}
+
+export interface EpisodicMemoryStore {
+  saveMemories(characterId: string, memories: EpisodicMemory[]): Promise<void>; // Replaces the character's memories
+  listMemories(characterId: string): Promise<EpisodicMemory[]>; // Oldest first
+  deleteMemories(characterId: string): Promise<void>;
+}
+
+// ==================== EMBEDDINGS ====================
+
+export const EMBEDDING_DIMENSIONS = 256;
+
+const EMBEDDING_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'was', 'were',
+  'is', 'are', 'be', 'been', 'it', 'this', 'that', 'as', 'by', 'from', 'his', 'her', 'their', 'they',
+  'he', 'she', 'i', 'you', 'we', 'me', 'my', 'your', 'our', 'about', 'into', 'had', 'has', 'have'
+]);
+
+/**
+ * Hashed n-gram embedding: words, word pairs and character trigrams, signed by hash bit and L2-normalized
+ */
+export function embedText(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter((word) => !EMBEDDING_STOPWORDS.has(word));
+  const add = (feature: string, weight: number) => {
+    const hash = hashSeed(feature);
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * weight;
+  };
+
+  words.forEach((word, index) => {
+    add(`w:${word}`, 1);
+    if (index > 0) add(`b:${words[index - 1]} ${word}`, 0.7);
+    // Trigrams let "betrayed" and "betrayal" find each other
+    const padded = `#${word}#`;
+    for (let start = 0; start + 3 <= padded.length; start++) add(`c:${padded.slice(start, start + 3)}`, 0.3);
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => Math.round((value / norm) * 10000) / 10000);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// ==================== CHARACTER MEMORY ====================
+
+// Pending writes per store and character; shared because every CharacterMemory over a store must take turns
+const writeQueues = new WeakMap<EpisodicMemoryStore, Map<string, Promise<unknown>>>();
+
+/**
+ * One character's memories over a store: record, retrieve and consolidate
+ */
+export class CharacterMemory {
+  constructor(private store: EpisodicMemoryStore, readonly characterId: string) {}
+
+  async list(): Promise<EpisodicMemory[]> {
+    return this.store.listMemories(this.characterId);
+  }
+
+  async record(input: MemoryInput): Promise<EpisodicMemory> {
+    return this.serialize(async () => {
+      const memories = await this.list();
+      // Conversation turns happen at the current story time; only events move it forward
+      const memory = createMemory(this.characterId, input, latestTime(memories) + (input.kind === 'conversation' ? 0 : 1));
+      await this.store.saveMemories(this.characterId, sortByTime([...memories, memory]));
+      return memory;
+    });
+  }
+
+  /**
+   * Remember a story event as the character appraised it; felt intensity sets how much it matters
+   */
+  async recordEvent(event: StoryEvent, appraisal?: EventAppraisal): Promise<EpisodicMemory> {
+    return this.record({
+      description: event.description,
+      sceneId: event.sceneId,
+      time: event.time,
+      participants: event.participants,
+      valence: appraisal?.valence ?? event.valence,
+      importance: appraisal
+        ? Math.min(100, appraisal.feltIntensity + appraisal.triggeredBy.length * 15)
+        : event.intensity,
+      emotion: appraisal?.emotion
+    });
+  }
+
+  async retrieve(query: MemoryQuery = {}): Promise<MemoryMatch[]> {
+    return rankMemories(await this.list(), query);
+  }
+
+  /**
+   * Fold old, unremarkable memories into one summary per time window; vivid memories and conversations are kept as they are
+   */
+  async summarize(options: MemorySummaryOptions = {}): Promise<EpisodicMemory[]> {
+    return this.serialize(async () => {
+      const memories = await this.list();
+      const { kept, summaries } = consolidateMemories(this.characterId, memories, options);
+      if (summaries.length > 0) await this.store.saveMemories(this.characterId, sortByTime([...kept, ...summaries]));
+      return summaries;
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.serialize(() => this.store.deleteMemories(this.characterId));
+  }
+
+  /**
+   * Run a read-modify-write after the character's earlier writes, so concurrent records are not lost
+   */
+  private serialize<T>(write: () => Promise<T>): Promise<T> {
+    const queues = writeQueues.get(this.store) ?? new Map<string, Promise<unknown>>();
+    writeQueues.set(this.store, queues);
+    const result = (queues.get(this.characterId) ?? Promise.resolve()).then(write);
+    const settled = result.catch(() => undefined);
+    queues.set(this.characterId, settled);
+    settled.then(() => {
+      if (queues.get(this.characterId) === settled) queues.delete(this.characterId);
+    });
+    return result;
+  }
+}
+
+export function rankMemories(memories: EpisodicMemory[], query: MemoryQuery = {}): MemoryMatch[] {
+  const now = query.now ?? latestTime(memories);
+  const halfLife = query.recencyHalfLife ?? 72;
+  const weights = {
+    recency: query.weights?.recency ?? 1,
+    importance: query.weights?.importance ?? 1,
+    similarity: query.text ? query.weights?.similarity ?? 2 : 0
+  };
+  const queryEmbedding = query.text ? embedText(query.text) : undefined;
+  const participants = new Set((query.participants ?? []).map((name) => name.toLowerCase()));
+
+  return memories
+    .filter((memory) => !query.sceneId || memory.sceneId === query.sceneId)
+    .filter((memory) => !query.kinds || query.kinds.includes(memory.kind))
+    .map((memory) => {
+      const recency = Math.pow(0.5, Math.max(0, now - memory.time) / halfLife);
+      const importance = memory.importance / 100;
+      const similarity = queryEmbedding ? Math.max(0, cosineSimilarity(queryEmbedding, memory.embedding)) : 0;
+      const shared = memory.participants.some((name) => participants.has(name.toLowerCase())) ? 0.25 : 0;
+      const score = weights.recency * recency + weights.importance * importance + weights.similarity * similarity + shared;
+      return { memory, score: round3(score), recency: round3(recency), importance, similarity: round3(similarity) };
+    })
+    .filter((match) => !queryEmbedding || match.similarity >= (query.minSimilarity ?? 0))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, query.limit ?? 5);
+}
+
+export function consolidateMemories(
+  characterId: string,
+  memories: EpisodicMemory[],
+  options: MemorySummaryOptions = {}
+): { kept: EpisodicMemory[]; summaries: EpisodicMemory[] } {
+  const cutoff = latestTime(memories) - (options.olderThan ?? 72);
+  const windowHours = options.windowHours ?? 24;
+  const keepImportance = options.keepImportance ?? 80;
+
+  const groups = new Map<number, EpisodicMemory[]>();
+  for (const memory of memories) {
+    // Conversations quote the exchange verbatim, and a summary would carry it into scene recall
+    if (memory.kind === 'summary' || memory.kind === 'conversation') continue;
+    if (memory.time >= cutoff || memory.importance >= keepImportance) continue;
+    const window = Math.floor(memory.time / windowHours);
+    groups.set(window, [...(groups.get(window) ?? []), memory]);
+  }
+
+  const replaced = new Set<string>();
+  const summaries: EpisodicMemory[] = [];
+  for (const [window, group] of groups) {
+    if (group.length < (options.minGroupSize ?? 3)) continue;
+    group.forEach((memory) => replaced.add(memory.id));
+    summaries.push(summarizeGroup(characterId, group, window * windowHours, (window + 1) * windowHours));
+  }
+
+  return { kept: memories.filter((memory) => !replaced.has(memory.id)), summaries };
+}
+
+function summarizeGroup(characterId: string, group: EpisodicMemory[], from: number, to: number): EpisodicMemory {
+  const highlights = [...group].sort((a, b) => b.importance - a.importance).slice(0, 3);
+  const totalWeight = group.reduce((sum, memory) => sum + memory.importance + 1, 0);
+  const valence = group.reduce((sum, memory) => sum + memory.valence * (memory.importance + 1), 0) / totalWeight;
+  const description = highlights.map((memory) => firstClause(memory.description)).join('; ') +
+    (group.length > highlights.length ? `; and ${group.length - highlights.length} smaller moments` : '');
+  const ids = group.map((memory) => memory.id);
+
+  return {
+    id: `mem_${new SeededRandom(`${characterId}:summary:${ids.join(',')}`).nextString(12)}`,
+    characterId,
+    kind: 'summary',
+    description,
+    time: Math.max(...group.map((memory) => memory.time)),
+    participants: [...new Set(group.flatMap((memory) => memory.participants))],
+    valence: Math.round(valence * 100) / 100,
+    importance: Math.max(...group.map((memory) => memory.importance)),
+    summarizedIds: ids,
+    span: { from, to },
+    recordedAt: new Date(),
+    embedding: embedText(group.map((memory) => memory.description).join(' '))
+  };
+}
+
+function createMemory(characterId: string, input: MemoryInput, defaultTime: number): EpisodicMemory {
+  const valence = Math.max(-1, Math.min(1, input.valence ?? inferValence(input.description)));
+  const participants = input.participants ?? [];
+  return {
+    id: `mem_${new SeededRandom(createRandomSeed()).nextString(12)}`,
+    characterId,
+    kind: input.kind ?? 'event',
+    description: input.description,
+    sceneId: input.sceneId,
+    time: input.time ?? defaultTime,
+    participants,
+    valence,
+    importance: Math.round(Math.max(0, Math.min(100, input.importance ?? 25 + Math.abs(valence) * 45 + Math.min(3, participants.length) * 5))),
+    emotion: input.emotion,
+    recordedAt: new Date(),
+    embedding: embedText(input.description)
+  };
+}
+
+function latestTime(memories: EpisodicMemory[]): number {
+  return memories.reduce((latest, memory) => Math.max(latest, memory.time), 0);
+}
+
+function sortByTime(memories: EpisodicMemory[]): EpisodicMemory[] {
+  return memories.sort((a, b) => a.time - b.time);
+}
+
+// First sentence, shortened at a comma, dash or space outside quotation marks so a quote is never cut open
+function firstClause(text: string): string {
+  const clauseBreaks: number[] = [];
+  const wordBreaks: number[] = [];
+  let quoted = false;
+  let end = text.length;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') quoted = !quoted;
+    else if (char === '\u201C' || char === '\u201D') quoted = char === '\u201C';
+    else if (quoted) continue;
+    else if (/[.;!?]/.test(char)) { end = index; break; }
+    else if (/[,\u2013\u2014]/.test(char)) clauseBreaks.push(index);
+    else if (char === ' ') wordBreaks.push(index);
+  }
+
+  const sentence = text.slice(0, end).trim();
+  if (sentence.length <= 80) return sentence;
+  const cut = clauseBreaks.filter((index) => index <= 77).pop() ?? wordBreaks.filter((index) => index <= 77).pop();
+  return cut ? `${text.slice(0, cut).trim()}...` : sentence;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ==================== IN-MEMORY ADAPTER ====================
+
+export class InMemoryEpisodicMemoryStore implements EpisodicMemoryStore {
+  private memories = new Map<string, EpisodicMemory[]>();
+
+  async saveMemories(characterId: string, memories: EpisodicMemory[]): Promise<void> {
+    this.memories.set(characterId, memories.map((memory) => ({ ...memory })));
+  }
+
+  async listMemories(characterId: string): Promise<EpisodicMemory[]> {
+    return (this.memories.get(characterId) ?? []).map((memory) => ({ ...memory }));
+  }
+
+  async deleteMemories(characterId: string): Promise<void> {
+    this.memories.delete(characterId);
+  }
+}
+
+// ==================== LOCAL STORAGE ADAPTER ====================
+
+const DEFAULT_STORAGE_PREFIX = 'chara-weave:memories:';
+
+/**
+ * Stores one localStorage entry per character holding all of its memories
+ */
+export class LocalStorageEpisodicMemoryStore implements EpisodicMemoryStore {
+  constructor(
+    private readonly storagePrefix: string = DEFAULT_STORAGE_PREFIX,
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  async saveMemories(characterId: string, memories: EpisodicMemory[]): Promise<void> {
+    this.storage.setItem(this.storagePrefix + characterId, JSON.stringify(memories));
+  }
+
+  async listMemories(characterId: string): Promise<EpisodicMemory[]> {
+    const stored = this.storage.getItem(this.storagePrefix + characterId);
+    if (!stored) return [];
+    return (JSON.parse(stored) as EpisodicMemory[]).map((memory) => ({ ...memory, recordedAt: new Date(memory.recordedAt) }));
+  }
+
+  async deleteMemories(characterId: string): Promise<void> {
+    this.storage.removeItem(this.storagePrefix + characterId);
+  }
+}
+
+// ==================== FACTORY FUNCTION ====================
+
+export function createBrowserEpisodicMemoryStore(): EpisodicMemoryStore {
+  if (typeof window === 'undefined' || !window.localStorage) return new InMemoryEpisodicMemoryStore();
+  return new LocalStorageEpisodicMemoryStore();
+}
@@ -0,0 +1,428 @@
+// Fountain Importer - Parse Fountain screenplays into scenes, dialogue and a CastingSheet
+// Durations use the one-page-per-minute rule of thumb, measured in formatted screenplay lines
+
+import {
+  CastingRequirements,
+  CastingSheet,
+  CharacterCastingInfo,
+  SceneCastingInfo
+} from '../types/character-types';
+import { NON_NAME_WORDS, TITLE_PATTERN, extractGender } from './identity-extraction';
+import { SeededRandom } from './seeded-random';
+
+// ==================== CORE TYPES ====================
+
+export interface FountainDialogue {
+  character: string; // Normalized cue, e.g. "ANNA"
+  extension?: string; // "V.O.", "O.S.", "CONT'D"
+  parentheticals: string[];
+  text: string;
+  dual: boolean; // Marked with ^ for side-by-side dialogue
+}
+
+export interface FountainScene {
+  id: string;
+  number?: string; // From a trailing #12# in the heading
+  heading: string;
+  setting: string; // "INT", "EXT", "INT/EXT" or "" for forced headings
+  location: string;
+  timeOfDay: string; // "DAY", "NIGHT", "CONTINUOUS"... or "" when absent
+  action: string[]; // Action paragraphs in order
+  dialogue: FountainDialogue[];
+  speakingCharacters: string[];
+  presentCharacters: string[]; // Speaking characters plus those named in the action
+  estimatedDuration: number; // Seconds
+}
+
+export interface FountainCharacter {
+  name: string; // Normalized cue, e.g. "ANNA PETROVA"
+  displayName: string; // "Anna Petrova"
+  dialogueLines: number; // Number of speeches
+  wordCount: number;
+  sceneCount: number; // Scenes the character speaks in or is named in
+  screenTime: number; // Seconds, sum of the scenes the character is present in
+  extensions: string[];
+  firstSceneId: string;
+  description: string; // Action sentences that describe the character, introduction first
+  gender?: string;
+  pronouns?: string;
+}
+
+export interface FountainScript {
+  titlePage: Record<string, string>;
+  scenes: FountainScene[];
+  characters: FountainCharacter[];
+  estimatedDuration: number; // Seconds
+}
+
+export interface CastingSheetOptions {
+  projectId?: string;
+  title?: string;
+  description?: string;
+  characterIds?: Record<string, string>; // Normalized cue -> ontology id, when drafts were created
+  requirements?: Partial<CastingRequirements>;
+}
+
+// ==================== CONSTANTS ====================
+
+const LINES_PER_PAGE = 55;
+const SECONDS_PER_PAGE = 60;
+const ACTION_WIDTH = 61; // Characters per formatted action line
+const DIALOGUE_WIDTH = 35;
+
+const SCENE_HEADING = /^(?:(INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)[.\s])\s*(.+)$/i;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const CHARACTER_CUE = /^(?:@(.+)|([^a-z]*[A-Z][^a-z]*))$/;
+const SCENE_NUMBER = /\s*#([\w.-]+)#\s*$/;
+const TIME_OF_DAY_WORDS = /^(?:DAY|NIGHT|MORNING|AFTERNOON|EVENING|DAWN|DUSK|SUNRISE|SUNSET|CONTINUOUS|LATER|MOMENTS LATER|SAME|SAME TIME|CONTINUOUS ACTION)$/i;
+
+// ==================== PARSING ====================
+
+/**
+ * Parse a Fountain screenplay. Text before the first scene heading counts as a scene of its own
+ * only when it contains dialogue or action, so cold opens are not lost.
+ */
+export function parseFountain(source: string): FountainScript {
+  const { titlePage, body } = splitTitlePage(stripNotes(source));
+  const lines = body.replace(/\r\n?/g, '\n').split('\n');
+  const scenes: FountainScene[] = [];
+  let current = createScene('scene_0', '');
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const previousBlank = index === 0 || lines[index - 1].trim() === '';
+    const nextLine = lines[index + 1]?.trim() ?? '';
+
+    if (line === '' || /^#/.test(line) || /^=(?!==)/.test(line) || /^===+$/.test(line)) continue;
+
+    // Scene heading: INT./EXT. prefix or forced with a single leading period
+    const forcedHeading = /^\.(?!\.)/.test(line);
+    if (previousBlank && (forcedHeading || SCENE_HEADING.test(line))) {
+      if (current.heading || current.action.length > 0 || current.dialogue.length > 0) scenes.push(current);
+      current = createScene(`scene_${scenes.length + 1}`, forcedHeading ? line.slice(1).trim() : line);
+      continue;
+    }
+
+    // Transitions are formatting only
+    if (/^>/.test(line) && !/<$/.test(line)) continue;
+    if (previousBlank && TRANSITION.test(line)) continue;
+
+    // Character cue followed by dialogue
+    const cue = line.match(CHARACTER_CUE);
+    if (previousBlank && cue && nextLine !== '' && !/^!/.test(line)) {
+      const block: string[] = [];
+      let cursor = index + 1;
+      while (cursor < lines.length && lines[cursor].trim() !== '') {
+        block.push(lines[cursor].trim());
+        cursor++;
+      }
+      current.dialogue.push(parseDialogue(cue[1] ?? cue[2], block));
+      index = cursor - 1;
+      continue;
+    }
+
+    // Everything else is action, merged into paragraphs
+    const paragraph: string[] = [line.replace(/^!/, '').replace(/^>\s*|\s*<$/g, '')];
+    while (index + 1 < lines.length && lines[index + 1].trim() !== '') {
+      index++;
+      paragraph.push(lines[index].trim());
+    }
+    current.action.push(paragraph.join(' '));
+  }
+  if (current.heading || current.action.length > 0 || current.dialogue.length > 0) scenes.push(current);
+
+  const speakers = new Set(scenes.flatMap((scene) => scene.dialogue.map((speech) => speech.character)));
+  for (const scene of scenes) {
+    scene.speakingCharacters = Array.from(new Set(scene.dialogue.map((speech) => speech.character)));
+    scene.presentCharacters = Array.from(new Set([
+      ...scene.speakingCharacters,
+      ...Array.from(speakers).filter((name) => scene.action.some((paragraph) => mentions(paragraph, name, speakers)))
+    ]));
+    scene.estimatedDuration = estimateSceneDuration(scene);
+  }
+
+  return {
+    titlePage,
+    scenes,
+    characters: collectCharacters(scenes, speakers),
+    estimatedDuration: scenes.reduce((sum, scene) => sum + scene.estimatedDuration, 0)
+  };
+}
+
+function createScene(id: string, heading: string): FountainScene {
+  const numberMatch = heading.match(SCENE_NUMBER);
+  const cleanHeading = heading.replace(SCENE_NUMBER, '').trim();
+  const prefix = cleanHeading.match(SCENE_HEADING);
+  const rest = prefix ? prefix[2] : cleanHeading;
+
+  // "HOUSE - KITCHEN - NIGHT": the last segment is the time of day only if it looks like one
+  const segments = rest.split(/\s+[-–—]\s+/);
+  const last = segments[segments.length - 1];
+  const hasTime = segments.length > 1 && TIME_OF_DAY_WORDS.test(last);
+
+  return {
+    id,
+    number: numberMatch?.[1],
+    heading: cleanHeading,
+    setting: prefix ? normalizeSetting(prefix[1]) : '',
+    location: (hasTime ? segments.slice(0, -1) : segments).join(' - ').trim(),
+    timeOfDay: hasTime ? last.toUpperCase() : '',
+    action: [],
+    dialogue: [],
+    speakingCharacters: [],
+    presentCharacters: [],
+    estimatedDuration: 0
+  };
+}
+
+function normalizeSetting(prefix: string): string {
+  const upper = prefix.toUpperCase().replace(/\./g, '');
+  return upper === 'I/E' || upper === 'INT/EXT' ? 'INT/EXT' : upper;
+}
+
+function parseDialogue(rawCue: string, block: string[]): FountainDialogue {
+  const dual = /\^\s*$/.test(rawCue);
+  const extensions = Array.from(rawCue.matchAll(/\(([^)]*)\)/g)).map((match) => match[1].trim().toUpperCase());
+  const character = normalizeName(rawCue.replace(/\^\s*$/, '').replace(/\([^)]*\)/g, ''));
+  const parentheticals = block.filter((line) => /^\(.*\)$/.test(line));
+  const text = block.filter((line) => !/^\(.*\)$/.test(line)).join(' ');
+
+  return {
+    character,
+    extension: extensions.find((extension) => extension !== "CONT'D" && extension !== 'CONT’D') ?? extensions[0],
+    parentheticals,
+    text,
+    dual
+  };
+}
+
+function splitTitlePage(source: string): { titlePage: Record<string, string>; body: string } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  if (!/^[A-Za-z][\w ]*:/.test(lines[0] ?? '')) return { titlePage: {}, body: source };
+
+  const titlePage: Record<string, string> = {};
+  let key = '';
+  let index = 0;
+  for (; index < lines.length && lines[index].trim() !== ''; index++) {
+    const entry = lines[index].match(/^([A-Za-z][\w ]*):\s*(.*)$/);
+    if (entry) {
+      key = entry[1].trim().toLowerCase();
+      titlePage[key] = entry[2].trim();
+    } else if (key) {
+      titlePage[key] = [titlePage[key], lines[index].trim()].filter(Boolean).join('\n');
+    }
+  }
+  return { titlePage, body: lines.slice(index).join('\n') };
+}
+
+function stripNotes(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\[\[[\s\S]*?\]\]/g, '');
+}
+
+function normalizeName(cue: string): string {
+  return cue.replace(/^@/, '').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+function mentions(text: string, name: string, speakers: Set<string>): boolean {
+  return mentionIndex(text, name, speakers) !== -1;
+}
+
+/**
+ * Where the action first refers to a character, or -1: by full cue name, or by a first name or surname
+ * alone ("Anna follows Tom out." for ANNA PETROVA) when no other speaker's cue shares that word
+ */
+function mentionIndex(text: string, name: string, speakers: Set<string>): number {
+  const indexes = nameForms(name, speakers).map((form) => text.search(form)).filter((index) => index !== -1);
+  return indexes.length > 0 ? Math.min(...indexes) : -1;
+}
+
+function nameForms(name: string, speakers: Set<string>): RegExp[] {
+  const forms = [new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i')];
+  const tokens = name.split(' ');
+  if (tokens.length < 2) return forms;
+
+  const sharedTokens = new Set(Array.from(speakers).filter((other) => other !== name).flatMap((other) => other.split(' ')));
+  const title = new RegExp(`^${TITLE_PATTERN}$`, 'i');
+  for (const token of tokens) {
+    const displayToken = toDisplayName(token);
+    if (token.length < 2 || sharedTokens.has(token) || title.test(token) || NON_NAME_WORDS.has(displayToken)) continue;
+    // Case-sensitive, so a surname like "Wood" does not match "the wood"
+    forms.push(new RegExp(`\\b(?:${escapeRegExp(token)}|${escapeRegExp(displayToken)})\\b`));
+  }
+  return forms;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ==================== ESTIMATION ====================
+
+function estimateSceneDuration(scene: FountainScene): number {
+  let lines = scene.heading ? 2 : 0;
+  for (const paragraph of scene.action) {
+    lines += Math.ceil(paragraph.length / ACTION_WIDTH) + 1;
+  }
+  for (const speech of scene.dialogue) {
+    lines += 1 + speech.parentheticals.length + Math.ceil(speech.text.length / DIALOGUE_WIDTH) + 1;
+  }
+  return Math.round((lines / LINES_PER_PAGE) * SECONDS_PER_PAGE);
+}
+
+function collectCharacters(scenes: FountainScene[], speakers: Set<string>): FountainCharacter[] {
+  return Array.from(speakers).map((name) => {
+    const speeches = scenes.flatMap((scene) => scene.dialogue.filter((speech) => speech.character === name));
+    const present = scenes.filter((scene) => scene.presentCharacters.includes(name));
+    const describing = scenes.flatMap((scene) => scene.action.map((paragraph) => describingSentences(paragraph, name, speakers)))
+      .filter(Boolean);
+    const description = describing.slice(0, 3).map((paragraph) => toSentenceCase(paragraph, name)).join(' ');
+    const { gender, pronouns } = extractGender(description, toDisplayName(name));
+
+    return {
+      name,
+      displayName: toDisplayName(name),
+      dialogueLines: speeches.length,
+      wordCount: speeches.reduce((sum, speech) => sum + speech.text.split(/\s+/).filter(Boolean).length, 0),
+      sceneCount: present.length,
+      screenTime: present.reduce((sum, scene) => sum + scene.estimatedDuration, 0),
+      extensions: Array.from(new Set(speeches.map((speech) => speech.extension).filter(Boolean))),
+      firstSceneId: present[0]?.id ?? scenes[0]?.id ?? '',
+      description,
+      gender,
+      pronouns
+    };
+  }).sort((a, b) => b.dialogueLines - a.dialogueLines || b.sceneCount - a.sceneCount);
+}
+
+/**
+ * Sentences led by the character, plus the pronoun sentences that follow them until another speaker is named.
+ * A sentence naming several speakers belongs to the first one: "Anna follows Tom out." describes Anna.
+ */
+function describingSentences(paragraph: string, name: string, speakers: Set<string>): string {
+  const others = Array.from(speakers).filter((other) => other !== name);
+  const sentences = paragraph.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [];
+  const kept: string[] = [];
+  let following = false;
+  for (const sentence of sentences) {
+    const index = mentionIndex(sentence, name, speakers);
+    const otherIndexes = others.map((other) => mentionIndex(sentence, other, speakers)).filter((other) => other !== -1);
+    if (index !== -1 && otherIndexes.every((other) => other >= index)) {
+      following = true;
+      kept.push(sentence.trim());
+    } else if (following && otherIndexes.length === 0) {
+      kept.push(sentence.trim());
+    } else {
+      following = false;
+    }
+  }
+  return kept.join(' ');
+}
+
+export function toDisplayName(name: string): string {
+  return name.toLowerCase().replace(/(^|[\s'’.-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * Screenplays introduce characters in capitals ("ANNA PETROVA (30s) enters"); the extractors expect normal casing.
+ * Capitalized words next to the cue name are part of the full name, so cue ANNA re-cases all of "ANNA PETROVA".
+ */
+function toSentenceCase(paragraph: string, name: string): string {
+  const capitalized = "[A-Z][A-Z'’.-]*[A-Z.]";
+  const fullName = new RegExp(`\\b(?:${capitalized}\\s+)*${escapeRegExp(name)}(?:\\s+${capitalized})*\\b`, 'g');
+  return paragraph.replace(fullName, (match) => toDisplayName(match));
+}
+
+// ==================== CASTING SHEET ====================
+
+const DEFAULT_REQUIREMENTS: CastingRequirements = {
+  technical: { resolution: '1920x1080', format: ['mp4'], quality: 'high' },
+  creative: { style: 'Cinematic', mood: 'Dramatic', themes: [] },
+  production: { timeline: 'TBD', budget: 0, deliverables: ['Casting sheet', 'Character ontologies'] }
+};
+
+export function buildCastingSheet(script: FountainScript, options: CastingSheetOptions = {}): CastingSheet {
+  const now = new Date();
+  const title = options.title ?? script.titlePage.title ?? 'Untitled Screenplay';
+  const totalLines = script.characters.reduce((sum, character) => sum + character.dialogueLines, 0) || 1;
+  const minutes = Math.max(1, Math.round(script.estimatedDuration / 60));
+
+  const characters: CharacterCastingInfo[] = script.characters.map((character, rank) => ({
+    characterId: options.characterIds?.[character.name] ?? `role_${slugify(character.name)}`,
+    role: character.displayName,
+    importance: classifyImportance(character, rank, totalLines, script.scenes.length),
+    screenTime: character.screenTime,
+    sceneCount: character.sceneCount,
+    dialogueLines: character.dialogueLines,
+    requirements: characterRequirements(character, script)
+  }));
+
+  const scenes: SceneCastingInfo[] = script.scenes.map((scene) => ({
+    sceneId: scene.id,
+    characters: scene.presentCharacters.map((name) => options.characterIds?.[name] ?? `role_${slugify(name)}`),
+    location: scene.location || scene.heading || 'Unspecified',
+    requirements: sceneRequirements(scene),
+    estimatedDuration: scene.estimatedDuration
+  }));
+
+  const requirements: CastingRequirements = {
+    technical: { ...DEFAULT_REQUIREMENTS.technical, ...options.requirements?.technical },
+    creative: { ...DEFAULT_REQUIREMENTS.creative, ...options.requirements?.creative },
+    production: {
+      ...DEFAULT_REQUIREMENTS.production,
+      timeline: `${script.scenes.length} scenes, about ${minutes} minute${minutes === 1 ? '' : 's'} of screen time`,
+      ...options.requirements?.production
+    }
+  };
+
+  return {
+    id: `casting_${new SeededRandom(`${title}:${script.scenes.map((scene) => scene.heading).join('|')}`).nextString(12)}`,
+    projectId: options.projectId ?? slugify(title),
+    title,
+    description: options.description ?? [script.titlePage.credit, script.titlePage.author].filter(Boolean).join(' '),
+    characters,
+    scenes,
+    requirements,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function classifyImportance(
+  character: FountainCharacter,
+  rank: number,
+  totalLines: number,
+  totalScenes: number
+): CharacterCastingInfo['importance'] {
+  const lineShare = character.dialogueLines / totalLines;
+  const sceneShare = totalScenes > 0 ? character.sceneCount / totalScenes : 0;
+  if (rank < 2 && lineShare >= 0.15 || lineShare >= 0.25 || sceneShare >= 0.5) return 'lead';
+  if (lineShare >= 0.05 || character.sceneCount >= 2) return 'supporting';
+  return 'background';
+}
+
+function characterRequirements(character: FountainCharacter, script: FountainScript): string[] {
+  const present = script.scenes.filter((scene) => scene.presentCharacters.includes(character.name));
+  const requirements: string[] = [];
+  if (character.extensions.includes('V.O.')) requirements.push('Voice-over recording');
+  if (character.extensions.includes('O.S.') || character.extensions.includes('O.C.')) requirements.push('Off-screen dialogue');
+  if (present.some((scene) => scene.timeOfDay === 'NIGHT')) requirements.push('Night shoots');
+  if (present.some((scene) => scene.setting.includes('EXT'))) requirements.push('Exterior shoots');
+  const locations = new Set(present.map((scene) => scene.location).filter(Boolean));
+  if (locations.size > 0) requirements.push(`${locations.size} location${locations.size === 1 ? '' : 's'}`);
+  return requirements;
+}
+
+function sceneRequirements(scene: FountainScene): string[] {
+  const requirements: string[] = [];
+  if (scene.setting) requirements.push(scene.setting === 'EXT' ? 'Exterior' : scene.setting === 'INT' ? 'Interior' : scene.setting);
+  if (scene.timeOfDay) requirements.push(scene.timeOfDay.charAt(0) + scene.timeOfDay.slice(1).toLowerCase());
+  if (scene.speakingCharacters.length > 0) {
+    requirements.push(`${scene.speakingCharacters.length} speaking role${scene.speakingCharacters.length === 1 ? '' : 's'}`);
+  }
+  if (scene.dialogue.some((speech) => speech.dual)) requirements.push('Dual dialogue');
+  return requirements;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
@@ -0,0 +1,355 @@
+// Identity Extraction - Name, age and gender parsing for NLPProcessor
+// Every extractor reports a 0-1 confidence so downstream phases can tell stated facts from guesses
+
+// ==================== RESULT TYPES ====================
+
+export interface NameExtraction {
+  name?: string; // Full name without title or nickname, e.g. "Mary Jane Watson"
+  title?: string; // e.g. "Dr.", "Captain"
+  nickname?: string;
+  confidence: number;
+}
+
+export interface AgeExtraction {
+  age?: number; // Best single estimate
+  ageRange?: [number, number]; // Inclusive bounds; equal for exact ages
+  approximate: boolean;
+  confidence: number;
+}
+
+export interface GenderExtraction {
+  gender?: string;
+  pronouns?: string; // "she/her", "he/him" or "they/them"
+  confidence: number;
+}
+
+// ==================== SHARED PATTERNS ====================
+
+export const TITLE_PATTERN = '(?:Dr|Mr|Mrs|Ms|Mx|Prof|Professor|Captain|Capt|Sir|Dame|Lady|Lord|Detective|Det|Sergeant|Sgt|Officer|' +
+  'Inspector|Agent|General|Colonel|Major|Lieutenant|Lt|Judge|King|Queen|Prince|Princess|Reverend|Rev|Father|' +
+  'Sister|Brother|Aunt|Uncle|Grandma|Grandpa|Madame|Miss)\\.?';
+// Unicode letters so names like "Zoë Ångström" match; patterns built from it need the 'u' flag
+const NAME_TOKEN = "\\p{Lu}[\\p{L}'’-]*\\p{L}";
+const PARTICLE = '(?:de|da|del|della|van|von|der|den|la|le|di|du|bin|ibn|al|st\\.?)';
+const NICKNAME = '["“‘\']([^"”’\']{1,30})["”’\']';
+// Up to four name tokens with optional particles and an optional quoted nickname between them
+const NAME = `(${NAME_TOKEN}(?:\\s+(?:${NICKNAME}\\s+)?(?:${PARTICLE}\\s+){0,2}${NAME_TOKEN}){0,3})`;
+
+// Capitalized words that start sentences but are never names
+export const NON_NAME_WORDS = new Set([
+  'A', 'An', 'The', 'He', 'She', 'They', 'It', 'His', 'Her', 'Their', 'This', 'That', 'These', 'Those',
+  'In', 'On', 'At', 'When', 'After', 'Before', 'While', 'As', 'If', 'But', 'And', 'Or', 'So', 'Then',
+  'Once', 'Since', 'Although', 'Despite', 'During', 'Every', 'Each', 'Some', 'Most', 'Growing', 'Born',
+  'Meet', 'Our', 'My', 'Your', 'There', 'Here', 'Young', 'Old', 'Everyone', 'Nobody', 'Someone',
+  'However', 'Meanwhile', 'Later', 'Today', 'Yesterday', 'Suddenly', 'Finally', 'Now'
+]);
+
+// A leading subordinate clause before the subject: "Born in 1990, Elena is...", "After the war, Tom ran..."
+const LEADING_CLAUSE = '(?:(?:Born|Raised|Growing|Having|After|Before|When|While|Since|Although|Though|Despite|Once|As|In|At|On|During)\\b[^,.!?]{1,60},\\s+)?';
+
+// Nouns that introduce another person, so pronouns that follow usually refer to them
+const RELATION_NOUNS = 'friend|friends|brother|sister|mother|father|mom|dad|son|daughter|husband|wife|partner|' +
+  'boyfriend|girlfriend|fiance|fiancee|uncle|aunt|cousin|nephew|niece|grandfather|grandmother|boss|mentor|' +
+  'colleague|coworker|neighbor|neighbour|roommate|rival|enemy|lover|ex|student|teacher|client|patient|' +
+  'man|woman|boy|girl|guy|lady|stranger';
+
+// ==================== NAME ====================
+
+export function extractName(description: string): NameExtraction {
+  const patterns: Array<{ pattern: RegExp; confidence: number }> = [
+    { pattern: new RegExp(`\\b(?:named|called|name is|name's)\\s+(?:(${TITLE_PATTERN})\\s+)?${NAME}`, 'u'), confidence: 0.9 },
+    { pattern: new RegExp(`\\bMeet\\s+(?:(${TITLE_PATTERN})\\s+)?${NAME}`, 'u'), confidence: 0.8 },
+    {
+      pattern: new RegExp(`(?:^|[.!?]\\s+)${LEADING_CLAUSE}(?:(${TITLE_PATTERN})\\s+)?${NAME}(?:\\s*\\([^)]*\\))?(?:,[^,.]{1,60},)?\\s+(?:is|was|has|works|lives|grew|spends|runs)\\b`, 'u'),
+      confidence: 0.7
+    },
+    // Appositive without a verb: "Sarah Chen, a detective.", "Frank Doyle, 58, ..."
+    {
+      pattern: new RegExp(`(?:^|[.!?]\\s+)${LEADING_CLAUSE}(?:(${TITLE_PATTERN})\\s+)?${NAME}(?:\\s*\\([^)]*\\))?,\\s+(?:(?:an?|the|aged?)\\s|\\d|${NUMBER_WORD}\\b)`, 'u'),
+      confidence: 0.6
+    },
+    { pattern: new RegExp(`\\b(${TITLE_PATTERN})\\s+${NAME}`, 'u'), confidence: 0.65 }
+  ];
+
+  for (const { pattern, confidence } of patterns) {
+    const match = description.match(pattern);
+    if (!match) continue;
+
+    const [, title, rawName, quotedNickname] = match;
+    const name = cleanName(rawName);
+    if (!name || (!title && NON_NAME_WORDS.has(name.split(' ')[0]))) continue;
+
+    return {
+      name,
+      title: title ? normalizeTitle(title) : undefined,
+      nickname: quotedNickname ?? extractNickname(description),
+      confidence
+    };
+  }
+
+  const nickname = extractNickname(description);
+  return nickname ? { name: nickname, nickname, confidence: 0.5 } : { confidence: 0 };
+}
+
+function extractNickname(description: string): string | undefined {
+  const match = description.match(new RegExp(`\\b(?:known as|nicknamed|goes by|answers to)\\s+["“‘']?(${NAME_TOKEN}(?:\\s+${NAME_TOKEN})?)`, 'u'));
+  return match?.[1];
+}
+
+function cleanName(rawName: string): string {
+  // Quoted nicknames are reported separately, not as part of the name
+  return rawName.replace(new RegExp(`\\s+${NICKNAME}`, 'gu'), '').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeTitle(title: string): string {
+  const abbreviations = ['Dr', 'Mr', 'Mrs', 'Ms', 'Mx', 'Prof', 'Capt', 'Det', 'Sgt', 'Lt', 'Rev'];
+  const bare = title.replace(/\.$/, '');
+  return abbreviations.includes(bare) ? `${bare}.` : bare;
+}
+
+// ==================== AGE ====================
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+const DECADES: Record<string, number> = {
+  teens: 10, twenties: 20, thirties: 30, forties: 40, fifties: 50, sixties: 60, seventies: 70, eighties: 80, nineties: 90
+};
+const NUMBER_WORD = `(?:${[...Object.keys(TENS), ...Object.keys(UNITS), 'hundred', 'and'].join('|')})`;
+const NUMBER_PHRASE = `${NUMBER_WORD}(?:[\\s-]+${NUMBER_WORD})*`;
+const WRITTEN_NUMBER = `(${NUMBER_PHRASE})`;
+const CAREER_START_AGE = 20; // Assumed age a stated span of service began
+
+// Life-stage words give a rough age when nothing more precise is stated
+const LIFE_STAGES: Array<{ pattern: RegExp; age: number; range: [number, number] }> = [
+  { pattern: /\b(?:toddler)\b/i, age: 2, range: [1, 3] },
+  { pattern: /\b(?:child|kid|little (?:boy|girl))\b/i, age: 9, range: [5, 12] },
+  { pattern: /\b(?:teenager|teen|adolescent|high school(?:er| student)?)\b/i, age: 16, range: [13, 19] },
+  { pattern: /\b(?:college student|undergrad(?:uate)?)\b/i, age: 20, range: [18, 23] },
+  { pattern: /\b(?:young (?:man|woman|adult|person))\b/i, age: 24, range: [18, 30] },
+  { pattern: /\b(?:middle-aged|middle aged)\b/i, age: 50, range: [40, 60] },
+  { pattern: /\b(?:retired|retiree|pensioner)\b/i, age: 68, range: [60, 80] },
+  { pattern: /\b(?:elderly|old (?:man|woman|lady)|aging|ageing)\b/i, age: 75, range: [65, 90] }
+];
+
+export function parseNumberWords(text: string): number | undefined {
+  const words = text.toLowerCase().split(/[\s-]+/).filter((word) => word && word !== 'and');
+  if (words.length === 0) return undefined;
+
+  let total = 0;
+  let current = 0;
+  for (const word of words) {
+    if (word in UNITS) current += UNITS[word];
+    else if (word in TENS) current += TENS[word];
+    else if (word === 'hundred') current = (current || 1) * 100;
+    else return undefined;
+  }
+  total += current;
+  return total;
+}
+
+export function extractAge(description: string, referenceYear: number = new Date().getFullYear()): AgeExtraction {
+  // Exact numeric ages: "32 years old", "32-year-old", "aged 32", "age: 32", "32 yo"
+  const numeric = description.match(/\b(\d{1,3})(?:\s*|-)(?:years?(?:\s*|-)old|yrs?(?:\s*|-)old|yo\b|y\/o\b)/i) ??
+    description.match(/\b(?:aged?|age:)\s*(\d{1,3})\b/i);
+  if (numeric) {
+    const age = parseInt(numeric[1], 10);
+    return { age, ageRange: [age, age], approximate: false, confidence: 0.95 };
+  }
+
+  // Written ages: "thirty-two years old", "a twenty-five-year-old"
+  const written = description.match(new RegExp(`\\b${WRITTEN_NUMBER}(?:\\s+|-)years?(?:\\s+|-)old\\b`, 'i')) ??
+    description.match(new RegExp(`\\baged\\s+${WRITTEN_NUMBER}\\b`, 'i'));
+  const writtenAge = written ? parseNumberWords(written[1]) : undefined;
+  if (writtenAge !== undefined) {
+    return { age: writtenAge, ageRange: [writtenAge, writtenAge], approximate: false, confidence: 0.9 };
+  }
+
+  // Bare ages after a name or a copula: "Frank Doyle, 58, ...", "Maria (thirty-two)", "she is thirty-two."
+  const bare = description.match(new RegExp(
+    `(?:\\p{Lu}[\\p{L}'’-]*(?:,\\s*|\\s*\\()|\\b(?:is|was|turned|turns|just)\\s+)(\\d{1,3}|${NUMBER_PHRASE})(?=\\s*(?:[,.;:!?)]|$))`, 'u'
+  ));
+  const bareAge = bare ? (/^\d/.test(bare[1]) ? parseInt(bare[1], 10) : parseNumberWords(bare[1])) : undefined;
+  if (bareAge !== undefined && bareAge > 0 && bareAge < 120) {
+    return { age: bareAge, ageRange: [bareAge, bareAge], approximate: false, confidence: 0.8 };
+  }
+
+  // Birth year: "born in 1990"
+  const born = description.match(/\bborn\s+(?:in\s+)?(?:[a-z]+\s+)?(\d{4})\b/i);
+  if (born) {
+    const age = referenceYear - parseInt(born[1], 10);
+    if (age >= 0 && age < 130) {
+      return { age, ageRange: [Math.max(0, age - 1), age], approximate: false, confidence: 0.8 };
+    }
+  }
+
+  // Decades: "in her forties", "early thirties", "late 50s", "mid-twenties", "forty-something"
+  const decade = findAgeDecade(description);
+  if (decade) {
+    const { age, range } = decadeEstimate(decade.base, decade.qualifier);
+    return { age, ageRange: range, approximate: true, confidence: decade.qualifier ? 0.65 : 0.6 };
+  }
+
+  // Years in a job or service: "twenty years with the police" puts an adult start that far back
+  const service = description.match(new RegExp(`\\b(\\d{1,2}|${NUMBER_PHRASE})\\s+years\\s+(?:with|as|on|in|serving)\\b`, 'i'));
+  const serviceYears = service ? (/^\d/.test(service[1]) ? parseInt(service[1], 10) : parseNumberWords(service[1])) : undefined;
+  if (serviceYears !== undefined && serviceYears > 0) {
+    return { age: CAREER_START_AGE + serviceYears, ageRange: [18 + serviceYears, 25 + serviceYears], approximate: true, confidence: 0.4 };
+  }
+
+  for (const stage of LIFE_STAGES) {
+    if (stage.pattern.test(description)) {
+      return { age: stage.age, ageRange: stage.range, approximate: true, confidence: 0.35 };
+    }
+  }
+
+  return { approximate: true, confidence: 0 };
+}
+
+/**
+ * A decade of life, skipping periods of history: "in the 80s" and "the late sixties" are eras, not ages
+ */
+function findAgeDecade(description: string): { base: number; qualifier?: string } | undefined {
+  const decades = description.matchAll(/\b(the\s+)?(?:(early|mid|late)[\s-]*)?(teens|twenties|thirties|forties|fifties|sixties|seventies|eighties|nineties|[1-9]0'?s)\b/gi);
+  for (const [, era, qualifier, decadeWord] of decades) {
+    if (era) continue;
+    const base = DECADES[decadeWord.toLowerCase()] ?? parseInt(decadeWord, 10);
+    if (!Number.isNaN(base)) return { base, qualifier: qualifier?.toLowerCase() };
+  }
+
+  const something = description.match(/\b(twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)[\s-]something\b/i);
+  return something ? { base: TENS[something[1].toLowerCase()] } : undefined;
+}
+
+function decadeEstimate(base: number, qualifier?: string): { age: number; range: [number, number] } {
+  // "Teens" starts at 13 rather than 10
+  const start = base === 10 ? 13 : base;
+  switch (qualifier) {
+    case 'early':
+      return { age: start + 2, range: [start, start + 3] };
+    case 'mid':
+      return { age: base + 5, range: [base + 4, base + 6] };
+    case 'late':
+      return { age: base + 8, range: [base + 7, base + 9] };
+    default:
+      return { age: base + 5, range: [start, base + 9] };
+  }
+}
+
+// ==================== GENDER ====================
+
+const FEMALE_NOUNS = /\b(?:woman|girl|lady|female|mother|daughter|wife|sister|actress|waitress|queen|princess|heroine|matriarch|grandmother|widow|nun)\b/i;
+const MALE_NOUNS = /\b(?:man|boy|guy|gentleman|male|father|son|husband|brother|actor|waiter|king|prince|hero|patriarch|grandfather|widower|monk)\b/i;
+// Words that end the noun phrase describing the subject: "a man in his forties", "a woman who..."
+const CLAUSE_WORDS = new Set(['in', 'with', 'who', 'whom', 'whose', 'from', 'that', 'which', 'of', 'at', 'on', 'for', 'to']);
+const NON_BINARY_SIGNALS = /\b(?:non-?binary|genderqueer|genderfluid|agender|enby|uses they\/them|they\/them pronouns)\b/i;
+
+const PRONOUNS: Record<string, 'female' | 'male'> = {
+  she: 'female', her: 'female', hers: 'female', herself: 'female',
+  he: 'male', him: 'male', his: 'male', himself: 'male'
+};
+
+/**
+ * Infer the subject's gender from how the subject is referred to, ignoring pronouns
+ * that belong to other people mentioned in the same sentence ("her brother Tom, who lost his job")
+ */
+export function extractGender(description: string, subjectName?: string): GenderExtraction {
+  if (NON_BINARY_SIGNALS.test(description)) {
+    return { gender: 'Non-binary', pronouns: 'they/them', confidence: 0.9 };
+  }
+
+  const explicit = findSubjectNoun(description, subjectName);
+  if (explicit) {
+    return explicit === 'female'
+      ? { gender: 'Female', pronouns: 'she/her', confidence: 0.9 }
+      : { gender: 'Male', pronouns: 'he/him', confidence: 0.9 };
+  }
+
+  const votes = { female: 0, male: 0 };
+  for (const sentence of splitSentences(description)) {
+    for (const reference of subjectPronouns(sentence)) {
+      votes[reference]++;
+    }
+  }
+
+  const total = votes.female + votes.male;
+  if (total === 0) return { confidence: 0 };
+
+  const leading = votes.female >= votes.male ? 'female' : 'male';
+  const share = votes[leading] / total;
+  const confidence = Math.round(0.85 * share * Math.min(1, total / 3) * 100) / 100;
+  if (share === 0.5) return { confidence: 0.2 };
+
+  return leading === 'female'
+    ? { gender: 'Female', pronouns: 'she/her', confidence }
+    : { gender: 'Male', pronouns: 'he/him', confidence };
+}
+
+/**
+ * Look for a gendered noun that describes the subject: the opening noun phrase
+ * ("A weary woman named..."), an appositive after the name or "<Name> is a ... man"
+ */
+function findSubjectNoun(description: string, subjectName?: string): 'female' | 'male' | undefined {
+  const candidates: string[] = [];
+  // Opening noun phrase: the first gendered noun among its first few words ("The old man sits...")
+  const opening = description.match(/^\s*(?:an?|the)\s+((?:[\w'-]+[\s,]+){0,5})/i);
+  if (opening) {
+    const noun = opening[1].split(/[\s,]+/).find((word) => /'s$/.test(word) || FEMALE_NOUNS.test(word) || MALE_NOUNS.test(word));
+    if (noun) candidates.push(noun);
+  }
+
+  if (subjectName) {
+    const escaped = subjectName.split(' ')[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const name = `(?<!\\p{L})${escaped}(?!\\p{L})`;
+    const predicate = description.match(new RegExp(`${name}[^.]*?\\b(?:is|was)\\s+(?:an?|the)\\s+([^.;]+)`, 'iu'));
+    if (predicate) candidates.push(predicate[1]);
+    const appositive = description.match(new RegExp(`${name},\\s+(?:an?|the|his|her|their|my|our)\\s+([^,.;]+)`, 'iu'));
+    if (appositive) candidates.push(appositive[1]);
+  }
+
+  for (const phrase of candidates) {
+    // The head is the first gendered noun before a clause word, so "a tall man in his forties" is a man;
+    // possessives are skipped, so "a woman's son" is a son
+    for (const word of phrase.trim().split(/[\s,]+/)) {
+      if (CLAUSE_WORDS.has(word.toLowerCase())) break;
+      if (/'s$/.test(word)) continue;
+      if (FEMALE_NOUNS.test(word)) return 'female';
+      if (MALE_NOUNS.test(word)) return 'male';
+    }
+  }
+  return undefined;
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).filter(Boolean);
+}
+
+/**
+ * Pronouns in a sentence that refer to the subject: everything up to the first mention of another person
+ */
+function subjectPronouns(sentence: string): Array<'female' | 'male'> {
+  const otherPerson = new RegExp(`\\b(?:(?:an?|the|his|her|their|my)\\s+(?:[\\w-]+\\s+){0,2}(?:${RELATION_NOUNS})\\b(?:\\s+${NAME_TOKEN})?)`, 'iu');
+  const boundary = sentence.search(otherPerson);
+  // "He is her younger brother": the relation describes the subject, so its possessive is someone else
+  const predicative = boundary !== -1 && /\b(?:is|was|becomes|became)\s+$/i.test(sentence.slice(0, boundary));
+  const words = sentence.match(/\b[a-z]+\b/gi) ?? [];
+  const references: Array<'female' | 'male'> = [];
+
+  let offset = 0;
+  for (const word of words) {
+    offset = sentence.indexOf(word, offset);
+    const gender = PRONOUNS[word.toLowerCase()];
+    if (gender) {
+      // A possessive right before the relation noun ("her brother") still points at the subject
+      const beforeOtherPerson = boundary === -1 || offset < boundary || (offset === boundary && !predicative);
+      if (beforeOtherPerson) references.push(gender);
+    }
+    offset += word.length;
+  }
+  return references;
+}
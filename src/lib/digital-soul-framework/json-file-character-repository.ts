@@ -0,0 +1,81 @@
+// JSON File Character Repository - Node.js adapter for scripts, tests and CLI tooling
+// Kept out of character-repository.ts so browser bundles never pull in node:fs
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { UnifiedCharacterOntology } from '../types/character-types';
+import {
+  CharacterQuery,
+  CharacterRepository,
+  applyCharacterQuery,
+  reviveCharacter
+} from './character-repository';
+
+export class JsonFileCharacterRepository implements CharacterRepository {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(characterId: string): Promise<UnifiedCharacterOntology | undefined> {
+    return (await this.readAll())[characterId];
+  }
+
+  async save(character: UnifiedCharacterOntology): Promise<UnifiedCharacterOntology> {
+    await this.mutate((characters) => {
+      characters[character.id] = character;
+    });
+    return character;
+  }
+
+  async delete(characterId: string): Promise<boolean> {
+    let deleted = false;
+    await this.mutate((characters) => {
+      deleted = characterId in characters;
+      delete characters[characterId];
+    });
+    return deleted;
+  }
+
+  async list(): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(Object.values(await this.readAll()), {});
+  }
+
+  async query(query: CharacterQuery): Promise<UnifiedCharacterOntology[]> {
+    return applyCharacterQuery(await this.list(), query);
+  }
+
+  private async readAll(): Promise<Record<string, UnifiedCharacterOntology>> {
+    await this.pendingWrite;
+    return this.readAllUnlocked();
+  }
+
+  /**
+   * Serialize read-modify-write cycles and write atomically via a temp file
+   */
+  private mutate(change: (characters: Record<string, UnifiedCharacterOntology>) => void): Promise<void> {
+    const run = async () => {
+      const characters = await this.readAllUnlocked();
+      change(characters);
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(characters, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+    };
+
+    const next = this.pendingWrite.then(run, run);
+    this.pendingWrite = next.catch(() => undefined);
+    return next;
+  }
+
+  private async readAllUnlocked(): Promise<Record<string, UnifiedCharacterOntology>> {
+    try {
+      const parsed: Record<string, UnifiedCharacterOntology> = JSON.parse(await readFile(this.filePath, 'utf8'));
+      return Object.fromEntries(
+        Object.entries(parsed).map(([id, character]) => [id, reviveCharacter(character)])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+}
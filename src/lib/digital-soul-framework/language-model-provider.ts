@@ -0,0 +1,186 @@
+// Language Model Provider - Pluggable text completion backends for extraction and analysis
+// Every model-backed step validates the output and falls back to the rule-based path when it fails
+
+import { z } from 'zod';
+
+// ==================== CORE TYPES ====================
+
+export interface LanguageModelMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LanguageModelRequest {
+  messages: LanguageModelMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+}
+
+export interface LanguageModelResponse {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LanguageModelProvider {
+  readonly name: string;
+  complete(request: LanguageModelRequest): Promise<LanguageModelResponse>;
+}
+
+export class LanguageModelError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LanguageModelError';
+  }
+}
+
+// ==================== OPENAI-COMPATIBLE PROVIDER ====================
+
+export interface OpenAICompatibleProviderOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // Any server exposing /chat/completions, e.g. OpenAI, Ollama, vLLM, LM Studio
+  headers?: Record<string, string>;
+  temperature?: number;
+  timeoutMs?: number;
+  fetch?: typeof fetch; // Injected for environments without a global fetch
+}
+
+export class OpenAICompatibleProvider implements LanguageModelProvider {
+  readonly name = 'openai-compatible';
+  private baseUrl: string;
+
+  constructor(private options: OpenAICompatibleProviderOptions) {
+    this.baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  async complete(request: LanguageModelRequest): Promise<LanguageModelResponse> {
+    const fetchImpl = this.options.fetch ?? globalThis.fetch;
+    if (!fetchImpl) throw new LanguageModelError('No fetch implementation available');
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 30000);
+    try {
+      const response = await fetchImpl(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+          ...this.options.headers
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: request.messages,
+          temperature: request.temperature ?? this.options.temperature ?? 0.2,
+          ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+          ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new LanguageModelError(`Provider responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+      }
+
+      const body = await response.json();
+      const content = body?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new LanguageModelError('Provider response has no message content');
+
+      return {
+        content,
+        model: body.model ?? this.options.model,
+        usage: body.usage ? {
+          promptTokens: body.usage.prompt_tokens ?? 0,
+          completionTokens: body.usage.completion_tokens ?? 0
+        } : undefined
+      };
+    } catch (error) {
+      if (error instanceof LanguageModelError) throw error;
+      const reason = error?.name === 'AbortError' ? 'Request timed out' : error?.message ?? String(error);
+      throw new LanguageModelError(reason);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// ==================== FIXTURE PROVIDER ====================
+
+export interface LanguageModelFixture {
+  match: string | RegExp | ((request: LanguageModelRequest) => boolean); // Tested against the last user message
+  response: string | ((request: LanguageModelRequest) => string);
+}
+
+/**
+ * Deterministic provider for tests and offline use: answers from fixtures in registration order,
+ * then from the fallback responder, and otherwise fails so callers take their rule-based path
+ */
+export class FixtureLanguageModelProvider implements LanguageModelProvider {
+  readonly name = 'fixture';
+  readonly calls: LanguageModelRequest[] = [];
+
+  constructor(
+    private fixtures: LanguageModelFixture[] = [],
+    private fallback?: (request: LanguageModelRequest) => string
+  ) {}
+
+  register(fixture: LanguageModelFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  async complete(request: LanguageModelRequest): Promise<LanguageModelResponse> {
+    this.calls.push(request);
+    const prompt = [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+
+    const fixture = this.fixtures.find(({ match }) =>
+      typeof match === 'string' ? prompt.includes(match)
+        : match instanceof RegExp ? match.test(prompt)
+          : match(request)
+    );
+    const responder = fixture?.response ?? this.fallback;
+    if (responder === undefined) throw new LanguageModelError('No fixture matches the request');
+
+    return {
+      content: typeof responder === 'string' ? responder : responder(request),
+      model: this.name
+    };
+  }
+}
+
+// ==================== STRUCTURED OUTPUT ====================
+
+/**
+ * Request JSON from a provider and validate it; throws LanguageModelError on invalid JSON or shape
+ */
+export async function completeJson<T>(
+  provider: LanguageModelProvider,
+  request: LanguageModelRequest,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const response = await provider.complete({ ...request, responseFormat: 'json' });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(response.content));
+  } catch {
+    throw new LanguageModelError(`${provider.name} returned invalid JSON`);
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new LanguageModelError(`${provider.name} output failed validation at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Models often wrap JSON in a markdown fence despite being asked not to
+function stripCodeFence(content: string): string {
+  const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : content.trim();
+}
@@ -0,0 +1,143 @@
+// Language Model Tasks - Prompts and response schemas for model-backed character analysis
+// Schemas mirror the engine's ExtractedCharacterData, ArchetypeProfile and backstory shapes
+
+import { z } from 'zod';
+import { JUNGIAN_ARCHETYPES } from './archetype-knowledge-base';
+import { LanguageModelMessage } from './language-model-provider';
+
+// ==================== RESPONSE SCHEMAS ====================
+
+const confidenceSchema = z.number().min(0).max(1);
+
+export const extractedCharacterDataSchema = z.object({
+  basicInfo: z.object({
+    name: z.string().min(1).optional(),
+    title: z.string().optional(),
+    nickname: z.string().optional(),
+    age: z.number().int().min(0).max(150).optional(),
+    ageRange: z.tuple([z.number(), z.number()]).optional(),
+    gender: z.string().optional(),
+    pronouns: z.string().optional(),
+    occupation: z.string().optional()
+  }),
+  fieldConfidence: z.object({
+    name: confidenceSchema.optional(),
+    age: confidenceSchema.optional(),
+    gender: confidenceSchema.optional(),
+    occupation: confidenceSchema.optional()
+  }).default({}),
+  personalityTraits: z.array(z.string()),
+  physicalFeatures: z.object({
+    height: z.string().optional(),
+    heightCm: z.number().positive().optional(),
+    build: z.string().optional(),
+    hairColor: z.string().optional(),
+    eyeColor: z.string().optional(),
+    skinTone: z.string().optional(),
+    distinctiveFeatures: z.array(z.string()).default([])
+  }).optional(),
+  behavioralPatterns: z.array(z.string()),
+  backgroundElements: z.array(z.string()),
+  relationships: z.array(z.string()),
+  skills: z.array(z.string())
+});
+
+export type ModelExtractedCharacterData = z.infer<typeof extractedCharacterDataSchema>;
+
+export const archetypeSelectionSchema = z.object({
+  primary: z.enum(JUNGIAN_ARCHETYPES),
+  secondary: z.enum(JUNGIAN_ARCHETYPES),
+  confidence: confidenceSchema,
+  scores: z.record(z.enum(JUNGIAN_ARCHETYPES), z.number().min(0))
+}).refine((selection) => selection.primary !== selection.secondary, {
+  message: 'Primary and secondary archetypes must differ',
+  path: ['secondary']
+}).refine((selection) => {
+  const ranked = Object.values(selection.scores).sort((a, b) => b - a);
+  return (selection.scores[selection.primary] ?? 0) > 0
+    && selection.scores[selection.primary] === ranked[0]
+    && (selection.scores[selection.secondary] ?? 0) === ranked[1];
+}, {
+  message: 'Primary and secondary archetypes must have the two highest scores',
+  path: ['scores']
+});
+
+export type ArchetypeSelection = z.infer<typeof archetypeSelectionSchema>;
+
+export const generatedBackstorySchema = z.object({
+  childhood: z.string().min(1),
+  formativeEvents: z.array(z.string()).min(1),
+  education: z.string().min(1),
+  careerHistory: z.string().min(1),
+  personalHistory: z.string().min(1),
+  secrets: z.array(z.string()),
+  desires: z.array(z.string())
+});
+
+export type GeneratedBackstory = z.infer<typeof generatedBackstorySchema>;
+
+// ==================== PROMPTS ====================
+
+const SYSTEM_PROMPT = 'You are a character analyst for film and game productions. Reply with a single JSON object and nothing else.';
+
+export function buildExtractionPrompt(description: string, referenceYear?: number): LanguageModelMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        'Extract structured data from this character description.',
+        'Return JSON with keys: basicInfo {name, title, nickname, age, ageRange [min, max], gender, pronouns, occupation},',
+        'fieldConfidence {name, age, gender, occupation} as numbers from 0 to 1,',
+        'personalityTraits, behavioralPatterns, backgroundElements, relationships and skills as string arrays,',
+        'and physicalFeatures {height, heightCm, build, hairColor, eyeColor, skinTone, distinctiveFeatures}.',
+        'Omit anything the description does not state; do not invent details.',
+        ...(referenceYear ? [`Work out ages from birth years as of ${referenceYear}.`] : []),
+        '',
+        `Description: ${description}`
+      ].join('\n')
+    }
+  ];
+}
+
+export function buildArchetypePrompt(summary: string): LanguageModelMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        'Choose the primary and secondary Jungian archetypes for this character.',
+        `Allowed values: ${JUNGIAN_ARCHETYPES.join(', ')}.`,
+        'Return JSON with keys: primary, secondary, confidence (0 to 1),',
+        'and scores: an object giving every archetype a weight, highest for the primary and next highest for the secondary.',
+        '',
+        `Character: ${summary}`
+      ].join('\n')
+    }
+  ];
+}
+
+export function buildBackstoryPrompt(
+  summary: string,
+  timeline: string[],
+  motivations: string[],
+  fears: string[]
+): LanguageModelMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        'Write a backstory consistent with the character below, their motivations and their fears.',
+        'Keep every dated event from the timeline at the age given; do not add events after the current age.',
+        'Return JSON with keys: childhood, education, careerHistory, personalHistory (strings),',
+        'and formativeEvents, secrets, desires (string arrays).',
+        '',
+        `Character: ${summary}`,
+        `Timeline:\n${timeline.join('\n')}`,
+        `Motivations: ${motivations.join('; ')}`,
+        `Fears: ${fears.join('; ')}`
+      ].join('\n')
+    }
+  ];
+}
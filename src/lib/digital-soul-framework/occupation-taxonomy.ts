@@ -0,0 +1,613 @@
+// Occupation Taxonomy - Structured occupations with synonym and fuzzy matching
+// Replaces the fixed keyword list so "teaching assistant", "headteacher" and "blacksmith" resolve to distinct jobs
+
+// ==================== CORE TYPES ====================
+
+export const OCCUPATION_ERAS = ['ancient', 'medieval', 'early-modern', 'industrial', 'modern', 'future'] as const;
+export type OccupationEra = typeof OCCUPATION_ERAS[number];
+
+export type OccupationCategory =
+  | 'education'
+  | 'healthcare'
+  | 'law'
+  | 'law-enforcement'
+  | 'military'
+  | 'engineering'
+  | 'technology'
+  | 'science'
+  | 'arts'
+  | 'entertainment'
+  | 'media'
+  | 'culinary'
+  | 'trades'
+  | 'agriculture'
+  | 'maritime'
+  | 'business'
+  | 'service'
+  | 'government'
+  | 'religion'
+  | 'criminal'
+  | 'sports'
+  | 'student';
+
+export interface OccupationEntry {
+  id: string;
+  title: string;
+  category: OccupationCategory;
+  synonyms: string[]; // Alternative titles, matched as whole words
+  typicalSkills: string[];
+  typicalSettings: string[];
+  eras: OccupationEra[]; // Periods in which the occupation plausibly exists
+}
+
+export interface OccupationMatch {
+  occupation: OccupationEntry;
+  matchedText: string; // The words in the description that produced the match
+  matchType: 'title' | 'synonym' | 'fuzzy';
+  confidence: number; // 0-1
+  era?: OccupationEra; // Era detected in the description, if any
+  eraAvailable: boolean; // False when the occupation is anachronistic for the detected era
+}
+
+const ALL_ERAS: OccupationEra[] = [...OCCUPATION_ERAS];
+const PRE_MODERN: OccupationEra[] = ['ancient', 'medieval', 'early-modern', 'industrial'];
+const SINCE_INDUSTRIAL: OccupationEra[] = ['industrial', 'modern', 'future'];
+const SINCE_MODERN: OccupationEra[] = ['modern', 'future'];
+
+// ==================== TAXONOMY ====================
+
+export const OCCUPATION_TAXONOMY: OccupationEntry[] = [
+  // Education
+  {
+    id: 'teacher', title: 'Teacher', category: 'education',
+    synonyms: ['schoolteacher', 'school teacher', 'educator', 'tutor', 'instructor'],
+    typicalSkills: ['Lesson planning', 'Public speaking', 'Classroom management', 'Mentoring'],
+    typicalSettings: ['Classroom', 'School staff room'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'teaching-assistant', title: 'Teaching Assistant', category: 'education',
+    synonyms: ['classroom assistant', 'teacher aide', "teacher's aide", 'learning support assistant'],
+    typicalSkills: ['Small-group instruction', 'Patience', 'Student support'],
+    typicalSettings: ['Classroom', 'Library'],
+    eras: SINCE_MODERN
+  },
+  {
+    id: 'headteacher', title: 'Headteacher', category: 'education',
+    synonyms: ['head teacher', 'headmaster', 'headmistress', 'principal', 'school principal'],
+    typicalSkills: ['Leadership', 'Administration', 'Discipline', 'Budgeting'],
+    typicalSettings: ["Head's office", 'School assembly hall'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'professor', title: 'Professor', category: 'education',
+    synonyms: ['lecturer', 'scholar', 'university professor'],
+    typicalSkills: ['Research', 'Lecturing', 'Academic writing', 'Critical analysis'],
+    typicalSettings: ['University campus', 'Lecture hall', 'Study'],
+    eras: ['medieval', 'early-modern', 'industrial', 'modern', 'future']
+  },
+  {
+    id: 'librarian', title: 'Librarian', category: 'education',
+    synonyms: ['archivist'],
+    typicalSkills: ['Research', 'Cataloguing', 'Information retrieval'],
+    typicalSettings: ['Library', 'Archive'],
+    eras: ALL_ERAS
+  },
+
+  // Healthcare
+  {
+    id: 'doctor', title: 'Doctor', category: 'healthcare',
+    synonyms: ['physician', 'gp', 'general practitioner', 'medic', 'surgeon'],
+    typicalSkills: ['Diagnosis', 'Medical treatment', 'Anatomy', 'Composure under pressure'],
+    typicalSettings: ['Hospital', 'Clinic', 'Operating theatre'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'nurse', title: 'Nurse', category: 'healthcare',
+    synonyms: ['registered nurse', 'midwife', 'paramedic'],
+    typicalSkills: ['Patient care', 'First aid', 'Triage', 'Empathy'],
+    typicalSettings: ['Hospital ward', 'Ambulance', 'Clinic'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'therapist', title: 'Therapist', category: 'healthcare',
+    synonyms: ['psychologist', 'psychiatrist', 'counselor', 'counsellor', 'psychotherapist'],
+    typicalSkills: ['Active listening', 'Psychological assessment', 'Counseling'],
+    typicalSettings: ["Therapist's office", 'Clinic'],
+    eras: SINCE_MODERN
+  },
+  {
+    id: 'healer', title: 'Healer', category: 'healthcare',
+    synonyms: ['herbalist', 'apothecary', 'wise woman', 'barber surgeon'],
+    typicalSkills: ['Herbal remedies', 'Folk medicine', 'Midwifery'],
+    typicalSettings: ['Village cottage', 'Herb garden'],
+    eras: PRE_MODERN
+  },
+  {
+    id: 'veterinarian', title: 'Veterinarian', category: 'healthcare',
+    synonyms: ['vet', 'animal doctor'],
+    typicalSkills: ['Animal care', 'Surgery', 'Diagnosis'],
+    typicalSettings: ['Veterinary clinic', 'Farm'],
+    eras: SINCE_INDUSTRIAL
+  },
+
+  // Law and law enforcement
+  {
+    id: 'lawyer', title: 'Lawyer', category: 'law',
+    synonyms: ['attorney', 'solicitor', 'barrister', 'prosecutor', 'public defender'],
+    typicalSkills: ['Legal research', 'Argumentation', 'Negotiation', 'Public speaking'],
+    typicalSettings: ['Courtroom', 'Law office'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'judge', title: 'Judge', category: 'law',
+    synonyms: ['magistrate'],
+    typicalSkills: ['Legal reasoning', 'Impartiality', 'Judgment'],
+    typicalSettings: ['Courtroom', 'Chambers'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'detective', title: 'Detective', category: 'law-enforcement',
+    synonyms: ['private investigator', 'private eye', 'investigator', 'inspector', 'sleuth', 'gumshoe'],
+    typicalSkills: ['Investigation', 'Deduction', 'Interrogation', 'Surveillance'],
+    typicalSettings: ['Crime scene', 'Police station', 'City streets'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'police-officer', title: 'Police Officer', category: 'law-enforcement',
+    synonyms: ['cop', 'policeman', 'policewoman', 'constable', 'patrol officer', 'sheriff', 'deputy'],
+    typicalSkills: ['Law enforcement', 'Self-defense', 'Firearms', 'Conflict de-escalation'],
+    typicalSettings: ['Police station', 'Patrol car', 'City streets'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'guard', title: 'Guard', category: 'law-enforcement',
+    synonyms: ['watchman', 'security guard', 'bodyguard', 'city watch', 'sentry'],
+    typicalSkills: ['Vigilance', 'Combat', 'Crowd control'],
+    typicalSettings: ['Gatehouse', 'Checkpoint', 'Palace'],
+    eras: ALL_ERAS
+  },
+
+  // Military
+  {
+    id: 'soldier', title: 'Soldier', category: 'military',
+    synonyms: ['infantryman', 'marine', 'trooper', 'sergeant', 'mercenary', 'veteran'],
+    typicalSkills: ['Combat', 'Firearms', 'Discipline', 'Survival'],
+    typicalSettings: ['Barracks', 'Battlefield', 'Military base'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'officer', title: 'Military Officer', category: 'military',
+    synonyms: ['captain', 'lieutenant', 'colonel', 'commander', 'admiral'],
+    typicalSkills: ['Leadership', 'Strategy', 'Tactics', 'Command'],
+    typicalSettings: ['Command tent', 'Headquarters', 'Bridge of a ship'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'knight', title: 'Knight', category: 'military',
+    synonyms: ['squire', 'paladin', 'man-at-arms'],
+    typicalSkills: ['Swordsmanship', 'Horsemanship', 'Chivalry', 'Heraldry'],
+    typicalSettings: ['Castle', 'Tournament grounds', 'Battlefield'],
+    eras: ['medieval', 'early-modern']
+  },
+  {
+    id: 'pilot', title: 'Pilot', category: 'military',
+    synonyms: ['aviator', 'airline pilot', 'fighter pilot', 'starship pilot'],
+    typicalSkills: ['Navigation', 'Piloting', 'Quick reflexes', 'Situational awareness'],
+    typicalSettings: ['Cockpit', 'Airfield', 'Hangar'],
+    eras: SINCE_MODERN
+  },
+
+  // Engineering, technology and science
+  {
+    id: 'engineer', title: 'Engineer', category: 'engineering',
+    synonyms: ['mechanical engineer', 'civil engineer', 'electrical engineer', 'technician'],
+    typicalSkills: ['Problem solving', 'Technical design', 'Mathematics'],
+    typicalSettings: ['Workshop', 'Construction site', 'Engineering lab'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'software-developer', title: 'Software Developer', category: 'technology',
+    synonyms: ['programmer', 'software engineer', 'developer', 'coder', 'web developer'],
+    typicalSkills: ['Programming', 'Debugging', 'System design'],
+    typicalSettings: ['Open-plan office', 'Home office'],
+    eras: SINCE_MODERN
+  },
+  {
+    id: 'hacker', title: 'Hacker', category: 'technology',
+    synonyms: ['netrunner', 'cybersecurity analyst', 'security researcher'],
+    typicalSkills: ['Programming', 'Network intrusion', 'Social engineering', 'Cryptography'],
+    typicalSettings: ['Dark bedroom', 'Server room', 'Internet café'],
+    eras: SINCE_MODERN
+  },
+  {
+    id: 'scientist', title: 'Scientist', category: 'science',
+    synonyms: ['researcher', 'physicist', 'chemist', 'biologist', 'astronomer', 'geneticist'],
+    typicalSkills: ['Research', 'Experimentation', 'Data analysis', 'Scientific writing'],
+    typicalSettings: ['Laboratory', 'Research station', 'University'],
+    eras: ['early-modern', 'industrial', 'modern', 'future']
+  },
+  {
+    id: 'alchemist', title: 'Alchemist', category: 'science',
+    synonyms: ['natural philosopher'],
+    typicalSkills: ['Alchemy', 'Chemistry', 'Esoteric lore'],
+    typicalSettings: ['Laboratory', 'Tower study'],
+    eras: ['ancient', 'medieval', 'early-modern']
+  },
+  {
+    id: 'archaeologist', title: 'Archaeologist', category: 'science',
+    synonyms: ['historian', 'anthropologist'],
+    typicalSkills: ['Excavation', 'Historical research', 'Ancient languages'],
+    typicalSettings: ['Dig site', 'Museum', 'Archive'],
+    eras: SINCE_INDUSTRIAL
+  },
+
+  // Arts, entertainment and media
+  {
+    id: 'artist', title: 'Artist', category: 'arts',
+    synonyms: ['painter', 'illustrator', 'sculptor'],
+    typicalSkills: ['Drawing', 'Painting', 'Composition', 'Color theory'],
+    typicalSettings: ['Studio', 'Gallery'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'musician', title: 'Musician', category: 'arts',
+    synonyms: ['singer', 'guitarist', 'pianist', 'violinist', 'drummer', 'composer', 'bard', 'minstrel'],
+    typicalSkills: ['Music', 'Performance', 'Composition'],
+    typicalSettings: ['Stage', 'Recording studio', 'Tavern'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'writer', title: 'Writer', category: 'arts',
+    synonyms: ['author', 'novelist', 'poet', 'playwright', 'screenwriter'],
+    typicalSkills: ['Writing', 'Storytelling', 'Observation'],
+    typicalSettings: ['Study', 'Café', 'Library'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'actor', title: 'Actor', category: 'entertainment',
+    synonyms: ['actress', 'performer', 'stage actor'],
+    typicalSkills: ['Acting', 'Improvisation', 'Voice control'],
+    typicalSettings: ['Theater', 'Film set', 'Audition room'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'photographer', title: 'Photographer', category: 'media',
+    synonyms: ['photojournalist', 'cameraman', 'camerawoman'],
+    typicalSkills: ['Photography', 'Composition', 'Lighting'],
+    typicalSettings: ['Darkroom', 'Photo studio', 'On location'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'journalist', title: 'Journalist', category: 'media',
+    synonyms: ['reporter', 'correspondent', 'editor', 'news anchor'],
+    typicalSkills: ['Interviewing', 'Writing', 'Research', 'Fact-checking'],
+    typicalSettings: ['Newsroom', 'Press conference'],
+    eras: SINCE_INDUSTRIAL
+  },
+
+  // Culinary, trades and agriculture
+  {
+    id: 'chef', title: 'Chef', category: 'culinary',
+    synonyms: ['cook', 'sous chef', 'line cook', 'head chef', 'pastry chef'],
+    typicalSkills: ['Cooking', 'Menu planning', 'Knife skills', 'Kitchen management'],
+    typicalSettings: ['Restaurant kitchen'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'baker', title: 'Baker', category: 'culinary',
+    synonyms: ['pastry cook', 'patissier'],
+    typicalSkills: ['Baking', 'Early rising', 'Precision'],
+    typicalSettings: ['Bakery'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'bartender', title: 'Bartender', category: 'service',
+    synonyms: ['barman', 'barmaid', 'barkeep', 'innkeeper', 'tavern keeper', 'publican'],
+    typicalSkills: ['Mixology', 'Listening', 'Reading people'],
+    typicalSettings: ['Bar', 'Tavern', 'Inn'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'blacksmith', title: 'Blacksmith', category: 'trades',
+    synonyms: ['farrier', 'armorer', 'armourer', 'metalworker'],
+    typicalSkills: ['Metalworking', 'Forging', 'Physical strength'],
+    typicalSettings: ['Forge', 'Smithy'],
+    eras: ['ancient', 'medieval', 'early-modern', 'industrial']
+  },
+  {
+    id: 'carpenter', title: 'Carpenter', category: 'trades',
+    synonyms: ['woodworker', 'joiner', 'cabinetmaker'],
+    typicalSkills: ['Woodworking', 'Measurement', 'Tool use'],
+    typicalSettings: ['Workshop', 'Building site'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'mechanic', title: 'Mechanic', category: 'trades',
+    synonyms: ['auto mechanic', 'repairman', 'grease monkey'],
+    typicalSkills: ['Mechanical repair', 'Diagnostics', 'Tool use'],
+    typicalSettings: ['Garage', 'Workshop'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'electrician', title: 'Electrician', category: 'trades',
+    synonyms: ['electrical contractor'],
+    typicalSkills: ['Electrical wiring', 'Safety procedures', 'Troubleshooting'],
+    typicalSettings: ['Building site', 'Customer homes'],
+    eras: SINCE_MODERN
+  },
+  {
+    id: 'farmer', title: 'Farmer', category: 'agriculture',
+    synonyms: ['rancher', 'peasant', 'shepherd', 'farmhand', 'crofter'],
+    typicalSkills: ['Animal husbandry', 'Crop cultivation', 'Weather reading'],
+    typicalSettings: ['Farm', 'Fields', 'Barn'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'hunter', title: 'Hunter', category: 'agriculture',
+    synonyms: ['trapper', 'ranger', 'tracker', 'gamekeeper'],
+    typicalSkills: ['Tracking', 'Archery', 'Survival', 'Stealth'],
+    typicalSettings: ['Forest', 'Wilderness'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'sailor', title: 'Sailor', category: 'maritime',
+    synonyms: ['seaman', 'mariner', 'deckhand', 'fisherman', 'fisherwoman', 'ship captain', 'navigator'],
+    typicalSkills: ['Seamanship', 'Navigation', 'Knot tying'],
+    typicalSettings: ['Ship deck', 'Harbor', 'Open sea'],
+    eras: ALL_ERAS
+  },
+
+  // Business, service and government
+  {
+    id: 'business-executive', title: 'Business Executive', category: 'business',
+    synonyms: ['ceo', 'executive', 'manager', 'entrepreneur', 'businessman', 'businesswoman', 'founder'],
+    typicalSkills: ['Leadership', 'Negotiation', 'Strategic planning', 'Finance'],
+    typicalSettings: ['Corner office', 'Boardroom'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'merchant', title: 'Merchant', category: 'business',
+    synonyms: ['trader', 'shopkeeper', 'peddler', 'salesman', 'saleswoman', 'shop owner'],
+    typicalSkills: ['Bargaining', 'Bookkeeping', 'Persuasion'],
+    typicalSettings: ['Market', 'Shop', 'Trade caravan'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'accountant', title: 'Accountant', category: 'business',
+    synonyms: ['bookkeeper', 'auditor', 'clerk'],
+    typicalSkills: ['Bookkeeping', 'Mathematics', 'Attention to detail'],
+    typicalSettings: ['Office', 'Counting house'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'waiter', title: 'Waiter', category: 'service',
+    synonyms: ['waitress', 'barista'],
+    typicalSkills: ['Customer service', 'Multitasking', 'Memory'],
+    typicalSettings: ['Restaurant', 'Café', 'Diner'],
+    eras: SINCE_INDUSTRIAL
+  },
+  {
+    id: 'servant', title: 'Servant', category: 'service',
+    synonyms: ['maid', 'butler', 'housekeeper', 'footman', 'valet', 'nanny', 'governess'],
+    typicalSkills: ['Discretion', 'Household management', 'Etiquette'],
+    typicalSettings: ['Manor house', 'Kitchen', 'Servants quarters'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'politician', title: 'Politician', category: 'government',
+    synonyms: ['senator', 'mayor', 'councillor', 'councilor', 'congressman', 'congresswoman', 'diplomat'],
+    typicalSkills: ['Public speaking', 'Negotiation', 'Persuasion', 'Networking'],
+    typicalSettings: ['Parliament', 'Campaign trail', 'Government office'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'spy', title: 'Spy', category: 'government',
+    synonyms: ['secret agent', 'intelligence officer', 'operative', 'informant'],
+    typicalSkills: ['Espionage', 'Disguise', 'Deception', 'Languages'],
+    typicalSettings: ['Safe house', 'Embassy', 'Foreign city'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'royalty', title: 'Royalty', category: 'government',
+    synonyms: ['king', 'queen', 'prince', 'princess', 'emperor', 'empress', 'nobleman', 'noblewoman', 'duke', 'duchess'],
+    typicalSkills: ['Diplomacy', 'Etiquette', 'Statecraft'],
+    typicalSettings: ['Palace', 'Throne room', 'Court'],
+    eras: ALL_ERAS
+  },
+
+  // Religion and magic
+  {
+    id: 'priest', title: 'Priest', category: 'religion',
+    synonyms: ['pastor', 'vicar', 'minister', 'reverend', 'rabbi', 'imam', 'monk', 'nun', 'cleric', 'chaplain'],
+    typicalSkills: ['Counseling', 'Theology', 'Public speaking', 'Ritual'],
+    typicalSettings: ['Church', 'Temple', 'Monastery'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'wizard', title: 'Wizard', category: 'religion',
+    synonyms: ['mage', 'sorcerer', 'sorceress', 'witch', 'warlock', 'magician', 'shaman', 'druid'],
+    typicalSkills: ['Spellcasting', 'Arcane lore', 'Ritual'],
+    typicalSettings: ['Tower', 'Arcane library', 'Hidden grove'],
+    eras: ALL_ERAS
+  },
+
+  // Crime, sports and students
+  {
+    id: 'thief', title: 'Thief', category: 'criminal',
+    synonyms: ['burglar', 'pickpocket', 'cat burglar', 'con artist', 'smuggler'],
+    typicalSkills: ['Lockpicking', 'Stealth', 'Sleight of hand', 'Deception'],
+    typicalSettings: ['Back alleys', 'Rooftops', 'Hideout'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'assassin', title: 'Assassin', category: 'criminal',
+    synonyms: ['hitman', 'hired killer', 'contract killer'],
+    typicalSkills: ['Stealth', 'Combat', 'Poisons', 'Patience'],
+    typicalSettings: ['Shadows', 'Rooftops', 'Safe house'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'athlete', title: 'Athlete', category: 'sports',
+    synonyms: ['footballer', 'boxer', 'swimmer', 'sportsman', 'sportswoman', 'coach'],
+    typicalSkills: ['Physical fitness', 'Discipline', 'Competitiveness'],
+    typicalSettings: ['Stadium', 'Gym', 'Training ground'],
+    eras: ALL_ERAS
+  },
+  {
+    id: 'student', title: 'Student', category: 'student',
+    synonyms: ['pupil', 'undergraduate', 'graduate student', 'apprentice', 'schoolboy', 'schoolgirl'],
+    typicalSkills: ['Studying', 'Note-taking', 'Adaptability'],
+    typicalSettings: ['Classroom', 'Dormitory', 'Library'],
+    eras: ALL_ERAS
+  }
+];
+
+// ==================== MATCHING ====================
+
+// Phrases after which a job title is very likely to follow, allowing two adjectives ("is a hard boiled detective")
+const OCCUPATION_CUES = /\b(?:works? as|worked as|job as|career as|trained as|employed as|serves as|is an?|was an?|as an?|former|retired|aspiring)(?:\s+[a-z']+){0,2}$/;
+
+// Another person's job: "her father, a blacksmith"
+const OTHER_PERSON_CUES = /\b(?:his|her|their|my|whose)\s+(?:father|mother|dad|mom|brother|sister|husband|wife|partner|son|daughter|friend|boss|uncle|aunt)\b/;
+
+// Lowest similarity accepted for a fuzzy (misspelled) match
+const FUZZY_THRESHOLD = 0.8;
+
+interface TermIndexEntry {
+  entry: OccupationEntry;
+  tokens: string[];
+  isTitle: boolean;
+}
+
+/**
+ * Occupation lookup over an extensible taxonomy; register() adds project-specific jobs
+ */
+export class OccupationTaxonomy {
+  private entries: OccupationEntry[] = [];
+  private terms: TermIndexEntry[] = [];
+
+  constructor(entries: OccupationEntry[] = OCCUPATION_TAXONOMY) {
+    entries.forEach((entry) => this.register(entry));
+  }
+
+  register(entry: OccupationEntry): void {
+    this.entries = [...this.entries.filter((existing) => existing.id !== entry.id), entry];
+    this.terms = [
+      ...this.terms.filter((term) => term.entry.id !== entry.id),
+      { entry, tokens: tokenize(entry.title), isTitle: true },
+      ...entry.synonyms.map((synonym) => ({ entry, tokens: tokenize(synonym), isTitle: false }))
+    ];
+  }
+
+  list(): OccupationEntry[] {
+    return [...this.entries];
+  }
+
+  get(id: string): OccupationEntry | undefined {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  /**
+   * Find the occupation a description most likely gives its subject.
+   * Longer phrases beat shorter ones, so "teaching assistant" is not read as "teacher".
+   */
+  match(description: string, era: OccupationEra | undefined = detectEra(description)): OccupationMatch | undefined {
+    const tokens = tokenize(description);
+    let best: { entry: OccupationEntry; start: number; length: number; matchType: OccupationMatch['matchType']; score: number; similarity: number; cued: boolean } | undefined;
+
+    const consider = (entry: OccupationEntry, start: number, length: number, matchType: OccupationMatch['matchType'], similarity: number) => {
+      const before = tokens.slice(Math.max(0, start - 4), start).join(' ');
+      const cued = OCCUPATION_CUES.test(before);
+      let score = length * 10 + (cued ? 5 : 0) + (matchType === 'fuzzy' ? -4 : 0) - start * 0.01;
+      if (OTHER_PERSON_CUES.test(before)) score -= 8;
+      if (era && !entry.eras.includes(era)) score -= 3;
+      if (!best || score > best.score) {
+        best = { entry, start, length, matchType, score, similarity, cued };
+      }
+    };
+
+    for (const term of this.terms) {
+      for (let start = 0; start + term.tokens.length <= tokens.length; start++) {
+        if (term.tokens.every((token, offset) => sameWord(tokens[start + offset], token))) {
+          consider(term.entry, start, term.tokens.length, term.isTitle ? 'title' : 'synonym', 1);
+        }
+      }
+    }
+
+    // Misspellings are only trusted right after an occupation cue ("works as a detectve")
+    if (!best) {
+      tokens.forEach((_, index) => {
+        if (!OCCUPATION_CUES.test(tokens.slice(Math.max(0, index - 4), index).join(' '))) return;
+        for (const term of this.terms) {
+          const candidate = tokens.slice(index, index + term.tokens.length).join(' ');
+          const target = term.tokens.join(' ');
+          if (candidate.length < 5) continue;
+          const score = similarity(candidate, target);
+          if (score >= FUZZY_THRESHOLD) consider(term.entry, index, term.tokens.length, 'fuzzy', score);
+        }
+      });
+    }
+
+    if (!best) return undefined;
+
+    const baseConfidence = best.matchType === 'fuzzy' ? 0.7 * best.similarity : best.matchType === 'title' ? 0.9 : 0.85;
+    const confidence = best.cued ? baseConfidence : baseConfidence - 0.15;
+    return {
+      occupation: best.entry,
+      matchedText: tokens.slice(best.start, best.start + best.length).join(' '),
+      matchType: best.matchType,
+      confidence: Math.round(confidence * 100) / 100,
+      era,
+      eraAvailable: !era || best.entry.eras.includes(era)
+    };
+  }
+}
+
+/**
+ * Rough story era from period words or explicit years in a description
+ */
+export function detectEra(description: string): OccupationEra | undefined {
+  if (/\b(?:futuristic|space station|starship|cyberpunk|android|year 2[1-9]\d\d|colony ship)\b/i.test(description)) return 'future';
+  if (/\b(?:medieval|middle ages|feudal|castle|knight)\b/i.test(description)) return 'medieval';
+  if (/\b(?:ancient|roman empire|pharaoh|bronze age|classical greece)\b/i.test(description)) return 'ancient';
+  if (/\b(?:victorian|edwardian|industrial revolution|steam age)\b/i.test(description)) return 'industrial';
+  if (/\b(?:renaissance|elizabethan|tudor|baroque)\b/i.test(description)) return 'early-modern';
+
+  const year = description.match(/\b(?:in|during|circa|around)\s+(?:the\s+)?(1\d{3}|2\d{3})s?\b/i);
+  if (!year) return undefined;
+  const value = parseInt(year[1], 10);
+  if (value < 1500) return 'medieval';
+  if (value < 1760) return 'early-modern';
+  if (value < 1900) return 'industrial';
+  if (value < 2100) return 'modern';
+  return 'future';
+}
+
+// ==================== HELPERS ====================
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[’']/g, "'").split(/[^\p{L}']+/u).map((token) => token.replace(/^'+|'+$/g, '')).filter(Boolean);
+}
+
+function sameWord(word: string | undefined, term: string): boolean {
+  if (!word) return false;
+  return word === term || word === `${term}s` || word === `${term}es` || (term.endsWith('man') && word === `${term.slice(0, -3)}men`);
+}
+
+/**
+ * Normalized Levenshtein similarity, 1 for identical strings
+ */
+function similarity(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length, 1);
+}
@@ -0,0 +1,590 @@
+// Performance Director - Derives a PerformanceInstructionSet from a character, a scene and their lines
+// Every instruction carries a justification naming the trait, mannerism or stress response it comes from
+
+import {
+  ActionInstruction,
+  AudioInstruction,
+  CharacterRelationship,
+  CharacterState,
+  DialogueInstruction,
+  EmotionalState,
+  PerformanceInstructionSet,
+  PhysicalState,
+  RelationshipType,
+  SceneContext,
+  UnifiedCharacterOntology,
+  VisualInstruction
+} from '../types/character-types';
+import { EmotionDynamicsEngine, EventAppraisal, StoryEvent, inferValence } from './emotion-dynamics';
+import { EpisodicMemory } from './episodic-memory';
+
+// ==================== CORE TYPES ====================
+
+export interface DirectedLine {
+  text: string;
+  parenthetical?: string; // Screenplay direction such as "(whispering)", which overrides the derived tone
+  addressee?: string; // Name of the character spoken to
+}
+
+export type JustificationSource =
+  | 'trait'
+  | 'mannerism'
+  | 'habit'
+  | 'stress_response'
+  | 'voice'
+  | 'emotion'
+  | 'motivation'
+  | 'relationship'
+  | 'memory'
+  | 'scene'
+  | 'style';
+
+export interface PerformanceJustification {
+  field: string; // Path into the instruction set, e.g. "dialogue[0].pace"
+  source: JustificationSource;
+  basis: string; // The ontology value or scene detail relied on
+  reason: string;
+}
+
+export interface DirectedPerformance {
+  instructions: PerformanceInstructionSet;
+  justifications: PerformanceJustification[];
+  state: CharacterState; // Emotional state the character enters the scene with
+}
+
+export interface DirectorOptions {
+  events?: StoryEvent[]; // Earlier story events, appraised before the scene's own previousEvents
+  memories?: EpisodicMemory[]; // What the scene brings back to mind; recalled first, fainter than when lived
+  initialState?: Partial<CharacterState>;
+  cast?: UnifiedCharacterOntology[]; // Resolves otherCharacters and addressees to relationships
+  wordsPerMinute?: number; // Base speaking rate for audio timing, default 150
+}
+
+// ==================== CONSTANTS ====================
+
+const STRESSED = 55; // Matches the emotion engine's coping threshold
+const RECALL_INTENSITY = 0.6; // A memory stirs less than the event did
+
+// Valence of common scene moods, for moods the emotion lexicon has no words for
+const MOOD_VALENCE: Record<string, number> = {
+  tense: -0.5, somber: -0.6, sombre: -0.6, sad: -0.6, grim: -0.6, menacing: -0.7, dangerous: -0.7,
+  hostile: -0.7, desperate: -0.7, eerie: -0.4, melancholy: -0.4, awkward: -0.3, urgent: -0.4,
+  joyful: 0.7, celebratory: 0.7, festive: 0.7, romantic: 0.5, playful: 0.5, warm: 0.4, hopeful: 0.5,
+  calm: 0.2, peaceful: 0.3, neutral: 0
+};
+
+const EMOTION_PERFORMANCE: Record<string, { face: string; manifestations: string[]; tone: string; paceShift: number; volumeShift: number }> = {
+  joy: { face: 'open smile reaching the eyes', manifestations: ['lifted chest', 'animated hands'], tone: 'bright', paceShift: 1, volumeShift: 1 },
+  pride: { face: 'composed half-smile', manifestations: ['raised chin', 'squared shoulders'], tone: 'assured', paceShift: 0, volumeShift: 1 },
+  gratitude: { face: 'softened eyes, warm smile', manifestations: ['leans toward others', 'hand to chest'], tone: 'warm', paceShift: -1, volumeShift: 0 },
+  hope: { face: 'raised brows, parted lips', manifestations: ['leaning forward', 'quickened breath'], tone: 'eager', paceShift: 1, volumeShift: 0 },
+  anger: { face: 'tight jaw, narrowed eyes', manifestations: ['clenched fists', 'flared nostrils'], tone: 'clipped', paceShift: 1, volumeShift: 1 },
+  fear: { face: 'widened eyes, tense mouth', manifestations: ['shallow breathing', 'guarded stance'], tone: 'strained', paceShift: 1, volumeShift: -1 },
+  shame: { face: 'downcast eyes, pressed lips', manifestations: ['shrinking posture', 'hands hidden'], tone: 'subdued', paceShift: -1, volumeShift: -1 },
+  sadness: { face: 'heavy lids, downturned mouth', manifestations: ['slumped shoulders', 'slow movements'], tone: 'heavy', paceShift: -1, volumeShift: -1 },
+  anxiety: { face: 'furrowed brow, darting eyes', manifestations: ['restless hands', 'shifting weight'], tone: 'hesitant', paceShift: 1, volumeShift: -1 },
+  compassion: { face: 'soft, attentive gaze', manifestations: ['open palms', 'leaning in'], tone: 'gentle', paceShift: -1, volumeShift: -1 },
+  contentment: { face: 'relaxed, neutral expression', manifestations: ['easy breathing', 'loose shoulders'], tone: 'even', paceShift: 0, volumeShift: 0 }
+};
+
+const PACE_SCALE = ['Slow', 'Measured', 'Moderate', 'Quick', 'Rapid'];
+const VOLUME_SCALE = ['whispered', 'quiet', 'conversational', 'projected', 'raised'];
+
+const EMPHASIS_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'is', 'are', 'was',
+  'were', 'be', 'it', 'this', 'that', 'i', 'you', 'he', 'she', 'we', 'they', 'me', 'my', 'your', 'do',
+  'have', 'has', 'just', 'so', 'what', 'there', 'here', 'its', "it's", "i'm", "you're", 'about'
+]);
+const REASSURANCE = /\b(?:fine|okay|ok|alright|all right|good|great|nothing|don't worry|no problem)\b/i;
+const NEGATIONS = new Set(['no', 'not', 'never', "don't", "won't", "can't", 'nothing', 'nobody', "didn't", "isn't"]);
+
+// ==================== DIRECTOR ====================
+
+/**
+ * Direct a character through one scene: appraise what happened before it, then derive how every line is played
+ */
+export function directPerformance(
+  character: UnifiedCharacterOntology,
+  sceneContext: SceneContext,
+  lines: Array<string | DirectedLine>,
+  options: DirectorOptions = {}
+): DirectedPerformance {
+  const director = new SceneDirection(character, sceneContext, options);
+  return director.run(lines.map((line) => typeof line === 'string' ? { text: line } : line));
+}
+
+class SceneDirection {
+  private justifications: PerformanceJustification[] = [];
+  private appraisals: EventAppraisal[] = [];
+  private state: CharacterState;
+  private intensity = 0;
+  private valence = 0;
+
+  constructor(
+    private character: UnifiedCharacterOntology,
+    private context: SceneContext,
+    private options: DirectorOptions
+  ) {}
+
+  run(lines: DirectedLine[]): DirectedPerformance {
+    this.appraiseLeadUp();
+    const emotionalState = this.deriveEmotionalState();
+    const physicalState = this.derivePhysicalState(emotionalState);
+    const motivations = this.deriveMotivations();
+    const objectives = this.deriveObjectives(motivations);
+    const actions = this.deriveActions(emotionalState);
+    const dialogue = lines.map((line, index) => this.directLine(line, index, emotionalState, objectives));
+
+    return {
+      instructions: {
+        characterId: this.character.id,
+        sceneContext: this.context,
+        emotionalState,
+        physicalState,
+        motivations,
+        objectives,
+        actions,
+        dialogue,
+        visualInstructions: this.deriveVisuals(emotionalState, physicalState),
+        audioInstructions: this.deriveAudio(dialogue)
+      },
+      justifications: this.justifications,
+      state: this.state
+    };
+  }
+
+  // ==================== EMOTION ====================
+
+  /**
+   * Earlier events, the scene's previousEvents and its mood all pass through the emotion engine in order
+   */
+  private appraiseLeadUp(): void {
+    const engine = new EmotionDynamicsEngine(this.character, { initialState: this.options.initialState });
+    const memories = [...(this.options.memories ?? [])].sort((a, b) => a.time - b.time);
+    memories.forEach((memory) => this.justify('emotionalState', 'memory', memory.description,
+      memory.participants.length > 0 ? `Remembered, with ${memory.participants.join(', ')}` : 'Remembered going into the scene'));
+    const events: StoryEvent[] = [
+      ...memories.map((memory) => ({
+        description: memory.description,
+        valence: memory.valence,
+        intensity: Math.round(memory.importance * RECALL_INTENSITY),
+        participants: memory.participants
+      })),
+      ...(this.options.events ?? []),
+      ...this.context.previousEvents.map((description) => ({ description })),
+      ...this.context.obstacles.map((description) => ({ description, valence: -0.4, intensity: 40, certainty: 0.6 }))
+    ];
+    if (this.context.mood) {
+      events.push({ description: `The mood is ${this.context.mood}`, valence: moodValence(this.context.mood), intensity: 35 });
+    }
+
+    let time = 0;
+    for (const event of events) {
+      time = event.time ?? time + 1;
+      const point = engine.apply({ ...event, time });
+      if (point.appraisal) this.appraisals.push(point.appraisal);
+    }
+    const last = engine.trajectory[engine.trajectory.length - 1];
+    this.state = last.state;
+    this.intensity = last.affect.intensity;
+    this.valence = last.affect.valence;
+  }
+
+  private deriveEmotionalState(): EmotionalState {
+    const primary = this.state.currentEmotion;
+    const triggers = unique(this.appraisals.flatMap((appraisal) => appraisal.triggeredBy));
+    const secondary = unique(this.appraisals.map((appraisal) => appraisal.emotion))
+      .filter((emotion) => emotion !== primary)
+      .slice(-2);
+    const stressed = this.state.stressLevel >= STRESSED;
+
+    this.justify('emotionalState.primary', 'emotion', primary,
+      this.appraisals.length > 0
+        ? `Appraised from ${this.appraisals.length} preceding events at stress ${this.state.stressLevel}`
+        : 'No preceding events, so the character starts at their baseline emotion');
+    triggers.forEach((trigger) =>
+      this.justify('emotionalState.triggers', 'emotion', trigger, 'The lead-up hits one of the character\'s emotional triggers'));
+
+    const manifestations = [...emotionPerformance(primary).manifestations];
+    if (stressed) {
+      this.character.behavioralPatterns.stressResponses.forEach((response) => {
+        manifestations.push(response);
+        this.justify('emotionalState.physicalManifestations', 'stress_response', response, `Stress is ${this.state.stressLevel}, above the coping threshold`);
+      });
+      this.character.behavioralPatterns.habitsAndQuirks
+        .filter((habit) => /nervous|stress|anxious|pressure/i.test(habit))
+        .forEach((habit) => {
+          manifestations.push(habit);
+          this.justify('emotionalState.physicalManifestations', 'habit', habit, 'A habit that surfaces under pressure');
+        });
+    }
+
+    return {
+      primary,
+      secondary,
+      intensity: this.intensity,
+      triggers,
+      physicalManifestations: unique(manifestations)
+    };
+  }
+
+  // ==================== BODY ====================
+
+  private derivePhysicalState(emotional: EmotionalState): PhysicalState {
+    const { extraversion, neuroticism, conscientiousness } = this.character.psychologicalProfile.oceanTraits;
+    const stressed = this.state.stressLevel >= STRESSED;
+    const withdrawn = ['shame', 'sadness', 'fear'].includes(emotional.primary);
+
+    const posture = withdrawn ? 'Closed and contracted, shoulders drawn in'
+      : stressed ? 'Rigid and braced'
+        : extraversion > 60 ? 'Open and expansive, taking up space'
+          : conscientiousness > 70 ? 'Upright and contained'
+            : 'Relaxed and neutral';
+    this.justify('physicalState.posture', withdrawn || stressed ? 'emotion' : 'trait',
+      withdrawn || stressed ? `${emotional.primary}, stress ${this.state.stressLevel}` : `extraversion ${extraversion}, conscientiousness ${conscientiousness}`,
+      'Posture follows the dominant feeling when it is strong, otherwise the temperament');
+
+    const gestures = [...this.character.behavioralPatterns.mannerisms];
+    this.character.behavioralPatterns.mannerisms.forEach((mannerism) =>
+      this.justify('physicalState.gestures', 'mannerism', mannerism, 'Signature mannerism carried into every scene'));
+    if (extraversion < 40) {
+      gestures.push('Small, economical gestures');
+      this.justify('physicalState.gestures', 'trait', `extraversion ${extraversion}`, 'Introverts keep gestures close to the body');
+    } else if (extraversion > 60) {
+      gestures.push('Broad, expressive hand movement');
+      this.justify('physicalState.gestures', 'trait', `extraversion ${extraversion}`, 'Extraverts gesture outward and often');
+    }
+
+    const avoidant = withdrawn || (extraversion < 35 && neuroticism > 55);
+    const eyeContact = avoidant ? 'Breaks eye contact often'
+      : emotional.primary === 'anger' ? 'Hard, sustained stare'
+        : extraversion > 60 ? 'Steady and direct'
+          : 'Intermittent, comfortable';
+    this.justify('physicalState.eyeContact', avoidant || emotional.primary === 'anger' ? 'emotion' : 'trait',
+      `${emotional.primary}, extraversion ${extraversion}`, 'Eye contact tracks confidence and the current feeling');
+
+    const movement = this.state.energyLevel < 35 ? 'Slow and heavy, conserving energy'
+      : emotional.intensity > 60 && this.valence < 0 ? 'Restless, with abrupt starts and stops'
+        : this.state.energyLevel > 70 ? 'Brisk and purposeful'
+          : 'Unhurried';
+    this.justify('physicalState.movement', 'emotion', `energy ${this.state.energyLevel}, intensity ${emotional.intensity}`,
+      'Movement speed follows energy; strong negative feeling makes it erratic');
+
+    const breathing = this.state.stressLevel >= 80 ? 'Fast and high in the chest'
+      : stressed ? 'Held and shallow'
+        : 'Low and even';
+    this.justify('physicalState.breathing', 'emotion', `stress ${this.state.stressLevel}`, 'Breathing is the first place stress shows');
+
+    const facialExpression = emotionPerformance(emotional.primary).face;
+    this.justify('physicalState.facialExpression', 'emotion', emotional.primary, `Intensity ${emotional.intensity}`);
+
+    return { posture, gestures: unique(gestures), facialExpression, eyeContact, movement, breathing };
+  }
+
+  // ==================== INTENT ====================
+
+  private deriveMotivations(): string[] {
+    const motivations = this.character.backstory.motivations;
+    const sceneWords = new Set(words([...this.context.objectives, ...this.context.obstacles, this.context.mood].join(' ')));
+    // Motivations that share words with the scene lead; the rest keep their archetype order
+    const ranked = [...motivations].sort((a, b) => overlap(b, sceneWords) - overlap(a, sceneWords));
+    const selected = ranked.slice(0, 3);
+    selected.forEach((motivation) =>
+      this.justify('motivations', 'motivation', motivation, overlap(motivation, sceneWords) > 0
+        ? 'Echoed by the scene\'s objectives or obstacles'
+        : `Core drive of the ${this.character.psychologicalProfile.archetypeProfile.primary} archetype`));
+    return selected;
+  }
+
+  private deriveObjectives(motivations: string[]): string[] {
+    if (this.context.objectives.length > 0) {
+      this.context.objectives.forEach((objective) =>
+        this.justify('objectives', 'scene', objective, 'Given by the scene'));
+      return [...this.context.objectives];
+    }
+    const derived = motivations.slice(0, 2);
+    derived.forEach((motivation) =>
+      this.justify('objectives', 'motivation', motivation, 'The scene sets no objective, so the character pursues a core motivation'));
+    return derived;
+  }
+
+  private deriveActions(emotional: EmotionalState): ActionInstruction[] {
+    const actions: ActionInstruction[] = [];
+    const add = (action: ActionInstruction, source: JustificationSource, basis: string) => {
+      this.justify(`actions[${actions.length}]`, source, basis, action.purpose);
+      actions.push(action);
+    };
+
+    add({
+      type: 'expression',
+      description: emotionPerformance(emotional.primary).face,
+      timing: 'entrance',
+      intensity: emotional.intensity,
+      purpose: `Shows the ${emotional.primary} the character carries into the scene`
+    }, 'emotion', emotional.primary);
+
+    this.character.behavioralPatterns.mannerisms.forEach((mannerism) => add({
+      type: 'gesture',
+      description: mannerism,
+      timing: 'throughout',
+      intensity: 40,
+      purpose: 'Keeps the character recognisable across scenes'
+    }, 'mannerism', mannerism));
+
+    if (this.state.stressLevel >= STRESSED) {
+      this.character.behavioralPatterns.stressResponses.forEach((response) => add({
+        type: 'movement',
+        description: response,
+        timing: 'when the obstacle is raised',
+        intensity: Math.min(100, this.state.stressLevel),
+        purpose: `How this character handles stress at level ${this.state.stressLevel}`
+      }, 'stress_response', response));
+    }
+
+    for (const name of this.context.otherCharacters) {
+      const relationship = this.relationshipWith(name);
+      if (!relationship) continue;
+      add({
+        type: 'interaction',
+        description: interactionFor(relationship.relationshipType, relationship.strength, name),
+        timing: `when ${name} is present`,
+        intensity: relationship.strength,
+        purpose: `${relationship.role ?? relationship.relationshipType} relationship${relationship.emotionalTone ? `, ${relationship.emotionalTone}` : ''}`
+      }, 'relationship', `${name}: ${relationship.relationshipType} (${relationship.strength})`);
+    }
+
+    return actions;
+  }
+
+  // ==================== DIALOGUE ====================
+
+  private directLine(line: DirectedLine, index: number, emotional: EmotionalState, objectives: string[]): DialogueInstruction {
+    const field = `dialogue[${index}]`;
+    const { voiceIdentity, psychologicalProfile } = this.character;
+    const performance = emotionPerformance(emotional.primary);
+    const strong = emotional.intensity >= 40;
+
+    const tone = line.parenthetical
+      ? line.parenthetical.replace(/[()]/g, '').trim()
+      : `${strong ? performance.tone : 'even'}, ${voiceIdentity.voiceType.toLowerCase()}`;
+    this.justify(`${field}.tone`, line.parenthetical ? 'scene' : 'voice', line.parenthetical ?? voiceIdentity.voiceType,
+      line.parenthetical ? 'The script\'s parenthetical takes precedence' : `Voice type coloured by ${emotional.primary} at ${emotional.intensity}`);
+
+    const knownPace = PACE_SCALE.findIndex((pace) => pace.toLowerCase() === voiceIdentity.pace.toLowerCase());
+    const basePace = knownPace >= 0 ? knownPace : 2;
+    const paceShift = strong ? performance.paceShift : 0;
+    const pace = PACE_SCALE[clampIndex(basePace + paceShift, PACE_SCALE.length)];
+    this.justify(`${field}.pace`, 'voice', voiceIdentity.pace, paceShift === 0
+      ? 'The character\'s natural pace'
+      : `${emotional.primary} pushes the pace ${paceShift > 0 ? 'faster' : 'slower'}`);
+
+    const extraversion = psychologicalProfile.oceanTraits.extraversion;
+    const baseVolume = extraversion > 65 ? 3 : extraversion < 35 ? 1 : 2;
+    const volume = VOLUME_SCALE[clampIndex(baseVolume + (strong ? performance.volumeShift : 0), VOLUME_SCALE.length)];
+    this.justify(`${field}.volume`, 'trait', `extraversion ${extraversion}`, `Baseline volume, adjusted for ${emotional.primary}`);
+
+    const emphasis = this.chooseEmphasis(line.text, emotional.primary, objectives);
+    if (emphasis.length > 0) {
+      this.justify(`${field}.emphasis`, this.character.voiceIdentity.speechPatterns[0] ? 'voice' : 'emotion',
+        this.character.voiceIdentity.speechPatterns[0] ?? emotional.primary,
+        'Stress falls on marked words, negations and the words that carry the objective');
+    }
+
+    const subtext = this.subtextFor(`${field}.subtext`, line, emotional, objectives);
+    return { text: line.text, tone, pace, volume, emphasis, subtext };
+  }
+
+  private chooseEmphasis(text: string, emotion: string, objectives: string[]): string[] {
+    const marked = [...text.matchAll(/\*+([^*]+)\*+|_([^_]+)_|\b([A-Z]{2,})\b/g)]
+      .map((match) => (match[1] ?? match[2] ?? match[3]).trim());
+    if (marked.length > 0) return unique(marked);
+
+    const tokens = text.match(/[A-Za-z']+/g) ?? [];
+    const objectiveWords = new Set(words(objectives.join(' ')));
+    const picked = tokens.filter((token) => objectiveWords.has(token.toLowerCase()));
+    if (emotion === 'anger' || emotion === 'fear') {
+      picked.push(...tokens.filter((token) => NEGATIONS.has(token.toLowerCase())));
+    }
+    if (this.character.voiceIdentity.speechPatterns.includes('Decisive statements') && tokens.length > 0) {
+      picked.push(tokens[tokens.length - 1]); // Lands the end of the sentence
+    }
+    if (picked.length === 0) {
+      const content = tokens.filter((token) => !EMPHASIS_STOPWORDS.has(token.toLowerCase()));
+      const longest = content.sort((a, b) => b.length - a.length)[0];
+      if (longest) picked.push(longest);
+    }
+    return unique(picked).slice(0, 3);
+  }
+
+  private subtextFor(field: string, line: DirectedLine, emotional: EmotionalState, objectives: string[]): string {
+    const lineValence = REASSURANCE.test(line.text) ? Math.max(0.5, inferValence(line.text)) : inferValence(line.text);
+    const feeling = emotional.primary;
+    const objective = objectives[0] ? lowerFirst(objectives[0]) : 'keep their footing';
+
+    // Words that say the opposite of what the character feels are the classic mask
+    if (this.valence < -0.2 && lineValence > 0) {
+      this.justify(field, 'emotion', feeling, 'Positive words over a negative feeling read as masking');
+      return `Masks ${feeling} behind the words; really wants to ${objective}`;
+    }
+    if (emotional.triggers.length > 0) {
+      this.justify(field, 'emotion', emotional.triggers[0], 'A trigger is live in this scene');
+      return `Guarding against ${lowerFirst(emotional.triggers[0])} while trying to ${objective}`;
+    }
+    const shared = line.addressee && (this.options.memories ?? []).find((memory) =>
+      Math.abs(memory.valence) >= 0.3 && memory.participants.some((name) => sameName(name, line.addressee)));
+    if (shared) {
+      this.justify(field, 'memory', shared.description, `Shared history with ${line.addressee}`);
+      return `Remembers: ${firstClause(shared.description)}; wants to ${objective}`;
+    }
+    const addressee = line.addressee && this.relationshipWith(line.addressee);
+    if (addressee) {
+      this.justify(field, 'relationship', `${line.addressee}: ${addressee.relationshipType}`, addressee.currentStatus || addressee.description);
+      return `With ${line.addressee} (${addressee.role ?? addressee.relationshipType.replace('_', '/')}): wants to ${objective}`;
+    }
+    return `Wants to ${objective}`;
+  }
+
+  // ==================== MEDIA ====================
+
+  private deriveVisuals(emotional: EmotionalState, physical: PhysicalState): VisualInstruction[] {
+    const { styleProfile } = this.character.visualIdentity;
+    const visuals: VisualInstruction[] = [
+      {
+        type: 'expression',
+        parameters: { emotion: emotional.primary, intensity: emotional.intensity, description: physical.facialExpression },
+        priority: 1
+      },
+      {
+        type: 'pose',
+        parameters: { posture: physical.posture, gestures: physical.gestures, eyeContact: physical.eyeContact },
+        priority: 2
+      },
+      {
+        type: 'costume',
+        parameters: { style: styleProfile.fashionStyle, palette: styleProfile.colorPalette, accessories: styleProfile.accessories, weather: this.context.weather },
+        priority: 3
+      },
+      {
+        type: 'lighting',
+        parameters: { timeOfDay: this.context.timeOfDay, mood: this.context.mood, key: this.valence < 0 ? 'low-key, hard shadows' : 'soft, high-key' },
+        priority: 4
+      },
+      {
+        type: 'camera',
+        parameters: {
+          framing: emotional.intensity >= 70 ? 'close-up' : emotional.intensity >= 40 ? 'medium close-up' : 'medium',
+          movement: this.state.stressLevel >= STRESSED ? 'handheld' : 'locked off'
+        },
+        priority: 5
+      }
+    ];
+    this.justify('visualInstructions.costume', 'style', styleProfile.fashionStyle, 'Costume follows the character\'s style profile');
+    this.justify('visualInstructions.camera', 'emotion', `intensity ${emotional.intensity}`, 'Stronger feeling earns a tighter frame');
+    this.justify('visualInstructions.lighting', 'scene', `${this.context.timeOfDay}, ${this.context.mood}`, 'Lighting key follows the scene mood');
+    return visuals;
+  }
+
+  private deriveAudio(dialogue: DialogueInstruction[]): AudioInstruction[] {
+    const { voiceIdentity } = this.character;
+    const baseRate = this.options.wordsPerMinute ?? 150;
+    const audio: AudioInstruction[] = [];
+
+    if (this.context.location || this.context.weather) {
+      audio.push({ type: 'ambience', parameters: { location: this.context.location, weather: this.context.weather }, timing: 0 });
+    }
+    if (this.context.mood) {
+      audio.push({ type: 'music', parameters: { mood: this.context.mood, energy: this.state.energyLevel }, timing: 0 });
+    }
+
+    let timing = 0;
+    dialogue.forEach((line, index) => {
+      const rate = baseRate * (1 + (PACE_SCALE.indexOf(line.pace) - 2) * 0.12);
+      const duration = Math.round(((line.text.split(/\s+/).filter(Boolean).length / rate) * 60) * 10) / 10;
+      audio.push({
+        type: 'dialogue',
+        parameters: {
+          lineIndex: index,
+          text: line.text,
+          voiceDNA: voiceIdentity.voiceDNA,
+          voiceType: voiceIdentity.voiceType,
+          pitch: voiceIdentity.pitch,
+          accent: voiceIdentity.accent,
+          pace: line.pace,
+          volume: line.volume,
+          tone: line.tone,
+          emphasis: line.emphasis,
+          duration
+        },
+        timing
+      });
+      timing = Math.round((timing + duration + 0.5) * 10) / 10; // Half a second between lines
+    });
+    this.justify('audioInstructions.dialogue', 'voice', `${voiceIdentity.voiceType}, ${voiceIdentity.pitch} pitch, ${voiceIdentity.accent}`,
+      'Every line uses the character\'s voice identity and the pace chosen for it');
+    return audio;
+  }
+
+  // ==================== HELPERS ====================
+
+  private relationshipWith(name: string): CharacterRelationship | undefined {
+    const target = this.options.cast?.find((member) => sameName(member.coreIdentity.name, name));
+    if (!target) return undefined;
+    return this.character.relationships.find((relationship) => relationship.targetCharacterId === target.id);
+  }
+
+  private justify(field: string, source: JustificationSource, basis: string, reason: string): void {
+    this.justifications.push({ field, source, basis, reason });
+  }
+}
+
+function interactionFor(type: RelationshipType, strength: number, name: string): string {
+  const close = strength >= 60;
+  switch (type) {
+    case RelationshipType.FAMILY: return close ? `Easy physical familiarity with ${name}` : `Guarded familiarity with ${name}`;
+    case RelationshipType.ROMANTIC: return close ? `Drifts toward ${name}, lingering touch` : `Aware of ${name}, stealing glances`;
+    case RelationshipType.FRIENDSHIP: return `Relaxed, open body language toward ${name}`;
+    case RelationshipType.PROFESSIONAL: return `Keeps a courteous distance from ${name}`;
+    case RelationshipType.ANTAGONISTIC: return close ? `Squares up to ${name}, never turns their back` : `Cool, dismissive toward ${name}`;
+    case RelationshipType.MENTOR_MENTEE: return `Attentive to ${name}, watching for approval or correction`;
+    default: return `Polite acknowledgement of ${name}`;
+  }
+}
+
+function emotionPerformance(emotion: string) {
+  return EMOTION_PERFORMANCE[emotion] ?? EMOTION_PERFORMANCE.contentment;
+}
+
+function moodValence(mood: string): number {
+  const known = words(mood).map((word) => MOOD_VALENCE[word]).filter((value) => value !== undefined);
+  if (known.length > 0) return known.reduce((sum, value) => sum + value, 0) / known.length;
+  return inferValence(mood);
+}
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z']+/g) ?? []).filter((word) => word.length > 3 && !EMPHASIS_STOPWORDS.has(word));
+}
+
+function overlap(text: string, vocabulary: Set<string>): number {
+  return words(text).filter((word) => vocabulary.has(word)).length;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
+
+function clampIndex(index: number, length: number): number {
+  return Math.min(length - 1, Math.max(0, index));
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+// Scripts often call a character by first name only
+function sameName(fullName: string, name: string): boolean {
+  return fullName.toLowerCase() === name.toLowerCase() || fullName.split(/\s+/)[0].toLowerCase() === name.toLowerCase();
+}
+
+function firstClause(text: string): string {
+  return text.split(/[.;!?]/)[0].trim();
+}
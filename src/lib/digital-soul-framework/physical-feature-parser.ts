@@ -0,0 +1,351 @@
+// Physical Feature Parser - Structured appearance from free text
+// Stated features come from the description; anything unmentioned is inferred from a seeded source and marked as such
+
+import { FeatureProvenance, PhysicalFeatureField, UnifiedCharacterOntology } from '../types/character-types';
+import { RandomSource } from './seeded-random';
+
+export type PhysicalFeatures = UnifiedCharacterOntology['visualIdentity']['physicalFeatures'];
+
+export interface ParsedPhysicalFeatures {
+  height?: string;
+  heightCm?: number; // Only when the text gives a measurement
+  build?: string;
+  hairColor?: string;
+  eyeColor?: string;
+  skinTone?: string;
+  distinctiveFeatures: string[];
+}
+
+export interface FeatureInferenceContext {
+  gender?: string;
+  age?: number;
+  occupationCategory?: string;
+}
+
+export const PHYSICAL_FEATURE_FIELDS: PhysicalFeatureField[] = ['height', 'build', 'hairColor', 'eyeColor', 'skinTone'];
+
+// ==================== VOCABULARY ====================
+
+// Canonical value -> words that mean it; first match in the text wins
+const HEIGHT_SYNONYMS: Record<string, string[]> = {
+  'Very tall': ['very tall', 'towering', 'giant', 'gigantic', 'six and a half feet', 'seven feet'],
+  'Tall': ['tall', 'lanky', 'long-legged', 'statuesque', 'lofty', 'rangy'],
+  'Very short': ['very short', 'tiny', 'diminutive', 'minuscule'],
+  'Short': ['short', 'petite', 'pint-sized', 'compact'],
+  'Average': ['average height', 'medium height', 'average-height', 'medium-height', 'middling height']
+};
+
+const BUILD_SYNONYMS: Record<string, string[]> = {
+  'Muscular': ['muscular', 'brawny', 'burly', 'buff', 'ripped', 'strapping', 'hulking', 'powerfully built'],
+  'Athletic': ['athletic', 'fit', 'toned', 'sporty', 'lithe'],
+  'Slim': ['slim', 'slender', 'thin', 'skinny', 'wiry', 'lean', 'willowy', 'lanky', 'gaunt', 'scrawny', 'bony'],
+  'Stocky': ['stocky', 'thickset', 'heavyset', 'broad-shouldered', 'barrel-chested', 'squat', 'sturdy'],
+  'Heavy': ['heavy', 'overweight', 'plump', 'portly', 'stout', 'chubby', 'rotund', 'fat', 'pudgy', 'curvy'],
+  'Average': ['average build', 'medium build', 'average-build']
+};
+
+const HAIR_COLORS: Record<string, string[]> = {
+  'Strawberry blonde': ['strawberry blonde', 'strawberry blond'],
+  'Platinum blonde': ['platinum', 'platinum blonde', 'bleached'],
+  'Blonde': ['blonde', 'blond', 'golden', 'flaxen', 'fair', 'sandy', 'honey'],
+  'Red': ['red', 'ginger', 'auburn', 'copper', 'fiery', 'crimson', 'scarlet'],
+  'Black': ['black', 'jet-black', 'jet black', 'raven', 'ebony', 'inky'],
+  'Dark brown': ['dark brown', 'dark'],
+  'Brown': ['brown', 'brunette', 'chestnut', 'mousy', 'mousey', 'light brown', 'hazel'],
+  'Salt-and-pepper': ['salt-and-pepper', 'salt and pepper', 'greying', 'graying'],
+  'Gray': ['gray', 'grey', 'silver', 'silvery', 'ashen'],
+  'White': ['white', 'snow-white', 'snowy'],
+  'Blue': ['blue'],
+  'Pink': ['pink'],
+  'Green': ['green'],
+  'Purple': ['purple', 'violet', 'lilac']
+};
+
+// Nouns that name a hair color on their own ("a redhead")
+const HAIR_NOUNS: Record<string, string> = {
+  redhead: 'Red',
+  ginger: 'Red',
+  brunette: 'Brown',
+  blonde: 'Blonde',
+  blond: 'Blonde'
+};
+
+const EYE_COLORS: Record<string, string[]> = {
+  'Blue': ['blue', 'ice-blue', 'sky-blue', 'sapphire', 'azure', 'cerulean'],
+  'Green': ['green', 'emerald', 'jade'],
+  'Hazel': ['hazel'],
+  'Gray': ['gray', 'grey', 'steel-gray', 'steel-grey', 'silver', 'stormy'],
+  'Amber': ['amber', 'golden', 'honey'],
+  'Dark brown': ['dark brown', 'dark', 'black', 'onyx'],
+  'Brown': ['brown', 'chocolate', 'chestnut', 'hazelnut'],
+  'Violet': ['violet', 'purple']
+};
+
+const SKIN_TONES: Record<string, string[]> = {
+  'Pale': ['pale', 'pallid', 'porcelain', 'alabaster', 'ivory', 'milky', 'ghostly'],
+  'Fair': ['fair', 'light', 'rosy', 'freckled'],
+  'Olive': ['olive'],
+  'Tan': ['tan', 'tanned', 'sun-kissed', 'sunburnt', 'weathered', 'bronzed', 'golden'],
+  'Brown': ['brown', 'caramel', 'copper', 'bronze'],
+  'Dark': ['dark', 'deep brown', 'ebony', 'black']
+};
+
+const DISTINCTIVE_FEATURES = [
+  'scars?', 'tattoos?', 'freckles', 'birthmark', 'piercings?', 'glasses', 'spectacles', 'monocle', 'eye ?patch',
+  'beard', 'goatee', 'mustache', 'moustache', 'stubble', 'sideburns', 'dimples', 'limp', 'cane',
+  'prosthetic (?:arm|leg|hand|eye)', 'missing (?:tooth|finger|eye|ear)', 'gap-toothed smile', 'wrinkles',
+  'braces', 'hearing aid', 'wheelchair', 'dreadlocks', 'braids?', 'mohawk', 'ponytail'
+];
+
+// Words after which a height or build adjective is about something else: "short temper", "thin smile", "fit in"
+const FALSE_FRIENDS = '(?![\\s-]+(?:hair|haired|temper|tempered|fuse|of|term|story|stories|notice|while|sighted|lived|tale|tales|' +
+  'voice|smile|lips|patience|in|into|heart|drinker|sigh|accent|on|against|ice|air|line|chance))';
+
+const HAIR_WORDS = '(?:hair(?:ed)?|locks|curls|mane|braids?|ponytail|bob|beard|tresses)';
+const EYE_WORDS = '(?:eyes?|eyed|gaze|irises)';
+const SKIN_WORDS = '(?:skin(?:ned)?|complexion|complexioned)';
+
+// ==================== PARSING ====================
+
+/**
+ * Read stated physical features from a description; fields the text does not mention stay undefined
+ */
+export function parsePhysicalFeatures(description: string): ParsedPhysicalFeatures {
+  const heightCm = parseHeightMeasurement(description);
+
+  return {
+    height: heightCm !== undefined ? describeHeight(heightCm) : findSynonym(description, HEIGHT_SYNONYMS),
+    heightCm,
+    build: findSynonym(description, BUILD_SYNONYMS),
+    hairColor: findHairColor(description),
+    eyeColor: findQualifiedColor(description, EYE_COLORS, EYE_WORDS),
+    skinTone: findQualifiedColor(description, SKIN_TONES, SKIN_WORDS),
+    distinctiveFeatures: findDistinctiveFeatures(description)
+  };
+}
+
+/**
+ * Height in centimetres from 6'2", 6 ft 2 in, 188 cm, 1.88 m or a "between 5'8" and 5'10"" range (midpoint)
+ */
+export function parseHeightMeasurement(description: string): number | undefined {
+  const single = `(\\d)\\s*(?:'|’|ft|feet|foot)\\s*(?:(\\d{1,2})\\s*(?:"|”|''|in(?:ches)?)?)?`;
+  const metric = '(\\d(?:\\.\\d{1,2})?)\\s*m\\b|(\\d{3})\\s*cm\\b';
+
+  const range = description.match(new RegExp(`between\\s+${single}\\s+and\\s+${single}`, 'i'));
+  if (range) {
+    const low = toCentimetres(range[1], range[2]);
+    const high = toCentimetres(range[3], range[4]);
+    return Math.round((low + high) / 2);
+  }
+
+  const metricRange = description.match(/\b(\d{3})\s*(?:-|–|to)\s*(\d{3})\s*cm\b/i);
+  if (metricRange) {
+    return Math.round((parseInt(metricRange[1], 10) + parseInt(metricRange[2], 10)) / 2);
+  }
+
+  const imperial = description.match(new RegExp(`\\b${single}(?=[\\s,.;)]|$)`, 'i'));
+  if (imperial) return toCentimetres(imperial[1], imperial[2]);
+
+  const metricMatch = description.match(new RegExp(`\\b(?:${metric})`, 'i'));
+  if (metricMatch) {
+    const centimetres = metricMatch[2] ? parseInt(metricMatch[2], 10) : Math.round(parseFloat(metricMatch[1]) * 100);
+    if (centimetres >= 50 && centimetres <= 250) return centimetres;
+  }
+
+  return undefined;
+}
+
+function toCentimetres(feet: string, inches?: string): number {
+  return Math.round((parseInt(feet, 10) * 12 + (inches ? parseInt(inches, 10) : 0)) * 2.54);
+}
+
+function describeHeight(centimetres: number): string {
+  const category =
+    centimetres < 152 ? 'Very short' :
+    centimetres < 165 ? 'Short' :
+    centimetres < 180 ? 'Average' :
+    centimetres < 193 ? 'Tall' : 'Very tall';
+  return `${category} (${centimetres} cm)`;
+}
+
+function findSynonym(description: string, synonyms: Record<string, string[]>): string | undefined {
+  const text = description.toLowerCase();
+  let best: { value: string; index: number; length: number } | undefined;
+
+  for (const [value, words] of Object.entries(synonyms)) {
+    for (const word of words) {
+      const index = text.search(new RegExp(`\\b${escapeRegExp(word)}\\b${FALSE_FRIENDS}`));
+      // Earliest mention wins; at the same position the longer phrase ("very tall" over "tall") wins
+      if (index !== -1 && (!best || index < best.index || (index === best.index && word.length > best.length))) {
+        best = { value, index, length: word.length };
+      }
+    }
+  }
+  return best?.value;
+}
+
+/**
+ * A color word that qualifies a feature noun within two words: "green eyes", "eyes of deep green", "olive-skinned"
+ */
+function findQualifiedColor(description: string, colors: Record<string, string[]>, featureWords: string): string | undefined {
+  const text = description.toLowerCase();
+  let best: { value: string; index: number; length: number } | undefined;
+
+  for (const [value, words] of Object.entries(colors)) {
+    for (const word of words) {
+      const color = escapeRegExp(word);
+      const patterns = [
+        new RegExp(`\\b${color}(?:[\\s-]+[a-z]+)?[\\s-]+${featureWords}\\b`),
+        new RegExp(`\\b${featureWords}\\s+(?:(?:of|are|were|is|was|so)\\s+)?(?:[a-z]+\\s+)?${color}\\b`)
+      ];
+      for (const pattern of patterns) {
+        const match = pattern.exec(text);
+        if (match && (!best || match.index < best.index || (match.index === best.index && word.length > best.length))) {
+          best = { value, index: match.index, length: word.length };
+        }
+      }
+    }
+  }
+  return best?.value;
+}
+
+function findHairColor(description: string): string | undefined {
+  if (/\b(?:bald|shaved head|shaven head|hairless)\b/i.test(description)) return 'Bald';
+
+  const qualified = findQualifiedColor(description, HAIR_COLORS, HAIR_WORDS);
+  if (qualified) return qualified;
+
+  const noun = description.toLowerCase().match(new RegExp(`\\b(${Object.keys(HAIR_NOUNS).join('|')})\\b`));
+  return noun ? HAIR_NOUNS[noun[1]] : undefined;
+}
+
+function findDistinctiveFeatures(description: string): string[] {
+  const pattern = new RegExp(
+    `(?:\\b[a-z-]+\\s+)?\\b(?:${DISTINCTIVE_FEATURES.join('|')})\\b(?:\\s+(?:on|across|over|along|down|under|above|around|covering|through)\\s+(?:(?:his|her|their|the|a|one)\\s+)?[a-z-]+(?:\\s+[a-z-]+)?)?`,
+    'gi'
+  );
+  const features = (description.match(pattern) ?? [])
+    .map((feature) => feature.trim().replace(/^(?:a|an|the|his|her|their|with|and|has)\s+/i, ''))
+    .map((feature) => feature.charAt(0).toUpperCase() + feature.slice(1));
+  return Array.from(new Set(features));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ==================== INFERENCE ====================
+
+/**
+ * Fill unmentioned features with plausible values for the character and record which ones were inferred.
+ * Only inferred fields consume randomness, so re-rolling never overwrites what the text stated.
+ */
+export function completePhysicalFeatures(
+  parsed: ParsedPhysicalFeatures,
+  random: RandomSource,
+  context: FeatureInferenceContext = {}
+): PhysicalFeatures {
+  const provenance: Partial<Record<PhysicalFeatureField, FeatureProvenance>> = {};
+  const resolve = (field: PhysicalFeatureField, stated: string | undefined, infer: () => string): string => {
+    provenance[field] = stated ? 'stated' : 'inferred';
+    return stated ?? infer();
+  };
+
+  const height = resolve('height', parsed.height, () => inferHeight(random, context));
+  const build = resolve('build', parsed.build, () => inferBuild(random, context));
+  const hairColor = resolve('hairColor', parsed.hairColor, () => inferHairColor(random, context));
+  const skinTone = resolve('skinTone', parsed.skinTone, () => inferSkinTone(random, hairColor));
+  const eyeColor = resolve('eyeColor', parsed.eyeColor, () => inferEyeColor(random, hairColor, skinTone));
+
+  return {
+    height,
+    build,
+    hairColor,
+    eyeColor,
+    skinTone,
+    distinctiveFeatures: parsed.distinctiveFeatures,
+    provenance
+  };
+}
+
+/**
+ * Recover the stated subset of an existing character's features, e.g. before re-rolling the inferred ones
+ */
+export function statedPhysicalFeatures(features: PhysicalFeatures): ParsedPhysicalFeatures {
+  const stated = (field: PhysicalFeatureField) =>
+    features.provenance?.[field] === 'inferred' ? undefined : features[field];
+  return {
+    height: stated('height'),
+    build: stated('build'),
+    hairColor: stated('hairColor'),
+    eyeColor: stated('eyeColor'),
+    skinTone: stated('skinTone'),
+    distinctiveFeatures: features.distinctiveFeatures
+  };
+}
+
+function weightedPick(random: RandomSource, weights: Record<string, number>): string {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random.next() * total;
+  for (const [value, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return value;
+  }
+  return entries[entries.length - 1][0];
+}
+
+function inferHeight(random: RandomSource, context: FeatureInferenceContext): string {
+  // Rough adult means with a triangular spread of about ±15 cm
+  const mean = context.gender === 'Female' ? 163 : context.gender === 'Male' ? 176 : 170;
+  const childScale = context.age !== undefined && context.age < 16 ? Math.max(0.5, 0.55 + context.age * 0.028) : 1;
+  const spread = (random.next() + random.next() - 1) * 15;
+  return describeHeight(Math.round((mean + spread) * childScale));
+}
+
+function inferBuild(random: RandomSource, context: FeatureInferenceContext): string {
+  const physical = ['military', 'trades', 'sports', 'agriculture', 'law-enforcement', 'maritime'].includes(context.occupationCategory ?? '');
+  const older = (context.age ?? 30) > 50;
+  return weightedPick(random, {
+    Slim: 25,
+    Average: 35,
+    Athletic: physical ? 30 : 15,
+    Muscular: physical ? 15 : 5,
+    Stocky: older ? 15 : 10,
+    Heavy: older ? 15 : 10
+  });
+}
+
+function inferHairColor(random: RandomSource, context: FeatureInferenceContext): string {
+  const age = context.age ?? 30;
+  if (age >= 65) return weightedPick(random, { Gray: 50, White: 35, 'Salt-and-pepper': 15 });
+  if (age >= 45) {
+    return weightedPick(random, { 'Salt-and-pepper': 30, Brown: 25, Black: 20, Gray: 15, Blonde: 10 });
+  }
+  return weightedPick(random, { Black: 30, 'Dark brown': 20, Brown: 25, Blonde: 15, Red: 5, 'Strawberry blonde': 2 });
+}
+
+function inferSkinTone(random: RandomSource, hairColor: string): string {
+  const lightHair = /blonde|red/i.test(hairColor);
+  return weightedPick(random, {
+    Pale: lightHair ? 25 : 8,
+    Fair: lightHair ? 40 : 18,
+    Olive: lightHair ? 10 : 18,
+    Tan: 15,
+    Brown: lightHair ? 5 : 20,
+    Dark: lightHair ? 2 : 16
+  });
+}
+
+function inferEyeColor(random: RandomSource, hairColor: string, skinTone: string): string {
+  const light = /blonde|red/i.test(hairColor) || /pale|fair/i.test(skinTone);
+  return weightedPick(random, {
+    Brown: light ? 20 : 45,
+    'Dark brown': light ? 5 : 20,
+    Blue: light ? 30 : 8,
+    Green: light ? 18 : 5,
+    Hazel: 12,
+    Gray: light ? 12 : 4,
+    Amber: 3
+  });
+}
@@ -0,0 +1,400 @@
+// Relationship Graph - Cross-character view of CharacterRelationship edges
+// Adds missing reciprocal edges, answers social queries and flags contradictions between linked characters
+
+import { CharacterRelationship, RelationshipType, UnifiedCharacterOntology } from '../types/character-types';
+import { inverseRoleFor, isInverseRole, normalizeRole } from './cast-extractor';
+import { SeededRandom } from './seeded-random';
+
+// ==================== CORE TYPES ====================
+
+export interface RelationshipEdge {
+  from: string; // Owner character id
+  to: string; // targetCharacterId
+  relationship: CharacterRelationship;
+}
+
+export type RelationshipIssueCode =
+  | 'missing_reciprocal'
+  | 'role_mismatch'
+  | 'duplicate_edge'
+  | 'dangling_target'
+  | 'family_age_gap'
+  | 'romance_with_minor';
+
+export interface RelationshipIssue {
+  code: RelationshipIssueCode;
+  severity: 'error' | 'warning';
+  characterIds: string[];
+  relationshipIds: string[];
+  message: string;
+}
+
+export interface ReciprocalEdge {
+  ownerId: string; // Character the reciprocal relationship should be added to
+  relationship: CharacterRelationship;
+  sourceRelationshipId: string;
+}
+
+export interface SocialPath {
+  characterIds: string[]; // From start to end, inclusive
+  edges: RelationshipEdge[]; // One per hop, in either direction
+}
+
+export interface RelationshipQuery {
+  type?: RelationshipType;
+  role?: string;
+  direction?: 'outgoing' | 'incoming' | 'both'; // Default both
+}
+
+// ==================== CONSTANTS ====================
+
+const AGE_OF_MAJORITY = 18;
+const MIN_GENERATION_GAP = 12; // Youngest plausible age difference per generation
+const MAX_SIBLING_GAP = 30;
+
+// Generations between the owner and the person the role names: "father" is one above, "grandson" two below
+const ROLE_GENERATIONS: Record<string, number> = {
+  father: 1, dad: 1, stepfather: 1, mother: 1, mom: 1, mum: 1, stepmother: 1, parent: 1,
+  son: -1, stepson: -1, daughter: -1, stepdaughter: -1, child: -1,
+  grandfather: 2, grandpa: 2, grandmother: 2, grandma: 2, grandparent: 2,
+  grandson: -2, granddaughter: -2, grandchild: -2,
+  brother: 0, stepbrother: 0, 'half-brother': 0, sister: 0, stepsister: 0, 'half-sister': 0, sibling: 0, twin: 0
+};
+
+// ==================== GRAPH ====================
+
+export class RelationshipGraph {
+  private characters = new Map<string, UnifiedCharacterOntology>();
+  private edges: RelationshipEdge[] = [];
+
+  constructor(characters: UnifiedCharacterOntology[]) {
+    for (const character of characters) {
+      this.characters.set(character.id, character);
+      for (const relationship of character.relationships) {
+        this.edges.push({ from: character.id, to: relationship.targetCharacterId, relationship });
+      }
+    }
+  }
+
+  listCharacters(): UnifiedCharacterOntology[] {
+    return Array.from(this.characters.values());
+  }
+
+  listEdges(): RelationshipEdge[] {
+    return [...this.edges];
+  }
+
+  edgesOf(characterId: string, direction: RelationshipQuery['direction'] = 'both'): RelationshipEdge[] {
+    return this.edges.filter((edge) =>
+      (direction !== 'incoming' && edge.from === characterId) ||
+      (direction !== 'outgoing' && edge.to === characterId)
+    );
+  }
+
+  /**
+   * Characters linked to `characterId` by matching edges, in either direction unless restricted
+   */
+  query(characterId: string, query: RelationshipQuery = {}): UnifiedCharacterOntology[] {
+    const role = query.role?.toLowerCase();
+    const ids = new Set(
+      this.edgesOf(characterId, query.direction)
+        .filter(({ relationship }) => !query.type || relationship.relationshipType === query.type)
+        .filter((edge) => !role || this.roleSeenFrom(edge, characterId) === role)
+        .map((edge) => (edge.from === characterId ? edge.to : edge.from))
+    );
+    return Array.from(ids).map((id) => this.characters.get(id)).filter(Boolean);
+  }
+
+  antagonistsOf(characterId: string): UnifiedCharacterOntology[] {
+    return this.query(characterId, { type: RelationshipType.ANTAGONISTIC });
+  }
+
+  familyOf(characterId: string): UnifiedCharacterOntology[] {
+    return this.query(characterId, { type: RelationshipType.FAMILY });
+  }
+
+  /**
+   * Fewest-hops path between two characters, following edges in either direction
+   */
+  shortestPath(fromId: string, toId: string, options: { types?: RelationshipType[]; maxDepth?: number } = {}): SocialPath | undefined {
+    if (!this.characters.has(fromId) || !this.characters.has(toId)) return undefined;
+    if (fromId === toId) return { characterIds: [fromId], edges: [] };
+
+    const usable = this.edges.filter(({ relationship }) => !options.types || options.types.includes(relationship.relationshipType));
+    const previous = new Map<string, { id: string; edge: RelationshipEdge }>();
+    const visited = new Set([fromId]);
+    let frontier = [fromId];
+
+    for (let depth = 0; frontier.length > 0 && depth < (options.maxDepth ?? Infinity); depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const edge of usable) {
+          const neighbour = edge.from === id ? edge.to : edge.to === id ? edge.from : undefined;
+          if (!neighbour || visited.has(neighbour) || !this.characters.has(neighbour)) continue;
+          visited.add(neighbour);
+          previous.set(neighbour, { id, edge });
+          if (neighbour === toId) return this.tracePath(previous, fromId, toId);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+    return undefined;
+  }
+
+  /**
+   * Reciprocal edges that are missing: for every edge A -> B there should be an edge B -> A of the same
+   * type, with the inverse role when the role is known ("mentor" becomes "protégé", "father" becomes "son")
+   */
+  findMissingReciprocals(): ReciprocalEdge[] {
+    return this.edges.flatMap((edge) => {
+      const owner = this.characters.get(edge.from);
+      const target = this.characters.get(edge.to);
+      if (!owner || !target || edge.from === edge.to) return [];
+      if (this.findReverse(edge)) return [];
+
+      const { relationship } = edge;
+      const role = relationship.role ? inverseRoleFor(relationship.role, owner.coreIdentity.gender) : undefined;
+      return [{
+        ownerId: target.id,
+        sourceRelationshipId: relationship.id,
+        relationship: {
+          // Derived from the source id so repeated syncs produce the same reciprocal
+          id: reciprocalIdFor(relationship.id),
+          targetCharacterId: owner.id,
+          relationshipType: relationship.relationshipType,
+          ...(role ? { role } : {}),
+          strength: relationship.strength,
+          description: role
+            ? `${owner.coreIdentity.name} is ${target.coreIdentity.name}'s ${role}`
+            : `${target.coreIdentity.name} and ${owner.coreIdentity.name} share a ${relationship.relationshipType.replace('_', '-')} relationship`,
+          history: relationship.history,
+          currentStatus: relationship.currentStatus,
+          emotionalTone: relationship.emotionalTone
+        }
+      }];
+    });
+  }
+
+  /**
+   * Edges on the target of `relationship` that answer it: the one derived from its id, or a reverse edge
+   * of the same type whose role reciprocates it
+   */
+  reciprocalsOf(ownerId: string, relationship: CharacterRelationship): RelationshipEdge[] {
+    const derivedId = reciprocalIdFor(relationship.id);
+    const gender = this.characters.get(ownerId)?.coreIdentity.gender;
+    return this.edges.filter(({ from, to, relationship: reverse }) =>
+      from === relationship.targetCharacterId && to === ownerId && (
+        reverse.id === derivedId || (
+          reverse.relationshipType === relationship.relationshipType &&
+          (!relationship.role || !reverse.role || isInverseRole(relationship.role, reverse.role, gender))
+        )
+      )
+    );
+  }
+
+  /**
+   * Reciprocals added for an edge whose type, role or target has since changed, found by the id they were
+   * derived from; they should be removed so findMissingReciprocals can add the up-to-date edge
+   */
+  findStaleReciprocals(): RelationshipEdge[] {
+    const byId = new Map(this.edges.map((edge) => [edge.relationship.id, edge]));
+    return this.edges.flatMap((source) => {
+      const reciprocal = byId.get(reciprocalIdFor(source.relationship.id));
+      if (!reciprocal) return [];
+      const { role, relationshipType } = source.relationship;
+      const answers =
+        reciprocal.from === source.to &&
+        reciprocal.to === source.from &&
+        reciprocal.relationship.relationshipType === relationshipType &&
+        // A role outside the table has no inverse, so the reciprocal was added without one
+        (!role || !normalizeRole(role) || (reciprocal.relationship.role !== undefined &&
+          isInverseRole(role, reciprocal.relationship.role, this.characters.get(source.from)?.coreIdentity.gender)));
+      return answers ? [] : [reciprocal];
+    });
+  }
+
+  /**
+   * Copies of every character with their missing reciprocal edges added; characters without changes are omitted
+   */
+  withReciprocals(): UnifiedCharacterOntology[] {
+    const additions = new Map<string, CharacterRelationship[]>();
+    for (const { ownerId, relationship } of this.findMissingReciprocals()) {
+      const pending = additions.get(ownerId) ?? [];
+      // Two one-sided edges between the same pair and type need only one reciprocal each way
+      if (!pending.some((existing) => existing.targetCharacterId === relationship.targetCharacterId && existing.relationshipType === relationship.relationshipType)) {
+        additions.set(ownerId, [...pending, relationship]);
+      }
+    }
+    return Array.from(additions.entries()).map(([ownerId, relationships]) => {
+      const character = this.characters.get(ownerId);
+      return { ...character, relationships: [...character.relationships, ...relationships] };
+    });
+  }
+
+  findContradictions(): RelationshipIssue[] {
+    return [
+      ...this.checkTargets(),
+      ...this.checkDuplicates(),
+      ...this.checkReciprocity(),
+      ...this.checkFamilyAges(),
+      ...this.checkRomanticAges()
+    ];
+  }
+
+  // ==================== CHECKS ====================
+
+  private checkTargets(): RelationshipIssue[] {
+    return this.edges
+      .filter((edge) => !this.characters.has(edge.to))
+      .map((edge) => issue('dangling_target', 'warning', [edge.from], [edge.relationship.id],
+        `${this.nameOf(edge.from)} has a relationship with unknown character ${edge.to}`));
+  }
+
+  private checkDuplicates(): RelationshipIssue[] {
+    const seen = new Map<string, RelationshipEdge>();
+    const issues: RelationshipIssue[] = [];
+    for (const edge of this.edges) {
+      const role = edge.relationship.role ? normalizeRole(edge.relationship.role) ?? edge.relationship.role.toLowerCase() : '';
+      const key = [edge.from, edge.to, edge.relationship.relationshipType, role].join('|');
+      const first = seen.get(key);
+      if (first) {
+        issues.push(issue('duplicate_edge', 'warning', [edge.from, edge.to], [first.relationship.id, edge.relationship.id],
+          `${this.nameOf(edge.from)} has more than one ${edge.relationship.role ?? edge.relationship.relationshipType} relationship with ${this.nameOf(edge.to)}`));
+      } else {
+        seen.set(key, edge);
+      }
+    }
+    return issues;
+  }
+
+  private checkReciprocity(): RelationshipIssue[] {
+    const issues = this.findMissingReciprocals().map(({ ownerId, relationship, sourceRelationshipId }) =>
+      issue('missing_reciprocal', 'warning', [relationship.targetCharacterId, ownerId], [sourceRelationshipId],
+        `${this.nameOf(relationship.targetCharacterId)} links to ${this.nameOf(ownerId)}, but not the other way round`));
+
+    for (const pair of this.edges) {
+      const other = this.findReverse(pair);
+      if (!other || !pair.relationship.role || !other.relationship.role || pair.from > pair.to) continue;
+      // Check both directions and report the one that fails, so the expected role names the right person
+      const failing = [[pair, other], [other, pair]].find(([edge, reverse]) => !this.rolesReciprocate(edge, reverse));
+      if (!failing) continue;
+      const [edge, reverse] = failing;
+      const expected = inverseRoleFor(edge.relationship.role, this.characters.get(edge.from)?.coreIdentity.gender);
+      issues.push(issue('role_mismatch', 'warning', [edge.from, edge.to], [edge.relationship.id, reverse.relationship.id],
+        `${this.nameOf(edge.to)} is ${this.nameOf(edge.from)}'s ${edge.relationship.role}, but ${this.nameOf(edge.from)} is recorded as ${this.nameOf(edge.to)}'s ${reverse.relationship.role} (expected ${expected})`));
+    }
+    return issues;
+  }
+
+  private checkFamilyAges(): RelationshipIssue[] {
+    return this.edges.flatMap((edge) => {
+      const role = edge.relationship.role ? normalizeRole(edge.relationship.role) : undefined;
+      const generations = role !== undefined ? ROLE_GENERATIONS[role] : undefined;
+      const owner = this.characters.get(edge.from);
+      const target = this.characters.get(edge.to);
+      if (generations === undefined || !owner || !target) return [];
+      // A pair that records the family role on both sides is reported once
+      const reverse = this.findReverse(edge);
+      const reverseRole = reverse?.relationship.role ? normalizeRole(reverse.relationship.role) : undefined;
+      if (reverseRole !== undefined && ROLE_GENERATIONS[reverseRole] !== undefined && edge.from > edge.to) return [];
+
+      // Positive when the target is older than the owner
+      const gap = target.coreIdentity.age - owner.coreIdentity.age;
+      const minimum = Math.abs(generations) * MIN_GENERATION_GAP;
+      const names = `${target.coreIdentity.name} (${target.coreIdentity.age}) is ${owner.coreIdentity.name}'s (${owner.coreIdentity.age}) ${role}`;
+
+      if (generations !== 0 && gap * Math.sign(generations) < minimum) {
+        return [issue('family_age_gap', 'error', [edge.from, edge.to], [edge.relationship.id],
+          `${names}, but a ${role} should be at least ${minimum} years ${generations > 0 ? 'older' : 'younger'}`)];
+      }
+      if (generations === 0 && Math.abs(gap) > MAX_SIBLING_GAP) {
+        return [issue('family_age_gap', 'warning', [edge.from, edge.to], [edge.relationship.id],
+          `${names}, ${Math.abs(gap)} years apart`)];
+      }
+      return [];
+    });
+  }
+
+  private checkRomanticAges(): RelationshipIssue[] {
+    return this.edges.flatMap((edge) => {
+      const owner = this.characters.get(edge.from);
+      const target = this.characters.get(edge.to);
+      if (edge.relationship.relationshipType !== RelationshipType.ROMANTIC || !owner || !target) return [];
+      // Each pair is reported once, from whichever side sorts first
+      const reverse = this.findReverse(edge);
+      if (reverse && edge.from > edge.to) return [];
+
+      const minors = [owner, target].filter((character) => character.coreIdentity.age < AGE_OF_MAJORITY);
+      if (minors.length === 0) return [];
+
+      const relationshipIds = [edge.relationship.id, ...(reverse ? [reverse.relationship.id] : [])];
+      return [issue('romance_with_minor', minors.length === 1 ? 'error' : 'warning', [edge.from, edge.to], relationshipIds,
+        `${owner.coreIdentity.name} (${owner.coreIdentity.age}) and ${target.coreIdentity.name} (${target.coreIdentity.age}) have a romantic relationship, but ${minors.map((minor) => minor.coreIdentity.name).join(' and ')} ${minors.length === 1 ? 'is' : 'are'} under ${AGE_OF_MAJORITY}`)];
+    });
+  }
+
+  // ==================== HELPERS ====================
+
+  private findReverse(edge: RelationshipEdge): RelationshipEdge | undefined {
+    return this.edges.find((candidate) =>
+      candidate.from === edge.to &&
+      candidate.to === edge.from &&
+      candidate.relationship.relationshipType === edge.relationship.relationshipType
+    );
+  }
+
+  /**
+   * Whether the reverse edge's role answers this edge's role, by the same table findMissingReciprocals uses
+   */
+  private rolesReciprocate(edge: RelationshipEdge, reverse: RelationshipEdge): boolean {
+    // A role outside the table cannot be checked, so it is not reported either
+    if (!normalizeRole(edge.relationship.role) || !normalizeRole(reverse.relationship.role)) return true;
+    return isInverseRole(edge.relationship.role, reverse.relationship.role, this.characters.get(edge.from)?.coreIdentity.gender);
+  }
+
+  /**
+   * Role of the other character as seen from `characterId`, inverting incoming edges
+   */
+  private roleSeenFrom(edge: RelationshipEdge, characterId: string): string | undefined {
+    const role = edge.relationship.role && (normalizeRole(edge.relationship.role) ?? edge.relationship.role.toLowerCase());
+    if (!role || edge.from === characterId) return role;
+    return inverseRoleFor(role, this.characters.get(edge.from)?.coreIdentity.gender);
+  }
+
+  private tracePath(previous: Map<string, { id: string; edge: RelationshipEdge }>, fromId: string, toId: string): SocialPath {
+    const characterIds = [toId];
+    const edges: RelationshipEdge[] = [];
+    let current = toId;
+    while (current !== fromId) {
+      const step = previous.get(current);
+      edges.unshift(step.edge);
+      characterIds.unshift(step.id);
+      current = step.id;
+    }
+    return { characterIds, edges };
+  }
+
+  private nameOf(characterId: string): string {
+    return this.characters.get(characterId)?.coreIdentity.name ?? characterId;
+  }
+}
+
+// ==================== HELPERS ====================
+
+function issue(
+  code: RelationshipIssueCode,
+  severity: RelationshipIssue['severity'],
+  characterIds: string[],
+  relationshipIds: string[],
+  message: string
+): RelationshipIssue {
+  return { code, severity, characterIds, relationshipIds, message };
+}
+
+/**
+ * Id of the reciprocal findMissingReciprocals adds for a relationship
+ */
+function reciprocalIdFor(relationshipId: string): string {
+  return `rel_${new SeededRandom(`${relationshipId}:reciprocal`).nextString(12)}`;
+}
@@ -0,0 +1,66 @@
+// Seeded Random - Deterministic pseudo-random numbers for reproducible character generation
+// Same seed in, same character out: facial vectors, voice DNA and ids no longer depend on Math.random()
+
+export interface RandomSource {
+  next(): number; // Uniform float in [0, 1)
+  nextInt(maxExclusive: number): number;
+  pick<T>(items: readonly T[]): T;
+  nextString(length: number): string; // Lowercase base-36 characters
+}
+
+/**
+ * FNV-1a hash turning any seed string into a 32-bit PRNG state
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 generator: tiny, fast and good enough for procedural content (not for cryptography)
+ */
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(seed: string | number) {
+    this.state = hashSeed(String(seed));
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let value = this.state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  }
+
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  nextString(length: number): string {
+    return Array.from({ length }, () => this.nextInt(36).toString(36)).join('');
+  }
+}
+
+/**
+ * Fresh seed for callers that did not ask for one, so every character can still be regenerated later
+ */
+export function createRandomSeed(): string {
+  return Math.random().toString(36).slice(2, 12);
+}
+
+/**
+ * Seed for one independently re-rollable section of a character
+ */
+export function deriveSectionSeed(seed: string, section: string): string {
+  return `${seed}:${section}`;
+}
@@ -11,6 +11,9 @@ export interface UnifiedCharacterOntology {
     name: string;
     age: number;
     gender: string;
+    pronouns?: string; // e.g. "she/her"
+    title?: string; // e.g. "Dr.", "Captain"
+    nickname?: string;
     species: string;
     occupation: string;
     background: string;
@@ -43,6 +46,7 @@ export interface UnifiedCharacterOntology {
       eyeColor: string;
       skinTone: string;
       distinctiveFeatures: string[];
+      provenance?: Partial<Record<PhysicalFeatureField, FeatureProvenance>>; // Which fields the description stated
     };
     styleProfile: {
       fashionStyle: string;
@@ -96,6 +100,7 @@ export interface UnifiedCharacterOntology {
     motivations: string[];
     fears: string[];
     desires: string[];
+    timeline?: LifeTimeline; // Structured source the fields above are rendered from
   };
   
   // Skills and Abilities
@@ -106,12 +111,77 @@ export interface UnifiedCharacterOntology {
     languages: string[];
     hobbies: string[];
   };
+
+  // Revision history, newest last
+  changelog?: CharacterChangelogEntry[];
+
+  // Seeds used to generate the character, for exact regeneration or per-section re-rolls
+  generation?: CharacterGenerationSeed;
+
+  // Data for other tools, keyed by tool, e.g. Character Card fields the ontology has no slot for
+  extensions?: Record<string, unknown>;
+
+  // The template the character was created from and what it last applied, so upstream changes can be offered
+  template?: CharacterTemplateBinding;
+}
+
+export type GenerationSection = 'id' | 'facialVector' | 'voiceDNA' | 'physicalFeatures' | 'backstory';
+
+export type LifeEventCategory = 'birth' | 'childhood' | 'education' | 'career' | 'formative' | 'personal' | 'recent';
+
+export interface LifeEvent {
+  age: number;
+  year?: number; // Calendar year, only for modern-day characters
+  category: LifeEventCategory;
+  title: string;
+  impact: 'positive' | 'negative' | 'mixed' | 'neutral';
+  drivenBy?: string; // The archetype motivation or fear this event explains
+}
+
+export interface LifeTimeline {
+  birthYear?: number;
+  hometown: string;
+  upbringing: string;
+  events: LifeEvent[]; // Ordered by age
+  conflicts?: string[]; // What the timeline could not honour, e.g. an occupation the character is too young to have qualified for
+}
+
+export type PhysicalFeatureField = 'height' | 'build' | 'hairColor' | 'eyeColor' | 'skinTone';
+
+// Stated features come from the source text; inferred ones were generated to fill gaps
+export type FeatureProvenance = 'stated' | 'inferred';
+
+export interface CharacterGenerationSeed {
+  seed: string;
+  sectionSeeds: Record<GenerationSection, string>;
+  referenceYear?: number; // Year ages and calendar dates were computed against; absent on older characters
+}
+
+export type CharacterChangeLevel = 'major' | 'minor' | 'patch';
+
+export interface CharacterChangelogEntry {
+  version: string;
+  previousVersion: string;
+  timestamp: Date;
+  author: string;
+  changeLevel: CharacterChangeLevel;
+  summary: string;
+  changedFields: string[];
+}
+
+export interface CharacterTemplateBinding {
+  templateId: string;
+  chain: Array<{ templateId: string; version: number }>; // Root template first, at the versions last applied
+  slots: Record<string, string>; // Values the slot placeholders were filled with
+  applied: Array<{ path: string; value: unknown }>; // Every field the template set, e.g. "coreIdentity.occupation"
+  locked: string[];
 }
 
 export interface CharacterRelationship {
   id: string;
   targetCharacterId: string;
   relationshipType: RelationshipType;
+  role?: string; // What the target is to this character, e.g. "brother", "mentor"
   strength: number; // 0-100
   description: string;
   history: string;
@@ -313,7 +383,7 @@ export interface CharacterCastingInfo {
   characterId: string;
   role: string;
   importance: 'lead' | 'supporting' | 'background';
-  screenTime: number;
+  screenTime: number; // Seconds
   sceneCount: number;
   dialogueLines: number;
   requirements: string[];
@@ -324,7 +394,7 @@ export interface SceneCastingInfo {
   characters: string[];
   location: string;
   requirements: string[];
-  estimatedDuration: number;
+  estimatedDuration: number; // Seconds
 }
 
 export interface CastingRequirements {